@@ -0,0 +1,46 @@
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { findLanguage } from "../src/data/languages";
+import {
+  countTrigrams,
+  PROFILE_SIZE,
+  rankTrigrams,
+} from "../src/utils/trigramClassifier";
+
+const SAMPLES_DIRECTORY = join("scripts", "language-samples");
+const OUTPUT = join("src", "data", "trigramProfiles.ts");
+
+const samples = readdirSync(SAMPLES_DIRECTORY)
+  .filter((file) => file.endsWith(".txt"))
+  .sort();
+if (!samples.length) throw new Error(`No samples found in ${SAMPLES_DIRECTORY}.`);
+
+const entries = samples.map((file) => {
+  const language = basename(file, ".txt");
+  if (!findLanguage(language)) {
+    throw new Error(`${file} does not name a registry language.`);
+  }
+  const profile = rankTrigrams(
+    countTrigrams(readFileSync(join(SAMPLES_DIRECTORY, file), "utf8")),
+  ).slice(0, PROFILE_SIZE);
+  if (profile.some((trigram) => trigram.includes("|"))) {
+    throw new Error(`${file} produced a trigram containing the separator.`);
+  }
+  const key = /^[a-z]+$/.test(language) ? language : JSON.stringify(language);
+  return `  ${key}: ${JSON.stringify(profile.join("|"))},`;
+});
+
+writeFileSync(
+  OUTPUT,
+  [
+    "// Generated by scripts/build-trigram-profiles.ts from scripts/language-samples.",
+    "// Each profile lists a language's most frequent character trigrams, most",
+    '// frequent first, separated by "|". Regenerate instead of editing by hand.',
+    "export const TRIGRAM_PROFILES: Record<string, string> = {",
+    ...entries,
+    "};",
+    "",
+  ].join("\n"),
+);
+
+console.log(`Wrote ${entries.length} profiles to ${OUTPUT}.`);
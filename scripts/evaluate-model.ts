@@ -1,19 +1,35 @@
-import { TRANSLATION_CONFIG } from "../src/config/constants";
-import { languageOptions } from "../src/data/constants";
+import { readFileSync } from "node:fs";
+import {
+  DEFAULT_PROVIDER_ENDPOINTS,
+  TRANSLATION_CONFIG,
+} from "../src/config/constants";
+import { LANGUAGES } from "../src/data/languages";
+import { findGlossaryMatches, getGlossaryEntries } from "../src/services/glossary";
+import { getInferenceProvider } from "../src/services/inferenceProviders";
 import { fetchTranslation } from "../src/services/ollamaApi";
+import {
+  maskPlaceholders,
+  restorePlaceholders,
+} from "../src/services/placeholderMasking";
 import {
   createDetectionPrompt,
   createTranslationPrompt,
 } from "../src/services/translationPrompts";
 import { normalizeTranslationResponse } from "../src/services/translationResponse";
-import type { OllamaMessage } from "../src/types";
+import type { Glossary, OllamaMessage, ProviderEndpoint } from "../src/types";
 import {
   detectMixedLanguageSignal,
   getStrongLanguageSignal,
   normalizeDetectedLanguageCode,
 } from "../src/utils/languageDetection";
 
-type DetectionCategory = "clear" | "close-pair" | "short" | "mixed" | "unknown";
+type DetectionCategory =
+  | "clear"
+  | "close-pair"
+  | "script"
+  | "short"
+  | "mixed"
+  | "unknown";
 type TranslationVariant = "current" | "legacy";
 
 type DetectionFixture = {
@@ -159,6 +175,190 @@ const detectionFixtures: DetectionFixture[] = [
     manualSource: "es",
     expectedMismatch: true,
   },
+  {
+    id: "ko-meeting",
+    category: "script",
+    text: "오늘 회의는 오후 세 시에 시작합니다.",
+    expected: "ko",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ja-meeting",
+    category: "script",
+    text: "明日の会議は午後三時に始まります。",
+    expected: "ja",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "zh-meeting",
+    category: "script",
+    text: "明天的会议下午三点开始。",
+    expected: "zh",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "zh-hant-meeting",
+    category: "script",
+    text: "明天的會議下午三點開始。",
+    expected: "zh-Hant",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "hi-meeting",
+    category: "script",
+    text: "कल की बैठक दोपहर तीन बजे शुरू होगी और सब आएंगे।",
+    expected: "hi",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "mr-meeting",
+    category: "script",
+    text: "उद्याची बैठक दुपारी तीन वाजता सुरू होणार आहे.",
+    expected: "mr",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ar-meeting",
+    category: "script",
+    text: "سيبدأ الاجتماع غدا في الساعة الثالثة بعد الظهر.",
+    expected: "ar",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "fa-meeting",
+    category: "script",
+    text: "جلسه فردا ساعت سه بعدازظهر شروع می‌شود.",
+    expected: "fa",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ur-meeting",
+    category: "script",
+    text: "کل کی میٹنگ دوپہر تین بجے شروع ہوگی۔",
+    expected: "ur",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ru-meeting",
+    category: "script",
+    text: "Завтрашнее совещание начнётся в три часа дня.",
+    expected: "ru",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "uk-meeting",
+    category: "script",
+    text: "Завтрашня нарада почнеться о третій годині дня.",
+    expected: "uk",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "sr-meeting",
+    category: "script",
+    text: "Састанак ће почети сутра у три сата поподне.",
+    expected: "sr",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "bg-meeting",
+    category: "script",
+    text: "Срещата ще бъде утре в три часа следобед.",
+    expected: "bg",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "el-meeting",
+    category: "script",
+    text: "Η σύσκεψη θα ξεκινήσει αύριο στις τρεις το απόγευμα.",
+    expected: "el",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "he-meeting",
+    category: "script",
+    text: "הפגישה תתחיל מחר בשלוש אחר הצהריים.",
+    expected: "he",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "th-meeting",
+    category: "script",
+    text: "การประชุมจะเริ่มพรุ่งนี้ตอนบ่ายสามโมง",
+    expected: "th",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "bn-meeting",
+    category: "script",
+    text: "আগামীকাল বিকেল তিনটায় সভা শুরু হবে।",
+    expected: "bn",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "gu-meeting",
+    category: "script",
+    text: "આવતીકાલે બપોરે ત્રણ વાગ્યે બેઠક શરૂ થશે.",
+    expected: "gu",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "pa-meeting",
+    category: "script",
+    text: "ਮੀਟਿੰਗ ਕੱਲ੍ਹ ਦੁਪਹਿਰ ਤਿੰਨ ਵਜੇ ਸ਼ੁਰੂ ਹੋਵੇਗੀ।",
+    expected: "pa",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "kn-meeting",
+    category: "script",
+    text: "ಸಭೆ ನಾಳೆ ಮಧ್ಯಾಹ್ನ ಮೂರು ಗಂಟೆಗೆ ಆರಂಭವಾಗುತ್ತದೆ.",
+    expected: "kn",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ml-meeting",
+    category: "script",
+    text: "യോഗം നാളെ ഉച്ചയ്ക്ക് മൂന്ന് മണിക്ക് ആരംഭിക്കും.",
+    expected: "ml",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "ta-meeting",
+    category: "script",
+    text: "கூட்டம் நாளை மதியம் மூன்று மணிக்கு தொடங்கும்.",
+    expected: "ta",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
+  {
+    id: "te-meeting",
+    category: "script",
+    text: "సమావేశం రేపు మధ్యాహ్నం మూడు గంటలకు ప్రారంభమవుతుంది.",
+    expected: "te",
+    manualSource: "es",
+    expectedMismatch: true,
+  },
   {
     id: "unknown-numbers",
     category: "unknown",
@@ -335,18 +535,57 @@ const responseContractFixtures: ResponseContractFixture[] = [
 ];
 
 const languageLabels = Object.fromEntries(
-  languageOptions.map(({ value, label }) => [value, label]),
+  LANGUAGES.map(({ code, name }) => [code, name]),
 );
 
 const getModelReference = (): string | null => {
   const configuredModel = process.env.INTERLINGUA_EVAL_MODEL?.trim();
   if (!configuredModel) return null;
-  if (/^(ollama|llamacpp):/.test(configuredModel)) return configuredModel;
+  if (/^(ollama|llamacpp|openai-compatible):/.test(configuredModel)) {
+    return configuredModel;
+  }
 
   const provider = process.env.INTERLINGUA_EVAL_PROVIDER?.trim() || "llamacpp";
   return `${provider}:${configuredModel}`;
 };
 
+const getEvaluationEndpoints = (): ProviderEndpoint[] => {
+  const baseUrl = process.env.INTERLINGUA_EVAL_BASE_URL?.trim().replace(/\/+$/, "");
+  const provider = process.env.INTERLINGUA_EVAL_PROVIDER?.trim() || "llamacpp";
+  const apiKey = process.env.INTERLINGUA_EVAL_API_KEY?.trim();
+  const adapter = getInferenceProvider(provider);
+  const endpoints: ProviderEndpoint[] =
+    adapter && !DEFAULT_PROVIDER_ENDPOINTS.some(({ id }) => id === provider)
+      ? [
+          ...DEFAULT_PROVIDER_ENDPOINTS,
+          {
+            id: adapter.id,
+            provider: adapter.id,
+            label: adapter.label,
+            baseUrl: adapter.defaultBaseUrl,
+          },
+        ]
+      : [...DEFAULT_PROVIDER_ENDPOINTS];
+  return endpoints.map((endpoint) =>
+    endpoint.provider === provider
+      ? {
+          ...endpoint,
+          ...(baseUrl ? { baseUrl } : {}),
+          ...(apiKey ? { apiKey } : {}),
+        }
+      : endpoint,
+  );
+};
+
+const evaluationEndpoints = getEvaluationEndpoints();
+
+const loadEvaluationGlossary = (): Glossary => {
+  const path = process.env.INTERLINGUA_EVAL_GLOSSARY?.trim();
+  return path ? (JSON.parse(readFileSync(path, "utf8")) as Glossary) : {};
+};
+
+const evaluationGlossary = loadEvaluationGlossary();
+
 const average = (values: number[]): number =>
   values.length
     ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
@@ -476,6 +715,7 @@ const runDetection = async (model: string): Promise<DetectionResult[]> => {
         model,
         messages: createDetectionPrompt(fixture.text),
         options: TRANSLATION_CONFIG.AI_PARAMS,
+        endpoints: evaluationEndpoints,
       });
       const modelCode = normalizeDetectedLanguageCode(raw);
       const wordCount = fixture.text.trim().split(/\s+/).filter(Boolean).length;
@@ -529,15 +769,28 @@ const runTranslations = async (
 
   for (const fixture of translationFixtures) {
     const alternatives = fixture.alternatives ?? false;
+    const glossary = findGlossaryMatches(
+      fixture.text,
+      getGlossaryEntries(evaluationGlossary, fixture.source, fixture.target),
+    );
+    const requiredTokens = [
+      ...fixture.requiredTokens,
+      ...glossary.map(({ target }) => target),
+    ];
+    const masked =
+      variant === "current"
+        ? maskPlaceholders(fixture.text)
+        : { text: fixture.text, placeholders: [] };
     const messages =
       variant === "current"
         ? createTranslationPrompt(
-            fixture.text,
+            masked.text,
             fixture.source,
             fixture.target,
             languageLabels,
             alternatives,
             TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
+            { glossary },
           )
         : createLegacyTranslationPrompt(
             fixture.text,
@@ -553,6 +806,7 @@ const runTranslations = async (
         model,
         messages,
         options: TRANSLATION_CONFIG.AI_PARAMS,
+        endpoints: evaluationEndpoints,
       });
       const normalized = normalizeTranslationResponse(
         raw,
@@ -560,8 +814,11 @@ const runTranslations = async (
         alternatives,
         fixture.sourceHasCodeFences ?? false,
       );
-      const normalizedPrimary = normalized.primary.toLowerCase();
-      const matchedTokens = fixture.requiredTokens.filter((token) =>
+      const normalizedPrimary = restorePlaceholders(
+        normalized.primary,
+        masked.placeholders,
+      ).toLowerCase();
+      const matchedTokens = requiredTokens.filter((token) =>
         normalizedPrimary.includes(token.toLowerCase()),
       );
       const matchedTokenGroups = (fixture.requiredTokenGroups ?? []).filter((group) =>
@@ -569,10 +826,10 @@ const runTranslations = async (
       );
       results.push({
         id: fixture.id,
-        requiredTokens: fixture.requiredTokens,
+        requiredTokens,
         matchedTokens,
         fidelityPass:
-          matchedTokens.length === fixture.requiredTokens.length &&
+          matchedTokens.length === requiredTokens.length &&
           matchedTokenGroups.length === (fixture.requiredTokenGroups?.length ?? 0),
         fenceLeak: raw.includes("```"),
         instructionEcho: raw.includes("For short expressions"),
@@ -582,7 +839,7 @@ const runTranslations = async (
     } catch (error) {
       results.push({
         id: fixture.id,
-        requiredTokens: fixture.requiredTokens,
+        requiredTokens,
         matchedTokens: [],
         fidelityPass: false,
         fenceLeak: false,
@@ -624,7 +881,7 @@ const summarizeDetection = (results: DetectionResult[]) => {
     mixedAbstentions: results.filter(({ strategy }) => strategy === "mixed").length,
     modelRequests: results.filter(({ strategy }) => strategy === "model").length,
     byCategory: Object.fromEntries(
-      ["clear", "close-pair", "short", "mixed", "unknown"].map((category) => {
+      ["clear", "close-pair", "script", "short", "mixed", "unknown"].map((category) => {
         const cases = results.filter(({ category: actual }) => actual === category);
         return [
           category,
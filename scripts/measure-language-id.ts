@@ -0,0 +1,336 @@
+import {
+  classifyTrigrams,
+  detectTrigramLanguage,
+} from "../src/utils/trigramClassifier";
+
+type LanguageIdFixture = {
+  language: string;
+  text: string;
+};
+
+// Held out from scripts/language-samples: a short, a medium, and a two-sentence
+// text per profiled language.
+const fixtures: LanguageIdFixture[] = [
+  { language: "ca", text: "Demà plourà tota la tarda." },
+  {
+    language: "ca",
+    text: "La reunió s'ha ajornat fins dilluns perquè falten dos membres de l'equip.",
+  },
+  {
+    language: "ca",
+    text: "Vaig perdre les claus de casa i vaig haver de trucar al meu germà. Per sort, ell en tenia una còpia i va venir de seguida.",
+  },
+  { language: "cs", text: "Zítra bude celý den pršet." },
+  {
+    language: "cs",
+    text: "Schůzka byla odložena na pondělí, protože chybí dva členové týmu.",
+  },
+  {
+    language: "cs",
+    text: "Ztratil jsem klíče od domu a musel jsem zavolat bratrovi. Naštěstí měl náhradní a hned přijel.",
+  },
+  { language: "da", text: "I morgen regner det hele eftermiddagen." },
+  {
+    language: "da",
+    text: "Mødet er blevet udsat til mandag, fordi to medlemmer af holdet mangler.",
+  },
+  {
+    language: "da",
+    text: "Jeg mistede mine nøgler og måtte ringe til min bror. Heldigvis havde han en ekstra nøgle og kom med det samme.",
+  },
+  { language: "de", text: "Morgen regnet es den ganzen Nachmittag." },
+  {
+    language: "de",
+    text: "Das Treffen wurde auf Montag verschoben, weil zwei Mitglieder des Teams fehlen.",
+  },
+  {
+    language: "de",
+    text: "Ich habe meinen Hausschlüssel verloren und musste meinen Bruder anrufen. Zum Glück hatte er einen zweiten Schlüssel und kam sofort vorbei.",
+  },
+  { language: "en", text: "It will rain all afternoon tomorrow." },
+  {
+    language: "en",
+    text: "The meeting has been moved to Monday because two members of the team are away.",
+  },
+  {
+    language: "en",
+    text: "I lost my house keys and had to call my brother. Luckily he had a spare set and came over straight away.",
+  },
+  { language: "es", text: "Mañana lloverá toda la tarde." },
+  {
+    language: "es",
+    text: "La reunión se ha aplazado hasta el lunes porque faltan dos miembros del equipo.",
+  },
+  {
+    language: "es",
+    text: "Perdí las llaves de casa y tuve que llamar a mi hermano. Por suerte, él tenía una copia y vino enseguida.",
+  },
+  { language: "et", text: "Homme sajab terve pärastlõuna vihma." },
+  {
+    language: "et",
+    text: "Koosolek lükati esmaspäevale, sest kaks meeskonnaliiget puuduvad.",
+  },
+  {
+    language: "et",
+    text: "Kaotasin oma kodu võtmed ja pidin helistama vennale. Õnneks oli tal varuvõti ja ta tuli kohe kohale.",
+  },
+  { language: "fi", text: "Huomenna sataa koko iltapäivän." },
+  {
+    language: "fi",
+    text: "Kokous siirrettiin maanantaille, koska kaksi tiimin jäsentä puuttuu.",
+  },
+  {
+    language: "fi",
+    text: "Hukkasin kotiavaimeni ja jouduin soittamaan veljelleni. Onneksi hänellä oli vara-avain ja hän tuli heti paikalle.",
+  },
+  { language: "fil", text: "Uulan buong hapon bukas." },
+  {
+    language: "fil",
+    text: "Inilipat sa Lunes ang pulong dahil wala ang dalawang miyembro ng grupo.",
+  },
+  {
+    language: "fil",
+    text: "Nawala ko ang susi ng bahay kaya kinailangan kong tawagan ang kapatid ko. Mabuti na lang at may reserba siyang susi at agad siyang dumating.",
+  },
+  { language: "fr", text: "Demain, il pleuvra tout l'après-midi." },
+  {
+    language: "fr",
+    text: "La réunion a été reportée à lundi parce que deux membres de l'équipe sont absents.",
+  },
+  {
+    language: "fr",
+    text: "J'ai perdu les clés de la maison et j'ai dû appeler mon frère. Heureusement, il en avait un double et il est venu tout de suite.",
+  },
+  { language: "hr", text: "Sutra će kišiti cijelo poslijepodne." },
+  {
+    language: "hr",
+    text: "Sastanak je odgođen za ponedjeljak jer nedostaju dva člana tima.",
+  },
+  {
+    language: "hr",
+    text: "Izgubio sam ključeve od kuće i morao sam nazvati brata. Srećom, imao je rezervni ključ i odmah je došao.",
+  },
+  { language: "hu", text: "Holnap egész délután esni fog." },
+  {
+    language: "hu",
+    text: "A megbeszélést hétfőre halasztották, mert a csapat két tagja hiányzik.",
+  },
+  {
+    language: "hu",
+    text: "Elvesztettem a lakáskulcsomat, és fel kellett hívnom a bátyámat. Szerencsére volt nála pótkulcs, és azonnal átjött.",
+  },
+  { language: "id", text: "Besok akan hujan sepanjang sore." },
+  {
+    language: "id",
+    text: "Rapat ditunda sampai hari Senin karena dua anggota tim tidak hadir.",
+  },
+  {
+    language: "id",
+    text: "Saya kehilangan kunci rumah dan harus menelepon kakak saya. Untungnya dia punya kunci cadangan dan langsung datang.",
+  },
+  { language: "is", text: "Á morgun mun rigna allan eftirmiðdaginn." },
+  {
+    language: "is",
+    text: "Fundinum var frestað til mánudags vegna þess að tvo úr teyminu vantar.",
+  },
+  {
+    language: "is",
+    text: "Ég týndi húslyklunum og þurfti að hringja í bróður minn. Sem betur fer átti hann aukalykil og kom strax.",
+  },
+  { language: "it", text: "Domani pioverà tutto il pomeriggio." },
+  {
+    language: "it",
+    text: "La riunione è stata rinviata a lunedì perché mancano due membri della squadra.",
+  },
+  {
+    language: "it",
+    text: "Ho perso le chiavi di casa e ho dovuto chiamare mio fratello. Per fortuna aveva una copia ed è arrivato subito.",
+  },
+  { language: "lt", text: "Rytoj visą popietę lis." },
+  {
+    language: "lt",
+    text: "Susitikimas atidėtas iki pirmadienio, nes trūksta dviejų komandos narių.",
+  },
+  {
+    language: "lt",
+    text: "Pamečiau namų raktus ir turėjau paskambinti broliui. Laimei, jis turėjo atsarginį raktą ir iškart atvažiavo.",
+  },
+  { language: "lv", text: "Rīt visu pēcpusdienu līs." },
+  {
+    language: "lv",
+    text: "Sanāksme ir pārcelta uz pirmdienu, jo trūkst divu komandas locekļu.",
+  },
+  {
+    language: "lv",
+    text: "Es pazaudēju mājas atslēgas un man bija jāzvana brālim. Par laimi, viņam bija rezerves atslēga un viņš uzreiz atbrauca.",
+  },
+  { language: "nl", text: "Morgen regent het de hele middag." },
+  {
+    language: "nl",
+    text: "De vergadering is verplaatst naar maandag omdat twee leden van het team ontbreken.",
+  },
+  {
+    language: "nl",
+    text: "Ik ben mijn huissleutels kwijtgeraakt en moest mijn broer bellen. Gelukkig had hij een reservesleutel en kwam hij meteen langs.",
+  },
+  { language: "no", text: "I morgen regner det hele ettermiddagen." },
+  {
+    language: "no",
+    text: "Møtet er utsatt til mandag fordi to av medlemmene i teamet mangler.",
+  },
+  {
+    language: "no",
+    text: "Jeg mistet husnøklene mine og måtte ringe broren min. Heldigvis hadde han en ekstra nøkkel og kom med en gang.",
+  },
+  { language: "pl", text: "Jutro będzie padać przez całe popołudnie." },
+  {
+    language: "pl",
+    text: "Spotkanie przełożono na poniedziałek, ponieważ brakuje dwóch członków zespołu.",
+  },
+  {
+    language: "pl",
+    text: "Zgubiłem klucze do domu i musiałem zadzwonić do brata. Na szczęście miał zapasowy klucz i od razu przyjechał.",
+  },
+  { language: "pt", text: "Amanhã vai chover a tarde toda." },
+  {
+    language: "pt",
+    text: "A reunião foi adiada para segunda-feira porque faltam dois membros da equipa.",
+  },
+  {
+    language: "pt",
+    text: "Perdi as chaves de casa e tive de ligar ao meu irmão. Felizmente, ele tinha uma cópia e veio logo.",
+  },
+  { language: "ro", text: "Mâine va ploua toată după-amiaza." },
+  {
+    language: "ro",
+    text: "Ședința a fost amânată pentru luni, pentru că lipsesc doi membri ai echipei.",
+  },
+  {
+    language: "ro",
+    text: "Mi-am pierdut cheile de la casă și a trebuit să-l sun pe fratele meu. Din fericire, avea o cheie de rezervă și a venit imediat.",
+  },
+  { language: "sk", text: "Zajtra bude celé popoludnie pršať." },
+  {
+    language: "sk",
+    text: "Stretnutie sa presunulo na pondelok, pretože chýbajú dvaja členovia tímu.",
+  },
+  {
+    language: "sk",
+    text: "Stratil som kľúče od domu a musel som zavolať bratovi. Našťastie mal náhradný kľúč a hneď prišiel.",
+  },
+  { language: "sl", text: "Jutri bo deževalo vse popoldne." },
+  {
+    language: "sl",
+    text: "Sestanek je bil prestavljen na ponedeljek, ker manjkata dva člana ekipe.",
+  },
+  {
+    language: "sl",
+    text: "Izgubil sem ključe od hiše in moral sem poklicati brata. Na srečo je imel rezervni ključ in je takoj prišel.",
+  },
+  { language: "sv", text: "I morgon regnar det hela eftermiddagen." },
+  {
+    language: "sv",
+    text: "Mötet har flyttats till måndag eftersom två medlemmar i gruppen saknas.",
+  },
+  {
+    language: "sv",
+    text: "Jag tappade mina husnycklar och var tvungen att ringa min bror. Som tur var hade han en extranyckel och kom direkt.",
+  },
+  { language: "sw", text: "Kesho mvua itanyesha mchana wote." },
+  {
+    language: "sw",
+    text: "Mkutano umeahirishwa hadi Jumatatu kwa sababu wanachama wawili wa timu hawapo.",
+  },
+  {
+    language: "sw",
+    text: "Nilipoteza funguo za nyumba na ilibidi nimpigie simu kaka yangu. Kwa bahati nzuri alikuwa na funguo za akiba na akaja mara moja.",
+  },
+  { language: "tr", text: "Yarın bütün öğleden sonra yağmur yağacak." },
+  {
+    language: "tr",
+    text: "Toplantı, ekipten iki kişi eksik olduğu için pazartesiye ertelendi.",
+  },
+  {
+    language: "tr",
+    text: "Evin anahtarlarını kaybettim ve kardeşimi aramak zorunda kaldım. Neyse ki onda yedek anahtar vardı ve hemen geldi.",
+  },
+  { language: "vi", text: "Ngày mai trời sẽ mưa cả buổi chiều." },
+  {
+    language: "vi",
+    text: "Cuộc họp đã được dời sang thứ Hai vì thiếu hai thành viên của nhóm.",
+  },
+  {
+    language: "vi",
+    text: "Tôi làm mất chìa khóa nhà và phải gọi cho anh trai. May mà anh ấy có chìa dự phòng và đến ngay.",
+  },
+  { language: "zu", text: "Kusasa lizona imvula ntambama wonke." },
+  {
+    language: "zu",
+    text: "Umhlangano uhlehliselwe ngoMsombuluko ngoba amalungu amabili ethimba awekho.",
+  },
+  {
+    language: "zu",
+    text: "Ngilahlekelwe okhiye bendlu futhi kwadingeka ngishayele umfowethu ucingo. Ngenhlanhla ubenokhiye owengeziwe futhi weza ngokushesha.",
+  },
+];
+
+const ratio = (value: number, total: number): number =>
+  total ? Math.round((value / total) * 1000) / 1000 : 0;
+
+const results = fixtures.map((fixture) => {
+  const signal = detectTrigramLanguage(fixture.text);
+  return {
+    ...fixture,
+    ranked: classifyTrigrams(fixture.text)?.ranking[0]?.language ?? null,
+    detected: signal?.language ?? null,
+    confidence: signal?.confidence ?? null,
+  };
+});
+
+const decided = results.filter(({ detected }) => detected);
+const correct = decided.filter(({ language, detected }) => language === detected);
+const byLanguage = Object.fromEntries(
+  [...new Set(fixtures.map(({ language }) => language))].map((language) => {
+    const own = results.filter((result) => result.language === language);
+    return [
+      language,
+      {
+        fixtures: own.length,
+        correct: own.filter(({ detected }) => detected === language).length,
+        abstained: own.filter(({ detected }) => !detected).length,
+      },
+    ];
+  }),
+);
+
+console.log(
+  JSON.stringify(
+    {
+      status: "complete",
+      fixtures: fixtures.length,
+      // Best-ranked profile, ignoring the abstention thresholds.
+      rankingAccuracy: ratio(
+        results.filter(({ language, ranked }) => language === ranked).length,
+        results.length,
+      ),
+      accuracy: ratio(correct.length, results.length),
+      precision: ratio(correct.length, decided.length),
+      abstentionRate: ratio(results.length - decided.length, results.length),
+      highConfidencePrecision: ratio(
+        correct.filter(({ confidence }) => confidence === "high").length,
+        decided.filter(({ confidence }) => confidence === "high").length,
+      ),
+      byLanguage,
+      errors: decided
+        .filter(({ language, detected }) => language !== detected)
+        .map(({ language, detected, confidence, text }) => ({
+          expected: language,
+          detected,
+          confidence,
+          text,
+        })),
+    },
+    null,
+    2,
+  ),
+);
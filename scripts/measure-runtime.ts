@@ -5,6 +5,9 @@ import { gzipSync } from "node:zlib";
 import { createElement } from "react";
 import { renderToStaticMarkup } from "react-dom/server";
 import App from "../src/App";
+import { TRIGRAM_PROFILES } from "../src/data/trigramProfiles";
+
+const LANGUAGE_PROFILES = join("src", "data", "trigramProfiles.ts");
 
 const configuredIterations = Number(process.env.INTERLINGUA_RENDER_ITERATIONS ?? 25);
 const ITERATIONS = Number.isFinite(configuredIterations)
@@ -79,12 +82,28 @@ const measureBundle = () => {
   };
 };
 
+// The trigram profiles ship in the main bundle, so their size is tracked on
+// its own as languages are added.
+const measureLanguageProfiles = () => {
+  const source = readFileSync(LANGUAGE_PROFILES, "utf8");
+  return {
+    languages: Object.keys(TRIGRAM_PROFILES).length,
+    trigrams: Object.values(TRIGRAM_PROFILES).reduce(
+      (sum, profile) => sum + profile.split("|").length,
+      0,
+    ),
+    rawBytes: Buffer.byteLength(source),
+    gzipBytes: gzipSync(source).byteLength,
+  };
+};
+
 console.log(
   JSON.stringify(
     {
       status: "complete",
       render: measureRender(),
       bundle: measureBundle(),
+      languageProfiles: measureLanguageProfiles(),
     },
     null,
     2,
@@ -78,6 +78,29 @@ describe("CustomDropdown", () => {
     expect(trigger.getAttribute("aria-expanded")).toBe("false");
   });
 
+  it("renders labelled groups while keeping flat keyboard order", () => {
+    const onChange = mock(() => undefined);
+    render(
+      <CustomDropdown
+        options={[
+          { value: "ollama:a", label: "a · Ollama", group: "Ollama" },
+          { value: "openai-compatible:b", label: "b · LM Studio", group: "LM Studio" },
+        ]}
+        value="ollama:a"
+        onChange={onChange}
+        aria-label="Model"
+      />,
+    );
+
+    const trigger = screen.getByRole("button", { name: "Model" });
+    fireEvent.click(trigger);
+    expect(screen.getByRole("group", { name: "LM Studio" })).toBeTruthy();
+    expect(screen.getAllByRole("option")).toHaveLength(2);
+
+    fireEvent.keyDown(trigger, { key: "ArrowDown" });
+    expect(onChange).toHaveBeenCalledWith("openai-compatible:b");
+  });
+
   it("does not open when disabled", () => {
     render(
       <CustomDropdown
@@ -94,6 +117,47 @@ describe("CustomDropdown", () => {
     expect(trigger.getAttribute("aria-expanded")).toBe("false");
     expect(screen.queryByRole("listbox")).toBeNull();
   });
+
+  it("filters searchable options by label, native name, and code", () => {
+    const onChange = mock(() => undefined);
+    render(
+      <CustomDropdown
+        options={[
+          { value: "de", label: "German", description: "Deutsch", keywords: ["de"] },
+          { value: "el", label: "Greek", description: "Ελληνικά", keywords: ["el"] },
+          {
+            value: "is",
+            label: "Icelandic",
+            description: "Íslenska",
+            keywords: ["is"],
+          },
+        ]}
+        value="de"
+        onChange={onChange}
+        aria-label="Output language"
+        searchable
+        searchLabel="Search languages"
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Output language" }));
+    const search = screen.getByRole("searchbox", { name: "Search languages" });
+
+    fireEvent.change(search, { target: { value: "islenska" } });
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+      "IcelandicÍslenska",
+    ]);
+
+    fireEvent.change(search, { target: { value: "ελλ" } });
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(onChange).toHaveBeenCalledWith("el");
+    expect(screen.queryByRole("listbox")).toBeNull();
+
+    fireEvent.click(screen.getByRole("button", { name: "Output language" }));
+    fireEvent.change(screen.getByRole("searchbox"), { target: { value: "zz" } });
+    expect(screen.queryAllByRole("option")).toHaveLength(0);
+    expect(screen.getByText("No matches")).toBeTruthy();
+  });
 });
 
 describe("TranslationIO", () => {
@@ -155,6 +219,67 @@ describe("TranslationIO", () => {
     expect(onCancelTranslation).toHaveBeenCalledTimes(1);
   });
 
+  it("announces chunks translating in parallel", () => {
+    render(
+      <TranslationIO
+        {...baseProps}
+        isTranslating
+        translationProgress={{
+          completedChunks: 3,
+          totalChunks: 12,
+          activeChunks: [3, 4],
+        }}
+      />,
+    );
+
+    expect(screen.getByRole("progressbar").getAttribute("aria-valuetext")).toBe(
+      "3 of 12 chunks · 2 in progress",
+    );
+    expect(screen.getByText("3 of 12 chunks · 2 in progress")).toBeTruthy();
+  });
+
+  it("shows which chunk is being retried", () => {
+    render(
+      <TranslationIO
+        {...baseProps}
+        isTranslating
+        translationProgress={{
+          completedChunks: 3,
+          totalChunks: 8,
+          retry: { chunk: 3, attempt: 2, maxAttempts: 3 },
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Retrying chunk 4 (attempt 2/3)")).toBeTruthy();
+  });
+
+  it("offers to resume a failed long translation", () => {
+    const onResumeTranslation = mock(() => undefined);
+    const { rerender } = render(
+      <TranslationIO
+        {...baseProps}
+        translationFailure={{ failedChunk: 4, completedChunks: 4, totalChunks: 12 }}
+        onResumeTranslation={onResumeTranslation}
+      />,
+    );
+
+    expect(screen.getByRole("status").textContent).toBe(
+      "Chunk 5 of 12 failed · 4 completed",
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Resume" }));
+    expect(onResumeTranslation).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <TranslationIO
+        {...baseProps}
+        translationFailure={{ failedChunk: 11, completedChunks: 11, totalChunks: 12 }}
+        onResumeTranslation={onResumeTranslation}
+      />,
+    );
+    expect(screen.getByRole("button", { name: "Retry failed chunk" })).toBeTruthy();
+  });
+
   it("uses an indeterminate progress bar for a single streamed chunk", () => {
     render(
       <TranslationIO
@@ -198,6 +323,85 @@ describe("TranslationIO", () => {
     expect(output.scrollTop).toBe(480);
   });
 
+  it("offers translation memory suggestions with their match score", () => {
+    const onApplySuggestion = mock(() => undefined);
+    const suggestion = {
+      chunk: 1,
+      source: "El gato negro duerme.",
+      translation: "The black cat sleeps.",
+      similarity: 0.8,
+    };
+
+    render(
+      <TranslationIO
+        {...baseProps}
+        translationSuggestions={[suggestion]}
+        onApplySuggestion={onApplySuggestion}
+      />,
+    );
+
+    expect(screen.getByText("From translation memory")).toBeTruthy();
+    fireEvent.click(
+      screen.getByRole("button", { name: "80% · The black cat sleeps." }),
+    );
+    expect(onApplySuggestion).toHaveBeenCalledWith(suggestion);
+  });
+
+  it("previews Markdown output rendered and switches back to the source", async () => {
+    render(
+      <TranslationIO
+        {...baseProps}
+        translatedText={"# Title\n\n| Name | Role |\n| --- | --- |\n| Ana | Lead |"}
+        documentFormat="markdown"
+      />,
+    );
+    const preview = screen.getByRole("button", { name: "Preview" });
+
+    expect(preview.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(preview);
+    expect((await screen.findByRole("heading", { name: "Title" })).tagName).toBe("H1");
+    expect(screen.getByRole("cell", { name: "Ana" })).toBeTruthy();
+    expect(screen.queryByLabelText("Translated text")).toBeNull();
+
+    fireEvent.click(preview);
+    expect(screen.getByLabelText("Translated text")).toBeTruthy();
+    expect(screen.queryByRole("heading")).toBeNull();
+  });
+
+  it("offers no preview for plain text output", () => {
+    render(<TranslationIO {...baseProps} />);
+
+    expect(screen.queryByRole("button", { name: "Preview" })).toBeNull();
+  });
+
+  it("annotates the detected language of each segment of a mixed document", () => {
+    render(
+      <TranslationIO
+        {...baseProps}
+        languageSegments={[
+          {
+            firstChunk: 0,
+            lastChunk: 0,
+            language: "en",
+            label: "English",
+            passedThrough: true,
+          },
+          {
+            firstChunk: 1,
+            lastChunk: 2,
+            language: "es",
+            label: "Spanish",
+            passedThrough: false,
+          },
+        ]}
+      />,
+    );
+
+    expect(screen.getByText("Detected languages")).toBeTruthy();
+    expect(screen.getByText("Chunk 1 · English · kept as written")).toBeTruthy();
+    expect(screen.getByText("Chunks 2–3 · Spanish")).toBeTruthy();
+  });
+
   it("renders selectable alternatives and reports copy success", async () => {
     const onCopySuccess = mock(() => undefined);
     const onSelectAlternative = mock(() => undefined);
@@ -18,11 +18,37 @@ interface CustomDropdownProps {
   "aria-label"?: string;
   className?: string;
   columns?: 1 | 2;
+  /** Adds a filter field that matches labels, values, descriptions, and keywords. */
+  searchable?: boolean;
+  searchLabel?: string;
 }
 
 const findOptionIndex = (options: DropdownOption[], value: string): number =>
   options.findIndex((o) => o.value === value);
 
+const normalizeSearchText = (text: string): string =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().trim();
+
+const filterOptions = (options: DropdownOption[], query: string): DropdownOption[] => {
+  const needle = normalizeSearchText(query);
+  if (!needle) return options;
+  return options.filter(({ value, label, description, keywords = [] }) =>
+    [label, value, description ?? "", ...keywords].some((text) =>
+      normalizeSearchText(text).includes(needle),
+    ),
+  );
+};
+
+type OptionGroup = { label?: string; options: DropdownOption[] };
+
+const groupOptions = (options: DropdownOption[]): OptionGroup[] =>
+  options.reduce<OptionGroup[]>((groups, option) => {
+    const current = groups[groups.length - 1];
+    if (current && current.label === option.group) current.options.push(option);
+    else groups.push({ label: option.group, options: [option] });
+    return groups;
+  }, []);
+
 export const CustomDropdown: FC<CustomDropdownProps> = ({
   options,
   value,
@@ -32,21 +58,49 @@ export const CustomDropdown: FC<CustomDropdownProps> = ({
   "aria-label": ariaLabel,
   className,
   columns = 1,
+  searchable = false,
+  searchLabel = "Search",
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
 
   const currentIndex = useMemo(() => findOptionIndex(options, value), [options, value]);
   const selectedOption = useMemo(
     () => options[currentIndex] || null,
     [options, currentIndex],
   );
+  const filteredOptions = useMemo(
+    () => (searchable ? filterOptions(options, query) : options),
+    [options, query, searchable],
+  );
+  const optionGroups = useMemo(() => groupOptions(filteredOptions), [filteredOptions]);
 
   const handleOptionClick = (optionValue: string) => {
     onChange(optionValue);
     setIsOpen(false);
   };
 
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "Enter": {
+        e.preventDefault();
+        const [firstOption] = filteredOptions;
+        if (firstOption) handleOptionClick(firstOption.value);
+        break;
+      }
+      case "Escape":
+        setIsOpen(false);
+        triggerRef.current?.focus();
+        break;
+      case "ArrowDown":
+        e.preventDefault();
+        dropdownRef.current?.querySelector<HTMLElement>('[role="option"]')?.focus();
+        break;
+    }
+  };
+
   const handleToggle = () => !disabled && setIsOpen((prev) => !prev);
 
   const handleKeyDown = (e: KeyboardEvent) => {
@@ -90,17 +144,65 @@ export const CustomDropdown: FC<CustomDropdownProps> = ({
   }, []);
 
   useEffect(() => {
-    if (isOpen) {
-      dropdownRef.current
-        ?.querySelector<HTMLElement>('[aria-selected="true"]')
-        ?.focus();
+    if (!isOpen) {
+      setQuery("");
+      return;
     }
-  }, [isOpen]);
+    dropdownRef.current
+      ?.querySelector<HTMLElement>(
+        searchable ? ".custom-dropdown_search" : '[aria-selected="true"]',
+      )
+      ?.focus();
+  }, [isOpen, searchable]);
+
+  const listbox = (
+    <div
+      className={cn(
+        "custom-dropdown_options",
+        columns === 2 && "custom-dropdown_options-columns-2",
+        searchable && "custom-dropdown_options-embedded",
+      )}
+      role="listbox"
+      aria-label={ariaLabel}
+    >
+      {optionGroups.map((group) => {
+        const items = group.options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={cn(
+              "custom-dropdown_option",
+              option.value === value && "custom-dropdown_option-selected",
+            )}
+            onClick={() => handleOptionClick(option.value)}
+            role="option"
+            aria-selected={option.value === value}
+            tabIndex={0}
+          >
+            {option.label}
+            {option.description && (
+              <span className="custom-dropdown_option-description">
+                {option.description}
+              </span>
+            )}
+          </button>
+        ));
+        if (!group.label) return items;
+        return (
+          <fieldset key={group.label} className="custom-dropdown_group">
+            <legend className="custom-dropdown_group-label">{group.label}</legend>
+            {items}
+          </fieldset>
+        );
+      })}
+    </div>
+  );
 
   return (
     <div ref={dropdownRef} className={cn("custom-dropdown", className)}>
       <button
         type="button"
+        ref={triggerRef}
         className="custom-dropdown_trigger"
         onClick={handleToggle}
         onKeyDown={handleKeyDown}
@@ -113,33 +215,27 @@ export const CustomDropdown: FC<CustomDropdownProps> = ({
         <span className="custom-dropdown_arrow" aria-hidden="true" />
       </button>
 
-      {isOpen && (
-        <div
-          className={cn(
-            "custom-dropdown_options",
-            columns === 2 && "custom-dropdown_options-columns-2",
-          )}
-          role="listbox"
-          aria-label={ariaLabel}
-        >
-          {options.map((option) => (
-            <button
-              key={option.value}
-              type="button"
-              className={cn(
-                "custom-dropdown_option",
-                option.value === value && "custom-dropdown_option-selected",
-              )}
-              onClick={() => handleOptionClick(option.value)}
-              role="option"
-              aria-selected={option.value === value}
-              tabIndex={0}
-            >
-              {option.label}
-            </button>
-          ))}
-        </div>
-      )}
+      {isOpen &&
+        (searchable ? (
+          <div className="custom-dropdown_panel">
+            <input
+              type="search"
+              className="input custom-dropdown_search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              placeholder={`${searchLabel}…`}
+              aria-label={searchLabel}
+              spellCheck={false}
+            />
+            {listbox}
+            {!filteredOptions.length && (
+              <p className="custom-dropdown_empty">No matches</p>
+            )}
+          </div>
+        ) : (
+          listbox
+        ))}
     </div>
   );
 };
@@ -0,0 +1,21 @@
+import type { FC } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { WritingDirection } from "../../../types";
+
+interface MarkdownPreviewProps {
+  markdown: string;
+  direction?: WritingDirection | "auto";
+}
+
+const REMARK_PLUGINS = [remarkGfm];
+
+/** Rendered Markdown; raw HTML in the source is shown as text, not executed. */
+export const MarkdownPreview: FC<MarkdownPreviewProps> = ({
+  markdown,
+  direction = "auto",
+}) => (
+  <div className="markdown-preview" dir={direction}>
+    <ReactMarkdown remarkPlugins={REMARK_PLUGINS}>{markdown}</ReactMarkdown>
+  </div>
+);
@@ -0,0 +1,225 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Window } from "happy-dom";
+import { act, type FC, type ReactNode } from "react";
+import type { Glossary, GlossaryEntry } from "../../../types";
+
+const domWindow = new Window({ url: "http://localhost" });
+const domGlobalNames = [
+  "window",
+  "document",
+  "navigator",
+  "localStorage",
+  "HTMLElement",
+  "HTMLInputElement",
+  "Node",
+  "Element",
+  "Event",
+  "MouseEvent",
+  "KeyboardEvent",
+  "FocusEvent",
+  "IS_REACT_ACT_ENVIRONMENT",
+] as const;
+const previousDomGlobals = new Map(
+  domGlobalNames.map((name) => [name, (globalThis as Record<string, unknown>)[name]]),
+);
+Object.assign(globalThis, {
+  window: domWindow,
+  document: domWindow.document,
+  navigator: domWindow.navigator,
+  localStorage: domWindow.localStorage,
+  IS_REACT_ACT_ENVIRONMENT: true,
+});
+for (const name of [
+  "HTMLElement",
+  "HTMLInputElement",
+  "Node",
+  "Element",
+  "Event",
+  "MouseEvent",
+  "KeyboardEvent",
+  "FocusEvent",
+]) {
+  Object.assign(globalThis, { [name]: domWindow[name as keyof Window] });
+}
+
+const { createRoot } = await import("react-dom/client");
+const { GlossarySettings } = await import("./GlossarySettings");
+const { default: useGlossary } = await import("../../../hooks/useGlossary");
+const { STORAGE_KEYS } = await import("../../../data");
+const { createGlossaryPairKey } = await import("../../../services/glossary");
+
+const entries: GlossaryEntry[] = [
+  {
+    id: "cloud",
+    source: "cloud",
+    target: "nube",
+    caseSensitive: false,
+    wholeWord: true,
+  },
+];
+
+const roots: Array<ReturnType<typeof createRoot>> = [];
+
+const mount = (element: ReactNode): HTMLElement => {
+  const container = document.createElement("div");
+  document.body.append(container);
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return container;
+};
+
+const renderSettings = (initialEntries: readonly GlossaryEntry[] = entries) => {
+  const onSave = mock((_entries: GlossaryEntry[]) => undefined);
+  const onClose = mock(() => undefined);
+  const container = mount(
+    <GlossarySettings
+      sourceLabel="English"
+      targetLabel="Spanish"
+      entries={initialEntries}
+      onSave={onSave}
+      onClose={onClose}
+    />,
+  );
+  return { container, onSave, onClose };
+};
+
+const PersistedGlossary: FC = () => {
+  const { glossary, saveGlossaryEntries } = useGlossary();
+  return (
+    <GlossarySettings
+      sourceLabel="English"
+      targetLabel="Spanish"
+      entries={glossary[createGlossaryPairKey("en", "es")] ?? []}
+      onSave={(saved) => saveGlossaryEntries("en", "es", saved)}
+      onClose={() => undefined}
+    />
+  );
+};
+
+const getButton = (container: HTMLElement, name: string): HTMLButtonElement => {
+  const button = Array.from(container.querySelectorAll("button")).find(
+    (candidate) =>
+      candidate.getAttribute("aria-label") === name ||
+      candidate.textContent?.trim() === name,
+  );
+  if (!button) throw new Error(`No button named ${name}`);
+  return button;
+};
+
+const getFields = (container: HTMLElement, label: string) =>
+  Array.from(container.querySelectorAll<HTMLInputElement>(`[aria-label="${label}"]`));
+
+const getCheckboxes = (container: HTMLElement, label: string) =>
+  Array.from(container.querySelectorAll("label")).flatMap((option) =>
+    option.textContent?.trim() === label
+      ? Array.from(option.querySelectorAll<HTMLInputElement>("input"))
+      : [],
+  );
+
+const click = (element: HTMLElement | undefined): void => {
+  if (!element) throw new Error("Nothing to click");
+  act(() => element.click());
+};
+
+const typeInto = (field: HTMLInputElement | undefined, value: string): void => {
+  if (!field) throw new Error("No field to type into");
+  act(() => {
+    // React tracks the last value it rendered, so go through the prototype setter.
+    Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), "value")?.set?.call(
+      field,
+      value,
+    );
+    field.dispatchEvent(new Event("input", { bubbles: true }));
+  });
+};
+
+describe("GlossarySettings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    for (const root of roots.splice(0)) act(() => root.unmount());
+    document.body.replaceChildren();
+  });
+
+  it("starts an empty glossary with one blank term", () => {
+    const { container } = renderSettings([]);
+    expect(getFields(container, "Source term").map(({ value }) => value)).toEqual([""]);
+    expect(getFields(container, "Target term").map(({ value }) => value)).toEqual([""]);
+  });
+
+  it("adds terms with their matching options and saves them", () => {
+    const { container, onSave, onClose } = renderSettings();
+
+    click(getButton(container, "Add term"));
+    typeInto(getFields(container, "Source term")[1], "Interlingua");
+    typeInto(getFields(container, "Target term")[1], "Interlingua");
+    click(getCheckboxes(container, "Match case")[1]);
+    click(getCheckboxes(container, "Whole word")[1]);
+    click(getButton(container, "Save"));
+
+    expect(onSave).toHaveBeenCalledWith([
+      entries[0],
+      expect.objectContaining({
+        source: "Interlingua",
+        target: "Interlingua",
+        caseSensitive: true,
+        wholeWord: false,
+      }),
+    ]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes terms and discards drafts on cancel", () => {
+    const { container, onSave, onClose } = renderSettings();
+
+    click(getButton(container, "Remove cloud"));
+    expect(getFields(container, "Source term")).toEqual([]);
+    click(getButton(container, "Cancel"));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("persists saved terms for the language pair", () => {
+    const container = mount(<PersistedGlossary />);
+
+    typeInto(getFields(container, "Source term")[0], " cloud ");
+    typeInto(getFields(container, "Target term")[0], "nube");
+    click(getButton(container, "Add term"));
+    typeInto(getFields(container, "Source term")[1], "Cloud");
+    typeInto(getFields(container, "Target term")[1], "Nube");
+    click(getButton(container, "Save"));
+
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEYS.GLOSSARY) ?? "{}",
+    ) as Glossary;
+    expect(Object.keys(stored)).toEqual([createGlossaryPairKey("en", "es")]);
+    expect(
+      stored[createGlossaryPairKey("en", "es")]?.map(({ source, target }) => [
+        source,
+        target,
+      ]),
+    ).toEqual([["cloud", "nube"]]);
+
+    // Reopening shows the stored terms; removing the last one drops the pair.
+    for (const root of roots.splice(0)) act(() => root.unmount());
+    const reopened = mount(<PersistedGlossary />);
+    expect(getFields(reopened, "Source term").map(({ value }) => value)).toEqual([
+      "cloud",
+    ]);
+    click(getButton(reopened, "Remove cloud"));
+    click(getButton(reopened, "Save"));
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.GLOSSARY) ?? "")).toEqual({});
+  });
+});
+
+afterAll(() => {
+  for (const [name, value] of previousDomGlobals) {
+    if (value === undefined) Reflect.deleteProperty(globalThis, name);
+    else Object.assign(globalThis, { [name]: value });
+  }
+  domWindow.close();
+});
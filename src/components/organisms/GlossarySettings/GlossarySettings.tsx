@@ -0,0 +1,147 @@
+import type { FC } from "react";
+import { useCallback, useState } from "react";
+import type { GlossaryEntry } from "../../../types";
+import { generateGlossaryEntryId } from "../../../utils/transforms";
+import { Button } from "../../atoms/Button";
+
+interface GlossarySettingsProps {
+  sourceLabel: string;
+  targetLabel: string;
+  entries: readonly GlossaryEntry[];
+  onSave: (entries: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+const createEmptyEntry = (): GlossaryEntry => ({
+  id: generateGlossaryEntryId(),
+  source: "",
+  target: "",
+  caseSensitive: false,
+  wholeWord: true,
+});
+
+export const GlossarySettings: FC<GlossarySettingsProps> = ({
+  sourceLabel,
+  targetLabel,
+  entries,
+  onSave,
+  onClose,
+}) => {
+  const [drafts, setDrafts] = useState<GlossaryEntry[]>(() =>
+    entries.length ? entries.map((entry) => ({ ...entry })) : [createEmptyEntry()],
+  );
+
+  const updateDraft = useCallback((id: string, changes: Partial<GlossaryEntry>) => {
+    setDrafts((current) =>
+      current.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)),
+    );
+  }, []);
+
+  const handleRemove = (id: string) =>
+    setDrafts((current) => current.filter((draft) => draft.id !== id));
+
+  const handleSave = () => {
+    onSave(drafts);
+    onClose();
+  };
+
+  return (
+    <div
+      className="glossary-settings"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="glossary-settings-title"
+    >
+      <div className="glossary-settings_panel">
+        <div className="glossary-settings_header">
+          <h2 id="glossary-settings-title" className="glossary-settings_title">
+            Glossary · {sourceLabel} → {targetLabel}
+          </h2>
+          <Button
+            variant="transparent"
+            iconOnly
+            buttonShape="circular"
+            onClick={onClose}
+            aria-label="Close glossary"
+          >
+            ✕
+          </Button>
+        </div>
+        <p className="glossary-settings_hint">
+          Matching terms are required in every translated chunk that contains them.
+        </p>
+        <ul className="glossary-settings_list">
+          {drafts.map((draft) => (
+            <li key={draft.id} className="glossary-settings_item">
+              <input
+                className="input glossary-settings_term"
+                value={draft.source}
+                onChange={(event) =>
+                  updateDraft(draft.id, { source: event.target.value })
+                }
+                placeholder={`${sourceLabel} term`}
+                aria-label="Source term"
+                spellCheck={false}
+              />
+              <input
+                className="input glossary-settings_term"
+                value={draft.target}
+                onChange={(event) =>
+                  updateDraft(draft.id, { target: event.target.value })
+                }
+                placeholder={`${targetLabel} term`}
+                aria-label="Target term"
+                spellCheck={false}
+              />
+              <label className="glossary-settings_option">
+                <input
+                  type="checkbox"
+                  checked={draft.caseSensitive}
+                  onChange={(event) =>
+                    updateDraft(draft.id, { caseSensitive: event.target.checked })
+                  }
+                />
+                Match case
+              </label>
+              <label className="glossary-settings_option">
+                <input
+                  type="checkbox"
+                  checked={draft.wholeWord}
+                  onChange={(event) =>
+                    updateDraft(draft.id, { wholeWord: event.target.checked })
+                  }
+                />
+                Whole word
+              </label>
+              <Button
+                variant="transparent"
+                iconOnly
+                buttonShape="circular"
+                onClick={() => handleRemove(draft.id)}
+                aria-label={`Remove ${draft.source || "term"}`}
+              >
+                ✕
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="glossary-settings_actions">
+          <Button
+            variant="subtle"
+            onClick={() => setDrafts((current) => [...current, createEmptyEntry()])}
+          >
+            Add term
+          </Button>
+          <div className="glossary-settings_actions-end">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
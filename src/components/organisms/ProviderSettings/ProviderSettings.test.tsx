@@ -0,0 +1,238 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Window } from "happy-dom";
+import { act, type FC, type ReactNode } from "react";
+import type { ProviderEndpoint } from "../../../types";
+
+const domWindow = new Window({ url: "http://localhost" });
+const domGlobalNames = [
+  "window",
+  "document",
+  "navigator",
+  "localStorage",
+  "HTMLElement",
+  "HTMLInputElement",
+  "HTMLTextAreaElement",
+  "Node",
+  "Element",
+  "Event",
+  "MouseEvent",
+  "KeyboardEvent",
+  "FocusEvent",
+  "IS_REACT_ACT_ENVIRONMENT",
+] as const;
+const previousDomGlobals = new Map(
+  domGlobalNames.map((name) => [name, (globalThis as Record<string, unknown>)[name]]),
+);
+Object.assign(globalThis, {
+  window: domWindow,
+  document: domWindow.document,
+  navigator: domWindow.navigator,
+  localStorage: domWindow.localStorage,
+  IS_REACT_ACT_ENVIRONMENT: true,
+});
+for (const name of [
+  "HTMLElement",
+  "HTMLInputElement",
+  "HTMLTextAreaElement",
+  "Node",
+  "Element",
+  "Event",
+  "MouseEvent",
+  "KeyboardEvent",
+  "FocusEvent",
+]) {
+  Object.assign(globalThis, { [name]: domWindow[name as keyof Window] });
+}
+
+const { createRoot } = await import("react-dom/client");
+const { ProviderSettings } = await import("./ProviderSettings");
+const { default: useProviderEndpoints } = await import(
+  "../../../hooks/useProviderEndpoints"
+);
+const { STORAGE_KEYS } = await import("../../../data");
+
+const providerTypes = [
+  { id: "ollama", label: "Ollama", defaultBaseUrl: "http://localhost:11434" },
+  { id: "llamacpp", label: "llama.cpp", defaultBaseUrl: "http://localhost:4256/v1" },
+];
+const endpoints: ProviderEndpoint[] = [
+  {
+    id: "ollama",
+    provider: "ollama",
+    label: "Ollama",
+    baseUrl: "http://localhost:11434",
+  },
+];
+
+const roots: Array<ReturnType<typeof createRoot>> = [];
+
+const mount = (element: ReactNode): HTMLElement => {
+  const container = document.createElement("div");
+  document.body.append(container);
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return container;
+};
+
+const renderSettings = () => {
+  const onSave = mock((_endpoints: ProviderEndpoint[]) => undefined);
+  const onClose = mock(() => undefined);
+  const onTestEndpoint = mock(async (_endpoint: ProviderEndpoint) => 3);
+  const container = mount(
+    <ProviderSettings
+      providerTypes={providerTypes}
+      endpoints={endpoints}
+      onSave={onSave}
+      onClose={onClose}
+      onTestEndpoint={onTestEndpoint}
+    />,
+  );
+  return { container, onSave, onClose, onTestEndpoint };
+};
+
+const PersistedSettings: FC = () => {
+  const { providerEndpoints, saveProviderEndpoints } = useProviderEndpoints();
+  return (
+    <ProviderSettings
+      providerTypes={providerTypes}
+      endpoints={providerEndpoints}
+      onSave={saveProviderEndpoints}
+      onClose={() => undefined}
+      onTestEndpoint={async () => 0}
+    />
+  );
+};
+
+const getButton = (container: HTMLElement, name: string): HTMLButtonElement => {
+  const button = Array.from(container.querySelectorAll("button")).find(
+    (candidate) =>
+      candidate.getAttribute("aria-label") === name ||
+      candidate.textContent?.trim() === name,
+  );
+  if (!button) throw new Error(`No button named ${name}`);
+  return button;
+};
+
+const getFields = (container: HTMLElement, label: string) =>
+  Array.from(
+    container.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(
+      `[aria-label="${label}"]`,
+    ),
+  );
+
+const click = (element: HTMLElement): void => {
+  act(() => element.click());
+};
+
+const typeInto = (
+  field: HTMLInputElement | HTMLTextAreaElement | undefined,
+  value: string,
+): void => {
+  if (!field) throw new Error("No field to type into");
+  act(() => {
+    // React tracks the last value it rendered, so go through the prototype setter.
+    Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), "value")?.set?.call(
+      field,
+      value,
+    );
+    field.dispatchEvent(new Event("input", { bubbles: true }));
+  });
+};
+
+describe("ProviderSettings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    for (const root of roots.splice(0)) act(() => root.unmount());
+    document.body.replaceChildren();
+  });
+
+  it("tells the user that API keys are stored in the browser", () => {
+    const { container } = renderSettings();
+    expect(container.textContent).toContain(
+      "saved unencrypted in this browser's local storage",
+    );
+  });
+
+  it("adds, edits, and removes endpoints before saving them", () => {
+    const { container, onSave, onClose } = renderSettings();
+
+    click(getButton(container, "Add endpoint"));
+    expect(getFields(container, "Base URL").map(({ value }) => value)).toEqual([
+      "http://localhost:11434",
+      "http://localhost:11434",
+    ]);
+    typeInto(getFields(container, "Endpoint name")[1], "Remote");
+    typeInto(getFields(container, "Base URL")[1], "https://llm.example.com/");
+    typeInto(getFields(container, "API key")[1], "secret");
+    typeInto(getFields(container, "Custom headers")[1], "X-Team: docs\nnot a header");
+    click(getButton(container, "Remove Ollama"));
+    click(getButton(container, "Save"));
+
+    expect(onSave).toHaveBeenCalledWith([
+      expect.objectContaining({
+        provider: "ollama",
+        label: "Remote",
+        baseUrl: "https://llm.example.com/",
+        apiKey: "secret",
+        headers: { "X-Team": "docs" },
+      }),
+    ]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("blocks saving and testing an invalid base URL", () => {
+    const { container, onSave, onTestEndpoint } = renderSettings();
+
+    typeInto(getFields(container, "Base URL")[0], "ftp://example.com");
+
+    expect(container.querySelector('[role="status"]')?.textContent).toBe(
+      "Enter a valid http(s) URL.",
+    );
+    expect(getFields(container, "Base URL")[0]?.getAttribute("aria-invalid")).toBe(
+      "true",
+    );
+    expect(getButton(container, "Save").disabled).toBe(true);
+    click(getButton(container, "Test"));
+    expect(onTestEndpoint).not.toHaveBeenCalled();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it("reports the result of a connection test", async () => {
+    const { container, onTestEndpoint } = renderSettings();
+
+    await act(async () => {
+      getButton(container, "Test").click();
+    });
+
+    expect(container.querySelector('[role="status"]')?.textContent).toBe(
+      "Connected · 3 models available",
+    );
+    expect(onTestEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "ollama", baseUrl: "http://localhost:11434" }),
+    );
+  });
+
+  it("persists saved endpoints to local storage", () => {
+    const container = mount(<PersistedSettings />);
+
+    typeInto(getFields(container, "Endpoint name")[0], "Workstation");
+    click(getButton(container, "Save"));
+
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEYS.PROVIDER_ENDPOINTS) ?? "[]",
+    ) as ProviderEndpoint[];
+    expect(stored.map(({ label }) => label)).toEqual(["Workstation", "llama.cpp"]);
+  });
+});
+
+afterAll(() => {
+  for (const [name, value] of previousDomGlobals) {
+    if (value === undefined) Reflect.deleteProperty(globalThis, name);
+    else Object.assign(globalThis, { [name]: value });
+  }
+  domWindow.close();
+});
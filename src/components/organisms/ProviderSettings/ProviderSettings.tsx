@@ -0,0 +1,288 @@
+import type { FC } from "react";
+import { useCallback, useMemo, useState } from "react";
+import { DEFAULT_PROVIDER_ENDPOINTS } from "../../../data";
+import type { InferenceProviderAdapter } from "../../../services/inferenceProviders";
+import type { InferenceProvider, ProviderEndpoint } from "../../../types";
+import {
+  formatHeaderLines,
+  generateEndpointId,
+  normalizeBaseUrl,
+  parseHeaderLines,
+} from "../../../utils/transforms";
+import { Button } from "../../atoms/Button";
+import { CustomDropdown } from "../../molecules/CustomDropdown";
+
+type ProviderType = Pick<InferenceProviderAdapter, "id" | "label" | "defaultBaseUrl">;
+
+interface ProviderSettingsProps {
+  providerTypes: readonly ProviderType[];
+  endpoints: readonly ProviderEndpoint[];
+  onSave: (endpoints: ProviderEndpoint[]) => void;
+  onClose: () => void;
+  onTestEndpoint: (endpoint: ProviderEndpoint) => Promise<number>;
+}
+
+type EndpointDraft = ProviderEndpoint & { headersText: string };
+
+const toDraft = (endpoint: ProviderEndpoint): EndpointDraft => ({
+  ...endpoint,
+  headersText: formatHeaderLines(endpoint.headers),
+});
+
+const fromDraft = ({ headersText, ...endpoint }: EndpointDraft): ProviderEndpoint => ({
+  ...endpoint,
+  headers: parseHeaderLines(headersText),
+});
+
+type EndpointTestStatus =
+  | { state: "testing" }
+  | { state: "success"; modelCount: number }
+  | { state: "error"; message: string };
+
+const describeTestStatus = (status: EndpointTestStatus): string => {
+  if (status.state === "testing") return "Testing connection...";
+  if (status.state === "error") return status.message;
+  return status.modelCount === 1
+    ? "Connected · 1 model available"
+    : `Connected · ${status.modelCount} models available`;
+};
+
+export const ProviderSettings: FC<ProviderSettingsProps> = ({
+  providerTypes,
+  endpoints,
+  onSave,
+  onClose,
+  onTestEndpoint,
+}) => {
+  const [drafts, setDrafts] = useState<EndpointDraft[]>(() => endpoints.map(toDraft));
+  const [testStatus, setTestStatus] = useState<Record<string, EndpointTestStatus>>({});
+  const providerOptions = useMemo(
+    () => providerTypes.map(({ id, label }) => ({ value: id, label })),
+    [providerTypes],
+  );
+  const getDefaultBaseUrl = (provider: InferenceProvider): string =>
+    providerTypes.find(({ id }) => id === provider)?.defaultBaseUrl ?? "";
+  const getProviderLabel = (provider: InferenceProvider): string =>
+    providerTypes.find(({ id }) => id === provider)?.label ?? provider;
+  const defaultProvider = providerTypes[0]?.id ?? "ollama";
+  const hasInvalidEndpoint = drafts.some(
+    (draft) => normalizeBaseUrl(draft.baseUrl) === null,
+  );
+
+  const updateDraft = useCallback((id: string, changes: Partial<EndpointDraft>) => {
+    setDrafts((current) =>
+      current.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)),
+    );
+    setTestStatus(({ [id]: _discarded, ...rest }) => rest);
+  }, []);
+
+  const handleProviderChange = (draft: EndpointDraft, provider: InferenceProvider) =>
+    updateDraft(draft.id, {
+      provider,
+      label:
+        draft.label === getProviderLabel(draft.provider)
+          ? getProviderLabel(provider)
+          : draft.label,
+      baseUrl:
+        draft.baseUrl === getDefaultBaseUrl(draft.provider)
+          ? getDefaultBaseUrl(provider)
+          : draft.baseUrl,
+    });
+
+  const handleAdd = () =>
+    setDrafts((current) => [
+      ...current,
+      {
+        id: generateEndpointId(defaultProvider),
+        provider: defaultProvider,
+        label: getProviderLabel(defaultProvider),
+        baseUrl: getDefaultBaseUrl(defaultProvider),
+        headersText: "",
+      },
+    ]);
+
+  const handleRemove = (id: string) =>
+    setDrafts((current) => current.filter((draft) => draft.id !== id));
+
+  const handleTest = async (draft: EndpointDraft) => {
+    const baseUrl = normalizeBaseUrl(draft.baseUrl);
+    if (!baseUrl) {
+      setTestStatus((current) => ({
+        ...current,
+        [draft.id]: { state: "error", message: "Enter a valid http(s) URL." },
+      }));
+      return;
+    }
+
+    setTestStatus((current) => ({ ...current, [draft.id]: { state: "testing" } }));
+    try {
+      const modelCount = await onTestEndpoint({ ...fromDraft(draft), baseUrl });
+      setTestStatus((current) => ({
+        ...current,
+        [draft.id]: { state: "success", modelCount },
+      }));
+    } catch (error) {
+      setTestStatus((current) => ({
+        ...current,
+        [draft.id]: {
+          state: "error",
+          message: error instanceof Error ? error.message : "Connection failed.",
+        },
+      }));
+    }
+  };
+
+  const handleSave = () => {
+    onSave(drafts.map(fromDraft));
+    onClose();
+  };
+
+  return (
+    <div
+      className="provider-settings"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="provider-settings-title"
+    >
+      <div className="provider-settings_panel">
+        <div className="provider-settings_header">
+          <h2 id="provider-settings-title" className="provider-settings_title">
+            Provider endpoints
+          </h2>
+          <Button
+            variant="transparent"
+            iconOnly
+            buttonShape="circular"
+            onClick={onClose}
+            aria-label="Close provider settings"
+          >
+            ✕
+          </Button>
+        </div>
+        <p className="provider-settings_notice">
+          API keys and custom headers are saved unencrypted in this browser's local
+          storage. Only add keys you are comfortable storing here.
+        </p>
+        <ul className="provider-settings_list">
+          {drafts.map((draft) => {
+            const status = testStatus[draft.id];
+            const isInvalid = normalizeBaseUrl(draft.baseUrl) === null;
+            return (
+              <li key={draft.id} className="provider-settings_item">
+                <div className="provider-settings_fields">
+                  <CustomDropdown
+                    className="provider-settings_provider"
+                    options={providerOptions}
+                    value={draft.provider}
+                    onChange={(value) =>
+                      handleProviderChange(draft, value as InferenceProvider)
+                    }
+                    aria-label="Provider type"
+                  />
+                  <input
+                    className="input provider-settings_label"
+                    value={draft.label}
+                    onChange={(event) =>
+                      updateDraft(draft.id, { label: event.target.value })
+                    }
+                    placeholder={getProviderLabel(draft.provider)}
+                    aria-label="Endpoint name"
+                  />
+                  <input
+                    className="input provider-settings_url"
+                    value={draft.baseUrl}
+                    onChange={(event) =>
+                      updateDraft(draft.id, { baseUrl: event.target.value })
+                    }
+                    placeholder={getDefaultBaseUrl(draft.provider)}
+                    aria-label="Base URL"
+                    aria-invalid={isInvalid}
+                    spellCheck={false}
+                  />
+                </div>
+                <div className="provider-settings_auth">
+                  <input
+                    className="input provider-settings_api-key"
+                    type="password"
+                    value={draft.apiKey ?? ""}
+                    onChange={(event) =>
+                      updateDraft(draft.id, { apiKey: event.target.value })
+                    }
+                    placeholder="API key (optional)"
+                    aria-label="API key"
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  <textarea
+                    className="input provider-settings_headers"
+                    value={draft.headersText}
+                    onChange={(event) =>
+                      updateDraft(draft.id, { headersText: event.target.value })
+                    }
+                    placeholder="Custom headers, one per line (Name: value)"
+                    aria-label="Custom headers"
+                    rows={2}
+                    spellCheck={false}
+                  />
+                </div>
+                <div className="provider-settings_item-actions">
+                  <span
+                    className={`provider-settings_status${
+                      status ? ` provider-settings_status-${status.state}` : ""
+                    }`}
+                    role="status"
+                  >
+                    {isInvalid
+                      ? "Enter a valid http(s) URL."
+                      : status
+                        ? describeTestStatus(status)
+                        : ""}
+                  </span>
+                  <Button
+                    variant="subtle"
+                    onClick={() => void handleTest(draft)}
+                    disabled={status?.state === "testing"}
+                  >
+                    Test
+                  </Button>
+                  <Button
+                    variant="transparent"
+                    iconOnly
+                    buttonShape="circular"
+                    onClick={() => handleRemove(draft.id)}
+                    aria-label={`Remove ${draft.label || "endpoint"}`}
+                  >
+                    ✕
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="provider-settings_actions">
+          <Button variant="subtle" onClick={handleAdd}>
+            Add endpoint
+          </Button>
+          <Button
+            variant="subtle"
+            onClick={() => setDrafts(DEFAULT_PROVIDER_ENDPOINTS.map(toDraft))}
+          >
+            Restore defaults
+          </Button>
+          <div className="provider-settings_actions-end">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSave}
+              disabled={hasInvalidEndpoint}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
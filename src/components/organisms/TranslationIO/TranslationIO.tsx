@@ -1,6 +1,13 @@
 import type { FC, ReactNode, Ref } from "react";
-import { useCallback, useEffect, useRef } from "react";
-import type { TranslationProgress } from "../../../types";
+import { lazy, Suspense, useCallback, useEffect, useRef, useState } from "react";
+import type {
+  DetectedLanguageSegment,
+  DocumentFormat,
+  TranslationFailure,
+  TranslationProgress,
+  TranslationSuggestion,
+  WritingDirection,
+} from "../../../types";
 import { Button } from "../../atoms/Button";
 
 interface TranslationIOProps {
@@ -16,9 +23,23 @@ interface TranslationIOProps {
   onClearInput: () => void;
   translationProgress: TranslationProgress | null;
   onCancelTranslation: () => void;
+  translationFailure?: TranslationFailure | null;
+  onResumeTranslation?: () => void;
   onCopySuccess: () => void;
   onCopyError: () => void;
   onSelectAlternative: (text: string) => void;
+  translationSuggestions?: readonly TranslationSuggestion[];
+  onApplySuggestion?: (suggestion: TranslationSuggestion) => void;
+  inputDirection?: WritingDirection | "auto";
+  outputDirection?: WritingDirection | "auto";
+  /** Detected languages of a mixed document, labelled for display. */
+  languageSegments?: readonly LabelledLanguageSegment[];
+  /** Markdown output can be previewed as rendered Markdown. */
+  documentFormat?: DocumentFormat;
+}
+
+export interface LabelledLanguageSegment extends DetectedLanguageSegment {
+  label: string;
 }
 
 interface PanelProps {
@@ -31,10 +52,43 @@ interface PanelProps {
   footer?: ReactNode;
   actions?: ReactNode;
   overlay?: ReactNode;
+  /** Shown instead of the text area, such as rendered Markdown. */
+  preview?: ReactNode;
+  direction?: WritingDirection | "auto";
 }
 
 const ignoreChange = (): void => undefined;
 
+// The renderer is only downloaded once a preview is opened.
+const MarkdownPreview = lazy(() =>
+  import("../../molecules/MarkdownPreview").then((module) => ({
+    default: module.MarkdownPreview,
+  })),
+);
+
+const formatChunkRange = ({
+  firstChunk,
+  lastChunk,
+}: DetectedLanguageSegment): string =>
+  firstChunk === lastChunk
+    ? `Chunk ${firstChunk + 1}`
+    : `Chunks ${firstChunk + 1}–${lastChunk + 1}`;
+
+const formatTranslationProgress = ({
+  completedChunks,
+  totalChunks,
+  activeChunks = [],
+  retry,
+}: TranslationProgress): string => {
+  if (retry) {
+    return `Retrying chunk ${retry.chunk + 1} (attempt ${retry.attempt}/${retry.maxAttempts})`;
+  }
+  const summary = `${completedChunks} of ${totalChunks} chunks`;
+  return activeChunks.length > 1
+    ? `${summary} · ${activeChunks.length} in progress`
+    : summary;
+};
+
 const Panel: FC<PanelProps> = ({
   label,
   value,
@@ -45,19 +99,24 @@ const Panel: FC<PanelProps> = ({
   footer,
   actions,
   overlay,
+  preview,
+  direction = "auto",
 }) => (
   <div className="translation-io_panel">
     <div className="translation-io_header">{label}</div>
     <div className="translation-io_text-area-wrapper">
-      <textarea
-        className="translation-io_text-area"
-        ref={textareaRef}
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder ?? (readOnly ? "Translation" : "Enter text...")}
-        readOnly={readOnly}
-        aria-label={readOnly ? "Translated text" : "Input text for translation"}
-      />
+      {preview ?? (
+        <textarea
+          className="translation-io_text-area"
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder ?? (readOnly ? "Translation" : "Enter text...")}
+          readOnly={readOnly}
+          dir={direction}
+          aria-label={readOnly ? "Translated text" : "Input text for translation"}
+        />
+      )}
       {overlay}
       {actions}
     </div>
@@ -78,11 +137,20 @@ export const TranslationIO: FC<TranslationIOProps> = ({
   onClearInput,
   translationProgress,
   onCancelTranslation,
+  translationFailure = null,
+  onResumeTranslation,
   onCopySuccess,
   onCopyError,
   onSelectAlternative,
+  translationSuggestions = [],
+  onApplySuggestion,
+  inputDirection,
+  outputDirection,
+  languageSegments = [],
+  documentFormat = "text",
 }) => {
   const outputTextAreaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const handleCopy = useCallback(async () => {
     if (!translatedText) return;
@@ -95,7 +163,12 @@ export const TranslationIO: FC<TranslationIOProps> = ({
   }, [translatedText, onCopySuccess, onCopyError]);
 
   const hasAlternatives = !isTranslating && alternativeTranslations.length > 0;
+  const hasSuggestions =
+    !isTranslating && Boolean(onApplySuggestion) && translationSuggestions.length > 0;
+  const hasLanguageSegments = languageSegments.length > 1;
   const canCopy = !isTranslating && Boolean(translatedText);
+  const canPreview = documentFormat === "markdown" && Boolean(translatedText);
+  const showsPreview = canPreview && isPreviewing;
   const isIndeterminateProgress = translationProgress?.totalChunks === 1;
   const translationProgressPercent =
     translationProgress && translationProgress.totalChunks > 1
@@ -104,6 +177,11 @@ export const TranslationIO: FC<TranslationIOProps> = ({
         )
       : 0;
 
+  const translationProgressLabel =
+    translationProgress && (!isIndeterminateProgress || translationProgress.retry)
+      ? formatTranslationProgress(translationProgress)
+      : undefined;
+
   useEffect(() => {
     if (!isTranslating || !outputTextAreaRef.current) return;
     outputTextAreaRef.current.scrollTop =
@@ -116,6 +194,7 @@ export const TranslationIO: FC<TranslationIOProps> = ({
         label={inputLanguageLabel}
         value={inputText}
         onChange={setInputText}
+        direction={inputDirection}
         footer={
           <div className="translation-io_footer">
             <span>{characterCount.toLocaleString()} characters</span>
@@ -144,6 +223,14 @@ export const TranslationIO: FC<TranslationIOProps> = ({
         readOnly
         placeholder={isTranslating ? "" : "Translation"}
         textareaRef={outputTextAreaRef}
+        direction={outputDirection}
+        preview={
+          showsPreview ? (
+            <Suspense fallback={null}>
+              <MarkdownPreview markdown={translatedText} direction={outputDirection} />
+            </Suspense>
+          ) : undefined
+        }
         overlay={
           isTranslating && translationProgress ? (
             <div className="translation-io_progress-overlay">
@@ -156,6 +243,7 @@ export const TranslationIO: FC<TranslationIOProps> = ({
                 aria-valuenow={
                   isIndeterminateProgress ? undefined : translationProgressPercent
                 }
+                aria-valuetext={translationProgressLabel}
               >
                 <span
                   className={`translation-io_progress-fill${
@@ -170,6 +258,11 @@ export const TranslationIO: FC<TranslationIOProps> = ({
                   }}
                 />
               </div>
+              {translationProgressLabel ? (
+                <span className="translation-io_progress-label" aria-hidden="true">
+                  {translationProgressLabel}
+                </span>
+              ) : null}
               <Button
                 variant="secondary"
                 iconOnly
@@ -182,40 +275,114 @@ export const TranslationIO: FC<TranslationIOProps> = ({
                 ✕
               </Button>
             </div>
+          ) : !isTranslating && translationFailure && onResumeTranslation ? (
+            <div className="translation-io_progress-overlay translation-io_failure">
+              <span className="translation-io_failure-message" role="status">
+                Chunk {translationFailure.failedChunk + 1} of{" "}
+                {translationFailure.totalChunks} failed ·{" "}
+                {translationFailure.completedChunks} completed
+              </span>
+              <Button
+                variant="primary"
+                onClick={onResumeTranslation}
+                className="translation-io_resume-button"
+              >
+                {translationFailure.totalChunks - translationFailure.completedChunks > 1
+                  ? "Resume"
+                  : "Retry failed chunk"}
+              </Button>
+            </div>
           ) : null
         }
         footer={
-          hasAlternatives ? (
+          hasAlternatives || hasSuggestions || hasLanguageSegments ? (
             <div className="translation-io_footer translation-io_footer-output">
-              <div className="translation-io_alternatives">
-                <span className="translation-io_alternatives-label">Alternatives</span>
-                <div className="translation-io_alternatives-list">
-                  {alternativeTranslations.map((alternative) => (
-                    <Button
-                      key={alternative}
-                      variant="subtle"
-                      className="translation-io_alt-button"
-                      onClick={() => onSelectAlternative(alternative)}
-                      title="Use this alternative translation"
-                    >
-                      {alternative}
-                    </Button>
-                  ))}
+              {hasLanguageSegments && (
+                <div className="translation-io_alternatives">
+                  <span className="translation-io_alternatives-label">
+                    Detected languages
+                  </span>
+                  <ul className="translation-io_segments">
+                    {languageSegments.map((segment) => (
+                      <li
+                        key={segment.firstChunk}
+                        className={`translation-io_segment${
+                          segment.passedThrough ? " translation-io_segment-kept" : ""
+                        }`}
+                      >
+                        {formatChunkRange(segment)} · {segment.label}
+                        {segment.passedThrough ? " · kept as written" : ""}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-              </div>
+              )}
+              {hasAlternatives && (
+                <div className="translation-io_alternatives">
+                  <span className="translation-io_alternatives-label">
+                    Alternatives
+                  </span>
+                  <div className="translation-io_alternatives-list">
+                    {alternativeTranslations.map((alternative) => (
+                      <Button
+                        key={alternative}
+                        variant="subtle"
+                        className="translation-io_alt-button"
+                        onClick={() => onSelectAlternative(alternative)}
+                        title="Use this alternative translation"
+                      >
+                        {alternative}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {hasSuggestions && (
+                <div className="translation-io_alternatives">
+                  <span className="translation-io_alternatives-label">
+                    From translation memory
+                  </span>
+                  <div className="translation-io_alternatives-list">
+                    {translationSuggestions.map((suggestion) => (
+                      <Button
+                        key={`${suggestion.chunk}:${suggestion.source}`}
+                        variant="subtle"
+                        className="translation-io_alt-button"
+                        onClick={() => onApplySuggestion?.(suggestion)}
+                        title={`Use for chunk ${suggestion.chunk + 1} (${Math.round(suggestion.similarity * 100)}% match with "${suggestion.source}")`}
+                      >
+                        {Math.round(suggestion.similarity * 100)}% ·{" "}
+                        {suggestion.translation}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           ) : null
         }
         actions={
-          canCopy && (
+          (canCopy || canPreview) && (
             <div className="translation-io_copy-button-wrapper">
-              <Button
-                variant="secondary"
-                onClick={handleCopy}
-                aria-label="Copy translated text"
-              >
-                Copy
-              </Button>
+              {canPreview && (
+                <Button
+                  variant="secondary"
+                  onClick={() => setIsPreviewing((previewing) => !previewing)}
+                  aria-pressed={isPreviewing}
+                  title="Show the translation as rendered Markdown"
+                >
+                  Preview
+                </Button>
+              )}
+              {canCopy && (
+                <Button
+                  variant="secondary"
+                  onClick={handleCopy}
+                  aria-label="Copy translated text"
+                >
+                  Copy
+                </Button>
+              )}
             </div>
           )
         }
@@ -1,41 +1,31 @@
-import type { DropdownOption, LanguageCode } from "../types";
-
-const LANGUAGE_DATA = {
-  auto: "Auto-Detect",
-  en: "English",
-  es: "Spanish",
-  ca: "Catalan",
-  fr: "French",
-  de: "German",
-  it: "Italian",
-  pt: "Portuguese",
-  ru: "Russian",
-  ja: "Japanese",
-  ko: "Korean",
-  zh: "Chinese (Simplified)",
-  ar: "Arabic",
-  hi: "Hindi",
-} as const;
-
-export const languageOptions: DropdownOption[] = Object.entries(LANGUAGE_DATA).map(
-  ([value, label]) => ({ value, label }),
-);
-
-export const getLanguageLabel = (code: string): string =>
-  LANGUAGE_DATA[code as LanguageCode] || code;
+import type { ProviderEndpoint } from "../types";
 
 export const STORAGE_KEYS = {
   INPUT_LANG: "userSelectedInputLanguage",
   OUTPUT_LANG: "userSelectedOutputLanguage",
   SELECTED_MODEL: "ollamaSelectedModel",
   FAVORITE_MODEL: "ollamaFavoriteModel",
+  PROVIDER_ENDPOINTS: "providerEndpoints",
+  GLOSSARY: "translationGlossary",
+  TRANSLATION_MEMORY: "interlinguaTranslationMemory",
 } as const;
 
 export const API = {
   OLLAMA_BASE_URL: "http://localhost:11434/api",
   LLAMA_CPP_BASE_URL: "http://localhost:4256/v1",
+  OPENAI_COMPATIBLE_BASE_URL: "http://localhost:1234/v1",
 } as const;
 
+export const DEFAULT_PROVIDER_ENDPOINTS: readonly ProviderEndpoint[] = [
+  { id: "ollama", provider: "ollama", label: "Ollama", baseUrl: API.OLLAMA_BASE_URL },
+  {
+    id: "llamacpp",
+    provider: "llamacpp",
+    label: "llama.cpp",
+    baseUrl: API.LLAMA_CPP_BASE_URL,
+  },
+];
+
 export const LIMITS = {
   MODEL_FETCH_TIMEOUT: 10000,
   TRANSLATION_TIMEOUT: 30000,
@@ -54,9 +44,42 @@ export const TRANSLATION_CONFIG = {
   } as const,
   CHUNKING: {
     MAX_SOURCE_TOKENS: 1600,
+    MAX_CONTEXT_SOURCE_TOKENS: 8192,
+    MIN_CONTEXT_SOURCE_TOKENS: 128,
+    CONTEXT_RESERVE_TOKENS: 256,
+    OUTPUT_TOKEN_RATIO: 1.5,
     DETECTION_SOURCE_TOKENS: 600,
     AUTO_TRANSLATE_MAX_SOURCE_TOKENS: 600,
     MAX_CHUNKS: 512,
+    // Match the server's parallel slots (llama-server --parallel, OLLAMA_NUM_PARALLEL);
+    // queued requests otherwise sit idle against the inactivity timeout.
+    MAX_CONCURRENT_REQUESTS: 1,
+    // Source tokens of the previous chunk repeated as read-only context; 0 disables it.
+    CARRY_OVER_SOURCE_TOKENS: 200,
+  } as const,
+  SUBTITLES: {
+    // Characters per line that stay readable at normal subtitle speed.
+    MAX_LINE_LENGTH: 42,
+  } as const,
+  TOKENIZER: {
+    CACHE_SIZE: 2048,
+    CONCURRENCY: 4,
+    MAX_PASSES: 3,
+    MAX_TEXTS_PER_PASS: 256,
+    COUNT_DELAY_MS: 250,
+  } as const,
+  MEMORY: {
+    ENABLED: true,
+    MAX_ENTRIES: 5000,
+    // Token-level similarity at which a stored segment is offered as a suggestion.
+    FUZZY_THRESHOLD: 0.75,
+    FUZZY_MAX_TOKENS: 300,
+    MAX_SUGGESTIONS: 3,
+  } as const,
+  RETRY: {
+    MAX_ATTEMPTS: 3,
+    BASE_DELAY_MS: 1000,
+    MAX_DELAY_MS: 8000,
   } as const,
   DIAGNOSTICS: {
     ENABLED: false,
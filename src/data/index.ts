@@ -1,8 +1,17 @@
 export {
   API,
-  getLanguageLabel,
+  DEFAULT_PROVIDER_ENDPOINTS,
   LIMITS,
-  languageOptions,
   STORAGE_KEYS,
   TRANSLATION_CONFIG,
 } from "./constants";
+export {
+  findLanguage,
+  getBaseLanguageCode,
+  getLanguageLabel,
+  getWritingDirection,
+  LANGUAGES,
+  languageOptions,
+  resolveLanguageCode,
+  SUPPORTED_LANGUAGE_CODES,
+} from "./languages";
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getBaseLanguageCode,
+  getLanguageLabel,
+  getWritingDirection,
+  LANGUAGES,
+  languageOptions,
+  resolveLanguageCode,
+  SUPPORTED_LANGUAGE_CODES,
+} from "./languages";
+
+describe("language registry", () => {
+  it("lists each TranslateGemma language once, sorted by English name", () => {
+    expect(new Set(SUPPORTED_LANGUAGE_CODES).size).toBe(LANGUAGES.length);
+    expect(SUPPORTED_LANGUAGE_CODES).toHaveLength(64);
+    expect(new Set(SUPPORTED_LANGUAGE_CODES.map(getBaseLanguageCode)).size).toBe(51);
+    const names = LANGUAGES.map(({ name }) => name);
+    expect(names).toEqual([...names].sort((left, right) => left.localeCompare(right)));
+  });
+
+  it("has an entry for each of TranslateGemma's 55 WMT24++ locales", () => {
+    const locales = [
+      ...["ar_EG", "ar_SA", "bg_BG", "bn_IN", "ca_ES", "cs_CZ", "da_DK", "de_DE"],
+      ...["el_GR", "es_MX", "et_EE", "fa_IR", "fi_FI", "fil_PH", "fr_CA", "fr_FR"],
+      ...["gu_IN", "he_IL", "hi_IN", "hr_HR", "hu_HU", "id_ID", "is_IS", "it_IT"],
+      ...["ja_JP", "kn_IN", "ko_KR", "lt_LT", "lv_LV", "ml_IN", "mr_IN", "nl_NL"],
+      ...["no_NO", "pa_IN", "pl_PL", "pt_BR", "pt_PT", "ro_RO", "ru_RU", "sk_SK"],
+      ...["sl_SI", "sr_RS", "sv_SE", "sw_KE", "sw_TZ", "ta_IN", "te_IN", "th_TH"],
+      ...["tr_TR", "uk_UA", "ur_PK", "vi_VN", "zh_CN", "zh_TW", "zu_ZA"],
+    ];
+    const codes = locales.map(resolveLanguageCode);
+
+    expect(locales).toHaveLength(55);
+    expect(codes).not.toContain(null);
+    expect(new Set(codes).size).toBe(55);
+    expect(codes.slice(0, 2)).toEqual(["ar-EG", "ar-SA"]);
+    expect(resolveLanguageCode("en_US")).toBe("en-US");
+  });
+
+  it("derives dropdown options with auto-detect first and native names as search terms", () => {
+    const [auto, arabic] = languageOptions;
+
+    expect(auto).toEqual({ value: "auto", label: "Auto-Detect" });
+    expect(arabic).toEqual({
+      value: "ar",
+      label: "Arabic",
+      description: "العربية",
+      keywords: ["العربية", "ar"],
+    });
+    expect(getLanguageLabel("fil")).toBe("Filipino");
+    expect(getLanguageLabel("xx")).toBe("xx");
+  });
+
+  it("resolves BCP 47 tags to variants, then to their base language", () => {
+    expect(resolveLanguageCode("pt-br")).toBe("pt-BR");
+    expect(resolveLanguageCode("pt_PT")).toBe("pt-PT");
+    expect(resolveLanguageCode("zh-TW")).toBe("zh-Hant");
+    expect(resolveLanguageCode("zh-Hant-HK")).toBe("zh-Hant");
+    expect(resolveLanguageCode("zh-Hans-CN")).toBe("zh");
+    expect(resolveLanguageCode("pt-AO")).toBe("pt");
+    expect(resolveLanguageCode("en-AU")).toBe("en");
+    expect(resolveLanguageCode("xx-YY")).toBeNull();
+    expect(getLanguageLabel("es-MX")).toBe("Spanish (Mexico)");
+  });
+
+  it("exposes writing direction for right-to-left scripts", () => {
+    expect(getWritingDirection("he")).toBe("rtl");
+    expect(getWritingDirection("ur")).toBe("rtl");
+    expect(getWritingDirection("ja")).toBe("ltr");
+    expect(getWritingDirection("auto")).toBeUndefined();
+  });
+});
@@ -0,0 +1,567 @@
+import type {
+  DropdownOption,
+  LanguageCode,
+  LanguageDefinition,
+  WritingDirection,
+} from "../types";
+
+/**
+ * Languages the app can translate between, sorted by English name. Codes are
+ * BCP 47 tags: an ISO 639-1 language (ISO 639-2 `fil` for Filipino), plus a
+ * region or script subtag for the variants that need their own wording.
+ * TranslateGemma covers all of them: each of its 55 WMT24++ target locales has
+ * an entry, a plain code such as `de` for de_DE or a variant such as `pt-BR`,
+ * and English is their source.
+ */
+export const LANGUAGES = [
+  {
+    code: "ar",
+    name: "Arabic",
+    nativeName: "العربية",
+    script: "Arab",
+    direction: "rtl",
+  },
+  {
+    code: "ar-EG",
+    name: "Arabic (Egypt)",
+    nativeName: "العربية (مصر)",
+    script: "Arab",
+    direction: "rtl",
+    promptName: "Arabic as written in Egypt",
+    promptHint:
+      "Write Modern Standard Arabic with the vocabulary and conventions used in Egypt.",
+  },
+  {
+    code: "ar-SA",
+    name: "Arabic (Saudi Arabia)",
+    nativeName: "العربية (السعودية)",
+    script: "Arab",
+    direction: "rtl",
+    promptName: "Arabic as written in Saudi Arabia",
+    promptHint:
+      "Write Modern Standard Arabic with the vocabulary and conventions used in Saudi Arabia.",
+  },
+  {
+    code: "bn",
+    name: "Bengali",
+    nativeName: "বাংলা",
+    script: "Beng",
+    direction: "ltr",
+  },
+  {
+    code: "bg",
+    name: "Bulgarian",
+    nativeName: "Български",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  {
+    code: "ca",
+    name: "Catalan",
+    nativeName: "Català",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Catalan (from Catalonia)",
+  },
+  {
+    code: "zh",
+    name: "Chinese (Simplified)",
+    nativeName: "简体中文",
+    script: "Hans",
+    direction: "ltr",
+    promptName: "Simplified Chinese",
+    promptHint: "Write Simplified Chinese characters (简体字), never Traditional ones.",
+    aliases: ["zh-Hans", "zh-CN", "zh-SG"],
+  },
+  {
+    code: "zh-Hant",
+    name: "Chinese (Traditional)",
+    nativeName: "繁體中文",
+    script: "Hant",
+    direction: "ltr",
+    promptName: "Traditional Chinese",
+    promptHint: "Write Traditional Chinese characters (繁體字), never Simplified ones.",
+    aliases: ["zh-TW", "zh-HK", "zh-MO"],
+  },
+  {
+    code: "hr",
+    name: "Croatian",
+    nativeName: "Hrvatski",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "cs",
+    name: "Czech",
+    nativeName: "Čeština",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "da",
+    name: "Danish",
+    nativeName: "Dansk",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "nl",
+    name: "Dutch",
+    nativeName: "Nederlands",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "en-GB",
+    name: "English (United Kingdom)",
+    nativeName: "English (UK)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "British English",
+    promptHint:
+      "Use British spelling, vocabulary, and conventions (colour, organise, flat).",
+    aliases: ["en-UK"],
+  },
+  {
+    code: "en-US",
+    name: "English (United States)",
+    nativeName: "English (US)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "American English",
+    promptHint:
+      "Use American spelling, vocabulary, and conventions (color, organize, apartment).",
+  },
+  {
+    code: "et",
+    name: "Estonian",
+    nativeName: "Eesti",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "fil",
+    name: "Filipino",
+    nativeName: "Filipino",
+    script: "Latn",
+    direction: "ltr",
+    aliases: ["tl"],
+  },
+  {
+    code: "fi",
+    name: "Finnish",
+    nativeName: "Suomi",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "fr",
+    name: "French",
+    nativeName: "Français",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "fr-CA",
+    name: "French (Canada)",
+    nativeName: "Français (Canada)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Canadian French",
+    promptHint: "Use Quebec French vocabulary, spelling, and conventions.",
+  },
+  {
+    code: "fr-FR",
+    name: "French (France)",
+    nativeName: "Français (France)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "European French",
+    promptHint: "Use the vocabulary, spelling, and conventions of France, not Quebec.",
+  },
+  {
+    code: "de",
+    name: "German",
+    nativeName: "Deutsch",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "el",
+    name: "Greek",
+    nativeName: "Ελληνικά",
+    script: "Grek",
+    direction: "ltr",
+  },
+  {
+    code: "gu",
+    name: "Gujarati",
+    nativeName: "ગુજરાતી",
+    script: "Gujr",
+    direction: "ltr",
+  },
+  {
+    code: "he",
+    name: "Hebrew",
+    nativeName: "עברית",
+    script: "Hebr",
+    direction: "rtl",
+    aliases: ["iw"],
+  },
+  {
+    code: "hi",
+    name: "Hindi",
+    nativeName: "हिन्दी",
+    script: "Deva",
+    direction: "ltr",
+  },
+  {
+    code: "hu",
+    name: "Hungarian",
+    nativeName: "Magyar",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "is",
+    name: "Icelandic",
+    nativeName: "Íslenska",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "id",
+    name: "Indonesian",
+    nativeName: "Bahasa Indonesia",
+    script: "Latn",
+    direction: "ltr",
+    aliases: ["in"],
+  },
+  {
+    code: "it",
+    name: "Italian",
+    nativeName: "Italiano",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "ja",
+    name: "Japanese",
+    nativeName: "日本語",
+    script: "Jpan",
+    direction: "ltr",
+  },
+  {
+    code: "kn",
+    name: "Kannada",
+    nativeName: "ಕನ್ನಡ",
+    script: "Knda",
+    direction: "ltr",
+  },
+  {
+    code: "ko",
+    name: "Korean",
+    nativeName: "한국어",
+    script: "Kore",
+    direction: "ltr",
+  },
+  {
+    code: "lv",
+    name: "Latvian",
+    nativeName: "Latviešu",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "lt",
+    name: "Lithuanian",
+    nativeName: "Lietuvių",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "ml",
+    name: "Malayalam",
+    nativeName: "മലയാളം",
+    script: "Mlym",
+    direction: "ltr",
+  },
+  {
+    code: "mr",
+    name: "Marathi",
+    nativeName: "मराठी",
+    script: "Deva",
+    direction: "ltr",
+  },
+  {
+    code: "no",
+    name: "Norwegian",
+    nativeName: "Norsk",
+    script: "Latn",
+    direction: "ltr",
+    aliases: ["nb", "nn"],
+  },
+  {
+    code: "fa",
+    name: "Persian",
+    nativeName: "فارسی",
+    script: "Arab",
+    direction: "rtl",
+  },
+  {
+    code: "pl",
+    name: "Polish",
+    nativeName: "Polski",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    nativeName: "Português",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "pt-BR",
+    name: "Portuguese (Brazil)",
+    nativeName: "Português (Brasil)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Brazilian Portuguese",
+    promptHint:
+      "Use Brazilian spelling, vocabulary, and você as the usual form of address.",
+  },
+  {
+    code: "pt-PT",
+    name: "Portuguese (Portugal)",
+    nativeName: "Português (Portugal)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "European Portuguese",
+    promptHint:
+      "Use European Portuguese spelling, vocabulary, and forms of address, not Brazilian usage.",
+  },
+  {
+    code: "pa",
+    name: "Punjabi",
+    nativeName: "ਪੰਜਾਬੀ",
+    script: "Guru",
+    direction: "ltr",
+  },
+  {
+    code: "ro",
+    name: "Romanian",
+    nativeName: "Română",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "ru",
+    name: "Russian",
+    nativeName: "Русский",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  {
+    code: "sr",
+    name: "Serbian",
+    nativeName: "Српски",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  {
+    code: "sk",
+    name: "Slovak",
+    nativeName: "Slovenčina",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "sl",
+    name: "Slovenian",
+    nativeName: "Slovenščina",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "es-MX",
+    name: "Spanish (Mexico)",
+    nativeName: "Español (México)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Mexican Spanish",
+    promptHint: "Use Mexican Spanish vocabulary and ustedes for the plural you.",
+  },
+  {
+    code: "es-ES",
+    name: "Spanish (Spain)",
+    nativeName: "Español (España)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "European Spanish",
+    promptHint:
+      "Use Peninsular Spanish vocabulary and vosotros for the informal plural you.",
+  },
+  {
+    code: "sw",
+    name: "Swahili",
+    nativeName: "Kiswahili",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "sw-KE",
+    name: "Swahili (Kenya)",
+    nativeName: "Kiswahili (Kenya)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Kenyan Swahili",
+    promptHint: "Use the Swahili vocabulary and conventions of Kenya.",
+  },
+  {
+    code: "sw-TZ",
+    name: "Swahili (Tanzania)",
+    nativeName: "Kiswahili (Tanzania)",
+    script: "Latn",
+    direction: "ltr",
+    promptName: "Tanzanian Swahili",
+    promptHint: "Use the Swahili vocabulary and conventions of Tanzania.",
+  },
+  {
+    code: "sv",
+    name: "Swedish",
+    nativeName: "Svenska",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "ta",
+    name: "Tamil",
+    nativeName: "தமிழ்",
+    script: "Taml",
+    direction: "ltr",
+  },
+  {
+    code: "te",
+    name: "Telugu",
+    nativeName: "తెలుగు",
+    script: "Telu",
+    direction: "ltr",
+  },
+  {
+    code: "th",
+    name: "Thai",
+    nativeName: "ไทย",
+    script: "Thai",
+    direction: "ltr",
+  },
+  {
+    code: "tr",
+    name: "Turkish",
+    nativeName: "Türkçe",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "uk",
+    name: "Ukrainian",
+    nativeName: "Українська",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  {
+    code: "ur",
+    name: "Urdu",
+    nativeName: "اردو",
+    script: "Arab",
+    direction: "rtl",
+  },
+  {
+    code: "vi",
+    name: "Vietnamese",
+    nativeName: "Tiếng Việt",
+    script: "Latn",
+    direction: "ltr",
+  },
+  {
+    code: "zu",
+    name: "Zulu",
+    nativeName: "isiZulu",
+    script: "Latn",
+    direction: "ltr",
+  },
+] as const satisfies readonly LanguageDefinition[];
+
+const LANGUAGE_BY_CODE = new Map<string, LanguageDefinition>(
+  LANGUAGES.map((language) => [language.code, language]),
+);
+
+// Lowercase tags and aliases, so lookups ignore case and `_` separators.
+const LANGUAGE_CODE_BY_TAG = new Map<string, LanguageCode>(
+  LANGUAGES.flatMap(({ code, aliases = [] }: LanguageDefinition) =>
+    [code, ...aliases].map((tag): [string, LanguageCode] => [
+      tag.toLowerCase(),
+      code as LanguageCode,
+    ]),
+  ),
+);
+
+export const SUPPORTED_LANGUAGE_CODES: string[] = LANGUAGES.map(({ code }) => code);
+
+export const AUTO_DETECT_OPTION: DropdownOption = {
+  value: "auto",
+  label: "Auto-Detect",
+};
+
+export const findLanguage = (code: string): LanguageDefinition | undefined =>
+  LANGUAGE_BY_CODE.get(code);
+
+/**
+ * Resolve a BCP 47 tag to a registry code. Unknown subtags are dropped from the
+ * end until a tag matches, so `zh-Hant-TW` resolves to `zh-Hant` and `pt-AO`
+ * to the base `pt`.
+ */
+export const resolveLanguageCode = (tag: string): LanguageCode | null => {
+  const subtags = tag.trim().replace(/_/g, "-").toLowerCase().split("-");
+  for (let length = subtags.length; length > 0; length -= 1) {
+    const code = LANGUAGE_CODE_BY_TAG.get(subtags.slice(0, length).join("-"));
+    if (code) return code;
+  }
+  return null;
+};
+
+export const getBaseLanguageCode = (code: string): string => code.split("-")[0];
+
+/** Dropdown options for the registry, after Auto-Detect. */
+export const languageOptions: DropdownOption[] = [
+  AUTO_DETECT_OPTION,
+  ...LANGUAGES.map(({ code, name, nativeName }) => ({
+    value: code,
+    label: name,
+    description: nativeName === name ? undefined : nativeName,
+    keywords: [nativeName, code],
+  })),
+];
+
+export const getLanguageLabel = (code: string): string =>
+  code === AUTO_DETECT_OPTION.value
+    ? AUTO_DETECT_OPTION.label
+    : (findLanguage(code)?.name ?? code);
+
+export const getWritingDirection = (code: string): WritingDirection | undefined =>
+  findLanguage(code)?.direction;
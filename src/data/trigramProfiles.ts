@@ -0,0 +1,34 @@
+// Generated by scripts/build-trigram-profiles.ts from scripts/language-samples.
+// Each profile lists a language's most frequent character trigrams, most
+// frequent first, separated by "|". Regenerate instead of editing by hand.
+export const TRIGRAM_PROFILES: Record<string, string> = {
+  ca: "ar |es | de| el|el | i | pe| qu|per| es| ca| la|la | a |de |ns |s a| co| va|a m|que| l | no| pr| un|a a|a l|er |i e|les|ls |res|s d| le|a c|a p|da |em |est|pre|s p|ue | ho|com|e l|eix|eu |ins|na |no |nt |par|ra |re |ta | en| fi| ma| mo| si| to|ada|an |ca |els|en |ens|ent|esp|olt|or |pro|r a|r d|r l|s n|s v|tre|via| ab| er| ha| ne| pa| se| so|a e|aba|al |am |ans|ant|ara|at |ban|car|del|des|era|ere|és |esc|fin|iat|it |iu |ix |l e|lor|m a|mol|o e|orn|ort|pet|r e|rar|s e|s i|si |sta|t e|t i|t p|tan|ts |un |una|va |vam| ac| al| am| ap| ar| av| fo| mi| re| ta| te| ve| vi|a f|a i|a n|aca|amb|anc|art|avi|bre|cal|cam|can|col|con|e b|e c|erò|et |eti|for|hor|ica|ill|ió |ir |l s|l v|lar|lle|lli|lt |m s|m t|mb |men|mpr|n a|n c|nar|nta|om |omp|ona|qua|què|r c|r i|r p|rem|rne|rò |rti|s h|s m|sco|spe|str|t d|t q|tei|tem|tit|tor|uan|uè |ven|vol| ag| ai| an| ba| bi| bo| d | da| di| és| fe| in| ju| ob| pl| po| s | sa| tr| vo|a d|a q|a s|a t|aça|aci|ade|aix|als|ami|ana|any|apa|are|arr|as |ass|atj|ats|bar|bat|ble|cab|cad|ces|ció|cri|dad|dre|dur|e d|e e|e n|e p|e v|eca|egu|eme|emp|end|env|ers|esa|ess|fa |fer|gra|ho |i a|í e|i q|iba|ies|ina|is |ixí|l a|l f|l m|l o|l p|lem|lic|lio|llo|lta|m c|m d|man|mar|mat|mil|min|mpa|nan|nca|nen|ner|nse|nvo|nya|o a|ó i|o s|obl|obr|ol |oll|ome|ora|ost|ote|pa |pas|pla|pli|qui|r f|r u|rce|rda|ref|reg|rei|ren|rib|riu|rob|rov|rri|rs |rta|rte|s b|s q|s s|scr|sen|set|seu|sor|spr|ssi|st |tir|tja|tot|u e|u h|u l|uar|unt|ura|ure|var|vis|xí | aq| as| be| bu| cl| du| em| eq| et| ex| fa| fl| ga| ge| gu| he| il| im| ll| m | me| mu| ni| o | ol| on| ri| su| t | té| úl| vu|a b",
+  cs: " po| a | se|me |se | na| do| ne|li | ve|te | ch| pr|e s|ní |at |do |e n|na |o p|oto| až| by| ho| je| js| př|a s|až |byl|e k|e m|e v|hod|jsm|ké |ky |ly |ou |sme|sta|ti | al| co| ja| le| v | vy| za|a p|a z|ale|co |dy |est|ete|í a|i n|it |je |le |mi |o s|pot|pro|tě |tím|to |vel|y a|že | če| kd| li| ma| ob| os| st| sv| ti| to| vý| ze|alo|aše|ba |čer|ch |cho|dé |dí |e a|é a|e p|e z|ed |elk|eme|ení|hle|i b|í c|i v|íli|íme|jak|jí |kdy|ko |kol|kon|ku |led|let|lké|lo |m n|nou|ote|ova|poč|pok|prá|rát|ráv|raz|še |t a|tom|tře|u v|ve |y d|y n|ych|yly| br| dě| dr| fo| ka| kn| ko| me| mi| mo| mu| ná| ni| o | ot| rá| ře| s | si| sl| so| tý| uk| va| vr| vš| že| zk| zp|á a|a b|a l|á p|a v|á v|ají|ám |aři|asn|ata|átk|ažd|azi|bje|brz|byc|ce |ces|chn|chv|ci |d j|d n|daj|dat|dem|den|dět|díl|e d|e l|e o|é r|e š|é s|ě v|é z|eba|eka|el |em |en |epš|ěst|et |etí|ěti|eví|ezi|ho |hor|hot|hví|hy |i a|i c|í d|i k|i p|í p|i s|í s|í ú|í v|idé|ikd|il |ili|ílí|ím |ími|írá|jem|ji |jte|kat|kaž|kni|kud|l j|lá |len|lep|lid|lik|lov|m a|m v|měs|mez|mus|n j|nám|naš|né |neb|nen|nes|nih|nik|no |ný |o b|o c|o h|o j|o z|obj|očk|od |oku|ole|om |or |ost|otř|ovo|píš|pos|pra|pře|pří|rá |rač|rad|rah|řeb|řed|řek|řet|ří |řil|rot|rzy|sdí|si |ší |šli|sob|sou|stě|t h|t p|t z|ta |tal|tat|tev|tí |tko|u p|u t|u z|ud |uje|uká|vaš|vat|ven|víl|vír|vrá|vu |y p|ý t|ým |ž n|ž s|zil|zko|zy | ab| ap| be| bl| bu| bý| ce| čl| čt| da| de| dí| fi| hn| ji| k | kl| kr| kt| la| lé| mě| ně| ny| od| pá| pe| pě| pí| pl| ra| ro| sd| še| sh| ší| šk| šl| sn| sp| te| tl| tř| úd| úk| un| út| uv| úz| úž| vě| ví| vů| z | zá| zl| zm| zn| zo|a c|a d|a m|á m",
+  da: "en |er | de|og | vi|et | og|ne | fo|den| sk|for|vi | at| hv|at |der|te | me|lle|re | en| ti|ar |ig |kke| er| i | ve|al |de |e o|e v|ed |g v|ge |il |lig|r a|rne|til|ver| om| va|år |det|e d|ede|ene|ere|gen|kal|mme|n o|om |or |r d|ska|ten|tte|var| af| fr| ha| in| ko| på| si|ave|dre|e h|e i|ern|es |g d|ger|i s|ind|ke |mer|n m|nde|på |r b|r f|r o|ste|t b|t h|t s| di| du| ik| nå| op| pr| st|ad |d d|del|e m|e s|e t|fte|ige|ik |ikk|ill|ker|l s|le |ler|m s|med|n f|n t|ort|r e|r h|r i|r k|rt |t i|t o|ve |vet|vis| al| be| bi| bø| da| ge| je| kl| ma| må| se| sn| to| ud|ag |age|app|bli|d a|dag|dig|du |e b|e e|e p|eg |ent|fra|g h|g o|har|hav|hva|hvi|igt|in |ive|jeg|k f|lt |m v|men|n a|n d|n e|n h|n k|n s|n v|når|nen|nge|omm|orb|ppe|pro|r p|r s|r v|ra |ren|res|rge|se |sid|tor|vad|ved|ven|vor| åb| bl| br| fe| gå| gi| he| ho| hy| kæ| kø| la| li| re| sm| so| tr| væ|å f|åbn|åde|ærl|ætt|af |all|amm|an |and|arm|art|bag|bed|bil|ble|bne|bør|d e|d f|din|dst|e a|e f|e k|e u|edr|ege|ell|els|elt|em |end|eve|g a|g b|g f|g g|g s|gik|gt |hve|hvo|i a|i h|i k|i m|i v|ids|ing|is |ise|isk|k v|kær|ken|kla|kom|kon|kri|l d|l t|lav|ldr|lem|len|lev|lse|må |måd|nd |ndr|ndt|ner|nte|nu |ole|ord|ore|ørn|ote|pe |r m|rbe|rbi|rdi|ret|rig|riv|rli|s e|s t|sen|ses|sin|sk |sko|skr|sna|sne|som|stå|sti|t d|t f|t l|ted|ter|tid|træ|u s|vil| ad| åe| æl| æn| an| ar| år| ba| bæ| bj| bu| by| do| dy| eg| el| et| fa| få| fæ| fø| fu| gr| hi| hj| hu| ig| ju| ka| kn| lu| mo| næ| nu| øe| of| øj| os| ot| pe| ra| ri| sa| så| sæ| sp| su| tæ| tu| ug| vo|å å|å b|a d|å d|a h|a j|a k|å k|å n|a s|å s|å u|å v|ade|åed|ækk|æld|ælg|æll|aen|ænd|ænk",
+  de: "en |er |ie |nd | di| un|die|und|ich| de| si| we|der| wi|sch| wa| zu|ber|ten|che|den|ein|ht |ir | ge|ch |n s|wir| ei|cht|e a|in |n d|r w|war| an| au| be| bi|e d|es |ind|nde|r s| da| sc| se|abe|art|hen|hre|lie|n l|n m|n w|ng |ren|sie|te | ni| so|auf|bis|e w|ebe|ine|is |n a|n b|n u|r d|rt |s w|st |t w|um |zu | ab| ha| in|ahr|an |ang|ben|d d|e s|em |ere|gen|hr |n e|nn |r b|rde|re |rte|sse|t u|wen| fr| is| je| li| st| um| vo|ar |as |be |bes|chl|d w|des|e k|e m|e u|enn|erd|ers|ert|fah|he |hle|ieb|ist|len|men|n i|ne |nen|nic|och|r i|rei|s d|s e|s s|sen|ser|sin|ss |sta|t d|t s|ter|tte|uns|uss|wei|wer| al| bä| du| er| es| gr| ic| ih| kl| le| ma| te| üb| ve|ach|äch|ag |all|am |and|at |ate|aus|chr|das|dat|de |dir|e b|e f|e h|ede|ehr|eht|eig|eit|eko|end|ern|esc|etz|g a|g z|geh|hal|hat|jed|ler|lic|lle|los|lte|m d|mme|n g|n k|nse|omm|r g|r u|rge|se |seh|sic|t b|t g|t i|tag|tzt|übe|uf |ufg|ung|ver|vor|was|zur| am| br| fa| fo| ga| im| ki| kü| la| mi| mo| mu| mü| nä| no| öf| re| wä|ähl|als|alt|are|ass|bäc|chs|cke|d a|d h|d u|d ü|d v|dem|dun|e i|e n|e p|e z|ehe|eib|eil|eis|eiß|ema|emü|ent|erb|erg|erl|eut|f d|ffn|fge|fne|for|ft |gan|geb|gef|gek|gem|ges|gro|gt |h w|hab|her|hli|hlo|hne|i u|iem|ieß|ige|igt|ihr|im |ing|ise|iß |it |itt|ken|kin|kom|lan|let|ls |m a|m f|m s|mal|man|mar|me |mit|mus|müs|n f|n j|n n|n o|n ö|nau|ndu|nem|ner|nfi|nge|nie|nne|noc|nsc|öff|oll|onn|or |org|ort|oss|r a|r f|r h|r n|r z|ran|rbe|ric|rn |roß|rüc|s n|s o|s t|s z|sei|sol|son|ste|t a|t e|t z|tei|u d|uch|ück|urü|us |zei|zen|zte|zum| ac| äl| än| ar| ba| bü| do| dr| en| fe| fi| fl| fu| he| hi| ho| hü| ja| ju| ko| ku| lo",
+  en: " th|the|he | to| we|nd | an|and|to |e t|er | wa|d t|ed |en |n t|we | be| co|e w|it |ll |on |ver| wh| wi|ay |e s|es |is |ng | ha| ho| in| re| yo|eve|ing|re |ut |you| a | is| ne| no| sh|as |at |ave|e c|ear|ery|in |ot |our|ow |r w|ry |s a|t w|ve | ch| it|e a|e b|h t|hat|ion|ith|l t|nti|r t|rea|s i|st |th |tha|til|ur |whe|wit| bu| ev| fr| pe| se| st| ve|ach|all|ar |but|ch |che|com|d b|day|e n|eac|ere|for|hav|her|hot|ill|not|now|o t|ou |s t|s w|sho|t i|t s|tio|unt|way|ws |y a| cl| fo| i | of| ou| pa| pr| so| ta| tr| un| wo|ain|ait|alk|an |are|art|ast|ati|ck |con|d r|d w|ds |e h|e l|e p|g t|g w|has|hen|his|hou|how|il |l s|le |ly |n i|n w|or |out|pen|pro|r p|res|s b|s h|s n|s s|t a|t t|t u|thi|tin|up |wai|wer|y t|y w| al| am| ap| as| ba| da| de| do| ea| fi| hi| if| ju| kn| la| li| lo| ma| mo| op| si| sm| su| te| ti| up| wr|a h|a s|ake|al |am |app|ard|ask|ath|be |bef|ber|ble|chi|cho|d i|d p|d s|den|der|don|dre|e d|e f|e i|e m|e o|e r|e u|eam|eed|efo|el |ell|emb|ens|eop|eth|ews|f a|fro|g a|get|ght|han|har|hed|hes|het|hil|hoo|ht |i w|ick|ida|if |igh|ild|ins|inu|k i|k t|ke |kno|l n|las|ld |lde|ldr|lic|lon|m w|mbe|me |ms |n a|n c|n f|n v|ne |nee|nin|ns |o c|o s|o w|of |ol |old|om |ome|omp|one|ool|ope|opl|ore|ort|ose|oul|oun|ove|own|ows|p a|p w|peo|per|ple|r a|r i|r s|rde|red|ren|rit|rom|rro|rs |rt |rti|s f|s o|se |sha|sk |sta|sti|t b|t c|t h|t o|t y|tal|tel|u h|uld|urs|ved|w t|wal|was|wha|wil|wn |wri|y c|y e| ab| ag| at| aw| bi| bl| bo| br| by| ca| ei| er| ex| ga| ge| go| hu| im| le| me| mi| mu| na| ol| on| or| ow| ph| ri| sa| sc| sn| sq| us| vi| ye|a c|a i|a l|a n|a t|abl|abo|ack|ad ",
+  es: "os | de| la|el |que| qu| y |es |la |ue | co| el| es|ar |as |de |mos|ra |s d|te | ca| ha| lo|nte|sta| se| si| un|a e|con|da |do |e e|e l|ent|ien|par|per| en| no| pa| pe|a c|an |e c|e s|era|est|los|o e|or |ta |to | a | ma| pr| te|a l|and|ant|cho|en |ero|ho |las|no |r l|ran|ro |s e|s p|un | mu| po| sa| vi|a a|a m|a n|a p|a s|amo|ara|del|nta|o s|o y|ont|pre|s n|s s|se |tar|tes|tie| an| er| re| su| ti|a d|a t|ado|art|ast|e t|emo|emp|esp|has|lo |mpr|n e|na |ndo|nto|o a|o c|o d|o p|ón |re |rec|res|rte|s c|s m|si |uer|y e|y l| ab| cu| em| gu| he| in| ju| me| so| to|a h|a q|aba|abr|aci|ada|ali|ana|ca |com|cua|dos|e a|e m|e q|ech|ema|end|equ|ía |ier|imo|io |ión|l p|lar|leg|lle|muy|n a|n p|n s|nde|nes|ño |o m|omp|on |ora|pla|por|pro|qué|rar|ras|rda|ros|s a|sal|spe|ten|tod|tos|tra|uan|uar|ué |ura|uy |ver|y q| al| ap| ar| bi| bo| da| fo| fu| ho| ll| mo| ne| ni| nu| pl| pu| ta| va| ve|a g|a i|abe|aja|al |aña|ano|ard|are|ato|ban|be |bra|bre|cac|cad|cal|cam|car|ce |cer|ces|ció|cog|cri|dat|der|des|dre|dur|e d|e p|e u|ea |ece|eci|ega|egu|ejo|emb|ene|eño|ens|er |erc|erd|ere|erm|err|ert|esc|esi|for|fue|ga |gio|gua|gui|hec|hor|iaj|ida|iem|igu|in |iño|ion|jor|l c|l r|l v|lio|lor|lva|man|mar|mas|me |mej|min|mo |mpa|muc|n c|n h|n q|n v|n y|nad|nco|nda|ne |niñ|ños|nse|ntr|o h|o l|o n|o q|o r|o t|o v|och|odo|oge|olv|ona|one|orm|ote|pan|peq|po |r a|r d|r e|r h|r p|r y|ref|rem|rib|rid|rmi|rro|s b|s h|s l|s q|s t|s v|s y|sab|sad|scr|sin|so |sop|sto|str|su |tan|ter|uch|ueb|ueñ|ues|una|ust|via|vie|vol| ac| ah| añ| as| ba| ce| ci| cl| có| dí| do| du| eq| ge| gr| hu| im| is| li| mi| na| o | oc| ol| ro| tr",
+  et: " ja|ja | ku|st |a k|ga |me |da |kui| on| se| va|a p|e k|ed |el |id |ime|ma |ud | me| ol| te| vä|a v|ad |aga|ise|lli|on |se |sed| ei| ka| ko| pa| su|al |ei |ge |ida|le |lis|mis|ni |nud|ui |ust| mi| pe| ra| sa|a j|a l|a m|a o|ama|and|ast|d e|d i|d k|e j|e s|eel|est|i o|i t|is |ist|ne |pea|sim|sta|ta |vad| et| lä| ta|all|ame|as |ata|ava|d s|e e|e l|e p|eks|ese|i j|i k|i m|iga|ini|ks |l v|li |n s|oli|sel|t j|uta| il| ki| kõ| la| om| oo| pi| pr| re| tu|a s|a t|aam|ab |ada|ade|äga|age|ahe|aks|ala|atu|d o|de |dis|dus|e o|e t|ega|eie|eli|et |eva|gi |htu|ie |ige|ike|ilm|inn|isi|jut|kal|ke |kun|l k|lid|lja|lma|mas|mei|mid|n o|nna|nne|ole|oma|pro|s l|sin|stu|sul|t r|tag|teg|ub |uid|ul |väg|vaj| ag| av| ee| en| ho| ig| in| is| jä| jõ| ju| ke| le| lõ| ma| nä| ni| pä| pu| rä| si| so| ül| uu| ve| vi|a a|a e|äev|ähe|äik|aja|ake|ald|ami|an |ane|ann|aps|ara|art|asi|ate|ats|d m|d p|d r|dal|dam|dat|des|dme|dsi|e h|e i|e m|e n|ea |ead|eda|ede|eeg|egi|eid|eis|ejä|ele|ell|ema|end|eni|enn|ere|ess|gal|gas|giv|hak|he |hku|hub|i p|i r|i v|ik |iku|ile|in |inu|irj|iva|jad|jag|jär|jõu|k m|kas|ken|kes|kid|kir|koh|kõi|kon|kse|kus|l a|l j|l n|l o|l p|läh|lap|lat|lei|les|let|lig|lin|lle|lte|mat|mee|mes|n t|na |nd |nda|ndi|ndm|ndu|nim|nn |oda|õik|oja|ood|ooj|ool|ots|päe|pal|par|pil|pse|puh|raa|rää|ran|rei|rel|rju|s k|s o|s t|saa|sad|see|sek|ses|si |sid|sii|soo|t p|t s|t v|tak|tal|tam|tan|te |tea|tei|tel|ti |tsa|tse|tte|tud|tus|u j|u s|uan|uhu|üle|ull|und|uni|upp|usi|uul|va |val|vee|vig| aa| ai| an| ar| er| ha| he| hu| im| kö| kü| li| lo| lu| lü| mä| mö| mu| ne| nu| nü| õh| oj| os| ot| po| tö| üh| ul| võ|a i",
+  fi: "in | ja|en |ta |aa |ja |tä |me |mme|taa|lle|tta| ku|a k|ill|le | ka| on| vi|a p|a s|an |at |itä|n t|on | ko|a j|lä |nne| jo| me| mi| mu| ol| pa| tu| va|a m|a v|ell|enn|imm|ist|n k|n p|si |sta|un | ei| he| lä| pi|ä k|ä o|et |i k|i m|itt|kaa|kse|llä|mit|n a|n j|n m|nta|sen|set|sin|tie|vat|vii| as| ke| ki| ma| nä| pu| sa| si| ta| ti|ä t|aam|aan|än |ans|ava|dot|e k|e t|een|ei |eit|ett|i o|iel|irj|ise|isi|ita|kai|ki |kir|kun|kuu|lla|mat|n h|oli|t k|t o|ten|ti |uri|utt|val|vät|vin| il| le| od| ra| se| te| to|a e|a l|a o|ä p|ä v|aik|ain|ais|aks|all|amm|ant|ast|ät |atk|e v|eil|emm|eni|enk|hal|i l|ied|iim|ivä|ka |kei|kki|la |läh|lee|man|mei|men|min|mis|mut|n e|n l|na |nen|ni |odo|os |pit|ri |rja|s j|sa |saa|ses|sti|t m|tar|unt|uut|uva|vel|yvi| av| en| et| ha| hy| ih| is| kä| la| lu| pä| pe| su| uu| vä| yr|a a|ä e|ä h|ä j|ä l|a t|a y|ää |aak|aav|ähd|aka|ala|ali|alk|alt|änä|aps|as |ase|asi|ävä|äve|del|e h|e j|edo|eht|ein|eis|eiv|eks|elä|elt|esi|ess|eta|evä|han|hel|het|hmi|hte|hyv|i a|i p|i s|i t|i v|ia |ien|iet|ihm|ika|ikk|ilm|ime|imi|ing|ipu|ite|its|iva|jas|jat|joi|jok|jos|kan|kas|käv|kol|kos|kov|kui|läm|lap|lei|lev|li |lin|lit|liv|lli|lma|lmi|lta|ltä|luu|mmi|mpi|muu|n i|n o|n r|n s|n u|n v|nä |näk|nes|nki|nsi|ntä|nyt|o j|oit|oka|ole|oll|oma|onn|osk|ote|ott|ovi|paa|pai|pal|par|pse|puh|pur|ran|ril|rit|rjo|sä |sem|sie|sil|sis|ska|ssa|stä|sto|t i|t j|tää|tai|tan|tän|täv|teh|tka|to |toa|tor|tse|ttä|tun|tuo|tuu|u l|ua |uhu|ust|ut |uum|uun|uur|uus|vä |vaa|van|vän|vie|yri|yt | aa| ai| al| au| em| ho| ju| ky| li| lo| lö| ly| mö| my| ny| om| os| po| pr| sä| so| sy| tä| ty| ul| up| us| vu| yh",
+  fil: "ng |ang| na| ma| an| sa|g m|an |at |sa | ka| pa|ala|ong| ng|ami| at|ga |na |aka|g a|ing| ba|n a| mg|in |mga|a a|apa|ay |gan|hin|lan|mag|on | ku|ali|ara|as |ata|g k|g p|n n|o n|a m|a s|aha|min|pag|ula|ung| ta|a b|a i|a n|aan|aba|ag |aga|g b|ind|kam|kun|mal|nag|nan|san|t n|ta |to | hi|a p|ano|g t|han|ila|ina|it |kai|mi |n m|nam|ndi|nga|o a|ro |tan|yon| da| ha| is| pe| su|ago|ail|ana|and|bag|di |ero|g i|g l|g n|g s|i n|la |lak|lam|lin|mul|nap|nda|nta|o k|o s|par|per|s a|tin|uma| al| am| bu| ga| gu| ib| ko| lu| um|a h|a k|a l|a t|agl|asy|aw |buk|dal|g u|go |int|ita|kap|lat|man|mas|may|ngg|nit|o p|os |pa |pak|pan|ra |t a|t m|tay|ton|yo | ay| bi| hu| iy| la| li| mo| mu| ti|a d|a g|ad |ahi|aho|ain|aki|al |ama|any|ap |apo|ati|ayo|bah|bal|bat|bin|g h|gga|gla|gus|i s|ini|isa|ito|iyo|kan|kas|kit|ko |kon|las|lum|mab|mah|mo |n b|n i|n k|n p|nab|nak|no |non|nya|o m|pos|rat|sto|sum|syo|t h|t k|t s|tap|umu|ust|w a|wal|y n|ya |yan| ak| in| ip| pi| pr| tu| wa|abu|ada|agb|agh|agi|agk|agp|ags|agt|agu|am |amo|ani|asa|ato|awa|aya|bak|ban|bas|baw|bay|biy|but|d k|d n|da |daa|dah|der|e a|es |g g|gay|gba|ghi|gi |gko|gpa|gta|hag|hal|hat|hon|hul|i i|i k|i p|iba|ibi|iin|ik |ion|k n|kad|kag|kat|kay|kla|ksa|l a|l n|lah|lal|li |lii|lik|lit|lut|m n|maa|mad|mai|mak|mat|mpa|mus|n s|nah|naw|ngk|ot |oy |paa|pap|pas|pin|pit|po |pro|raa|s m|s p|s s|sap|so |sul|sya|t i|t p|tag|tal|tao|tat|tio|tra|tul|ubu|uka|uks|uli|ulo|umi|upo|ura|usu|uti|uto|uwe|win|y h|y m|y s| ag| ap| ar| co| er| fi| fo| gi| gr| ho| i | ik| im| it| ki| no| o | or| ot| pl| se| ul| uu| ya|a e|a o|a y|aab|aag|aal|aar|abi|abo|ade|ado|agr|ahe|aik",
+  fr: "es | le|nt |er |le |re | de|ent| no|et |les| et|de |s p| pa|e s|is |que|s e|us | en| so|nou|ns |s a| av|end|ous| ch| la| qu|e l|it |la |ne |ue |ur | tr|ais|ant|e a|e t|on |ont|r l|s d|s s|tre| à | ét| ma| un|e d|e n|mai|ons|our|par|r d|s c|t l|t p|te | co| do| fa| po| pr| vo|ait|cha|ées|est|ez |ge |il |in |lle|onn|ouv|pas|s t|son|von| ce| il| mo| pe| s |age|ain|as |avo|dan|dre|e c|e r|ers|ès |eur|ien|ier|ndr|out|pou|rès|s l|t c|t s|tte|ut | at| du| es| je| l | n | ne| ou| pl| re| sa| si| su|art|ati|att|ava|ce |con|du |e f|e m|e p|en |éta|ger|ill|ion|men|mes|mme|n e|nne|omm|otr|rai|ren|res|s b|s n|si |st |t e|t n|tai|ten|tou|trè|tro|ts |un |ven| bi| bo| ju| se| te| to|à l|a p|and|ans|app|ass|aud|ave|bou|che|cor|don|e e|e é|e j|e q|e v|ec |ère|és |he |iqu|je |l f|ler|mon|nd |nda|nde|née|nné|ntr|ore|ort|os |ôt |per|pla|rer|ris|rs |rso|rt |s v|soi|sou|sse|sur|t a|t à|t d|t m|t q|tag|tio|tôt|uit|une|ure|uve|ux |van|vec|vre|z l| a | ai| ap| ar| be| cl| da| dé| éc| fi| fo| fr| he| ja| ra| ré| t | va| ve|a b|a m|agn|aie|anc|ang|aqu|ard|arr|aut|bli|c l|ces|com|cou|d a|der|des|di |doi|e à|e b|é u|eau|el |ell|ema|emb|enc|enf|ens|era|ern|ess|été|eux|fai|fan|fau|fic|for|fra|gée|haq|hau|heu|i u|ich|ifi|ige|igu|ins|ir |iss|ite|ive|jus|l e|lag|lai|let|lio|mar|mbr|mer|mom|n c|n d|n é|n j|n l|n n|n o|nco|nfa|nge|not|nti|nts|ois|ole|ome|oup|oya|pe |pen|pré|pro|qu |qua|qui|r c|r s|rdi|rée|reu|riv|rni|ron|rou|rri|rta|rti|s g|s m|s r|se |som|sor|ste|sui|t f|t j|t o|t r|té |tem|tie|tin|u p|u s|uan|uel|uvr|ve |vot|voy|yag|z v| ac| af| âg| al| am| an| as| au| ba| ca| d | em| éq| er| êt| fe| ga| ge",
+  hr: "je | po|ti |ije|li | pr|a s|ati| i | na| se|e p|i s|mo |se | je| sv|ko | za|i p|o p| do|ako|da |te | da| ni| tr| u | vr|e i|e n|e s|i d|ju |ka |na |o j|pro| bi| iz| ka| ko|a p|aci|ada|ali|e d|i n|lje|mor|o s|o v|pri|sta|vje| a | če| kr| od| ot| ra| s | sm| st| ti|a a|a d|a k|a m|ak |am |an |ba |ca |do |eg |eka|enu|i o|ite|iti|jed|ji |kad|ma |nam|ne |nij|oda|rat|rit|smo|tim|to |tre|u i|u s| al| ho| ja| lj| ma| mo| ne| os| št| su| ve|ad |ara|aš |bil|će |ček|ćem|cij|dat|dij|e b|e j|e k|e v|eba|eli|est|ga |god|i i|i r|i u|i z|ili|im |imo|io |jet|koj|kra|la |lik|m t|nit|nji|no |nu |o i|odi|om |ora|oto|ova|pod|pok|pre|ra |rad|reb|rem|rij|sku|što|su |tka|tko|u p|vak|var|ve |vrt|zat| ak| će| dj| go| jo| ju| kn| o | pa| pe| pi| pl| pu| sa| sj| us| va| vi| zn|a i|a l|a n|a o|a u|a v|a z|adi|agr|aj |ajt|aju|ala|ama|ar |art|asa|atk|avi|bol|ci |dac|dan|di |dim|dje|e č|e o|e u|eca|eći|ede|em |eme|emo|er |eri|eti|g k|gov|gra|gre|i a|i g|i t|ika|ila|ima|in |ine|iri|iše|iz |izl|jak|jav|jec|jeg|jel|jen|jer|ješ|jež|još|jte|jud|kar|kat|ke |ki |knj|kol|kom|ku |le |lio|lju|lo |lu |m i|m k|m p|m s|men|n n|nap|naš|nje|o h|o r|o t|odm|ogr|oja|oji|oju|oka|oli|olj|oš |ošl|ost|ote|otv|pak|piš|pla|pog|poj|pos|puš|put|raj|ran|ren|rič|ro |roš|rta|rtk|san|še |ši |sje|sko|šli|slj|sni|spr|sti|sva|sve|svj|svo|ta |tak|tar|tat|tok|tov|trg|tva|tvr|u a|u b|u o|u š|u t|u u|udi|uha|upa|usk|uto|vaš|vel|vi |vra|vre|za |zag|zla|zna|zu | ap| ba| be| bl| bo| ću| di| dr| fo| ga| gr| gu| id| il| im| in| ip| is| kl| li| me| mi| ov| pj| ru| še| ši| sk| šk| sl| sn| sp| sr| šu| ta| tj| to| tv| ug| um| vj| vo| ža|a b|a j|a š",
+  hu: " a | me| az| és|és |gy |nk |en | sz|ek | el| mi|az |meg|t a|el |unk| ha| ke|a k|an |eg |egy|em |k m|on |sze| eg| ne|a m|ele|ere|ig |lt |min|ni |olt|s a|tt |ünk| gy| ki| na| vá| vo|a a|a f|a h|agy|at |át |ell|g a|ind|ja |k a|k e|kor|l m|vol| am| fe| ho|a g|a s|ak |ato|den|eke|ért|et |fel|gye|ha |hog|i a|k h|kel|ki |lye|n a|n k|nag|nde|nek|nem|ogy|ől |or |rek|t é|t m|tak|vár|zer| ad| be| cs| de| id| je| ka| kö| ny| pa| se| ut| va|ada|ami|án |árn|ás |ata|ben|dat|de |e a|e s|ég |elő|est|ész|etn|ett|g v|gya|gyo|ik |iss|juk|k f|ket|kon|kön|lat|len|ll |lle|ltu|men|n e|nne|ok |ret|rt |s m|s v|st |sza|szé|tat|tek|tel|tun|uk |uta|van|yen|yon| át| es| ez| fá| fé| fo| fő| go| in| ír| is| ko| má| mé| pé| pr| so| ta| te| tu| tú| vi|a e|a p|ágo|ák |alá|ála|alo|ált|ama|ana|ár |áro|azá|azo|ban|bb |ber|cso|dig|dik|e m|ébe|edé|egv|ék |ekb|ekr|elé|elm|ély|emb|ene|eni|enk|enn|ent|eny|ény|ér |ert|erü|es |ete|fol|g e|g j|get|gos|i s|i t|idő|iko|ill|ily|int|jár|jel|k i|k k|k n|k s|k v|kap|kat|kek|ken|l b|l é|l n|l v|lál|leg|lel|lla|log|lőt|lta|lte|m t|mbe|még|mel|mer|mik|mil|n á|n é|n m|n n|n t|nap|ne |ned|nki|nte|nyi|nyv|odá|oko|oly|ön |öny|os |osz|ot |ött|őtt|pat|r e|r é|ra |ran|rán|re |rig|ről|ros|rün|s é|s n|s p|ság|ség|sem|ssz|str|szt|szü|t e|t h|t í|t k|t n|ta |tal|tás|taz|te |ten|tés|tja|tju|tné|tud|túl|tün|udj|úl |ült|vál|ves|y d|y m|y s|yal|yek|yer|yér|z a|z i|z u|za |zás|zél|zen|zér|zni|zon|ztj| ah| ak| al| ba| bu| cé| dö| dr| e | em| en| ép| er| ér| fr| fú| he| hé| hi| hí| hó| hű| íg| il| ja| já| jo| jú| ké| le| ma| mo| mu| mú| né| öl| ön| ór| os| ös| pe| pi| rá| re| ré| rö| sa| st| tó",
+  id: "an |ang| se|ng | da| me| ke|kan| ka|dan| sa|men|ya |kam| be| te|ami|at |nya|a s|ak |da |mi |nga| di| an| ha| pe|ah |ai |ari|i k|n s|ri | pa| ti| ya|ada|ala|ber|har|i b|ika|lan|mpa|per|ran|yan|a k|a m|a p|agi|aka|ana|di |elu|eng|gan|ka |n d|n k|n t| ba| la| ma| su| tu|a y|apa|ara|ela|i d|i j|i s|pa |pad|sam|t d|ta |u s|uk |ung| ap| bu| ja|a d|a t|aha|alu|amp|dak|dar|emu|enu|erj|eti|g s|gi |i a|i p|i t|ida|lah|mem|n a|n b|ngg|ora|pai|pan|rja|ter|tid|tuk|uka|ula|um |un | de| mu| or| pu| ta| un|am |and|as |asa|ata|au |bel|buk|eka|ema|emb|eri|eta|gat|ggu|gu |han|ih |il |ing|jal|k m|ket|lu |lum|m h|mas|n m|n p|nak|nda|ngk|nta|ntu|nun|ra |say|seb|sem|set|tah|tan|tap|ti |unt| fo| in| ju| ko|a a|a b|a l|ahu|aik|ant|api|ar |aru|asi|aya|bag|bai|ebe|epa|erl|esa|g b|g m|g t|gka|h k|iba|in |ini|is |itu|k a|kar|kat|ke |kon|ku |l d|lal|lam|lau|m m|man|mun|n h|ni |nny|pag|pi |pul|rta|rus|sa |sal|san|sek|sel|si |tet|tik|tu |ua |uda|uku|ul |uli|up |ura|utu| ad| ak| al| bi| cu| hu| it| ji| le| lu| na| pi| pr| ro| si| to|a h|a i|aan|adi|aga|ali|ama|amb|amu|ann|any|ap |art|ba |bah|bih|bil|cil|cul|dah|dat|den|dip|ebi|ebu|eci|ele|emp|ena|ent|er |era|erb|ert|fot|ga |gai|gik|gin|h d|h p|h s|hu |i m|ian|iap|ik |ike|im |ipa|it |ita|jak|jan|jik|juk|jum|k b|k k|k t|kas|kec|kel|kem|kep|ker|ki |kka|l t|lag|lap|leb|li |lik|lis|lua|lun|ma |mar|mat|mba|mbi|mua|na |nam|nan|ncu|nge|ngi|nju|nul|ol |ony|oti|oto|p p|pak|pat|r t|rin|rit|rla|rot|s l|s m|sim|sin|sud|sun|sur|t i|t p|t s|tak|tar|tel|tem|tia|u a|u b|u d|u h|uar|uh |unc|uru|us | ar| at| ca| co| du| en| ho| iz| je| mi| ny| po| ud|a e|a n|a o|a r|aat|aca",
+  is: "um |ið | vi|að |ar | að| og|og | sk|nn | st|inn|ur |við| hv|na | á | en| í |er |in |ir | er| fr|ð s|num|stu|ta |til| se| þa|a o|a s|ekk|n e|r e|r v|tu |ver| me| sí| ti|a a|a þ|ð b|ð þ|en |g s|ga |gar|il |inu|ja |lin|með|ndu|r h|rin|rni|rt |st |upp|þar| al| be| ef| ek| ge| ha| he| up| ve|aði|am |ð f|ð v|ða |ði |ega|fra|gin|hve|í s|ig |ill|kar|ki |kki|la |m s|m v|n a|ni |nu |pp |r b|r m|r s|ra |ram|rey|rir|t s|und|vor| af| bí| fe| fy| ko| kv| mi| mj| va| þe| þé|a á|a f|á h|all|an |ann|ð a|dag|ðin|du |eð |eng|enn|ér |fer|fyr|g m|g v|hva|i o|i s|íða|ing|kal|kið|kom|l a|leg|lli|m h|nar|nga|ngu|nig|nin|nni|r f|rið|síð|ska|skr|tir|tt |u þ|vað|var|yri|þeg|þér| bæ| bó| bö| br| de| ég| ei| el| fó| ga| kl| le| lo| ok| op| re| sn| sv| te| út| vo| þí| þr| þu| þv|a b|a e|a í|a m|á s|áðu|af |ag |ald|alt|and|ang|arf|art|ast|áum|ber|bíð|bók|bör|ð g|ð h|ð l|da |ðan|dei|din|dum|ðum|ður|ðus|eða|ef |eft|ég |eil|eld|em |erð|ern|ers|ert|eyt|f v|fa |far|fni|fól|frá|fti|fum|g b|g f|gni|gt |gum|haf|hei|hvo|i e|íðu|ifa|ila|ínu|irn|irt|ist|ita|itu|jög|jum|k v|kál|kju|kka|kku|klu|kri|kýr|l e|l f|lan|lda|ldr|lir|ll |lla|lok|lt |ltu|luk|m a|m á|m f|m í|m o|m þ|ma |mið|mjö|mum|mur|n á|n g|n k|n o|n v|n þ|nda|ndi|ngi|nið|ög |okk|ólk|omu|opn|org|örn|ort|oru|p o|pna|r a|r á|r g|r k|r l|r o|r t|r u|rá |rði|rfu|rif|rja|rna|rta|ru |sem|sín|ská|skó|ský|sta|stó|str|sýn|t a|t e|t t|t v|t þ|tað|tal|tle|tór|tra|tta|tud|tun|tur|u á|u b|u e|u s|uda|ukk|una|unu|urf|uri|ust|veð|ví |vil|vin|vit|yrj|ýtt|þín|þur|því| áð| áf| ák| án| ár| at| át| ba| bi| bl| bú| by| da| dý| eð| ey| fa| fá| fi| fj| fl| fo| fö| fu| gö| gr| hl",
+  it: "to |re | co| il|il |no | e |mo |e i| pr|are|con|o a|a s|e c|la |ti | ch| se|e l|le |o p|te | la|amo|e a|iam|o s| un|ato|ent|est|i s|io |o c|o d|o m|on | a | ca| de| ma| mo| no| qu|a c|a p|che|di |e d|gli|he |i c|na |pre|ra | è | i | pa| pe| si|a i|chi|do |ell|ett|ma |ne |o e|per|sto|tro|un | ab| al| an| da| di| er| in| ne| pi| sc| ve|a a|abb|all|ati|bia|dat|del|e e|e f|e p|e s|era|ess|i e|i p|l p|lla|ni |non|o q|o t|po |pro|ro |se |so |tto| ap| bi| fi| so|a b|anc|and|ano|art|att|azi|bbi|car|com|cor|da |e n|e u|el |end|er |ere|gio|i d|ia |in |ino|ion|iso|li |lio|lle|ndi|o o|ogn|one|ont|ora|orn|ost|par|pia|pri|qua|res|riv|si |sta|str|tti|utt|zio| cu| fa| fo| le| mi| po| re| ri| sa| sp| st| su| te| tu| vi|a m|a n|a t|acc|agg|amb|ann|app|ate|cco|cui|de |der|e r|ete|fin|for|ggi|i b|i l|i v|iag|iar|ie |ied|ima|ina|l f|lie|lto|mbi|men|min|mol|n c|nat|nda|nde|nno|nta|nte|nto|ntr|o i|o u|o v|olt|ond|ono|ore|pan|que|ran|rem|ri |rti|sa |sce|sen|sia|spe|sso|tar|tat|tem|tre|tta|tte|tut|ui |vat|ven|via| ar| as| ba| ci| do| ge| gi| ha| lu| me| og| or| ti| tr| vo|a e|ald|ali|ant|apr|ara|arr|asp|bam|bin|bis|bre|cal|cam|cir|cos|cri|dì |div|è m|ede|egl|eme|emo|emp|erd|eri|ers|evi|fer|gia|gna|gni|go |gra|ha |hi |i a|i i|i m|i n|ica|ien|iet|igl|imo|ini|ior|ire|ito|iva|ivi|l a|l g|l m|l n|l r|l s|l v|lar|ll |lo |mar|mi |mod|mpo|n a|n e|n è|n s|nch|nco|ndo|nel|nes|ngo|nti|o f|odo|ole|omp|ort|osa|ova|pet|rac|rat|rim|rna|rop|rov|rri|san|scr|set|sog|sol|son|ssi|tan|ter|tim|tin|tit|tor|uan|ues|una|usc|va |ve |ved|vic|vos|za |zie| ac| ad| at| az| bo| br| d | em| en| es| fe| fr| gl| gr| is| l | li| o ",
+  lt: " pa|as | ka|ai |dar|me | ir|ir |os |ti | da|au |pas| ne| ta|iau|iki|kai|us | iš| pr| sa| va|ar |eli|is |kit|ome|te |vo | la|asi|duo|i n|i p|ien|ite|ki |s b| at| be| bu| ik| ko| nu| vi|a p|aba|auk|bai|da |ida|iek|kad|kas|o p|r k|r p|s i|s n|s v|tą | ja| mi| o | su|ą d|a k|ad |ada|ala|and|aus|avo|buv|čia|die|e k|ei |et |i a|i b|i g|i i|ia |kar|lab|lau|men|ms |na |pro|ra |s a|s p|s s|s t|sav|sti|tad|uvo|vai|vie| ap| du| gr| į | jū| ke| ki| nė| pe| tu|ą i|ą k|a v|aik|aip|ame|ami|aro|art|ati|bet|e a|ėjo|eka|eni|ėra|ės |i į|i k|ime|imi|ink|io |ip |iš |išk|ką |kel|kia|lan|mi |mie|mon|nėr|nes|nės|nuo|o k|o m|o s|o š|onė|par|rei|ria|rin|ro |s k|s m|si |sim|sų |ta |tai|tas|tik|u i|u n|u t|uot|ūsų|uti|vis|žin| ai| an| ar| as| ba| bi| bū| di| je| ma| mu| na| ni| no| ra| re| ry| še| ši| tr| už| vė| žm|ą a|a n|adi|ais|ait|ake|ank|apa|apl|ary|arž|asa|ask|asm|ava|bus|dą |dam|e l|e p|eik|ein|ėja|ekv|ena|eną|eny|eri|esi|ėsi|eta|ėte|eži|ger|gti|i ž|iai|iel|ies|ieš|igt|ika|ina|ino|int|ios|isk|išv|itą|iu |ja |jas|jau|jei|jo |jūs|kal|kie|kim|kla|kom|kti|kus|kvi|lą |lia|lie|lio|lis|liu|mir|mis|mo |mum|ną |nda|ndė|net|nie|nio|nki|nor|nti|nus|nys|o b|o d|o t|omi|orė|ost|pak|pap|per|pra|pri|rą |rad|raš|rdu|rod|rta|ryt|ržo|s d|s j|s o|s r|š s|sau|šei|šia|sid|sie|sir|ska|ški|sku|sme|sni|sta|su |švi|t j|tau|tę |tek|tid|to |tos|tur|u d|u k|u p|ukt|ums|uo |uom|uri|ūs |usi|val|vir|yki|ys |žmo| ak| aš| br| ei| ėj| fa| ga| ge| įd| įm| ką| kl| kn| ku| kv| li| me| mė| mo| mū| my| or| pė| pu| ru| se| sė| si| sn| sr| st| šv| tę| ti| to| up| vy| yr| ži|a a|ą b|a d|ą e|a i|a į|a j|ą j|a l|a m|a r|ą r|a s|ą s|ą š",
+  lv: "as | un|un | ka| pa|et |ām | ne| no|iet| sa| uz|es |ja |tu | la|ad |ai |dz | at| bi| ir| ma| va| vē|die|em |iem|ija|ir |ms |ti |u u| be| lī| mē| ta|ar |īdz|iek|ien|līd|mum|s k|s n|su |u t|ums|vēl|z p| da| iz| jū| mu| pi| vi|ā m|aid|aiz|ajā|arā|ās |bet|bij|ēs |ies|jā |ka |kad|kat|lab|lai|lie|lu |m b|mēs|mu |nie|no |oti|rā |s i|s j|s m|s p|s s|s t|s u|s v|sav|ska|ta |tie|u p|umu|uz |vis|z s| ar| dā| ja| jā| kā| ļo| na| pā| sk| st| ti| ve|a b|a n|a p|a s|ā v|aga|āk |atr|atv|da |dār|ēl |gai|gāj|gas|gri|i a|i b|i k|i t|i u|im |inā|jām|jum|kas|ki |ļot|m m|m u|m v|mai|n k|ni |nos|os |pag|par|pār|pie|rau|ri |rie|s a|s g|ss |t l|t n|tra|ts |ūsu|vai|vie| ai| bē| br| ce| ci| es| ga| gā| gr| ko| li| pe| pē| pr| ra| rī| se| tā| te| to|a k|a l|ā n|a u|abā|aja|ājā|āju|āka|aks|alā|am |aps|ārā|ārz|ast|āt |ata|ati|atu|auk|aur|aut|av |avu|bēr|bra|brī|cām|cil|d k|d n|dar|das|dat|ēc |eiz|ēki|eks|ena|ēr |eri|ērn|ers|eša|eti|ētu|ev |evi|eži|gad|grā|gs |gur|i i|i m|i s|ied|īgs|igt|ika|ilv|īt |ītu|iz |izb|jas|jau|jūs|k i|kal|kar|ks |kst|ļā |lēm|lvē|m n|m p|mar|mēr|mie|n s|nā |nai|nām|nas|nav|nda|net|nev|nod|o j|o s|odo|ogu|oju|onā|pēc|per|pro|r s|r v|rad|rād|rak|rba|rei|rīt|rni|rso|ru |s b|šaj|šan|ši |sim|sni|son|sta|stā|stu|t k|t s|t v|tāk|tdi|tev|tik|tur|tve|u a|u l|u n|u v|urā|uru|uzr|v l|vei|vēk|ver|vu |z j|zbr|zin| ag| ap| ār| as| bū| ca| di| dr| fa| fo| ie| in| īs| jo| kļ| ku| mā| me| mī| mū| nā| ņe| pl| po| pū| ru| sā| ša| sē| si| sl| sm| sn| so| šo| sv| tr| tu| zi| zu|a a|ā b|a c|a d|ā d|a g|a ī|ā i|ā k|a m|ā p|a r|a š|ā s|a v|abe|abo|abp|ācā|āci|adā|āda|ādā|ādī|adu|adz|āfi|agā|āga|agl|agr",
+  nl: "en | de|de |et |er | he|n d| wa| we|het| en|ver|n w| te| ve|aar|an |ten|der|n o|te |we | op|at |n e| da| er| ge|cht|e w|een|is |nde|nie| be| is| ma| mo| to| vo|ar |den|e b|e m|es |in |men|ren|t d| ee| me| ni| pr| zi| zo|aan|eel|el |erd|ere|ete|gen|it |n h|n t|nt |op |ot |r e|rde|t w|ter| al| in| om| va|ach|ag |and|dat|e d|e k|e v|eer|ent|hee|ijn|moe|n k|n l|n n|nd |om |oor|ope|pen|s w|t e|t h|tot|uit| je| no|bbe|ben|e g|e z|ebb|ens|ers|est|eve|g e|heb|hte|iet|ik |ind|ing|je |jn |l v|maa|met|ng |oet|ond|or |ord|rij|sch|sen|sta|t t|t u|t v|ur |uw |voo|war|zij| du| ga| gr| ik| ki| kl| ko| la| li| na| on| re| sc| ui| vr| wo|aak|ak |als|dag|e h|e o|e s|e t|eek|elk|euw|gev|ht |ig |ijf|jes|ke |ken|laa|lie|lle|lop|ls |m d|n a|n v|naa|ns |ome|pro|r d|r g|r h|r i|r m|r n|r s|rda|s e|s i|ste|t b|t m|t o|t z|uur|van|waa|wac|wat|wee|wor| aa| ba| bi| bo| co| do| ei| el| fo| ho| ku| of| ov| s | st| u | uu| uw| wi| ze|aag|aat|ad |age|al |all|am |ant|are|arm|art|as |bee|ber|bes|bet|chr|con|d i|d k|daa|dan|dee|din|e i|e p|e r|ede|ege|ein|ek |eld|ell|eme|end|erb|erg|ert|eru|esl|g h|g m|g n|g v|gaa|ged|geg|gro|hri|ies|ieu|iev|ige|ijk|jf |k e|kin|kje|kke|kom|kun|lag|lan|lei|lij|lke|m v|man|mom|mt |n i|n j|n m|n p|nee|nne|nog|nse|oe |oep|of |og |omt|on |ont|ooi|ote|ove|p d|p h|p w|pra|r b|r v|r w|r z|ran|rat|rei|rob|roe|roo|rug|s a|s b|s k|s m|s n|s v|sla|sse|st |t a|t c|t g|t i|t j|t p|t s|taa|tel|tem|tie|toe|tro|tst|u d|ven|vol|von|wan|was|win|zo |zon| ac| am| av| br| bu| di| ec| hu| ie| ja| ju| ka| kn| kw| lo| ne| nu| oc| ou| pa| pe| pl| se| sl| sm| sn| so| ta| tu| vl|a i|a o|aai|agd|ait|aka",
+  no: "en |er |et | og|og | de| vi| fo| ti|for|kke|ne |om |ten|til|vi | en| ve|il | å |ene|ke |re | hv| me|ar |ig |ikk|te | va|år |g v|ort|t b|var| be| er| må| om| sk|den|e t|gen|lle|nge|or |r d|rt |tte|vel|ver| fr| ha| i | ko| so| st|det|dre|e i|e m|e v|eg |eld|ell|ere|ker|må |n f|n o|r å|r h|r o| du| ik| la| nå| pr| si|å f|a s|age|bli|dig|e d|e o|e s|ed |es |ett|g h|g o|ge |har|kk |l s|lag|lig|lt |m s|med|mer|n a|n e|n k|n s|n v|opp|r f|ren|som|ste|t o|vis| al| av| ba| bi| da| fe| in| je| ma| op| os| på| se| sn| ut|å d|å s|ag |ake|al |ang|app|arm|at |av |bak|bed|dag|del|du |e b|e e|e h|edr|ekk|elt|enn|ent|fra|g e|ger|get|hvi|ing|ise|jeg|k v|ken|ldi|len|ler|lik|m v|men|mme|n d|når|nte|på |ppe|pro|r p|r s|r t|r v|ra |res|ret|rts|s e|ses|ska|t f|t l|t m|t s|t t|ta |ter|tor|ven| åp| at| bl| di| el| et| fø| gå| gi| gj| he| kj| kl| li| ny| øy| re| så| sj| sl| to| tr|a v|å v|ære|akk|all|an |and|åpn|arn|art|bar|ber|bil|deg|der|dri|e å|e p|e u|eli|em |eng|ert|est|ete|eve|fer|før|fre|fte|g b|g d|g l|g s|gik|gje|hel|het|hva|hve|i d|i j|i k|i m|i s|ilk|in |is |itt|ive|jen|k f|kal|ket|kom|kri|kte|l i|lde|ldr|le |let|lit|lys|m f|n å|n g|n h|n m|n t|na |nå |ndr|ner|nne|obl|ole|omm|ør |orb|org|ose|oss|ote|øye|p o|pen|pne|pp |r a|r b|r e|r g|r i|r k|r l|r m|rge|riv|rna|s t|så |se |sen|sin|sk |sko|skr|sli|sna|ss |sti|t a|t d|t e|t h|t v|tel|tem|tid|tre|tt |ura|va |ve |vet|yen|ykk| ak| an| år| åt| bo| bø| br| bu| by| dr| dy| eg| fa| fj| fu| ga| gr| hi| hj| ho| hu| hy| ig| jo| ju| ka| kn| kv| le| lu| ly| mo| næ| of| pe| ra| sa| sm| sp| su| ta| tu| ty| uk| vå| væ|a å|å b|a d|å e|a f|a g|å g|å i|a j",
+  pl: "ie |nie| po|my | ni| i |dzi| je| pr|cze|rze| na| do|ać |ne |y z|zie| cz| w | wi| za|dy |e n|jes|prz|wie| by|ego|eka|em |emy|esz|go |ied|sta|y w| ch| pi| si|ale|do |i p|ię |iem|iśm|ki |kie|li |liś|ły |nia|ost|śmy|ze | a | dz| go| ja| ws| wy| z |ane|arz|awi|był|ci |czy|e a|e j|ej |eni|est|god|i d|ia |na |o p|o w|odz|owa|rz |się|śni|st |ym |zek|zo | al| ba| ci| ma| od| os| ra| sp| sz| ty| że|a b|a d|a p|a s|a w|ach|ani|ard|ast|bar|by |ch |cho|cia|co |dan|dzą|dzo|e i|e p|eci|ed |edy|edz|ępn|era|ez |hod|i s|i z|ić |iec|iej|ier|im |isk|isz|jak|każ|ko |le |m p|nas|o c|o z|oje|pie|pis|poj|pra|rdz|rzy|ści|stę|szc|sze|tęp|tki|to |trz|wia|y i|y p|yły|ywa|zą |zap|zcz|że |zed|ześ|zy | ab| aż| bi| co| da| dr| ka| ki| ko| kr| la| lu| mi| mo| mu| o | ot| pa| pl| ro| śc| st| te| tr| tw| wr| ze| zm| zo|a a|aby|acz|ada|aj |ają|ak |aki|ako|ał |ałe|am |ami|art|asn|ate|aż |ażd|ba |buj|ć d|ć n|cha|cie|cim|cis|czo|dać|dni|dos|dro|e b|e c|e d|e k|e m|e o|e s|e t|e w|ę z|eba|ech|eli|eśl|eśn|gdy|gor|i b|i c|i r|i w|iał|iel|ien|ież|ili|j p|ją |jaw|je |jec|jem|jeś|ka |ką |kac|kać|kon|kró|ł p|lat|łe |lep|lik|ło |lud|m c|m t|mie|mus|neg|nim|now|ny |o b|o d|o o|obo|ocz|od |odn|oja|ońc|one|orą|óry|oso|ote|otw|owi|pli|pni|poc|pod|pos|pro|r w|ra |rac|rąc|raw|raz|rob|rog|rót|sch|sie|śli|sne|sob|spo|spr|sto|szy|t d|t w|tan|tar|tem|two|tym|udz|uje|ura|usi|wa |wać|war|wil|woj|wsz|y a|y d|y j|y k|y n|y o|z k|z o|z w|zeb|zen|zes|zez|zys| ak| ap| be| bę| bł| bo| dl| dn| du| fi| fo| gd| gó| ho| ks| kt| ła| le| li| og| op| ós| re| ry| są| sc| sk| sł| śn| sw| św| ud| ug| ur| wa| wą| wc| wk| wł| wo| wt| wz| zb| zd| zg",
+  pt: "os |as | de| se| qu|de | a |ra | e |ão |ar |que|e a|mos|to | co| o | pa|do |o e|s d|te | es| no|ue | te|e o|o d| pr|a a|da |ent|nte|o a|par| ma| um|a e|eir|em |est|ito|no | as| mu|a p|and|ara|e q|lho|o c|o p|se |sta| at| ca| pe|a m|a n|a s|ado|ant|até|com|con|dos|er |mui|o q|o t|or |ro |s a|s e|s m|s n|s s|ta |tar|té |uit|um | da| nã| os| sa| ve|a c|ção|era|es |esc|hor|ilh|ira|iro|lha|m s|não|ndo|nta|o v|pre|qua|ran|s c|s p|ver| ab| do| é | er| fe| me| so| vi| vo|a f|abr|açã|am |amo|bra|che|e c|e n|e p|e s|egu|elh|is |man|mas|mo |nto|o f|o m|o s|per|r a|r e|rar|res|ria|ros|sso|uan|uar| à | an| ch| en| fo| ho| li| po| su| tr|a d|a o|a t|aba|abe|ada|age|ais|ámo|ard|art|bem|bre|col|dad|e d|e e|e t|e v|eci|ema|emo|equ|ess|eve|fei|gra|gua|ha |ho |ia |ias|m e|m t|ma |mbr|mel|na |nde|nos|o g|o r|om |ont|ora|ou |pas|por|pra|pro|qui|r c|r o|r p|raç|rec|rev|s b|s v|sab|sco|sem|so |ssa|tam|tas|tem|ter|tes|uen|ura|vam|via|vol| ac| ag| ai| ap| ba| bi| cr| em| fa| fi| gr| gu| le| lo| mo| na| re| ta| to| va|a é|a l|a q|a u|a v|ain|aja|alh|ana|anç|are|aro|ass|ava|bal|ca |car|ças|cê |cer|cis|cre|cri|das|des|dev|é a|e f|é m|é p|é s|e u|edo|eit|ém |emb|emp|eno|ens|ere|eri|err|esp|ete|evo|faz|gem|gen|go |gui|heg|hei|iaj|ian|imo|ind|int|ir |isa|jar|la |lar|lem|lhe|lor|lta|m o|m v|mar|men|mes|min|nça|nco|nda|ns |ntr|ocê|oit|olh|olt|ome|omo|ost|ote|pa |peq|pes|r s|r u|rab|ram|rda|re |ref|rem|roc|rre|rta|rti|s o|s t|s u|sa |sad|sag|scr|seg|ser|soa|sop|spe|str|sua|tan|ten|til|tod|tra|tre|ua |uin|uma|ve |voc| ao| aq| às| au| bo| br| ce| cl| di| du| eq| fé| fl| fr| ge| go| il| in| is| já| ju| ne| ni",
+  ro: " în|re |te |ul |și |are|ți | să| și|că |să | de|e d|ie | da| pr|i a|în |tre| pe|ar |e c|e p|ea |le |oar| a | ca| că| co| fo| ma| nu| pâ|ă a|ă c|e î|e s|est|nu |tă | ap| cu| tr|ă î|ă s|art|de |e m|i p|nă |ntr|pe |pre|ră |reb| am| di| ia| sc|a c|am |ână|ând|ați|au |bui|chi|des|din|e a|e t|ebu|esc|i d|înc|l î|nd |ne |pân|ra |rte|ste| aș| câ| ce| er| es| îm| lu| mi| o | pl| se|a f|a m|a s|a ș|acă|ate|cân|car|ce |con|cu |dac|e ș|eca|ele|ent|foa|i c|i î|iar|ii |ine|la |me |men|nea|pro|ru |rul|ște|ști|t c|tel|tru|u a|uie| ac| ar| bi| fi| la| ne| ni| or| sa| șt| to| un|a e|ă i|ă n|ă p|ă v|ai |ăm |ară|ast|așt|ată|caț|cum|cur|dar|dat|e n|e o|eme|eni|ept|era|hid|i f|i ș|ide|ile|in |ins|int|înt|inu|it |l d|m a|m p|mai|mar|na |nce|nt |nte|nul|oas|ost|ote|pen|pri|ri |roa|sar|sc |sch|se |spr|sta|str|sul|t d|t s|ta |tep|tim|toa|u d|ua |un | aj| au| bu| do| dr| du| fă| ho| in| îț| jo| me| mu| no| oa| po| ră| re| s | su| te| va| vâ| vo|a a|ă b|a d|a l|a o|ă o|a p|ă r|a t|aba|ain|aju|ălă|ald|ale|ame|ani|apă|apo|ara|arc|aru|ăsa|at |ât |ață|ătă|ăți|ăto|avo|ban|ca |cab|cal|căl|ces|cop|cor|cri|cut|dra|dum|e e|e i|e j|e l|e u|e v|eav|edi|el |eri|ers|eru|esp|eți|fel|fie|fos|gă |hot|i b|i m|i s|i t|i v|ia |ica|iec|ier|iii|îmb|ime|imi|împ|îna|îți|iu |jun|l a|l n|lăt|leg|m f|mbr|mer|min|mne|mpa|mul|n c|n i|n s|n v|nai|nch|nie|nii|ns |o s|oam|oi |opi|ora|ore|os |pă |par|păr|pii|ptă|r p|rag|rem|res|rie|ros|rt |rți|rut|s a|s l|scr|scu|sea|st |stă|t p|t r|t ș|ță |tăm|tea|tec|tor|tot|tră|u c|u e|u s|ui |ult|um |ume|umn|unt|ut |voa|vre|zi | ad| al| an| as| ba| bă| br| cl| ec| ex| fe| gă| gr| îl| im| îș| iu",
+  sk: " a | po| sa|sa |me |te | do| pr|li |o s| ch| na|om | ak| ve|a p|e k|ie |a s|a v|ať |do |e v|hod|ia |je |mi |sme| čo| le| ne| sm|dia|e a|ete|i p|ku |o p|ti |to |veľ| al| ná| ni| vy|a č|a d|a n|a o|ak |ale|bol|cho|čo |dy |e n|e p|e s|eď |ej |eme|eni|i a|iť |ko |le |lo |m t|na |oli|ova|raz|sta|ť a|y s| až| bo| de| ho| je| ke| ma| o | ob| ro| sk| so| st| sv| te| ti| to| v | vš| vý| za|a m|a r|a z|ajú|alo|ati|až |ba |bra|det|e d|e j|e m|ebo|eľk|ho |i s|i v|ili|jú |ka |ké |keď|kni|kon|leb|let|m v|né |nie|o a|o č|oto|poč|pot|prá|pre|pri|ra |rát|ráv|še |sko|tom|tre|u s|va |y n|ým |že | dr| eš| ka| kn| ko| kr| ľu| me| mi| mu| os| ot| pe| rá| s | se| sp| sú| tr| úd| uk| vo| vr| že| zo|á a|a l|a t|ady|aje|aka|ako|al |ami|ár |ára|ari|aše|áti|avi|ažd|áže|azi|bja|bo |bud|by |čal|čer|ch |cha|čka|daj|deň|die|dov|é a|eba|ed |edi|ého|el |eľa|eľm|em |eň |enk|epš|est|esť|ešt|eti|eto|ez |hat|í a|i b|iel|ieľ|il |ino|íše|jem|jte|kác|kať|kaž|kol|kom|kor|krá|kto|ky |kým|lá |lav|len|lep|lik|ľké|ľmi|lov|ľud|m n|m s|mes|mus|ň s|ná |nám|naš|nez|nik|ný |o t|o v|o z|obj|očk|od |oje|ok |oko|ole|or |oro|ost|otv|ove|píš|pos|prí|pro|pši|r s|rač|rad|reb|red|ret|ri |rie|ril|ro |rob|roz|rte|šet|sie|šie|sob|som|šte|svo|ť h|ta |tal|ten|tie|tím|tko|tku|tor|tvá|u n|u v|úda|udi|uje|vár|vať|ved|vie|vo |voj|vrá|vše|ý t|ž d|zat|zdi|zil|zko| ab| ap| be| bl| br| bu| by| bý| ča| ce| če| či| čl| fi| fo| fú| hn| hô| iš| ja| ju| jú| k | kd| kl| kt| ký| la| mo| ňo| od| op| ôs| pi| pí| pl| ra| ri| še| ší| šk| sl| sn| št| tí| tl| tý| úl| un| ur| út| uv| už| úz| va| vá| vď| vi| vô| vt| z | zá| zd| ze| zl| zm| zn|a a|a b|a c|a e",
+  sl: " po| na|in |je |li |ti | in|mo | se|se |ko | pr|e p|o s| je|e n|ga |lo |pre| do| ka| ko| ve|do |i d|i p|o v|te | bi| da| ni|bil|i v|ite|iti|o p|o z|pri| bo| od| os| tr| vr| vs| za|a p|aka|ako|ali|če |e i|e s|e v|ili|jo |na |ne |pa |rit|še | če| iz| pa| ra| še| sm| so| v | ze|a n|aj |al |ati|da |e b|e m|ega|eli|elo|i s|ka |n s|ni |nji|o j|o n|o o|o t|oto|pot|red|smo|so |to |tre|zel| de| ho| ju| lj| ma| mo| ne| ot| pe| sv| ta| ti| z |a č|a d|a k|a m|a o|a s|a v|ar |atk|ato|bom|čak|dat|del|dje|dov|dra|e d|e k|e t|e z|em |emo|en |er |est|eva|hod|i b|i k|i n|i z|ih |ijo|imo|ja |jen|kaj|kak|kat|let|lje|lju|mi |mor|n p|n v|nit|nje|no |o b|o d|o i|o k|oča|oda|odp|olj|om |ost|otr|ova|ove|ovi|pod|re |rej|šli|sto|tak|tko|tro|val|ven| a | al| go| kn| kr| le| me| mi| o | pi| s | sk| te| va| vo|a a|a j|a l|a t|aci|anj|are|aše|avo|aže|bi |bni|bol|ča |ci |cij|čil|daj|dar|den|dij|dnj|dpr|e g|e o|e r|eba|ed |edi|edo|ejš|ek |eme|end|eni|enj|enu|eri|etj|ge |gov|h i|h p|ha |i č|i j|ica|ije|ika|iko|ile|ilo|imi|iše|izb|j j|j v|jav|jeg|jet|jev|ji |jud|ki |knj|kon|kov|kra|le |led|lik|lim|m n|men|mes|n k|nam|nap|naš|nda|nic|nih|nik|nja|nov|o a|o š|oci|oči|odi|odo|ogo|omo|onč|ope|ora|ose|osk|ote|ov |ozd|pek|piš|po |poč|pog|pos|pov|poz|r p|r s|rag|raš|rat|rav|reb|rem|rja|ro |roc|roč|rta|sak|šat|seb|sko|sku|st |sta|svo|ta |tem|ter|tka|tok|top|trg|udj|uha|uje|utr|vaš|ve |vem|vo |voj|vrn|vsa|vse|že | ap| bl| br| ča| ču| dr| ek| fo| ga| gr| gu| hl| im| ja| ke| kl| km| no| ob| oz| pl| sh| ši| sn| šo| sp| st| to| ur| ut| vi| vp| vz| zd| že| zg| zn| zv|a b|a e|a h|a i|a š|a z|abi|ače|ači|ad |ada|ade|adn|afi",
+  sv: "en |ar |tt | oc| vi|ch |er |och|om |ta | fö|et |för| ti| va| at| de|att|vi |an |är |var| in| sk| st| vä|ill|na |r d|til|a v|ll |n s|ra |t b|te | fr| ko| me| om| so|ag |ätt|de |den|gen|ka |lle|ort|r a|rna|rt |ter| är| en| ha| nä| på| pr| se|a s|a t|år |h v|ig |n v|på |r o|som|t f|t o|tta|upp|ver| än| be| di| si| tr| ve|a d|a p|å s|arn|as |ck |det|dig|e s|ern|frå|har|int|l s|len|m s|m v|mar|n m|n o|när|nta|nte|ör |öre|r f|r i|r t|r v|re |sta|ste|t s|t v|ten|väl| al| ba| bä| bi| du| fo| gå| i | ja| kl| må| re| så| sä| up| ut|a o|ad |ade|aga|äld|all|ån |änt|app|arm|art|cka|dag|du |e v|ed |est|ett|for|fte|går|gt |h d|igt|itt|jag|je |kan|kom|ler|med|men|n a|n d|n g|nar|nde|nen|nge|ock|pp |pro|r k|ram|rån|red|res|så |sät|ska|t a|t d|tor|vän|vet| åt| av| bö| do| et| gi| gr| lä| ma| ny| öp| os| sn| to| vå|a b|a i|a j|a k|å k|a m|aka|al |äll|and|änd|äng|ara|ära|are|arj|åst|at |ati|ått|av |bak|bar|bät|beh|ber|bil|cke|d f|d n|d s|del|der|dra|dre|e ä|e e|e f|eda|ehö|ela|ell|em |era|ers|esa|eta|g g|g m|g o|g s|ga |gad|gar|get|gic|gif|h f|höv|i å|i b|i k|i s|ick|ift|ige|ilj|in |ing|ion|isa|ive|k v|kar|ker|kla|kon|kri|kte|l v|lag|lar|ldi|ldr|lig|lje|lt |m e|m f|m h|m u|mås|mma|mme|n ä|n b|n h|n i|n k|n p|n t|nd |nu |oft|omm|öpp|örb|org|oss|ote|öve|par|pgi|pna|ppg|ppn|r b|r h|r l|r u|ran|ras|rat|ren|ret|riv|rje|rma|rne|rso|rts|s s|sa |sin|sko|skr|ss |stä|sti|sto|stu|t ä|t i|t p|t t|tid|tio|tra|tre|tte|ttr|u k|und|vad|vår|vil|vis|yck| åk| äl| an| ar| år| bl| bo| br| bu| da| dä| dy| ef| eg| el| fa| fe| fj| ge| gj| he| hi| ho| hu| ig| ih| ju| ka| kä| kn| kr| kv| la| li| mo| my| nå| nu| öa| of",
+  sw: "a k|na | ku| na|wa |i k| wa|a m|ili|a h|ka |ni | ha| ki| ka| ya|a n| sa| tu|a s|a t|ya | hu| kw|ari|i h|i w|li |ti | il|aka|ali|ana|end|ika|iki|ish|ita|kat|la |nye|ri |ta |wen|za | ma|ati|azi|ha |i m|i n|tu |una|wak|aki|ata|da |di |i y|iku|ila|ini|iri|kil|kwa|kwe|lik|mba|oka|sha|to |ua |uli|zi | hi| mw|a a|a i|a u|a w|a y|adi|ani|ba |i s|ia |kin|nda|ngi|san|ung| ba| la| ni| vi|a j|a l|amb|and|bu |cho|ea |ele|emb|eny|eza|had|i u|itu|iwa|ji |kam|ko |kus|kuw|lak|o k|o w|oto|pen|si |sub|tok|tul|tut|u n|u t|ufu|usu|uta|uwa|wat| al| mi| ny| si| un| we|a b|a v|aa |aba|abl|aji|ako|aku|ala|ami|amu|ang|any|ato|atu|bad|bir|bla|cha|e m|e n|esh|fan|fun|hal|har|hit|huf|ibu|ing|isi|iyo|kab|kaz|ke |ki |kia|kiw|kiz|kub|kun|kut|liy|ma |mar|mu |mwe|nde|nga|ngu|nyi|o b|o h|o n|ra |rib|tem|u h|u i|ubi|uka|upe|usa|uto|vyo|wam|we |yak|ye | an| bi| bo| da| fu| ik| it| ji| ju| mb| mk| mo| mp| nj| ti| us| ye|a p|a r|abu|ach|ado|afa|ahi|ake|ame|aon|apa|ara|bam|bar|bea|bil|bor|del|dik|do |e i|eng|eti|etu|ewe|fik|fu |gan|gi |gin|gua|hak|hat|haz|hir|hiv|ho |huo|hus|i a|i b|i i|ich|ifa|ike|ina|ine|ion|ipo|iti|ito|ivy|izo|izu|jia|jit|jua|kar|ket|kit|ku |kue|lam|lea|lia|lio|lit|man|mbe|mik|mil|mis|nav|ndi|ne |nin|nis|nji|nya|ofa|oni|ony|pat|rik|rud|sa |saa|saf|shi|sho|sik|sit|tab|taj|tak|tao|tik|tot|tun|u y|uan|udi|uhu|uma|uni|uo |upi|vit|yes|yin|yo |yof|zo | am| as| au| bu| du| fa| fo| ga| gh| he| ho| ij| jo| li| mc| mj| ml| mt| mu| mv| pi| pr| ri| ru| se| sh| so| su| ta| te| uc| uf| uj| uk| up| wi| za|a d|a f|a g|a z|aar|adh|afi|afs|afu|agu|aha|ai |aie|ail|air|aju|akt|alh|ama|amn|amo|amp|amw|anz|ape|apo",
+  tr: "in | ve|ar |eri|ve | bi| ya| ka|ada|lar|ler| ço| de| ge|en |ir |rin|ama|an |bir|da |er |ere| da| ha|e k|eği|ini|ın |ını|yor| bu| he| sa| se|arı|dan|de |den|e b|ile|ma |nı |r b| ba|a k|ak |ara|ası|aya|çok|dar|ek |ger|ğin|iği|ığı|ınd|kad|lan|may|n d|n h|nda|ok |oru|r y|rek|ya | ar| be| gö| ki| pa| so| yü|a ç|a d|a g|a s|bek|cak|çin|çık|değ|der|di |dığ|edi|ekl|ele|eme|ğın|her|ık |ıyo|k d|k i|kla|kle|le |lem|man|mek|mey|n v|n y|ni |nla|or |rın|se |sın|tiğ|tme|zde| aç| al| am| çı| ed| et| iç| ol| sı| ta| te|a i|a y|aat|ala|alı|am |ana|anl|aşı|azı|bil|bu |e h|e s|e t|ece|ede|eki|erl|esi|etm|eyi|geç|ğil|gör|i a|i b|i k|içi|ind|iz |ı v|ıca|ıkt|kın|ktı|la |laş|mız|n a|n b|n g|n k|n s|na |nde|nin|niz|örü|pla|r d|r v|ril|rı |rke|rle|rma|rum|saa|san|sıc|ta |ter|tı |ük |ula|ver|yap|yaz|yla| an| do| dü| ek| er| gi| gü| is| iy| iz| ko| kü| ma| ne| or| ot| şe| şi| üz| va| yo| za|a b|a v|aba|acı|açı|adı|aha|akı|and|apı|ard|art|aşl|at |ava|ayı|ayl|bah|bul|ce |ceğ|çen|çoc|cuk|çün|dağ|düğ|dük|e d|e e|eçe|ekm|ekt|el |emi|eni|erk|et |evg|eye|ği |ğma|gün|han|hav|i ç|i d|i g|ika|ili|ilm|im |ip |ise|işi|iyi|iyo|izd|izi|ı a|ı h|ı s|ı y|ıl |ıla|ımı|ız |ızı|k a|k b|k v|kar|kay|ken|kip|kiş|kme|kti|l a|lad|lam|lec|lma|mad|mak|med|men|miz|n ç|n o|n t|n ü|ndı|nel|ocu|oku|ola|orm|pay|pıl|r ç|r e|r g|r h|r i|r o|r r|r u|ra |rad|rar|rdı|rta|sab|şem|sev|si |sor|ste|şti|t e|tam|tir|tık|tle|tma|u a|u y|üçü|ukl|um |unu|uru|ürü|üzd|üze|va |var|vgi|yac|yak|ye |yer|yin|yı |yle|yük|yür|z b|z o|zam|ze |zer|zin|zı |zıy| ad| ak| bö| bü| ça| cu| çü| dı| dö| du| es| ev| ey| fı| fo| hâ| hi| i̇| ia| ih| in| iş| ke| kı| kl",
+  vi: "ng | th| ch| tr| nh| và|i t|nh |và | ng|n t|g t|ời | kh|úng|ạn |chú|hún|i b|i c|n n| bạ|ất |bạn|ết |ình|n c|ông| mì| ti| tô|ào |ên |ến |g v|i đ|i n|n đ|ôi |ới |t n|t t|tôi|trư| cá| đi| đư| gi| là| mộ| ph| qu| vi|ay |ch |ện |g c|gườ|hi |hôn|iết|khi|m v|mìn|một|n m|n v|ngư|ột |ười|ườn| bi| có| đã| đế| mọ| rấ| sá|a c|à c|à n|ần |c t|cho|có |đã |đến|đi |đượ|g l|g m|h r|hà |hiệ|ho |hứ |i v|iện|khô|ớc |ợc |ối |ổi |ờng|rất|rời|rướ|t v|thư|thứ|ưa |ước|ược|vào| bá| cả| củ| để| đó| lú| nà| ra| tu| vậ| về| vì| vớ| xu|a b|à t|ách|ải |àm |ấn |áng|ánh|ặt |ật |au |c v|chư|của|để |g n|giờ|h m|h t|h v|hay|hờ |hư |hưa|hưn|i k|iờ |làm|lúc|m n|mọi|n l|n p|nhà|như|o b|o c|ỗi |ọi |òn |óng|ra |t c|t đ|t h|t m|tha|tiế|trờ|u c|ủa |úc |ưng|về |vì |việ|với|y m| ba| bả| bộ| bu| cầ| co| cử| đề| đổ| gì| hã| hẹ| hi| lạ| li| mỗ| mở| mù| nă| nế| nó| nú| sa| sẽ| sẻ| sớ| tố| tớ| từ| vẫ|à đ|à h|a k|a n|a s|a t|á t|ài |ại |ăm |an |ân |ẫn |ảnh|áo |ắt |áu |ấu |ày |ãy |ậy |bán|biế|biể|bộ |buổ|c c|c l|các|cần|chi|chờ|chu|con|cửa|đó |ể c|ẻ v|ệc |em |ệm |ển |ệt |ếu |ều |ệu |g b|g k|gì |h s|hải|hán|hân|hật|hãy|hia|hữn|huy|ì c|i d|i h|i m|i q|i r|ì v|ia |iệc|iệm|iển|iệu|in |là |lại|liệ|m b|m đ|m g|m t|mở |mỗi|n b|n g|n k|n q|n s|năm|nào|nếu|ngh|nhi|nhữ|nón|o đ|ờ đ|o t|ờ v|ồi |ôm |ớm |on |ọn |ong|phả|quá|rẻ |rên|ron|rườ|sau|sáu|sẽ |sẻ |sớm|thá|thậ|tin|tới|trê|trẻ|tro|từ |tuy|u đ|u s|u t|uá |ửa |uất|ục |ùng|ững|uối|uổi|út |uyế|uyệ|vẫn|vậy|viế|xuấ|y đ|y h|y n|y t| ai| ấm| ản| bắ| bâ| bã| bê| bọ| ca| cà| că| cấ| cò| cô| cu| cú| cù| cũ| đá| đắ| đầ| đả| đặ| đị| đồ| đợ| du| dữ| dụ| đú| đủ| em| gầ| gặ| gh| gỗ| ha| hà| hè| hì",
+  zu: "la | ng| ku|nga|thi| uk|akh|a i|hi |le |ni |uku|ela|uth|a k|e k|e u|esi| um|a e|ho |oku|a n|a u|e n|i u|ini|kho|lu |ulu| ka|a l|ing|khu|kus|na |uze|ze | iz|ane|ha |hul|i k|izi|ka |kub|kuz|nge|amb|ath|ba |ele|ham|ind|ith|kak|kut|ndl|ne |tha|wa |zin| be| fu| ko| li|aba|and|aph|dle|eni|fut|i i|i n|lel|lin|lwa|ma |mbi|nda|ngi|thu| es| in| no| si|ala|ana|be |bes|bha|da |e e|eka|ese|eth|iph|kwa|nok|ntu|pha|se |tu |u n|ula|uma|wan|zi | el| en| kw| na| sa| ya|a s|ama|ant|azi|ban|ben|cin|din|e i|enz|ezi|gap|han|hel|hin|hol|hum|iku|ke |khe|kun|kuv|lan|lo |mba|me |nde|o e|o k|o n|olw|phu|shi|sik|sit|ube|ume|ung|use|ush|vel|yak|ye |za | ab| ay| le| ma| se| wo| yi|a a|a b|a o|abe|adi|anj|ayi|ayo|bi |bo |de |dwa|e f|e y|e z|ebe|eli|ga |gal|gci|ges|gik|hat|hla|hle|hu |i a|i e|i s|i y|ika|ikh|ile|ili|ink|ino|isa|ise|izo|kod|lwe|man|ngo|nin|o u|obh|odw|oli|omb|ona|pho|sa |seb|sen|sha|she|sin|sis|the|tho|tsh|u a|u u|ubu|uhl|umb|uph|uva|uza|wak|yin|yo | am| ba| ek| em| ez| id| if| ih| ip| is| it| kh| la| lo| ok| uh| uv| za| zi|a f|a m|ahl|aka|ake|aku|ale|ali|alo|ang|ani|asi|awo|aye|bel|bho|bul|buy|can|dab|duz|e l|e o|e s|eke|eku|ema|emi|end|eng|eze|fik|fud|gak|gan|gay|gek|gez|hak|hal|he |het|hlo|hom|hon|hor|hut|ifi|ifu|ihl|iko|ina|inc|ine|inq|int|iny|isi|iye|je |kan|kek|kha|kin|kol|kug|kuk|kul|kup|kwe|lap|len|les|li |lif|lil|lob|lok|mah|mbe|mif|mun|nab|nan|nca|ngu|nja|nje|nke|nki|no |nqu|nts|nya|nye|nza|nzi|o a|o l|o o|o s|obo|ola|ole|olo|onk|ono|ora|oth|phe|ra |sas|ses|sih|sob|u b|u k|u l|u s|ubh|ufa|uha|uka|ukh|uli|umu|unt|usa|uvu|uyi|vul|we |wes|wo |yis|ziy|zul| ak| al| as| ed| eg| eh| ev",
+};
@@ -1,5 +1,10 @@
+export { default as useGlossary } from "./useGlossary";
 export { default as useLanguageSelection } from "./useLanguageSelection";
+export { default as useModelContextWindow } from "./useModelContextWindow";
+export { default as useModelTokenizer } from "./useModelTokenizer";
 export { default as useOllamaModels } from "./useOllamaModels";
 export { default as usePersistentState } from "./usePersistentState";
+export { default as useProviderEndpoints } from "./useProviderEndpoints";
 export { useToast } from "./useToast";
+export { default as useTokenCount } from "./useTokenCount";
 export { default as useTranslation } from "./useTranslation";
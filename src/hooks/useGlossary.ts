@@ -0,0 +1,36 @@
+import { useCallback } from "react";
+import { STORAGE_KEYS } from "../data";
+import { createGlossaryPairKey, sanitizeGlossaryEntries } from "../services/glossary";
+import type { Glossary, GlossaryEntry } from "../types";
+import usePersistentState from "./usePersistentState";
+
+export interface GlossaryState {
+  glossary: Glossary;
+  saveGlossaryEntries: (
+    source: string,
+    target: string,
+    entries: GlossaryEntry[],
+  ) => void;
+}
+
+const useGlossary = (): GlossaryState => {
+  const [glossary, setGlossary] = usePersistentState<Glossary>(
+    STORAGE_KEYS.GLOSSARY,
+    {},
+  );
+
+  const saveGlossaryEntries = useCallback(
+    (source: string, target: string, entries: GlossaryEntry[]) =>
+      setGlossary((current) => {
+        const key = createGlossaryPairKey(source, target);
+        const { [key]: _replaced, ...rest } = current;
+        const sanitized = sanitizeGlossaryEntries(entries);
+        return sanitized.length ? { ...rest, [key]: sanitized } : rest;
+      }),
+    [setGlossary],
+  );
+
+  return { glossary, saveGlossaryEntries };
+};
+
+export default useGlossary;
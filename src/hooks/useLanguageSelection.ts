@@ -1,8 +1,8 @@
 import type { Dispatch, SetStateAction } from "react";
 import { useEffect, useMemo } from "react";
-import { languageOptions, STORAGE_KEYS } from "../data";
+import { languageOptions, resolveLanguageCode, STORAGE_KEYS } from "../data";
 import type { LanguageCode } from "../types";
-import { filterOutputLanguages } from "../utils/transforms";
+import { filterOutputLanguages, getFallbackLanguage } from "../utils/transforms";
 import usePersistentState from "./usePersistentState";
 
 export interface LanguageSelectionState {
@@ -13,21 +13,29 @@ export interface LanguageSelectionState {
   handleLanguageSwap: () => void;
 }
 
+// Stored tags from older versions or other casings resolve to current codes.
+const parseStoredLanguage = (value: unknown): LanguageCode | null => {
+  if (value === "auto") return "auto";
+  return typeof value === "string" ? resolveLanguageCode(value) : null;
+};
+
 const useLanguageSelection = (): LanguageSelectionState => {
   const [inputLanguage, setInputLanguage] = usePersistentState<LanguageCode>(
     STORAGE_KEYS.INPUT_LANG,
     "auto",
+    parseStoredLanguage,
   );
   const [outputLanguage, setOutputLanguage] = usePersistentState<LanguageCode>(
     STORAGE_KEYS.OUTPUT_LANG,
     "es",
+    parseStoredLanguage,
   );
 
   const outputLanguageOptions = useMemo(
     () => filterOutputLanguages(languageOptions, inputLanguage),
     [inputLanguage],
   );
-  const fallbackOutputLanguage = outputLanguageOptions[0]?.value as
+  const fallbackOutputLanguage = getFallbackLanguage(outputLanguageOptions)?.value as
     | LanguageCode
     | undefined;
 
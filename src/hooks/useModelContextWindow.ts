@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { fetchModelContextWindow } from "../services/ollamaApi";
+import type { ProviderEndpoint } from "../types";
+
+interface ModelContextWindow {
+  model: string;
+  tokens: number | null;
+}
+
+const useModelContextWindow = (
+  selectedModel: string,
+  providerEndpoints: readonly ProviderEndpoint[],
+): number | null => {
+  const [contextWindow, setContextWindow] = useState<ModelContextWindow | null>(null);
+
+  useEffect(() => {
+    if (!selectedModel) return;
+    let isCurrent = true;
+    void fetchModelContextWindow(selectedModel, providerEndpoints).then((tokens) => {
+      if (isCurrent) setContextWindow({ model: selectedModel, tokens });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedModel, providerEndpoints]);
+
+  return contextWindow?.model === selectedModel ? contextWindow.tokens : null;
+};
+
+export default useModelContextWindow;
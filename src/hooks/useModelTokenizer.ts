@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import { createModelTokenizer, type Tokenizer } from "../services/tokenizer";
+import type { ProviderEndpoint } from "../types";
+
+const useModelTokenizer = (
+  selectedModel: string,
+  providerEndpoints: readonly ProviderEndpoint[],
+): Tokenizer =>
+  useMemo(
+    () => createModelTokenizer(selectedModel, providerEndpoints),
+    [selectedModel, providerEndpoints],
+  );
+
+export default useModelTokenizer;
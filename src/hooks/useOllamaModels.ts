@@ -2,7 +2,7 @@ import type { Dispatch, SetStateAction } from "react";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { STORAGE_KEYS } from "../data";
 import { fetchAvailableModels as fetchModelsFromApi } from "../services/ollamaApi";
-import type { DropdownOption } from "../types";
+import type { DropdownOption, ProviderEndpoint } from "../types";
 import { addFavoriteMarker, selectInitialModel } from "../utils/transforms";
 import usePersistentState from "./usePersistentState";
 
@@ -29,7 +29,9 @@ interface OllamaModelsState {
   fetchOllamaModels: () => Promise<void>;
 }
 
-const useOllamaModels = (): OllamaModelsState => {
+const useOllamaModels = (
+  providerEndpoints: readonly ProviderEndpoint[],
+): OllamaModelsState => {
   const [rawModels, setRawModels] = useState<DropdownOption[]>([]);
   const [favoriteModel, setFavoriteModel] = usePersistentState<string>(
     STORAGE_KEYS.FAVORITE_MODEL,
@@ -47,11 +49,11 @@ const useOllamaModels = (): OllamaModelsState => {
     setError(null);
 
     try {
-      const models = await fetchModelsFromApi();
+      const models = await fetchModelsFromApi(providerEndpoints);
       setRawModels(models);
 
       if (models.length === 0) {
-        setError("No models found in Ollama or llama.cpp.");
+        setError("No models found on the configured providers.");
         setSelectedModel("");
         return;
       }
@@ -64,7 +66,7 @@ const useOllamaModels = (): OllamaModelsState => {
     } finally {
       setIsLoading(false);
     }
-  }, [favoriteModel, setSelectedModel, selectedModel]);
+  }, [favoriteModel, setSelectedModel, selectedModel, providerEndpoints]);
 
   useEffect(() => {
     fetchModels();
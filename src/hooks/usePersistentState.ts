@@ -1,10 +1,16 @@
 import type { Dispatch, SetStateAction } from "react";
 import { useEffect, useState } from "react";
 
-const readPersistedValue = <T>(key: string, defaultValue: T): T => {
+const readPersistedValue = <T>(
+  key: string,
+  defaultValue: T,
+  parse?: (value: unknown) => T | null,
+): T => {
   try {
     const stored = localStorage.getItem(key);
-    return stored ? (JSON.parse(stored) as T) : defaultValue;
+    if (!stored) return defaultValue;
+    const value: unknown = JSON.parse(stored);
+    return parse ? (parse(value) ?? defaultValue) : (value as T);
   } catch {
     return defaultValue;
   }
@@ -18,11 +24,15 @@ const writePersistedValue = <T>(key: string, value: T): void => {
   }
 };
 
+/** `parse` validates a stored value; returning null falls back to the default. */
 function usePersistentState<T>(
   key: string,
   defaultValue: T,
+  parse?: (value: unknown) => T | null,
 ): [T, Dispatch<SetStateAction<T>>] {
-  const [state, setState] = useState<T>(() => readPersistedValue(key, defaultValue));
+  const [state, setState] = useState<T>(() =>
+    readPersistedValue(key, defaultValue, parse),
+  );
 
   useEffect(() => {
     writePersistedValue(key, state);
@@ -0,0 +1,43 @@
+import { useCallback } from "react";
+import { DEFAULT_PROVIDER_ENDPOINTS, STORAGE_KEYS } from "../data";
+import type { ProviderEndpoint } from "../types";
+import { normalizeBaseUrl } from "../utils/transforms";
+import usePersistentState from "./usePersistentState";
+
+export interface ProviderEndpointsState {
+  providerEndpoints: ProviderEndpoint[];
+  saveProviderEndpoints: (endpoints: ProviderEndpoint[]) => void;
+}
+
+const sanitizeEndpoints = (endpoints: ProviderEndpoint[]): ProviderEndpoint[] =>
+  endpoints.flatMap((endpoint) => {
+    const baseUrl = normalizeBaseUrl(endpoint.baseUrl);
+    if (!baseUrl || !endpoint.id) return [];
+    const { apiKey, headers, ...rest } = endpoint;
+    const trimmedApiKey = apiKey?.trim();
+    return [
+      {
+        ...rest,
+        label: endpoint.label.trim() || endpoint.provider,
+        baseUrl,
+        ...(trimmedApiKey ? { apiKey: trimmedApiKey } : {}),
+        ...(headers && Object.keys(headers).length > 0 ? { headers } : {}),
+      },
+    ];
+  });
+
+const useProviderEndpoints = (): ProviderEndpointsState => {
+  const [providerEndpoints, setProviderEndpoints] = usePersistentState<
+    ProviderEndpoint[]
+  >(STORAGE_KEYS.PROVIDER_ENDPOINTS, [...DEFAULT_PROVIDER_ENDPOINTS]);
+
+  const saveProviderEndpoints = useCallback(
+    (endpoints: ProviderEndpoint[]) =>
+      setProviderEndpoints(sanitizeEndpoints(endpoints)),
+    [setProviderEndpoints],
+  );
+
+  return { providerEndpoints, saveProviderEndpoints };
+};
+
+export default useProviderEndpoints;
@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useState } from "react";
+import { TRANSLATION_CONFIG } from "../config/constants";
+import type { Tokenizer } from "../services/tokenizer";
+import { estimateTokenCount } from "../services/translationChunking";
+
+interface ExactTokenCount {
+  text: string;
+  tokenizer: Tokenizer;
+  count: number;
+}
+
+const useTokenCount = (text: string, tokenizer: Tokenizer): number => {
+  const estimatedCount = useMemo(() => estimateTokenCount(text), [text]);
+  const [exactCount, setExactCount] = useState<ExactTokenCount | null>(null);
+
+  useEffect(() => {
+    if (!tokenizer.exact || !text.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      tokenizer
+        .countTokens([text], controller.signal)
+        .then(([count]) => {
+          if (count !== undefined) setExactCount({ text, tokenizer, count });
+        })
+        .catch(() => undefined);
+    }, TRANSLATION_CONFIG.TOKENIZER.COUNT_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text, tokenizer]);
+
+  return exactCount?.text === text && exactCount.tokenizer === tokenizer
+    ? exactCount.count
+    : estimatedCount;
+};
+
+export default useTokenCount;
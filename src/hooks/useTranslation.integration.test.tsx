@@ -1,6 +1,8 @@
 import { afterAll, afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Window } from "happy-dom";
 import { act, type FC } from "react";
+import type { TranslationMemory } from "../services/translationMemory";
+import type { Glossary, ProcessingMode } from "../types";
 
 const domWindow = new Window({ url: "http://localhost" });
 const domGlobalNames = [
@@ -37,20 +39,35 @@ for (const name of [
 
 const { createRoot } = await import("react-dom/client");
 const { default: useTranslation } = await import("./useTranslation");
+const { createInMemoryTranslationMemoryStore, createTranslationMemory } = await import(
+  "../services/translationMemory"
+);
 
 const originalFetch = globalThis.fetch;
 const mountedRoots: Array<ReturnType<typeof createRoot>> = [];
 
 interface HarnessProps {
   text: string;
+  glossary?: Glossary;
+  translationMemory?: TranslationMemory;
+  inputLanguage?: string;
+  mode?: ProcessingMode;
 }
 
-const Harness: FC<HarnessProps> = ({ text }) => {
+const Harness: FC<HarnessProps> = ({
+  text,
+  glossary,
+  translationMemory,
+  inputLanguage = "es",
+  mode = "translate",
+}) => {
   const state = useTranslation({
     selectedModel: "ollama:translategemma:4b",
-    inputLanguage: "es",
+    inputLanguage,
     outputLanguage: "en",
-    mode: "translate",
+    mode,
+    glossary,
+    translationMemory,
   });
 
   return (
@@ -61,6 +78,9 @@ const Harness: FC<HarnessProps> = ({ text }) => {
       <button type="button" onClick={state.cancelTranslation}>
         cancel
       </button>
+      <button type="button" onClick={() => void state.resumeTranslation()}>
+        resume
+      </button>
       <output data-testid="translation">{state.translatedText}</output>
       <output data-testid="status">{state.isTranslating ? "busy" : "idle"}</output>
       <output data-testid="progress">
@@ -68,16 +88,54 @@ const Harness: FC<HarnessProps> = ({ text }) => {
           ? `${state.translationProgress.completedChunks}/${state.translationProgress.totalChunks}`
           : "none"}
       </output>
+      <output data-testid="failure">
+        {state.translationFailure
+          ? `${state.translationFailure.failedChunk + 1}/${state.translationFailure.totalChunks}`
+          : "none"}
+      </output>
+      <output data-testid="glossary">
+        {state.glossaryWarnings
+          .map(({ chunk, missingTerms }) => `${chunk + 1}:${missingTerms.join(",")}`)
+          .join(" ")}
+      </output>
+      <output data-testid="suggestions">
+        {state.translationSuggestions
+          .map(({ chunk, translation }) => `${chunk + 1}:${translation}`)
+          .join(" ")}
+      </output>
+      <output data-testid="segments">
+        {state.languageSegments
+          .map(
+            ({ firstChunk, lastChunk, language, passedThrough }) =>
+              `${firstChunk + 1}-${lastChunk + 1}:${language}${passedThrough ? ":kept" : ""}`,
+          )
+          .join(" ")}
+      </output>
+      <output data-testid="error">{state.translationError ?? ""}</output>
     </div>
   );
 };
 
-const renderHarness = (text: string): HTMLDivElement => {
+const renderHarness = (
+  text: string,
+  glossary?: Glossary,
+  translationMemory?: TranslationMemory,
+  mode?: ProcessingMode,
+): HTMLDivElement => {
   const container = document.createElement("div");
   document.body.append(container);
   const root = createRoot(container);
   mountedRoots.push(root);
-  act(() => root.render(<Harness text={text} />));
+  act(() =>
+    root.render(
+      <Harness
+        text={text}
+        glossary={glossary}
+        translationMemory={translationMemory}
+        mode={mode}
+      />,
+    ),
+  );
   return container;
 };
 
@@ -175,6 +233,580 @@ describe("useTranslation chunk orchestration", () => {
     expect(getOutput(container, "translation")).toBe("paragraph-1\n\nparagraph-2");
   });
 
+  it("requires matched glossary terms and warns when a chunk omits one", async () => {
+    const prompts: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      prompts.push(content);
+      return jsonResponse(
+        prompts.length === 1 ? "The pull request was merged." : "The branch stays.",
+      );
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      "La solicitud de cambios se fusionó.\n\nLa rama y la solicitud de cambios siguen.",
+      {
+        "es>en": [
+          {
+            id: "pr",
+            source: "solicitud de cambios",
+            target: "pull request",
+            caseSensitive: false,
+            wholeWord: true,
+          },
+          {
+            id: "tag",
+            source: "etiqueta",
+            target: "tag",
+            caseSensitive: false,
+            wholeWord: true,
+          },
+        ],
+      },
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await Promise.resolve();
+    });
+
+    expect(prompts).toHaveLength(2);
+    for (const prompt of prompts) {
+      expect(prompt).toContain("solicitud de cambios => pull request");
+      expect(prompt).not.toContain("etiqueta => tag");
+    }
+    expect(getOutput(container, "glossary")).toBe("2:pull request");
+  });
+
+  it("restores masked placeholders and fails a chunk that drops one", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse(sources.length === 1 ? "Hello ⟦1⟧." : "Hello.");
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness("Hola {name}.");
+    await act(async () => {
+      findButton(container, "translate").click();
+      await Promise.resolve();
+    });
+
+    expect(sources).toEqual(["Hola ⟦1⟧."]);
+    expect(getOutput(container, "translation")).toBe("Hello {name}.");
+
+    const failing = renderHarness("Adiós {name}.");
+    await act(async () => {
+      findButton(failing, "translate").click();
+      await Promise.resolve();
+    });
+
+    expect(getOutput(failing, "failure")).toBe("1/1");
+    expect(getOutput(failing, "error")).toContain("dropped {name}");
+  });
+
+  it("sends only the prose of a Markdown document and keeps its markup", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse("Installation\n\nRead the ⟦1⟧guide⟦2⟧ first.");
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      "# Instalación\n\nLee la [guía](https://example.com/guia) antes.\n\n```sh\nnpm ci\n```\n",
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual(["Instalación\n\nLee la ⟦1⟧guía⟦2⟧ antes."]);
+    expect(getOutput(container, "translation")).toBe(
+      "# Installation\n\nRead the [guide](https://example.com/guia) first.\n\n```sh\nnpm ci\n```\n",
+    );
+  });
+
+  it("translates the text of an HTML page and escapes what the model adds", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse('The "new" ⟦1⟧menu⟦2⟧⟦3⟧\n⟦4⟧Company logo⟦5⟧');
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      '<h1>El <em>nuevo</em> menú</h1>\n<img src="logo.png" alt="Logotipo de la empresa">\n<script>init();</script>',
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual(["El ⟦1⟧nuevo⟦2⟧ menú⟦3⟧\n⟦4⟧Logotipo de la empresa⟦5⟧"]);
+    expect(getOutput(container, "translation")).toBe(
+      '<h1>The &quot;new&quot; <em>menu</em></h1>\n<img src="logo.png" alt="Company logo">\n<script>init();</script>',
+    );
+  });
+
+  it("corrects an HTML page as plain text so its tags are not escaped", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse(sourceFromPrompt(content).replace("Hola", "¡Hola"));
+    }) as unknown as typeof fetch;
+
+    const page = '<p>Hola <b>mundo</b>, <a href="x.html">entra</a>!</p>';
+    const container = renderHarness(page, undefined, undefined, "correct");
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual([page]);
+    expect(getOutput(container, "translation")).toBe(page.replace("Hola", "¡Hola"));
+  });
+
+  it("translates subtitle cues and keeps their numbers and timings", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse("Good morning.\n\n⟦1⟧\n⟦2⟧\n⟦3⟧Let's go!");
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      "1\n00:00:01,000 --> 00:00:02,000\nBuenos días.\n\n2\n00:00:02,500 --> 00:00:04,000\n{\\an8}¡Vamos!\n",
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual(["Buenos días.\n\n⟦1⟧\n⟦2⟧\n⟦3⟧¡Vamos!"]);
+    expect(getOutput(container, "translation")).toBe(
+      "1\n00:00:01,000 --> 00:00:02,000\nGood morning.\n\n2\n00:00:02,500 --> 00:00:04,000\n{\\an8}Let's go!\n",
+    );
+  });
+
+  it("translates an edited subtitle cue instead of reusing the chunks around it", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      const source = sourceFromPrompt(content);
+      sources.push(source);
+      return jsonResponse(
+        source
+          .replace("Buenos días.", "Good morning.")
+          .replace("¡Vamos ya!", "Let's go now!")
+          .replace("¡Vamos!", "Let's go!")
+          .replace("Hasta luego.", "See you later."),
+      );
+    }) as unknown as typeof fetch;
+    const container = document.createElement("div");
+    document.body.append(container);
+    const root = createRoot(container);
+    mountedRoots.push(root);
+    const translate = async (text: string): Promise<void> => {
+      act(() => root.render(<Harness text={text} />));
+      await act(async () => {
+        findButton(container, "translate").click();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+    };
+    const subtitles = [
+      "1\n00:00:01,000 --> 00:00:02,000\nBuenos días.",
+      "2\n00:00:02,500 --> 00:00:04,000\n¡Vamos!",
+      "3\n00:00:04,500 --> 00:00:06,000\nHasta luego.",
+      "",
+    ].join("\n\n");
+
+    await translate(subtitles);
+    await translate(subtitles.replace("¡Vamos!", "¡Vamos ya!"));
+
+    expect(sources[sources.length - 1]).toContain("¡Vamos ya!");
+    expect(getOutput(container, "translation")).toBe(
+      [
+        "1\n00:00:01,000 --> 00:00:02,000\nGood morning.",
+        "2\n00:00:02,500 --> 00:00:04,000\nLet's go now!",
+        "3\n00:00:04,500 --> 00:00:06,000\nSee you later.",
+        "",
+      ].join("\n\n"),
+    );
+  });
+
+  it("corrects a JSON document as plain text so its markup stays valid", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse(sourceFromPrompt(content).replace("Adios", "Adiós"));
+    }) as unknown as typeof fetch;
+
+    const document = JSON.stringify(
+      Object.fromEntries(
+        Array.from({ length: 10 }, (_, index) => [
+          `k${index}`,
+          index ? "Adios, hasta luego" : 'Di "hola"\ny vete',
+        ]),
+      ),
+      null,
+      2,
+    );
+    const container = renderHarness(document, undefined, undefined, "correct");
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual([document]);
+    expect(getOutput(container, "translation")).toBe(
+      document.replace("Adios", "Adiós"),
+    );
+    expect(() => JSON.parse(getOutput(container, "translation"))).not.toThrow();
+  });
+
+  it("fills untranslated catalog entries and tells the model their context", async () => {
+    const prompts: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      prompts.push(content);
+      return jsonResponse('Abrir "archivo"');
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      'msgid "Hecho"\nmsgstr "Done"\n\nmsgctxt "menu"\nmsgid "Abrir archivo"\nmsgstr ""\n',
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(prompts).toHaveLength(1);
+    expect(sourceFromPrompt(prompts[0] ?? "")).toBe("Abrir archivo");
+    expect(prompts[0]).toContain("<note>\nContext: menu\n</note>");
+    expect(getOutput(container, "translation")).toBe(
+      'msgid "Hecho"\nmsgstr "Done"\n\n#, fuzzy\nmsgctxt "menu"\nmsgid "Abrir archivo"\nmsgstr "Abrir \\"archivo\\""\n',
+    );
+  });
+
+  it("writes XLIFF targets with their inline elements restored", async () => {
+    const prompts: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      prompts.push(content);
+      return jsonResponse("Open ⟦1⟧files⟦2⟧ & folders");
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      '<xliff version="1.2"><file><body><trans-unit id="open"><source>Abrir <g id="1">archivos</g> y carpetas</source></trans-unit></body></file></xliff>',
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(prompts).toHaveLength(1);
+    expect(sourceFromPrompt(prompts[0] ?? "")).toBe("Abrir ⟦1⟧archivos⟦2⟧ y carpetas");
+    expect(getOutput(container, "translation")).toBe(
+      '<xliff version="1.2"><file><body><trans-unit id="open"><source>Abrir <g id="1">archivos</g> y carpetas</source><target state="needs-review-translation">Open <g id="1">files</g> &amp; folders</target></trans-unit></body></file></xliff>',
+    );
+  });
+
+  it("reuses remembered chunks and suggests similar ones on a re-run", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse(`translated-${sources.length}`);
+    }) as unknown as typeof fetch;
+    const translationMemory = createTranslationMemory(
+      createInMemoryTranslationMemoryStore(),
+      { fuzzyThreshold: 0.6 },
+    );
+
+    const first = renderHarness(
+      "El primer párrafo conserva todos los detalles.\n\nEl segundo párrafo también debe traducirse.",
+      undefined,
+      translationMemory,
+    );
+    await act(async () => {
+      findButton(first, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+    const edited = renderHarness(
+      "El primer párrafo conserva todos los detalles.\n\nEl segundo párrafo también debe revisarse.",
+      undefined,
+      translationMemory,
+    );
+    await act(async () => {
+      findButton(edited, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual([
+      "El primer párrafo conserva todos los detalles.",
+      "El segundo párrafo también debe traducirse.",
+      "El segundo párrafo también debe revisarse.",
+    ]);
+    expect(getOutput(edited, "translation")).toBe("translated-1\n\ntranslated-3");
+    expect(getOutput(edited, "suggestions")).toBe("2:translated-2");
+  });
+
+  it("reuses remembered paragraphs however they are packed into chunks", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      const source = sourceFromPrompt(content);
+      sources.push(source);
+      return jsonResponse(source.replace(/Párrafo/gu, "Paragraph"));
+    }) as unknown as typeof fetch;
+    const translationMemory = createTranslationMemory(
+      createInMemoryTranslationMemoryStore(),
+    );
+    const numbers = ["uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho"];
+    // More paragraphs than are kept atomic, so they are packed into one chunk.
+    const draft = numbers
+      .concat("nueve")
+      .map((number) => `Párrafo ${number}.`)
+      .join("\n\n");
+
+    const first = renderHarness(draft, undefined, translationMemory);
+    await act(async () => {
+      findButton(first, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+    const edited = renderHarness(
+      draft.replace("Párrafo cinco.", "Párrafo cinco, corregido."),
+      undefined,
+      translationMemory,
+    );
+    await act(async () => {
+      findButton(edited, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(sources).toEqual([draft, "Párrafo cinco, corregido."]);
+    expect(getOutput(edited, "translation")).toBe(
+      draft
+        .replace("Párrafo cinco.", "Párrafo cinco, corregido.")
+        .replace(/Párrafo/gu, "Paragraph"),
+    );
+  });
+
+  it("re-translates only the edited paragraph of a translated draft", async () => {
+    const sources: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      sources.push(sourceFromPrompt(content));
+      return jsonResponse(`translated-${sources.length}`);
+    }) as unknown as typeof fetch;
+    const container = document.createElement("div");
+    document.body.append(container);
+    const root = createRoot(container);
+    mountedRoots.push(root);
+    const translate = async (text: string): Promise<void> => {
+      act(() => root.render(<Harness text={text} />));
+      await act(async () => {
+        findButton(container, "translate").click();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+    };
+
+    await translate("Primero.\n\nSegundo.\n\nTercero.");
+    await translate("Primero.\n\nSegundo, corregido.\n\nTercero.");
+
+    expect(sources).toEqual([
+      "Primero.",
+      "Segundo.",
+      "Tercero.",
+      "Segundo, corregido.",
+    ]);
+    expect(getOutput(container, "translation")).toBe(
+      "translated-1\n\ntranslated-4\n\ntranslated-3",
+    );
+  });
+
+  it("translates each language of a mixed document from its own source", async () => {
+    const prompts: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      prompts.push(content);
+      return jsonResponse(`translated-${prompts.length}`);
+    }) as unknown as typeof fetch;
+    const container = document.createElement("div");
+    document.body.append(container);
+    const root = createRoot(container);
+    mountedRoots.push(root);
+    act(() =>
+      root.render(
+        <Harness
+          inputLanguage="auto"
+          text={[
+            "The meeting has been moved to Monday because two members of the team are away.",
+            "La reunión se ha aplazado hasta el lunes porque faltan dos miembros del equipo.",
+            "Perdí las llaves de casa y tuve que llamar a mi hermano, que vino enseguida.",
+          ].join("\n\n")}
+        />,
+      ),
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(prompts.map(sourceFromPrompt)).toEqual([
+      "La reunión se ha aplazado hasta el lunes porque faltan dos miembros del equipo.",
+      "Perdí las llaves de casa y tuve que llamar a mi hermano, que vino enseguida.",
+    ]);
+    expect(prompts.every((prompt) => prompt.includes("Spanish"))).toBe(true);
+    expect(getOutput(container, "translation")).toBe(
+      "The meeting has been moved to Monday because two members of the team are away.\n\ntranslated-1\n\ntranslated-2",
+    );
+    expect(getOutput(container, "segments")).toBe("1-1:en:kept 2-3:es");
+  });
+
+  it("carries the previous chunk as context without adding it to the output", async () => {
+    const prompts: string[] = [];
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      prompts.push(content);
+      const translation = `part-${prompts.length}`;
+      const carriedTranslation = content.match(
+        /<context_translation>\n([\s\S]*?)\n<\/context_translation>/,
+      )?.[1];
+      // Echo the carried translation the way a careless model might.
+      return jsonResponse(
+        carriedTranslation ? `${carriedTranslation}\n${translation}` : translation,
+      );
+    }) as unknown as typeof fetch;
+
+    const source = Array.from({ length: 260 }, () => "El gato duerme en la casa.").join(
+      " ",
+    );
+    const container = renderHarness(source);
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(prompts.length).toBeGreaterThan(1);
+    expect(prompts[0]).not.toContain("<preceding_context>");
+    expect(prompts[1]).toContain(
+      "<context_translation>\npart-1\n</context_translation>",
+    );
+    expect(prompts[1]).toMatch(/<context_source>\n[^<]*casa\.\n<\/context_source>/);
+    expect(sourceFromPrompt(prompts[1] ?? "")).not.toContain("part-1");
+    expect(getOutput(container, "translation")).toBe(
+      prompts.map((_, index) => `part-${index + 1}`).join(" "),
+    );
+  });
+
+  it("keeps completed chunks after a failure and resumes only the rest", async () => {
+    const calls: string[] = [];
+    let failSecondParagraph = true;
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = body.messages[0]?.content ?? "";
+      if (content.includes("identifying the language")) return jsonResponse("es");
+      const source = sourceFromPrompt(content);
+      calls.push(source);
+      if (source.startsWith("El segundo") && failSecondParagraph) {
+        failSecondParagraph = false;
+        return new Response(JSON.stringify({ error: "model crashed" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      return jsonResponse(source.startsWith("El primer") ? "First." : "Second.");
+    }) as unknown as typeof fetch;
+
+    const container = renderHarness(
+      "El primer párrafo conserva todos los detalles.\n\nEl segundo párrafo también debe traducirse.",
+    );
+    await act(async () => {
+      findButton(container, "translate").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(getOutput(container, "failure")).toBe("2/2");
+    expect(getOutput(container, "error")).toContain("chunk 2 of 2");
+    expect(getOutput(container, "translation")).toBe("First.\n\n");
+
+    await act(async () => {
+      findButton(container, "resume").click();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(calls.filter((source) => source.startsWith("El primer"))).toHaveLength(1);
+    expect(calls.filter((source) => source.startsWith("El segundo"))).toHaveLength(2);
+    expect(getOutput(container, "translation")).toBe("First.\n\nSecond.");
+    expect(getOutput(container, "failure")).toBe("none");
+    expect(getOutput(container, "status")).toBe("idle");
+  });
+
   it("cancels an in-flight chunk request without surfacing a translation error", async () => {
     globalThis.fetch = mock(
       async (_input: RequestInfo | URL, init?: RequestInit) =>
@@ -1,4 +1,6 @@
 import { describe, expect, it } from "bun:test";
+import { createLanguageLabels } from "../services/translationPrompts";
+import { stripEchoedCarryOver } from "../services/translationResponse";
 import {
   createCorrectionPrompt,
   createDetectionPrompt,
@@ -60,6 +62,85 @@ describe("TranslateGemma prompts", () => {
     expect(content).toContain("Please translate the source text into Spanish.");
   });
 
+  it("adds the previous chunk as read-only context outside the source block", () => {
+    const content = createTranslationPrompt(
+      "Ella també el va signar.",
+      "ca",
+      "es",
+      languageLabels,
+      false,
+      0,
+      {
+        carryOver: {
+          source: "La Maria va llegir l'informe.",
+          translation: "María leyó el informe.",
+        },
+      },
+    )[0].content;
+
+    expect(content).toContain("It is read-only");
+    expect(content).toContain(
+      "<context_source>\nLa Maria va llegir l'informe.\n</context_source>",
+    );
+    expect(content).toContain(
+      "<context_translation>\nMaría leyó el informe.\n</context_translation>",
+    );
+    expect(content.indexOf("</preceding_context>")).toBeLessThan(
+      content.indexOf("<source_text>\n"),
+    );
+    expect(content).toContain(
+      "<source_text>\nElla també el va signar.\n</source_text>",
+    );
+  });
+
+  it("lists matched glossary terms before the source block", () => {
+    const content = createTranslationPrompt(
+      "Open a pull request.",
+      "en",
+      "es",
+      languageLabels,
+      false,
+      0,
+      {
+        glossary: [
+          {
+            id: "pr",
+            source: "pull request",
+            target: "solicitud de cambios",
+            caseSensitive: false,
+            wholeWord: true,
+          },
+        ],
+      },
+    )[0].content;
+
+    expect(content).toContain("Use the Spanish terms in the <glossary> block");
+    expect(content).toContain(
+      "<glossary>\npull request => solicitud de cambios\n</glossary>",
+    );
+    expect(content.indexOf("</glossary>")).toBeLessThan(
+      content.indexOf("<source_text>\n"),
+    );
+    expect(
+      createTranslationPrompt("Hello", "en", "es", languageLabels, false, 0)[0].content,
+    ).not.toContain("<glossary>");
+  });
+
+  it("drops a carry-over translation that the model repeats", () => {
+    expect(
+      stripEchoedCarryOver(
+        "María leyó el informe.\nElla también lo firmó.",
+        "María leyó el informe.",
+      ),
+    ).toBe("Ella también lo firmó.");
+    expect(
+      stripEchoedCarryOver("Ella también lo firmó.", "María leyó el informe."),
+    ).toBe("Ella también lo firmó.");
+    expect(
+      stripEchoedCarryOver("María leyó el informe.", "María leyó el informe."),
+    ).toBe("María leyó el informe.");
+  });
+
   it("removes an echoed alternatives instruction from the primary translation", () => {
     const echoedInstruction =
       'For short expressions, if a natural colloquial alternative is genuinely useful, add up to 2 extra lines after the primary translation, each prefixed with "ALT: ". Do not change or repeat the primary translation.';
@@ -124,6 +205,35 @@ describe("TranslateGemma prompts", () => {
     expect(content).not.toContain("```");
   });
 
+  it("names regional variants and adds their wording instruction", () => {
+    const labels = createLanguageLabels();
+    const content = createTranslationPrompt(
+      "The colour of the lift.",
+      "en-GB",
+      "pt-BR",
+      labels,
+      false,
+      0,
+    )[0].content;
+
+    expect(labels.ca).toBe("Catalan (from Catalonia)");
+    expect(content).toContain(
+      "You are a professional British English (en-GB) to Brazilian Portuguese (pt-BR) translator.",
+    );
+    expect(content).toContain("você as the usual form of address");
+    expect(content).toContain(
+      "Please translate the source text into Brazilian Portuguese.",
+    );
+  });
+
+  it("lists every registry language in the detection prompt", () => {
+    const content = createDetectionPrompt("Hei maailma.")[0].content;
+
+    expect(content).toContain("from this list: ar, ar-EG, ar-SA, bn, bg, ca, zh,");
+    expect(content).toContain(" fil, fi,");
+    expect(content).toContain(", vi, zu.");
+  });
+
   it("keeps correction focused on preserving meaning", () => {
     const text = "Aquesta frase necessita una correcció.";
     const content = createCorrectionPrompt(text, "ca", languageLabels)[0].content;
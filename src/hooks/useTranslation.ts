@@ -1,15 +1,57 @@
 import type { Dispatch, SetStateAction } from "react";
 import { useCallback, useMemo, useRef, useState } from "react";
-import { TRANSLATION_CONFIG } from "../config/constants";
+import { DEFAULT_PROVIDER_ENDPOINTS, TRANSLATION_CONFIG } from "../config/constants";
 import {
   createDiagnosticsRecorder,
   type TranslationDiagnosticsRecorder,
 } from "../services/diagnostics";
-import { fetchTranslation, type TranslationDeltaHandler } from "../services/ollamaApi";
 import {
+  canReuseTranslatedChunks,
+  checkTranslationStructure,
+  detectDocumentFormat,
+  escapeTranslation,
+  isRebuiltFormat,
+  requiresMaskedMarkup,
+  splitIntoDocumentChunks,
+} from "../services/documentFormats";
+import {
+  findGlossaryMatches,
+  findMissingGlossaryTerms,
+  getGlossaryEntries,
+} from "../services/glossary";
+import { parseModelReference } from "../services/modelReferences";
+import {
+  fetchTranslation,
+  isRetryableProviderError,
+  type TranslationDeltaHandler,
+} from "../services/ollamaApi";
+import {
+  maskPlaceholders,
+  PlaceholderValidationError,
+  previewPlaceholders,
+  restorePlaceholders,
+} from "../services/placeholderMasking";
+import { retryWithBackoff } from "../services/retryPolicy";
+import { findLongSubtitleLines } from "../services/subtitleDocument";
+import {
+  heuristicTokenizer,
+  runWithTokenizer,
+  type Tokenizer,
+} from "../services/tokenizer";
+import {
+  type ChunkReuse,
+  DocumentStructureError,
+  getCarryOverTail,
+  getCarryOverTokenBudget,
+  getChunkLanguageRuns,
+  getContextSourceTokenBudget,
   getLanguageDetectionSample,
+  joinChunkParagraphs,
+  pairChunkParagraphs,
   reassembleTranslationChunks,
-  splitIntoTranslationChunks,
+  reuseTranslatedChunks,
+  splitChunkParagraphs,
+  splitIntoLanguageChunks,
   type TranslationChunk,
   TranslationChunkingError,
 } from "../services/translationChunking";
@@ -17,27 +59,53 @@ import {
   createLanguageMismatchError,
   createSameLanguageError,
 } from "../services/translationErrors";
+import {
+  composeTranslationPreview,
+  runTranslationJob,
+} from "../services/translationJob";
+import {
+  disabledTranslationMemory,
+  type TranslationMemory,
+  type TranslationMemoryScope,
+} from "../services/translationMemory";
 import {
   createCorrectionPrompt,
   createDetectionPrompt,
   createLanguageLabels,
   createTranslationPrompt,
+  type TranslationCarryOver,
 } from "../services/translationPrompts";
 import {
   isShortExpression,
   normalizeStreamingTranslationResponse,
   normalizeTranslationResponse,
+  stripEchoedCarryOver,
 } from "../services/translationResponse";
-import type { ProcessingMode, TranslationProgress } from "../types";
+import type {
+  DetectedLanguageSegment,
+  DocumentFormat,
+  Glossary,
+  GlossaryEntry,
+  GlossaryWarning,
+  ProcessingMode,
+  ProviderEndpoint,
+  SubtitleLineWarning,
+  TranslationFailure,
+  TranslationProgress,
+  TranslationRetry,
+  TranslationSuggestion,
+} from "../types";
 import {
   detectMixedLanguageSignal,
+  detectStrongLanguageSignal,
   getStrongLanguageSignal,
   normalizeDetectedLanguageCode,
 } from "../utils/languageDetection";
 import {
+  hashText,
   isAbortError,
+  isSameTargetLanguage,
   isSourceLanguageMismatch,
-  parseModelReference,
 } from "../utils/transforms";
 
 export {
@@ -66,27 +134,80 @@ const cancelScheduledAnimationFrame = (handle: number): void => {
   clearTimeout(handle);
 };
 
+const NO_GLOSSARY: Glossary = {};
+
 interface UseTranslationProps {
   selectedModel: string;
   inputLanguage: string;
   outputLanguage: string;
   mode: ProcessingMode;
+  providerEndpoints?: readonly ProviderEndpoint[];
+  contextWindow?: number | null;
+  tokenizer?: Tokenizer;
+  glossary?: Glossary;
+  translationMemory?: TranslationMemory;
+  /** Retranslate gettext entries marked fuzzy, not only untranslated ones. */
+  translateFuzzyEntries?: boolean;
+}
+
+interface TranslateTextOptions {
+  /** Send nothing unless unchanged chunks of the last translation can be reused. */
+  requireReuse?: boolean;
 }
 
 interface UseTranslationReturn {
   translatedText: string;
   alternativeTranslations: string[];
   detectedSourceLanguage: string | null;
+  /** Per-segment languages of a mixed-language document; empty otherwise. */
+  languageSegments: DetectedLanguageSegment[];
+  /** Structure of the last translated document, such as Markdown. */
+  documentFormat: DocumentFormat;
   isTranslating: boolean;
   translationProgress: TranslationProgress | null;
+  translationFailure: TranslationFailure | null;
+  glossaryWarnings: GlossaryWarning[];
+  /** Translated subtitle cues with lines too long to read comfortably. */
+  subtitleWarnings: SubtitleLineWarning[];
+  translationSuggestions: TranslationSuggestion[];
+  applyTranslationSuggestion: (suggestion: TranslationSuggestion) => void;
+  /** True when the next translation can reuse unchanged chunks of the last one. */
+  hasReusableTranslation: boolean;
   translationError: string | null;
   setTranslationError: Dispatch<SetStateAction<string | null>>;
-  translateText: (text: string) => Promise<void>;
+  translateText: (text: string, options?: TranslateTextOptions) => Promise<void>;
+  resumeTranslation: () => Promise<void>;
   cancelTranslation: () => void;
   setTranslatedText: Dispatch<SetStateAction<string>>;
   diagnostics: TranslationDiagnosticsRecorder;
 }
 
+interface ResumableTranslationJob {
+  requestKey: string;
+  /** Model, requested languages, and mode, without the source text. */
+  scope: string;
+  sourceText: string;
+  /** Structure the chunks were cut from; translations are escaped for it. */
+  documentFormat: DocumentFormat;
+  chunks: readonly TranslationChunk[];
+  completedParts: (string | undefined)[];
+  sourceLanguage: string;
+  allowAlternatives: boolean;
+  /** Source-token budget for the previous chunk's tail; 0 disables carry-over. */
+  carryOverTokens: number;
+  /** Glossary entries that occur somewhere in the document. */
+  glossary: readonly GlossaryEntry[];
+  missingGlossaryTerms: (readonly string[] | undefined)[];
+}
+
+/** The last successful translation, kept so an edited draft can reuse its chunks. */
+interface CompletedTranslation {
+  scope: string;
+  sourceLanguage: string;
+  chunks: readonly TranslationChunk[];
+  parts: string[];
+}
+
 type DetectionConfidence = "high" | "medium" | "low";
 type DetectionStrategy = "strong-signal" | "mixed" | "model" | "error";
 type DetectionResult = {
@@ -95,14 +216,12 @@ type DetectionResult = {
   strategy: DetectionStrategy;
 };
 
-const hashText = (text: string): string => {
-  let hash = 2166136261;
-  for (let index = 0; index < text.length; index += 1) {
-    hash ^= text.charCodeAt(index);
-    hash = Math.imul(hash, 16777619);
-  }
-  return `${text.length}:${hash >>> 0}`;
-};
+const createTranslationScope = (
+  selectedModel: string,
+  inputLanguage: string,
+  outputLanguage: string,
+  mode: ProcessingMode,
+): string => [selectedModel, inputLanguage, outputLanguage, mode].join("|");
 
 const createTranslationRequestKey = (
   selectedModel: string,
@@ -110,8 +229,9 @@ const createTranslationRequestKey = (
   outputLanguage: string,
   mode: ProcessingMode,
   text: string,
+  translateFuzzyEntries = false,
 ): string =>
-  [selectedModel, inputLanguage, outputLanguage, mode, hashText(text)].join("|");
+  `${createTranslationScope(selectedModel, inputLanguage, outputLanguage, mode)}|${translateFuzzyEntries ? "fuzzy|" : ""}${hashText(text)}`;
 
 const createDetectionCacheKey = (selectedModel: string, text: string): string =>
   [selectedModel, hashText(text)].join("\u0000");
@@ -119,8 +239,9 @@ const createDetectionCacheKey = (selectedModel: string, text: string): string =>
 const detectSourceLanguage = async (
   model: string,
   fullText: string,
-  sample: string,
+  getSample: () => Promise<string>,
   signal: AbortSignal,
+  endpoints: readonly ProviderEndpoint[],
 ): Promise<DetectionResult> => {
   if (detectMixedLanguageSignal(fullText)) {
     return { code: null, confidence: "high", strategy: "mixed" };
@@ -138,9 +259,10 @@ const detectSourceLanguage = async (
   try {
     const detection = await fetchTranslation({
       model,
-      messages: createDetectionPrompt(sample),
+      messages: createDetectionPrompt(await getSample()),
       options: TRANSLATION_CONFIG.AI_PARAMS,
       signal,
+      endpoints,
     });
     const code = normalizeDetectedLanguageCode(detection);
     return {
@@ -165,26 +287,103 @@ const createChunkFailure = (
   );
 };
 
+/** Corrections are remembered within the chunk's own language. */
+const getChunkMemoryScope = (
+  chunk: TranslationChunk,
+  scope: Omit<TranslationMemoryScope, "context">,
+): TranslationMemoryScope => {
+  const sourceLanguage = chunk.sourceLanguage ?? scope.sourceLanguage;
+  return {
+    ...scope,
+    sourceLanguage,
+    targetLanguage: scope.mode === "correct" ? sourceLanguage : scope.targetLanguage,
+    context: chunk.note,
+  };
+};
+
+/**
+ * Split untranslated chunks around their remembered paragraphs, so a paragraph
+ * is reused however the document was packed into chunks. Paragraphs that are
+ * not remembered stay together in one chunk.
+ */
+const recallRememberedParagraphs = async (
+  plan: ChunkReuse,
+  recall: (paragraph: TranslationChunk) => Promise<string | null>,
+): Promise<ChunkReuse> => {
+  const chunks: TranslationChunk[] = [];
+  const parts: (string | undefined)[] = [];
+  for (const [index, chunk] of plan.chunks.entries()) {
+    const part = plan.parts[index];
+    const paragraphs = part === undefined ? splitChunkParagraphs(chunk) : [chunk];
+    const recalled =
+      paragraphs.length > 1 ? await Promise.all(paragraphs.map(recall)) : [];
+    if (!recalled.some((translation) => translation !== null)) {
+      chunks.push(chunk);
+      parts.push(part);
+      continue;
+    }
+    let pending: TranslationChunk[] = [];
+    const flushPending = (): void => {
+      if (!pending.length) return;
+      chunks.push(joinChunkParagraphs(pending));
+      parts.push(undefined);
+      pending = [];
+    };
+    paragraphs.forEach((paragraph, paragraphIndex) => {
+      const translation = recalled[paragraphIndex] ?? null;
+      if (translation === null) {
+        pending.push(paragraph);
+        return;
+      }
+      flushPending();
+      chunks.push(paragraph);
+      parts.push(translation);
+    });
+    flushPending();
+  }
+  return { chunks, parts };
+};
+
 const useTranslation = ({
   selectedModel,
   inputLanguage,
   outputLanguage,
   mode,
+  providerEndpoints = DEFAULT_PROVIDER_ENDPOINTS,
+  contextWindow = null,
+  tokenizer = heuristicTokenizer,
+  glossary = NO_GLOSSARY,
+  translationMemory = disabledTranslationMemory,
+  translateFuzzyEntries = false,
 }: UseTranslationProps): UseTranslationReturn => {
   const [translatedText, setTranslatedText] = useState("");
   const [alternativeTranslations, setAlternativeTranslations] = useState<string[]>([]);
   const [detectedSourceLanguage, setDetectedSourceLanguage] = useState<string | null>(
     null,
   );
+  const [languageSegments, setLanguageSegments] = useState<DetectedLanguageSegment[]>(
+    [],
+  );
+  const [documentFormat, setDocumentFormat] = useState<DocumentFormat>("text");
   const [isTranslating, setIsTranslating] = useState(false);
   const [translationProgress, setTranslationProgress] =
     useState<TranslationProgress | null>(null);
+  const [translationFailure, setTranslationFailure] =
+    useState<TranslationFailure | null>(null);
+  const [glossaryWarnings, setGlossaryWarnings] = useState<GlossaryWarning[]>([]);
+  const [subtitleWarnings, setSubtitleWarnings] = useState<SubtitleLineWarning[]>([]);
+  const [translationSuggestions, setTranslationSuggestions] = useState<
+    TranslationSuggestion[]
+  >([]);
   const [translationError, setTranslationError] = useState<string | null>(null);
 
   const requestId = useRef(0);
   const isTranslatingRef = useRef(false);
   const requestAbortControllerRef = useRef<AbortController | null>(null);
   const lastRequestKeyRef = useRef("");
+  const resumableJobRef = useRef<ResumableTranslationJob | null>(null);
+  const completedTranslationRef = useRef<CompletedTranslation | null>(null);
+  const [completedTranslationScope, setCompletedTranslationScope] = useState("");
   const lastDetectionRef = useRef<{
     key: string;
     result: DetectionResult;
@@ -201,12 +400,393 @@ const useTranslation = ({
     requestAbortControllerRef.current?.abort();
     requestAbortControllerRef.current = null;
     isTranslatingRef.current = false;
+    resumableJobRef.current = null;
     setIsTranslating(false);
     setTranslationProgress(null);
+    setTranslationFailure(null);
   }, []);
 
+  const releaseRequest = useCallback((current: number): void => {
+    if (current !== requestId.current) return;
+    requestAbortControllerRef.current = null;
+    setIsTranslating(false);
+    isTranslatingRef.current = false;
+    setTranslationProgress(null);
+  }, []);
+
+  const runResumableJob = useCallback(
+    async (
+      job: ResumableTranslationJob,
+      current: number,
+      controller: AbortController,
+    ): Promise<void> => {
+      const {
+        documentFormat: format,
+        chunks,
+        completedParts,
+        sourceLanguage,
+        allowAlternatives,
+        carryOverTokens,
+        glossary,
+        missingGlossaryTerms,
+      } = job;
+      const getCarryOver = (index: number): TranslationCarryOver | undefined => {
+        const previousChunk = chunks[index - 1];
+        if (!carryOverTokens || !previousChunk) return undefined;
+        const previousTranslation = completedParts[index - 1];
+        return {
+          source: getCarryOverTail(previousChunk.text, carryOverTokens),
+          // With parallel requests the previous chunk may still be in flight.
+          translation:
+            previousTranslation === undefined
+              ? undefined
+              : getCarryOverTail(
+                  previousTranslation,
+                  Math.floor(
+                    carryOverTokens * TRANSLATION_CONFIG.CHUNKING.OUTPUT_TOKEN_RATIO,
+                  ),
+                ),
+        };
+      };
+      const modelReference = parseModelReference(selectedModel);
+      const partialPreviews: string[] = new Array(chunks.length).fill("");
+      const activeChunks = new Set<number>();
+      const retryingChunks = new Map<number, TranslationRetry>();
+      let completedChunks = completedParts.filter((part) => part !== undefined).length;
+      let failedChunkIndex: number | null = null;
+      const publishProgress = (): void => {
+        if (current !== requestId.current || controller.signal.aborted) return;
+        setTranslationProgress({
+          completedChunks,
+          totalChunks: chunks.length,
+          activeChunks: [...activeChunks].sort((left, right) => left - right),
+          retry: retryingChunks.values().next().value,
+        });
+      };
+      publishProgress();
+      const isPassThrough = (chunk: TranslationChunk): boolean =>
+        mode === "translate" &&
+        Boolean(chunk.sourceLanguage) &&
+        isSameTargetLanguage(chunk.sourceLanguage ?? "", outputLanguage);
+      setLanguageSegments(
+        getChunkLanguageRuns(chunks).map((run) => ({
+          ...run,
+          passedThrough: isPassThrough(chunks[run.firstChunk] as TranslationChunk),
+        })),
+      );
+      const alternatives: string[] = [];
+      const suggestions: TranslationSuggestion[] = [];
+
+      let streamingFrame: number | null = null;
+      const commitStreamingPreview = (): void => {
+        streamingFrame = null;
+        if (current !== requestId.current || controller.signal.aborted) return;
+        setTranslatedText(
+          composeTranslationPreview(chunks, completedParts, partialPreviews),
+        );
+      };
+      const scheduleStreamingPreview = (): void => {
+        if (streamingFrame !== null) return;
+        streamingFrame = scheduleAnimationFrame(commitStreamingPreview);
+      };
+      const cancelStreamingPreview = (): void => {
+        if (streamingFrame === null) return;
+        cancelScheduledAnimationFrame(streamingFrame);
+        streamingFrame = null;
+      };
+
+      const translateChunk = async (
+        chunk: TranslationChunk,
+        index: number,
+        signal: AbortSignal,
+      ): Promise<string> => {
+        let attemptStartedAt = performance.now();
+        let attempt = 1;
+        let rawChunkResponse = "";
+        // Paragraphs of a mixed document already in the target language are kept.
+        if (isPassThrough(chunk)) {
+          missingGlossaryTerms[index] = [];
+          diagnostics.record({
+            provider: modelReference.provider,
+            model: modelReference.model,
+            phase: "translation",
+            outcome: "same-language",
+            inputCharacters: chunk.text.length,
+            latencyMs: 0,
+          });
+          return chunk.text;
+        }
+        const chunkSourceLanguage = chunk.sourceLanguage ?? sourceLanguage;
+        const memoryScope = getChunkMemoryScope(chunk, {
+          model: selectedModel,
+          sourceLanguage,
+          targetLanguage: outputLanguage,
+          mode,
+          format,
+        });
+        const carryOver = getCarryOver(index);
+        const chunkGlossary = findGlossaryMatches(chunk.text, glossary);
+        const masked =
+          mode === "translate"
+            ? maskPlaceholders(chunk.text, chunk.protectedRanges)
+            : { text: chunk.text, placeholders: [] };
+        const sourceHasCodeFences =
+          chunk.text.includes("```") || chunk.text.includes("~~~");
+        const updateStreamingOutput: TranslationDeltaHandler = (delta) => {
+          rawChunkResponse += delta;
+          if (current !== requestId.current || signal.aborted) return;
+          partialPreviews[index] = normalizeStreamingTranslationResponse(
+            previewPlaceholders(
+              stripEchoedCarryOver(rawChunkResponse, carryOver?.translation),
+              masked.placeholders,
+            ),
+            sourceHasCodeFences,
+          );
+          scheduleStreamingPreview();
+        };
+        try {
+          const remembered = await translationMemory.lookup(memoryScope, chunk.text);
+          if (signal.aborted) throw new DOMException("Aborted", "AbortError");
+          const { exact } = remembered;
+          if (
+            exact &&
+            !findMissingGlossaryTerms(exact.translation, chunkGlossary).length
+          ) {
+            missingGlossaryTerms[index] = [];
+            if (allowAlternatives) alternatives.push(...exact.alternatives);
+            diagnostics.record({
+              provider: modelReference.provider,
+              model: modelReference.model,
+              phase: "translation",
+              outcome: "success",
+              inputCharacters: chunk.text.length,
+              latencyMs: performance.now() - attemptStartedAt,
+              cacheHit: true,
+            });
+            return exact.translation;
+          }
+          suggestions.push(
+            ...remembered.suggestions.map(({ source, translation, similarity }) => ({
+              chunk: index,
+              source,
+              translation,
+              similarity,
+            })),
+          );
+
+          const messages =
+            mode === "correct"
+              ? createCorrectionPrompt(chunk.text, chunkSourceLanguage, languageLabels)
+              : createTranslationPrompt(
+                  masked.text,
+                  chunkSourceLanguage,
+                  outputLanguage,
+                  languageLabels,
+                  allowAlternatives,
+                  TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
+                  { carryOver, glossary: chunkGlossary, note: chunk.note },
+                );
+          const result = await retryWithBackoff(
+            (nextAttempt) => {
+              attempt = nextAttempt;
+              attemptStartedAt = performance.now();
+              rawChunkResponse = "";
+              return fetchTranslation({
+                model: selectedModel,
+                messages,
+                options: TRANSLATION_CONFIG.AI_PARAMS,
+                signal,
+                onDelta: updateStreamingOutput,
+                endpoints: providerEndpoints,
+              });
+            },
+            {
+              signal,
+              shouldRetry: isRetryableProviderError,
+              onRetry: (retry) => {
+                diagnostics.record({
+                  provider: modelReference.provider,
+                  model: modelReference.model,
+                  phase: "translation",
+                  outcome: "retry",
+                  inputCharacters: chunk.text.length,
+                  latencyMs: performance.now() - attemptStartedAt,
+                  attempt,
+                });
+                retryingChunks.set(index, {
+                  chunk: index,
+                  attempt: retry.attempt,
+                  maxAttempts: retry.maxAttempts,
+                });
+                partialPreviews[index] = "";
+                scheduleStreamingPreview();
+                publishProgress();
+              },
+            },
+          );
+
+          if (signal.aborted) throw new DOMException("Aborted", "AbortError");
+          const normalized = normalizeTranslationResponse(
+            stripEchoedCarryOver(result, carryOver?.translation),
+            TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
+            allowAlternatives,
+            sourceHasCodeFences,
+          );
+          if (!normalized.primary.trim()) {
+            throw new Error("The model returned an empty translation.");
+          }
+          const primary = restorePlaceholders(
+            escapeTranslation(format, normalized.primary, chunk),
+            masked.placeholders,
+          );
+          checkTranslationStructure(format, chunk.text, primary);
+          missingGlossaryTerms[index] = findMissingGlossaryTerms(
+            primary,
+            chunkGlossary,
+          );
+          const chunkAlternatives: string[] = [];
+          for (const alternative of normalized.alternatives) {
+            try {
+              const restored = restorePlaceholders(
+                escapeTranslation(format, alternative, chunk),
+                masked.placeholders,
+              );
+              checkTranslationStructure(format, chunk.text, restored);
+              chunkAlternatives.push(restored);
+            } catch (error) {
+              if (
+                !(error instanceof PlaceholderValidationError) &&
+                !(error instanceof DocumentStructureError)
+              ) {
+                throw error;
+              }
+            }
+          }
+          alternatives.push(...chunkAlternatives);
+          void translationMemory.remember(
+            memoryScope,
+            chunk.text,
+            primary,
+            chunkAlternatives,
+          );
+          // Rebuilt formats encode the breaks between a slot's paragraphs.
+          if (!isRebuiltFormat(format)) {
+            for (const [paragraph, translation] of pairChunkParagraphs(
+              chunk,
+              primary,
+            )) {
+              void translationMemory.remember(memoryScope, paragraph.text, translation);
+            }
+          }
+          diagnostics.record({
+            provider: modelReference.provider,
+            model: modelReference.model,
+            phase: "translation",
+            outcome: "success",
+            inputCharacters: chunk.text.length,
+            latencyMs: performance.now() - attemptStartedAt,
+            attempt,
+          });
+          return primary;
+        } catch (error) {
+          if (isAbortError(error) || signal.aborted) throw error;
+          diagnostics.record({
+            provider: modelReference.provider,
+            model: modelReference.model,
+            phase: "translation",
+            outcome: "error",
+            inputCharacters: chunk.text.length,
+            latencyMs: performance.now() - attemptStartedAt,
+            attempt,
+          });
+          if (failedChunkIndex === null) failedChunkIndex = index;
+          throw createChunkFailure(error, index, chunks.length);
+        } finally {
+          retryingChunks.delete(index);
+        }
+      };
+
+      let translatedParts: string[];
+      try {
+        translatedParts = await runTranslationJob({
+          chunks,
+          concurrency: TRANSLATION_CONFIG.CHUNKING.MAX_CONCURRENT_REQUESTS,
+          signal: controller.signal,
+          translateChunk,
+          completedParts,
+          onChunkStart: (index) => {
+            activeChunks.add(index);
+            publishProgress();
+          },
+          onChunkComplete: (index, part) => {
+            activeChunks.delete(index);
+            completedParts[index] = part;
+            completedChunks += 1;
+            cancelStreamingPreview();
+            commitStreamingPreview();
+            publishProgress();
+          },
+        });
+      } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) throw error;
+        if (failedChunkIndex === null) throw error;
+        resumableJobRef.current = job;
+        if (current !== requestId.current) return;
+        setTranslatedText(composeTranslationPreview(chunks, completedParts, []));
+        setAlternativeTranslations([]);
+        setTranslationFailure({
+          failedChunk: failedChunkIndex,
+          completedChunks,
+          totalChunks: chunks.length,
+        });
+        setTranslationError(
+          error instanceof Error ? error.message : "Unknown translation error",
+        );
+        return;
+      } finally {
+        cancelStreamingPreview();
+      }
+
+      if (current !== requestId.current || controller.signal.aborted) return;
+      completedTranslationRef.current = {
+        scope: job.scope,
+        sourceLanguage,
+        chunks,
+        parts: translatedParts,
+      };
+      setCompletedTranslationScope(job.scope);
+      const output = reassembleTranslationChunks(chunks, translatedParts);
+      setTranslatedText(output);
+      setAlternativeTranslations(chunks.length === 1 ? alternatives : []);
+      setTranslationSuggestions(
+        suggestions.sort((left, right) => left.chunk - right.chunk),
+      );
+      setGlossaryWarnings(
+        missingGlossaryTerms.flatMap((terms, chunk) =>
+          terms?.length
+            ? [{ chunk, totalChunks: chunks.length, missingTerms: [...terms] }]
+            : [],
+        ),
+      );
+      setSubtitleWarnings(
+        format === "subtitles"
+          ? findLongSubtitleLines(output, TRANSLATION_CONFIG.SUBTITLES.MAX_LINE_LENGTH)
+          : [],
+      );
+    },
+    [
+      selectedModel,
+      outputLanguage,
+      mode,
+      languageLabels,
+      diagnostics,
+      providerEndpoints,
+      translationMemory,
+    ],
+  );
+
   const translateText = useCallback(
-    async (text: string) => {
+    async (text: string, { requireReuse = false }: TranslateTextOptions = {}) => {
       const sourceText = text;
       const trimmed = sourceText.trim();
       if (!trimmed || !selectedModel || isTranslatingRef.current) return;
@@ -218,9 +798,17 @@ const useTranslation = ({
         outputLanguage,
         mode,
         sourceText,
+        translateFuzzyEntries,
       );
-      if (requestKey === lastRequestKeyRef.current && !translationError) return;
+      if (
+        requestKey === lastRequestKeyRef.current &&
+        !translationError &&
+        !resumableJobRef.current
+      ) {
+        return;
+      }
       lastRequestKeyRef.current = requestKey;
+      resumableJobRef.current = null;
 
       const controller = new AbortController();
       requestAbortControllerRef.current = controller;
@@ -229,7 +817,12 @@ const useTranslation = ({
       setTranslationError(null);
       setAlternativeTranslations([]);
       setDetectedSourceLanguage(null);
+      setLanguageSegments([]);
       setTranslationProgress(null);
+      setTranslationFailure(null);
+      setGlossaryWarnings([]);
+      setSubtitleWarnings([]);
+      setTranslationSuggestions([]);
 
       const finishWithError = (message: string): void => {
         if (current !== requestId.current) return;
@@ -239,10 +832,6 @@ const useTranslation = ({
       };
 
       const modelReference = parseModelReference(selectedModel);
-      const detectionSample = getLanguageDetectionSample(
-        trimmed,
-        TRANSLATION_CONFIG.CHUNKING.DETECTION_SOURCE_TOKENS,
-      );
       const detectionKey = createDetectionCacheKey(selectedModel, trimmed);
       const cachedDetection = lastDetectionRef.current;
       let detectionResult =
@@ -255,8 +844,19 @@ const useTranslation = ({
           detectionResult = await detectSourceLanguage(
             selectedModel,
             trimmed,
-            detectionSample,
+            () =>
+              runWithTokenizer(
+                tokenizer,
+                (countTokens) =>
+                  getLanguageDetectionSample(
+                    trimmed,
+                    TRANSLATION_CONFIG.CHUNKING.DETECTION_SOURCE_TOKENS,
+                    countTokens,
+                  ),
+                controller.signal,
+              ),
             controller.signal,
+            providerEndpoints,
           );
           lastDetectionRef.current = { key: detectionKey, result: detectionResult };
         }
@@ -310,7 +910,7 @@ const useTranslation = ({
         if (
           mode === "translate" &&
           sourceLanguageForTranslation !== "auto" &&
-          sourceLanguageForTranslation === outputLanguage
+          isSameTargetLanguage(sourceLanguageForTranslation, outputLanguage)
         ) {
           const languageLabel =
             languageLabels[sourceLanguageForTranslation] ??
@@ -327,14 +927,183 @@ const useTranslation = ({
           return;
         }
 
+        const documentGlossary =
+          mode === "translate"
+            ? findGlossaryMatches(
+                sourceText,
+                getGlossaryEntries(
+                  glossary,
+                  sourceLanguageForTranslation,
+                  outputLanguage,
+                ),
+              )
+            : [];
+        const usesCarryOver =
+          mode === "translate" &&
+          TRANSLATION_CONFIG.CHUNKING.CARRY_OVER_SOURCE_TOKENS > 0;
+        const promptTemplate =
+          mode === "correct"
+            ? createCorrectionPrompt("", sourceLanguageForTranslation, languageLabels)
+            : createTranslationPrompt(
+                "",
+                sourceLanguageForTranslation,
+                outputLanguage,
+                languageLabels,
+                TRANSLATION_CONFIG.ALTERNATIVES.ENABLED,
+                TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
+                {
+                  carryOver: usesCarryOver
+                    ? { source: "", translation: "" }
+                    : undefined,
+                  glossary: documentGlossary,
+                },
+              );
+        const scope = createTranslationScope(
+          selectedModel,
+          inputLanguage,
+          outputLanguage,
+          mode,
+        );
+        const detectedFormat = detectDocumentFormat(sourceText);
+        // Correcting a catalog or XLIFF file would overwrite its translations with
+        // its sources, and correct mode sends HTML and JSON markup unmasked.
+        const format =
+          mode === "correct" &&
+          (isRebuiltFormat(detectedFormat) || requiresMaskedMarkup(detectedFormat))
+            ? "text"
+            : detectedFormat;
+        setDocumentFormat(format);
+        // These are rebuilt rather than edited in place, so their chunks are not
+        // spans of the source that could be split by language.
+        const isRebuilt = isRebuiltFormat(format);
+        const previous = completedTranslationRef.current;
+        const reusable =
+          canReuseTranslatedChunks(format) &&
+          previous?.scope === scope &&
+          previous.sourceLanguage === sourceLanguageForTranslation
+            ? previous
+            : null;
+        // A mixed document is chunked by paragraph language so each chunk can be
+        // translated from its own source language.
+        const splitsByLanguage =
+          !isRebuilt &&
+          detectionResult.strategy === "mixed" &&
+          sourceLanguageForTranslation === "auto";
         let chunks: TranslationChunk[] = [];
+        let completedParts: (string | undefined)[] = [];
+        let carryOverTokens = 0;
         try {
-          chunks = splitIntoTranslationChunks(
-            sourceText,
-            TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
-            TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+          const promptTokenCounts = await tokenizer.countTokens(
+            promptTemplate.map(({ content }) => content),
+            controller.signal,
+          );
+          const maxSourceTokens = getContextSourceTokenBudget(
+            contextWindow,
+            promptTokenCounts.reduce((total, count) => total + count, 0),
           );
+          const carryOverBudget = usesCarryOver
+            ? getCarryOverTokenBudget(maxSourceTokens)
+            : 0;
+          const plan = await runWithTokenizer(
+            tokenizer,
+            (countTokens): ChunkReuse => {
+              const splitRegion = (text: string, budget: number): TranslationChunk[] =>
+                splitIntoDocumentChunks(
+                  text,
+                  format,
+                  budget,
+                  TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+                  countTokens,
+                  { targetLanguage: outputLanguage, translateFuzzyEntries },
+                );
+              const split = (text: string, budget: number): TranslationChunk[] =>
+                splitsByLanguage
+                  ? splitIntoLanguageChunks(
+                      text,
+                      detectStrongLanguageSignal,
+                      (region) => splitRegion(region, budget),
+                      TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+                    )
+                  : splitRegion(text, budget);
+              // Unchanged chunks of the previous translation keep their boundaries,
+              // so an edit only re-translates the chunks around it.
+              const reuse =
+                reusable &&
+                reuseTranslatedChunks(
+                  sourceText,
+                  reusable.chunks,
+                  reusable.parts,
+                  (region) => split(region, maxSourceTokens - carryOverBudget),
+                  TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+                  (chunk, part) =>
+                    !findMissingGlossaryTerms(
+                      part,
+                      findGlossaryMatches(chunk.text, documentGlossary),
+                    ).length,
+                );
+              if (reuse) return reuse;
+              const singlePass = split(sourceText, maxSourceTokens);
+              // Only documents that need several chunks pay for carry-over context.
+              const fresh =
+                singlePass.length > 1 && carryOverBudget > 0
+                  ? split(sourceText, maxSourceTokens - carryOverBudget)
+                  : singlePass;
+              return { chunks: fresh, parts: new Array(fresh.length) };
+            },
+            controller.signal,
+          );
+          chunks = plan.chunks;
+          completedParts = plan.parts;
+          if (chunks.length > 1) carryOverTokens = carryOverBudget;
+          if (requireReuse && completedParts.every((part) => part === undefined)) {
+            // A new draft, not an edit: leave it for an explicit Translate.
+            lastRequestKeyRef.current = "";
+            completedTranslationRef.current = null;
+            setCompletedTranslationScope("");
+            setTranslatedText("");
+            return;
+          }
+          if (!isRebuilt) {
+            const recalled = await recallRememberedParagraphs(
+              { chunks, parts: completedParts },
+              async (paragraph) => {
+                const startedAt = performance.now();
+                const { exact } = await translationMemory.lookup(
+                  getChunkMemoryScope(paragraph, {
+                    model: selectedModel,
+                    sourceLanguage: sourceLanguageForTranslation,
+                    targetLanguage: outputLanguage,
+                    mode,
+                    format,
+                  }),
+                  paragraph.text,
+                );
+                if (
+                  !exact ||
+                  findMissingGlossaryTerms(
+                    exact.translation,
+                    findGlossaryMatches(paragraph.text, documentGlossary),
+                  ).length
+                ) {
+                  return null;
+                }
+                diagnostics.record({
+                  provider: modelReference.provider,
+                  model: modelReference.model,
+                  phase: "translation",
+                  outcome: "success",
+                  inputCharacters: paragraph.text.length,
+                  latencyMs: performance.now() - startedAt,
+                  cacheHit: true,
+                });
+                return exact.translation;
+              },
+            );
+            chunks = recalled.chunks;
+            completedParts = recalled.parts;
+          }
         } catch (error) {
+          if (isAbortError(error) || controller.signal.aborted) throw error;
           const message =
             error instanceof TranslationChunkingError
               ? error.message
@@ -343,141 +1112,40 @@ const useTranslation = ({
           return;
         }
 
-        if (chunks.length === 0) return;
-        setTranslationProgress({ completedChunks: 0, totalChunks: chunks.length });
-        const translatedParts: string[] = [];
-        const alternatives: string[] = [];
-        const allowAlternatives =
-          chunks.length === 1 &&
-          mode === "translate" &&
-          TRANSLATION_CONFIG.ALTERNATIVES.ENABLED &&
-          isShortExpression(trimmed);
-
-        for (let index = 0; index < chunks.length; index += 1) {
-          const chunk = chunks[index];
-          if (!chunk) continue;
-          const chunkStartedAt = performance.now();
-          let rawChunkResponse = "";
-          let streamingFrame: number | null = null;
-          const sourceHasCodeFences =
-            chunk.text.includes("```") || chunk.text.includes("~~~");
-          const commitStreamingPreview = (): void => {
-            streamingFrame = null;
-            if (current !== requestId.current || controller.signal.aborted) return;
-            const preview = normalizeStreamingTranslationResponse(
-              rawChunkResponse,
-              sourceHasCodeFences,
-            );
-            const completedPrefix =
-              index === 0
-                ? chunk.leadingSeparator
-                : reassembleTranslationChunks(
-                    chunks.slice(0, index),
-                    translatedParts.slice(0, index),
-                  );
-            setTranslatedText(completedPrefix + preview);
-          };
-          const scheduleStreamingPreview = (): void => {
-            if (streamingFrame !== null) return;
-            streamingFrame = scheduleAnimationFrame(commitStreamingPreview);
-          };
-          const flushStreamingPreview = (): void => {
-            if (streamingFrame !== null) {
-              cancelScheduledAnimationFrame(streamingFrame);
-              streamingFrame = null;
-            }
-            commitStreamingPreview();
-          };
-          const updateStreamingOutput: TranslationDeltaHandler = (delta) => {
-            rawChunkResponse += delta;
-            if (current !== requestId.current || controller.signal.aborted) {
-              return;
-            }
-            scheduleStreamingPreview();
-          };
-          try {
-            const messages =
-              mode === "correct"
-                ? createCorrectionPrompt(
-                    chunk.text,
-                    sourceLanguageForTranslation,
-                    languageLabels,
-                  )
-                : createTranslationPrompt(
-                    chunk.text,
-                    sourceLanguageForTranslation,
-                    outputLanguage,
-                    languageLabels,
-                    allowAlternatives,
-                    TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
-                  );
-            const result = await fetchTranslation({
-              model: selectedModel,
-              messages,
-              options: TRANSLATION_CONFIG.AI_PARAMS,
-              signal: controller.signal,
-              onDelta: updateStreamingOutput,
-            });
-
-            if (current !== requestId.current || controller.signal.aborted) return;
-            flushStreamingPreview();
-            const normalized = normalizeTranslationResponse(
-              result,
-              TRANSLATION_CONFIG.ALTERNATIVES.MAX_COUNT,
-              allowAlternatives,
-              sourceHasCodeFences,
-            );
-            if (!normalized.primary.trim()) {
-              throw new Error("The model returned an empty translation.");
-            }
-            translatedParts.push(normalized.primary);
-            alternatives.push(...normalized.alternatives);
-            diagnostics.record({
-              provider: modelReference.provider,
-              model: modelReference.model,
-              phase: "translation",
-              outcome: "success",
-              inputCharacters: chunk.text.length,
-              latencyMs: performance.now() - chunkStartedAt,
-            });
-            setTranslationProgress({
-              completedChunks: index + 1,
-              totalChunks: chunks.length,
-            });
-          } catch (error) {
-            if (isAbortError(error) || controller.signal.aborted) throw error;
-            diagnostics.record({
-              provider: modelReference.provider,
-              model: modelReference.model,
-              phase: "translation",
-              outcome: "error",
-              inputCharacters: chunk.text.length,
-              latencyMs: performance.now() - chunkStartedAt,
-            });
-            throw createChunkFailure(error, index, chunks.length);
-          } finally {
-            if (streamingFrame !== null) {
-              cancelScheduledAnimationFrame(streamingFrame);
-              streamingFrame = null;
-            }
-          }
-        }
-
         if (current !== requestId.current || controller.signal.aborted) return;
-        setTranslatedText(reassembleTranslationChunks(chunks, translatedParts));
-        setAlternativeTranslations(chunks.length === 1 ? alternatives : []);
+        if (chunks.length === 0) {
+          // Nothing to translate, such as a Markdown document of code blocks only.
+          setTranslatedText(sourceText);
+          return;
+        }
+        await runResumableJob(
+          {
+            requestKey,
+            scope,
+            sourceText,
+            documentFormat: format,
+            chunks,
+            completedParts,
+            sourceLanguage: sourceLanguageForTranslation,
+            carryOverTokens,
+            glossary: documentGlossary,
+            missingGlossaryTerms: new Array(chunks.length),
+            allowAlternatives:
+              chunks.length === 1 &&
+              mode === "translate" &&
+              TRANSLATION_CONFIG.ALTERNATIVES.ENABLED &&
+              isShortExpression(trimmed),
+          },
+          current,
+          controller,
+        );
       } catch (error) {
         if (isAbortError(error) || controller.signal.aborted) return;
         finishWithError(
           error instanceof Error ? error.message : "Unknown translation error",
         );
       } finally {
-        if (current === requestId.current) {
-          requestAbortControllerRef.current = null;
-          setIsTranslating(false);
-          isTranslatingRef.current = false;
-          setTranslationProgress(null);
-        }
+        releaseRequest(current);
       }
     },
     [
@@ -488,18 +1156,105 @@ const useTranslation = ({
       translationError,
       languageLabels,
       diagnostics,
+      providerEndpoints,
+      contextWindow,
+      tokenizer,
+      glossary,
+      translationMemory,
+      translateFuzzyEntries,
+      runResumableJob,
+      releaseRequest,
     ],
   );
 
+  const resumeTranslation = useCallback(async () => {
+    const job = resumableJobRef.current;
+    if (!job || isTranslatingRef.current) return;
+    const requestKey = createTranslationRequestKey(
+      selectedModel,
+      inputLanguage,
+      outputLanguage,
+      mode,
+      job.sourceText,
+      translateFuzzyEntries,
+    );
+    if (requestKey !== job.requestKey) {
+      resumableJobRef.current = null;
+      setTranslationFailure(null);
+      return;
+    }
+
+    const current = ++requestId.current;
+    const controller = new AbortController();
+    requestAbortControllerRef.current = controller;
+    isTranslatingRef.current = true;
+    resumableJobRef.current = null;
+    setIsTranslating(true);
+    setTranslationError(null);
+    setTranslationFailure(null);
+    setGlossaryWarnings([]);
+    setSubtitleWarnings([]);
+    setTranslationSuggestions([]);
+
+    try {
+      await runResumableJob(job, current, controller);
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      if (current !== requestId.current) return;
+      setTranslatedText("");
+      setAlternativeTranslations([]);
+      setTranslationError(
+        error instanceof Error ? error.message : "Unknown translation error",
+      );
+    } finally {
+      releaseRequest(current);
+    }
+  }, [
+    selectedModel,
+    inputLanguage,
+    outputLanguage,
+    mode,
+    translateFuzzyEntries,
+    runResumableJob,
+    releaseRequest,
+  ]);
+
+  const applyTranslationSuggestion = useCallback(
+    (suggestion: TranslationSuggestion) => {
+      const completed = completedTranslationRef.current;
+      if (!completed || isTranslatingRef.current) return;
+      const parts = [...completed.parts];
+      parts[suggestion.chunk] = suggestion.translation;
+      completedTranslationRef.current = { ...completed, parts };
+      setTranslatedText(reassembleTranslationChunks(completed.chunks, parts));
+      setAlternativeTranslations([]);
+      setTranslationSuggestions((current) =>
+        current.filter(({ chunk }) => chunk !== suggestion.chunk),
+      );
+    },
+    [],
+  );
+
   return {
     translatedText,
     alternativeTranslations,
     detectedSourceLanguage,
+    languageSegments,
+    documentFormat,
     isTranslating,
     translationProgress,
+    translationFailure,
+    glossaryWarnings,
+    subtitleWarnings,
+    translationSuggestions,
+    applyTranslationSuggestion,
+    hasReusableTranslation:
+      completedTranslationScope ===
+      createTranslationScope(selectedModel, inputLanguage, outputLanguage, mode),
     translationError,
     setTranslationError,
     translateText,
+    resumeTranslation,
     cancelTranslation,
     setTranslatedText,
     diagnostics,
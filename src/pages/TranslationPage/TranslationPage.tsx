@@ -4,33 +4,51 @@ import { Button } from "../../components/atoms/Button";
 import { AppHeader } from "../../components/molecules/AppHeader";
 import { CustomDropdown } from "../../components/molecules/CustomDropdown";
 import { AppFooter } from "../../components/molecules/Footer";
+import { GlossarySettings } from "../../components/organisms/GlossarySettings";
+import { ProviderSettings } from "../../components/organisms/ProviderSettings";
 import { TranslationIO } from "../../components/organisms/TranslationIO";
 import { TRANSLATION_CONFIG } from "../../config/constants";
-import { languageOptions } from "../../data";
+import { getWritingDirection, languageOptions } from "../../data";
 import {
+  useGlossary,
   useLanguageSelection,
+  useModelContextWindow,
+  useModelTokenizer,
   useOllamaModels,
+  useProviderEndpoints,
   useToast,
+  useTokenCount,
   useTranslation,
 } from "../../hooks";
-import { estimateTokenCount } from "../../services/translationChunking";
-import type { LanguageCode, ProcessingMode } from "../../types";
+import { getGlossaryEntries } from "../../services/glossary";
+import { listInferenceProviders } from "../../services/inferenceProviders";
+import { fetchEndpointModels } from "../../services/ollamaApi";
+import { isPoDocument } from "../../services/poDocument";
+import { createBrowserTranslationMemory } from "../../services/translationMemory";
+import type { LanguageCode, ProcessingMode, ProviderEndpoint } from "../../types";
 import { createLatestRequestScheduler } from "../../utils/latestRequest";
 import {
   countWords,
   filterOutputLanguages,
   findOptionByValue,
+  getFallbackLanguage,
   shouldScheduleAutoTranslation,
 } from "../../utils/transforms";
 
-const FILE_INPUT_ACCEPT = ".txt,.md,.json,.html,.csv,.xml,.rtf";
+const FILE_INPUT_ACCEPT =
+  ".txt,.md,.json,.html,.csv,.xml,.rtf,.srt,.vtt,.po,.pot,.xlf,.xliff,.strings,.stringsdict";
 const AUTO_TRANSLATE_DELAY_MS = 750;
 
 export const TranslationPage: FC = () => {
   const [inputText, setInputText] = useState("");
   const [mode, setMode] = useState<ProcessingMode>("translate");
+  const [translateFuzzyEntries, setTranslateFuzzyEntries] = useState(false);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { addToast } = useToast();
+  const { providerEndpoints, saveProviderEndpoints } = useProviderEndpoints();
+  const { glossary, saveGlossaryEntries } = useGlossary();
 
   const {
     ollamaModels,
@@ -41,7 +59,10 @@ export const TranslationPage: FC = () => {
     dropdownPlaceholder,
     favoriteModel,
     setFavoriteModel,
-  } = useOllamaModels();
+  } = useOllamaModels(providerEndpoints);
+  const contextWindow = useModelContextWindow(selectedModel, providerEndpoints);
+  const tokenizer = useModelTokenizer(selectedModel, providerEndpoints);
+  const translationMemory = useMemo(createBrowserTranslationMemory, []);
 
   const {
     inputLanguage,
@@ -60,18 +81,27 @@ export const TranslationPage: FC = () => {
       return outputLanguage;
     }
 
-    return outputLanguageOptions[0]?.value ?? outputLanguage;
+    return getFallbackLanguage(outputLanguageOptions)?.value ?? outputLanguage;
   }, [outputLanguage, outputLanguageOptions]);
 
   const {
     translatedText,
     alternativeTranslations,
     detectedSourceLanguage,
+    languageSegments,
+    documentFormat,
     isTranslating,
     translationProgress,
+    translationFailure,
+    glossaryWarnings,
+    subtitleWarnings,
+    translationSuggestions,
+    applyTranslationSuggestion,
+    hasReusableTranslation,
     translationError,
     setTranslationError,
     translateText,
+    resumeTranslation,
     cancelTranslation,
     setTranslatedText,
   } = useTranslation({
@@ -79,13 +109,18 @@ export const TranslationPage: FC = () => {
     inputLanguage,
     outputLanguage: effectiveOutputLanguage,
     mode,
+    providerEndpoints,
+    contextWindow,
+    tokenizer,
+    glossary,
+    translationMemory,
+    translateFuzzyEntries,
   });
 
-  const estimatedInputTokens = useMemo(
-    () => estimateTokenCount(inputText),
-    [inputText],
-  );
+  const estimatedInputTokens = useTokenCount(inputText, tokenizer);
+  // Once a draft has been translated, edits only re-send the chunks they touch.
   const isLargeAutoTranslation =
+    !hasReusableTranslation &&
     estimatedInputTokens > TRANSLATION_CONFIG.CHUNKING.AUTO_TRANSLATE_MAX_SOURCE_TOKENS;
   const lastAutoRequestText = useRef("");
   const previousInputTextRef = useRef(inputText);
@@ -94,15 +129,19 @@ export const TranslationPage: FC = () => {
   );
   const translateTextRef = useRef(translateText);
   translateTextRef.current = translateText;
+  const requiresReuseRef = useRef(false);
+  requiresReuseRef.current =
+    estimatedInputTokens > TRANSLATION_CONFIG.CHUNKING.AUTO_TRANSLATE_MAX_SOURCE_TOKENS;
   const autoRequestSchedulerRef = useRef<ReturnType<
     typeof createLatestRequestScheduler
   > | null>(null);
   if (!autoRequestSchedulerRef.current) {
     autoRequestSchedulerRef.current = createLatestRequestScheduler((text) =>
-      translateTextRef.current(text),
+      translateTextRef.current(text, { requireReuse: requiresReuseRef.current }),
     );
   }
   const isCorrectMode = mode === "correct";
+  const isPoInput = useMemo(() => isPoDocument(inputText), [inputText]);
   const hasManualSourceLanguage = inputLanguage !== "auto";
   const isFavoriteModel = selectedModel === favoriteModel;
   const actionLabel = isCorrectMode ? "Correct" : "Translate";
@@ -207,6 +246,39 @@ export const TranslationPage: FC = () => {
     }
   }, [modelError, translationError, addToast, setTranslationError]);
 
+  useEffect(() => {
+    if (!glossaryWarnings.length) return;
+    const missingTerms = [
+      ...new Set(glossaryWarnings.flatMap(({ missingTerms }) => missingTerms)),
+    ];
+    const [firstWarning] = glossaryWarnings;
+    const chunkLabel =
+      glossaryWarnings.length === 1
+        ? `chunk ${(firstWarning?.chunk ?? 0) + 1}`
+        : `${glossaryWarnings.length} chunks`;
+    const location =
+      firstWarning && firstWarning.totalChunks > 1
+        ? ` in ${chunkLabel} of ${firstWarning.totalChunks}`
+        : "";
+    addToast({
+      variant: "warning",
+      title: "Glossary Check",
+      message: `Missing glossary terms${location}: ${missingTerms.join(", ")}.`,
+    });
+  }, [glossaryWarnings, addToast]);
+
+  useEffect(() => {
+    if (!subtitleWarnings.length) return;
+    const cues = subtitleWarnings.map(({ cue }) => cue + 1);
+    const cueLabel =
+      cues.length === 1 ? `Cue ${cues[0]} has` : `${cues.length} cues have`;
+    addToast({
+      variant: "warning",
+      title: "Subtitle Check",
+      message: `${cueLabel} lines over ${TRANSLATION_CONFIG.SUBTITLES.MAX_LINE_LENGTH} characters.`,
+    });
+  }, [subtitleWarnings, addToast]);
+
   const handleFileChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -269,6 +341,11 @@ export const TranslationPage: FC = () => {
     [addToast],
   );
 
+  const handleTestEndpoint = useCallback(
+    async (endpoint: ProviderEndpoint) => (await fetchEndpointModels(endpoint)).length,
+    [],
+  );
+
   const handleSelectAlternative = useCallback(
     (text: string) => setTranslatedText(text),
     [setTranslatedText],
@@ -285,6 +362,16 @@ export const TranslationPage: FC = () => {
         : null,
     [detectedSourceLanguage],
   );
+  const labelledLanguageSegments = useMemo(
+    () =>
+      languageSegments.map((segment) => ({
+        ...segment,
+        label:
+          findOptionByValue(languageOptions, segment.language)?.label ??
+          segment.language.toUpperCase(),
+      })),
+    [languageSegments],
+  );
   const inputLanguageLabel = useMemo(() => {
     const baseLabel =
       findOptionByValue(languageOptions, inputLanguage)?.label ?? "Source";
@@ -303,6 +390,17 @@ export const TranslationPage: FC = () => {
           "Translation"),
     [effectiveOutputLanguage, isCorrectMode],
   );
+  const glossarySourceLanguage = hasManualSourceLanguage
+    ? inputLanguage
+    : detectedSourceLanguage;
+  const glossarySourceLabel = glossarySourceLanguage
+    ? (findOptionByValue(languageOptions, glossarySourceLanguage)?.label ??
+      glossarySourceLanguage.toUpperCase())
+    : "";
+  const inputDirection = hasManualSourceLanguage
+    ? getWritingDirection(inputLanguage)
+    : "auto";
+  const outputDirection = getWritingDirection(effectiveOutputLanguage);
   const isModelSelectorDisabled =
     isLoadingModels || !!modelError || ollamaModels.length === 0;
 
@@ -326,7 +424,8 @@ export const TranslationPage: FC = () => {
                 value={inputLanguage}
                 onChange={(value) => setInputLanguage(value as LanguageCode)}
                 aria-label="Select input language"
-                columns={2}
+                searchable
+                searchLabel="Search languages"
               />
               <Button
                 variant="transparent"
@@ -351,7 +450,8 @@ export const TranslationPage: FC = () => {
                 value={effectiveOutputLanguage}
                 onChange={(value) => setOutputLanguage(value as LanguageCode)}
                 aria-label="Select output language"
-                columns={2}
+                searchable
+                searchLabel="Search languages"
                 disabled={isCorrectMode}
               />
             </div>
@@ -384,6 +484,33 @@ export const TranslationPage: FC = () => {
                 {isFavoriteModel ? "★" : "☆"}
               </Button>
             </div>
+            <Button
+              variant="transparent"
+              iconOnly
+              buttonShape="circular"
+              onClick={() => setIsProviderSettingsOpen(true)}
+              title="Configure provider endpoints"
+              aria-label="Configure provider endpoints"
+            >
+              ⚙
+            </Button>
+            <Button
+              variant="transparent"
+              iconOnly
+              buttonShape="circular"
+              onClick={() => setIsGlossaryOpen(true)}
+              disabled={isCorrectMode || !glossarySourceLanguage}
+              title={
+                isCorrectMode
+                  ? "The glossary applies to translations only"
+                  : glossarySourceLanguage
+                    ? "Edit glossary"
+                    : "Select or detect a source language to edit its glossary"
+              }
+              aria-label="Edit glossary"
+            >
+              ≣
+            </Button>
           </div>
         </div>
 
@@ -399,10 +526,18 @@ export const TranslationPage: FC = () => {
           onClearInput={handleClearInput}
           translationProgress={translationProgress}
           onCancelTranslation={cancelTranslation}
+          translationFailure={translationFailure}
+          onResumeTranslation={() => void resumeTranslation()}
           onCopySuccess={handleCopySuccess}
           onCopyError={handleCopyError}
           alternativeTranslations={alternativeTranslations}
           onSelectAlternative={handleSelectAlternative}
+          translationSuggestions={translationSuggestions}
+          onApplySuggestion={applyTranslationSuggestion}
+          inputDirection={inputDirection}
+          outputDirection={isCorrectMode ? inputDirection : outputDirection}
+          languageSegments={labelledLanguageSegments}
+          documentFormat={documentFormat}
         />
 
         <div className="action-buttons">
@@ -427,6 +562,19 @@ export const TranslationPage: FC = () => {
                 Correct
               </Button>
             </div>
+            {isPoInput && !isCorrectMode && (
+              <div className="mode-toggle">
+                <Button
+                  variant="transparent"
+                  onClick={() => setTranslateFuzzyEntries((current) => !current)}
+                  className={`mode-toggle_button ${translateFuzzyEntries ? "mode-toggle_button-active" : ""}`}
+                  title="Also retranslate catalog entries marked fuzzy"
+                  aria-pressed={translateFuzzyEntries}
+                >
+                  Include Fuzzy
+                </Button>
+              </div>
+            )}
           </div>
           <div className="action-buttons_right">
             <Button
@@ -456,6 +604,34 @@ export const TranslationPage: FC = () => {
         </div>
       </main>
       <AppFooter />
+      {isProviderSettingsOpen && (
+        <ProviderSettings
+          providerTypes={listInferenceProviders()}
+          endpoints={providerEndpoints}
+          onSave={saveProviderEndpoints}
+          onClose={() => setIsProviderSettingsOpen(false)}
+          onTestEndpoint={handleTestEndpoint}
+        />
+      )}
+      {isGlossaryOpen && glossarySourceLanguage && (
+        <GlossarySettings
+          sourceLabel={glossarySourceLabel}
+          targetLabel={outputLanguageLabel}
+          entries={getGlossaryEntries(
+            glossary,
+            glossarySourceLanguage,
+            effectiveOutputLanguage,
+          )}
+          onSave={(entries) =>
+            saveGlossaryEntries(
+              glossarySourceLanguage,
+              effectiveOutputLanguage,
+              entries,
+            )
+          }
+          onClose={() => setIsGlossaryOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "bun:test";
+import { isAndroidStringsDocument } from "./androidStrings";
+import {
+  detectDocumentFormat,
+  escapeTranslation,
+  splitIntoDocumentChunks,
+} from "./documentFormats";
+import { maskPlaceholders, restorePlaceholders } from "./placeholderMasking";
+import { reassembleTranslationChunks } from "./translationChunking";
+
+const RESOURCES = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">',
+  '    <string name="app_name" translatable="false">Notely</string>',
+  "    <!-- Shown after saving -->",
+  '    <string name="saved">Don\\\'t close the app &amp; wait</string>',
+  '    <string name="welcome">Hello, <xliff:g id="name" example="Ana">%1$s</xliff:g>!\\nWelcome.</string>',
+  '    <string name="rich"><![CDATA[<b>Bold</b> move]]></string>',
+  '    <string name="quoted">"It\'s  100%% done"</string>',
+  '    <string name="alias">@string/saved</string>',
+  '    <string-array name="sizes">',
+  "        <item>Small</item>",
+  "        <item>Large</item>",
+  "    </string-array>",
+  '    <plurals name="songs">',
+  '        <item quantity="one">%d song</item>',
+  '        <item quantity="other">%d songs</item>',
+  "    </plurals>",
+  "</resources>",
+  "",
+].join("\n");
+
+const translate = (
+  text: string,
+  translateMasked: (masked: string) => string,
+  targetLanguage?: string,
+) => {
+  const chunks = splitIntoDocumentChunks(text, "android", 1000, undefined, undefined, {
+    targetLanguage,
+  });
+  const masked = chunks.map(({ text: source, protectedRanges }) =>
+    maskPlaceholders(source, protectedRanges),
+  );
+  return {
+    masked: masked.map(({ text: source }) => source),
+    notes: chunks.map(({ note }) => note),
+    output: reassembleTranslationChunks(
+      chunks,
+      masked.map(({ text: source, placeholders }, index) =>
+        restorePlaceholders(
+          escapeTranslation("android", translateMasked(source), chunks[index]),
+          placeholders,
+        ),
+      ),
+    ),
+  };
+};
+
+describe("Android string resources", () => {
+  it("recognizes strings.xml files", () => {
+    expect(isAndroidStringsDocument(RESOURCES)).toBe(true);
+    expect(detectDocumentFormat(RESOURCES)).toBe("android");
+    expect(
+      isAndroidStringsDocument('<resources><color name="red">#f00</color></resources>'),
+    ).toBe(false);
+  });
+
+  it("sends translatable values unescaped with their markup protected", () => {
+    const { masked, notes } = translate(RESOURCES, (source) => source);
+
+    expect(masked).toEqual([
+      "Don't close the app & wait",
+      "Hello, ⟦1⟧!⟦2⟧Welcome.",
+      "⟦1⟧Bold⟦2⟧ move",
+      "It's  100⟦1⟧ done",
+      "Small",
+      "Large",
+      "⟦1⟧ song",
+      "⟦1⟧ songs",
+    ]);
+    expect(notes).toEqual([
+      "Comment: Shown after saving",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      "Plural category: one.",
+      "Plural category: other.",
+    ]);
+  });
+
+  it("writes translations back in Android syntax", () => {
+    const { output } = translate(RESOURCES, (source) =>
+      source
+        .replace("Don't close the app & wait", "Ne fermez pas l'app & attendez")
+        .replace("Hello", "Bonjour")
+        .replace("Bold", "Audacieux")
+        .replace("It's", "C'est")
+        .replace("Small", 'Petit "S"')
+        .replace("song", "chanson"),
+    );
+
+    expect(output).toBe(
+      RESOURCES.replace(
+        "Don\\'t close the app &amp; wait",
+        "Ne fermez pas l\\'app &amp; attendez",
+      )
+        .replace("Hello", "Bonjour")
+        .replace("<b>Bold</b>", "<b>Audacieux</b>")
+        .replace('"It\'s  100%% done"', '"C\\\'est  100%% done"')
+        .replace("<item>Small</item>", '<item>Petit \\"S\\"</item>')
+        .replace("%d song</item>", "%d chanson</item>")
+        .replace("%d songs</item>", "%d chansons</item>"),
+    );
+  });
+
+  it("writes translations into a CDATA section without XML escapes", () => {
+    const cdata =
+      '<resources>\n  <string name="a"><![CDATA[Tom & <b>Jerry</b>]]></string>\n</resources>\n';
+    const { masked, output } = translate(cdata, (source) => source);
+
+    expect(masked).toEqual(["Tom & ⟦1⟧Jerry⟦2⟧"]);
+    expect(output).toBe(cdata);
+    expect(translate(cdata, () => `Tom's "]]>" & ⟦1⟧Jerry⟦2⟧`).output).toContain(
+      `<![CDATA[Tom\\'s \\"]]]]><![CDATA[>\\" & <b>Jerry</b>]]></string>`,
+    );
+  });
+
+  it("writes plurals with the target language's quantities", () => {
+    const { masked, notes, output } = translate(
+      RESOURCES,
+      (source) => source.replace("songs", "piosenek").replace("song", "piosenka"),
+      "pl",
+    );
+
+    expect(masked.slice(-4)).toEqual([
+      "⟦1⟧ song",
+      "⟦1⟧ songs",
+      "⟦1⟧ songs",
+      "⟦1⟧ songs",
+    ]);
+    expect(notes.slice(-4)).toEqual([
+      "Plural category: one.",
+      "Plural category: few.",
+      "Plural category: many.",
+      "Plural category: other.",
+    ]);
+    expect(output).toContain(
+      [
+        '    <plurals name="songs">',
+        '        <item quantity="one">%d piosenka</item>',
+        '        <item quantity="few">%d piosenek</item>',
+        '        <item quantity="many">%d piosenek</item>',
+        '        <item quantity="other">%d piosenek</item>',
+        "    </plurals>",
+      ].join("\n"),
+    );
+    expect(translate(RESOURCES, (source) => source, "ja").output).toContain(
+      [
+        '    <plurals name="songs">',
+        '        <item quantity="other">%d songs</item>',
+        "    </plurals>",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { PRINTF_CONVERSION } from "./placeholderMasking";
+import { getPluralCategories } from "./poDocument";
+import type { TranslationSlot } from "./translationChunking";
+import {
+  escapeXmlText,
+  findXmlElements,
+  findXmlLineStart,
+  getXmlAttribute,
+  hasProse,
+  readXmlText,
+  setXmlAttribute,
+  XML_DECODED_ENTITIES,
+  XML_ENTITY,
+  type XmlElement,
+} from "./xmlText";
+
+interface AndroidValue {
+  element: XmlElement;
+  /** The element whose `translatable` and comment apply, such as its plurals. */
+  resource: XmlElement;
+  quantity?: string;
+}
+
+const ANDROID_RESOURCES = /<resources[\s>]/u;
+const ANDROID_RESOURCE = /<(?:string|string-array|plurals)\s[^>]*\bname\s*=/u;
+const ANDROID_ESCAPE_TOKENS = [
+  String.raw`\\u[\da-fA-F]{4}`,
+  String.raw`\\[\s\S]`,
+  "%%",
+  PRINTF_CONVERSION.source,
+];
+const ANDROID_TOKEN = new RegExp(
+  [...ANDROID_ESCAPE_TOKENS, XML_ENTITY.source].join("|"),
+  "gu",
+);
+// Entities are literal text inside CDATA.
+const ANDROID_CDATA_TOKEN = new RegExp(ANDROID_ESCAPE_TOKENS.join("|"), "gu");
+// A `\n` or `\t` stays protected: decoded, it would read as XML whitespace.
+const ANDROID_ESCAPES: Record<string, string> = {
+  "\\'": "'",
+  '\\"': '"',
+  "\\\\": "\\",
+  "\\@": "@",
+  "\\?": "?",
+};
+const ANDROID_DECODED: Record<string, string> = {
+  ...XML_DECODED_ENTITIES,
+  ...ANDROID_ESCAPES,
+};
+// The content of <xliff:g> is a name or code that is never translated.
+const OPAQUE_ELEMENTS = new Set(["xliff:g"]);
+const RESOURCE_REFERENCE = /^[@?][\w.:]*\/[\w.]+$/u;
+const QUOTED_VALUE = /^(\s*")([\s\S]*)("\s*)$/u;
+const CDATA_VALUE = /^(\s*<!\[CDATA\[)((?:(?!\]\]>)[\s\S])*)(\]\]>\s*)$/u;
+
+const isTranslatable = (resource: XmlElement): boolean =>
+  getXmlAttribute(resource.tag, "translatable") !== "false";
+
+/** The comment right before `offset`, with only whitespace between them. */
+const findCommentBefore = (text: string, offset: number): string | undefined => {
+  let end = offset;
+  while (end > 0 && /\s/u.test(text[end - 1] ?? "")) end -= 1;
+  if (!text.endsWith("-->", end)) return undefined;
+  const start = text.lastIndexOf("<!--", end);
+  return start < 0 ? undefined : text.slice(start + 4, end - 3).trim() || undefined;
+};
+
+const createNote = (text: string, { resource, quantity }: AndroidValue) => {
+  const comment = findCommentBefore(text, resource.start);
+  const lines = [
+    ...(comment ? [`Comment: ${comment}`] : []),
+    ...(quantity ? [`Plural category: ${quantity}.`] : []),
+  ];
+  return lines.length ? lines.join("\n") : undefined;
+};
+
+const findValues = (text: string): AndroidValue[] => {
+  const items = (name: string) =>
+    findXmlElements(text, name).flatMap((resource) =>
+      findXmlElements(text, "item", resource.contentStart, resource.contentEnd).map(
+        (element) => ({
+          element,
+          resource,
+          quantity: getXmlAttribute(element.tag, "quantity"),
+        }),
+      ),
+    );
+  return [
+    ...findXmlElements(text, "string").map((element) => ({
+      element,
+      resource: element,
+    })),
+    ...items("string-array"),
+    ...items("plurals"),
+  ]
+    .filter(({ resource }) => isTranslatable(resource))
+    .sort((left, right) => left.element.start - right.element.start);
+};
+
+/**
+ * The content of a value as its literal start and end and the slot between
+ * them. A value in double quotes keeps its spacing, and one in a CDATA section
+ * its markup; the quotes or the section stay where they are.
+ */
+const readValue = (content: string, note: string | undefined) => {
+  const cdata = CDATA_VALUE.exec(content);
+  const [, open = "", inner = content, close = ""] =
+    cdata ?? QUOTED_VALUE.exec(content) ?? [];
+  const slot: TranslationSlot = {
+    ...readXmlText(
+      inner,
+      cdata
+        ? { tokens: ANDROID_CDATA_TOKEN, decoded: ANDROID_ESCAPES }
+        : {
+            tokens: ANDROID_TOKEN,
+            decoded: ANDROID_DECODED,
+            opaqueElements: OPAQUE_ELEMENTS,
+            readCdata: true,
+          },
+    ),
+    note,
+    ...(cdata ? { cdata: true } : {}),
+  };
+  return { open, slot, close };
+};
+
+/** Whether `text` is an Android `strings.xml` resource file. */
+export const isAndroidStringsDocument = (text: string): boolean =>
+  ANDROID_RESOURCES.test(text) && ANDROID_RESOURCE.test(text);
+
+/**
+ * Escape text for an Android string resource, or for the CDATA section a value
+ * is written in, where only `]]>` has to be split. Sentinels are unaffected.
+ */
+export const escapeAndroidString = (text: string, cdata = false): string => {
+  const escaped = text
+    .replace(/\\/gu, "\\\\")
+    .replace(/'/gu, "\\'")
+    .replace(/"/gu, '\\"');
+  return cdata ? escaped.replace(/\]\]>/gu, "]]]]><![CDATA[>") : escapeXmlText(escaped);
+};
+
+/**
+ * The file as literal text and translation slots: one slot for each string,
+ * string-array item, and plurals item, unless its resource is marked
+ * `translatable="false"` or it is a reference such as `@string/app_name`.
+ * Apostrophes and quotes are shown unescaped and escaped again on the way
+ * out; format specifiers, `<xliff:g>`, and styling tags are protected, and
+ * the text inside a CDATA section is translated. A value that is one CDATA
+ * section keeps it, and its translation is written without XML escapes.
+ * With a target language, plurals get an item for each of its categories,
+ * translated from the `other` item, and lose the items it does not use.
+ */
+export const getAndroidTranslationParts = (
+  text: string,
+  targetLanguage?: string,
+): (string | TranslationSlot)[] => {
+  const parts: (string | TranslationSlot)[] = [];
+  let cursor = 0;
+  const categories = targetLanguage ? getPluralCategories(targetLanguage) : undefined;
+
+  for (const value of findValues(text)) {
+    const { element, resource, quantity } = value;
+    if (categories && quantity && !categories.includes(quantity)) {
+      parts.push(text.slice(cursor, findXmlLineStart(text, element.start).start));
+      cursor = element.end;
+      continue;
+    }
+    if (categories && quantity === "other") {
+      const quantities = findXmlElements(
+        text,
+        "item",
+        resource.contentStart,
+        resource.contentEnd,
+      ).map(({ tag }) => getXmlAttribute(tag, "quantity"));
+      const { start, lineBreak } = findXmlLineStart(text, element.start);
+      const content = text.slice(element.contentStart, element.contentEnd);
+      parts.push(text.slice(cursor, start));
+      cursor = start;
+      for (const category of categories) {
+        if (quantities.includes(category)) continue;
+        const tag = `${lineBreak}${setXmlAttribute(element.tag, "quantity", category)}`;
+        const { open, slot, close } = readValue(
+          content,
+          createNote(text, { ...value, quantity: category }),
+        );
+        if (RESOURCE_REFERENCE.test(content.trim()) || !hasProse(slot)) {
+          parts.push(`${tag}${content}</item>`);
+        } else parts.push(`${tag}${open}`, slot, `${close}</item>`);
+      }
+    }
+    const { contentStart, contentEnd } = element;
+    const content = text.slice(contentStart, contentEnd);
+    if (RESOURCE_REFERENCE.test(content.trim())) continue;
+    const { open, slot, close } = readValue(content, createNote(text, value));
+    if (!hasProse(slot)) continue;
+    parts.push(text.slice(cursor, contentStart + open.length), slot);
+    cursor = contentEnd - close.length;
+  }
+  parts.push(text.slice(cursor));
+  return parts.filter((part) => part !== "");
+};
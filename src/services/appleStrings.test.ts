@@ -0,0 +1,174 @@
+import { describe, expect, it } from "bun:test";
+import type { DocumentFormat } from "../types";
+import { isAppleStringsDocument, isStringsdictDocument } from "./appleStrings";
+import {
+  detectDocumentFormat,
+  escapeTranslation,
+  splitIntoDocumentChunks,
+} from "./documentFormats";
+import { maskPlaceholders, restorePlaceholders } from "./placeholderMasking";
+import { reassembleTranslationChunks } from "./translationChunking";
+
+const STRINGS = [
+  "/* Title of the save button */",
+  '"save.title" = "Save \\"%@\\"";',
+  "",
+  "/* No comment provided by engineer. */",
+  '"Done" = "Done";',
+  "// Line comment",
+  'greeting = "Hello, %1$@!\\nWelcome.";',
+  '"count" = "%lld";',
+  "",
+].join("\n");
+
+const STRINGSDICT = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<plist version="1.0">',
+  "<dict>",
+  "  <key>files_selected</key>",
+  "  <dict>",
+  "    <key>NSStringLocalizedFormatKey</key>",
+  "    <string>You selected %#@files@</string>",
+  "    <key>files</key>",
+  "    <dict>",
+  "      <key>NSStringFormatSpecTypeKey</key>",
+  "      <string>NSStringPluralRuleType</string>",
+  "      <key>NSStringFormatValueTypeKey</key>",
+  "      <string>d</string>",
+  "      <key>one</key>",
+  "      <string>%d file</string>",
+  "      <key>other</key>",
+  "      <string>%d files &amp; folders</string>",
+  "    </dict>",
+  "  </dict>",
+  "</dict>",
+  "</plist>",
+].join("\n");
+
+const translate = (
+  text: string,
+  format: DocumentFormat,
+  translateMasked: (masked: string) => string,
+  targetLanguage?: string,
+) => {
+  const chunks = splitIntoDocumentChunks(text, format, 1000, undefined, undefined, {
+    targetLanguage,
+  });
+  const masked = chunks.map(({ text: source, protectedRanges }) =>
+    maskPlaceholders(source, protectedRanges),
+  );
+  return {
+    masked: masked.map(({ text: source }) => source),
+    notes: chunks.map(({ note }) => note),
+    output: reassembleTranslationChunks(
+      chunks,
+      masked.map(({ text: source, placeholders }) =>
+        restorePlaceholders(
+          escapeTranslation(format, translateMasked(source)),
+          placeholders,
+        ),
+      ),
+    ),
+  };
+};
+
+describe("Apple string resources", () => {
+  it("recognizes .strings and .stringsdict files", () => {
+    expect(isAppleStringsDocument(STRINGS)).toBe(true);
+    expect(detectDocumentFormat(STRINGS)).toBe("strings");
+    expect(isAppleStringsDocument('Set "title" = "Home"; then save.')).toBe(false);
+    expect(isStringsdictDocument(STRINGSDICT)).toBe(true);
+    expect(detectDocumentFormat(STRINGSDICT)).toBe("stringsdict");
+  });
+
+  it("translates .strings values with their comments as notes", () => {
+    const { masked, notes, output } = translate(STRINGS, "strings", (source) =>
+      source
+        .replace("Save", "Guardar")
+        .replace("Done", "Listo")
+        .replace("Hello", "Hola")
+        .replace("Welcome.", 'Te damos la "bienvenida".'),
+    );
+
+    expect(masked).toEqual(['Save "⟦1⟧"', "Done", "Hello, ⟦1⟧!\nWelcome."]);
+    expect(notes).toEqual([
+      "Comment: Title of the save button",
+      undefined,
+      "Comment: Line comment",
+    ]);
+    expect(output).toBe(
+      STRINGS.replace('"Save \\"', '"Guardar \\"')
+        .replace('"Done" = "Done"', '"Done" = "Listo"')
+        .replace(
+          "Hello, %1$@!\\nWelcome.",
+          'Hola, %1$@!\\nTe damos la \\"bienvenida\\".',
+        ),
+    );
+  });
+
+  it("translates .stringsdict format strings and plural categories", () => {
+    const { masked, notes, output } = translate(STRINGSDICT, "stringsdict", (source) =>
+      source
+        .replace("You selected", "Has seleccionado")
+        .replace("files & folders", "archivos y <carpetas>")
+        .replace("file", "archivo"),
+    );
+
+    expect(masked).toEqual(["You selected ⟦1⟧", "⟦1⟧ file", "⟦1⟧ files & folders"]);
+    expect(notes).toEqual([
+      undefined,
+      "Plural category: one.",
+      "Plural category: other.",
+    ]);
+    expect(output).toBe(
+      STRINGSDICT.replace("You selected", "Has seleccionado")
+        .replace("%d file<", "%d archivo<")
+        .replace("%d files &amp; folders", "%d archivos y &lt;carpetas&gt;"),
+    );
+  });
+
+  it("writes a .stringsdict plural rule with the target language's categories", () => {
+    const { notes, output } = translate(
+      STRINGSDICT.replace(
+        "<key>one</key>",
+        "<key>zero</key>\n      <string>No files</string>\n      <key>one</key>",
+      ),
+      "stringsdict",
+      (source) =>
+        source
+          .replace("You selected", "Wybrano")
+          .replace("No files", "Brak plików")
+          .replace("file &", "plik &")
+          .replace("files &", "pliki &")
+          .replace("file", "plik"),
+      "pl",
+    );
+
+    expect(notes).toEqual([
+      undefined,
+      "Plural category: zero.",
+      "Plural category: one.",
+      "Plural category: few.",
+      "Plural category: many.",
+      "Plural category: other.",
+    ]);
+    expect(output).toContain(
+      [
+        "      <key>zero</key>",
+        "      <string>Brak plików</string>",
+        "      <key>one</key>",
+        "      <string>%d plik</string>",
+        "      <key>few</key>",
+        "      <string>%d pliki &amp; folders</string>",
+        "      <key>many</key>",
+        "      <string>%d pliki &amp; folders</string>",
+        "      <key>other</key>",
+        "      <string>%d pliki &amp; folders</string>",
+        "    </dict>",
+      ].join("\n"),
+    );
+    expect(translate(STRINGSDICT, "stringsdict", (source) => source, "ja").output).toBe(
+      STRINGSDICT.replace("\n      <key>one</key>\n      <string>%d file</string>", ""),
+    );
+  });
+});
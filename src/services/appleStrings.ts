@@ -0,0 +1,184 @@
+import { PRINTF_CONVERSION } from "./placeholderMasking";
+import { getPluralCategories, PLURAL_CATEGORIES } from "./poDocument";
+import type { TranslationSlot } from "./translationChunking";
+import {
+  findXmlElements,
+  findXmlLineStart,
+  hasProse,
+  readXmlText,
+  XML_ENTITY,
+  type XmlElement,
+} from "./xmlText";
+
+interface StringsEntry {
+  valueStart: number;
+  valueEnd: number;
+  comment?: string;
+}
+
+const QUOTED = String.raw`"((?:[^"\\]|\\[\s\S])*)"`;
+const STRINGS_TOKEN = new RegExp(
+  String.raw`\s+|\/\*[\s\S]*?\*\/|\/\/[^\n]*|(?:${QUOTED}|[\w$+/:.-]+)\s*=\s*${QUOTED}\s*;`,
+  "uy",
+);
+const STRINGS_VALUE_TOKEN = new RegExp(
+  [
+    String.raw`\\[Uu][\da-fA-F]{4}`,
+    String.raw`\\[\s\S]`,
+    "%%",
+    PRINTF_CONVERSION.source,
+  ].join("|"),
+  "gu",
+);
+const STRINGS_DECODED: Record<string, string> = {
+  '\\"': '"',
+  "\\'": "'",
+  "\\\\": "\\",
+  "\\n": "\n",
+  "\\t": "\t",
+};
+// genstrings writes this when a string has no comment.
+const EMPTY_COMMENT = "No comment provided by engineer.";
+
+const STRINGSDICT_START = /<plist[\s>]/u;
+const STRINGSDICT_FORMAT_KEY = "NSStringLocalizedFormatKey";
+const PLURAL_KEYS = new Set(PLURAL_CATEGORIES);
+// Variables such as %#@files@ name the plural rule that fills them in.
+const STRINGSDICT_TOKEN = new RegExp(
+  [
+    String.raw`%(?:\d+\$)?#@\w+@`,
+    "%%",
+    PRINTF_CONVERSION.source,
+    XML_ENTITY.source,
+  ].join("|"),
+  "gu",
+);
+
+/** Entries in order, or null when `text` is not a `.strings` file. */
+const parseStringsEntries = (text: string): StringsEntry[] | null => {
+  const entries: StringsEntry[] = [];
+  const token = new RegExp(STRINGS_TOKEN);
+  token.lastIndex = text.startsWith("\uFEFF") ? 1 : 0;
+  let comment: string | undefined;
+  while (token.lastIndex < text.length) {
+    const start = token.lastIndex;
+    const match = token.exec(text);
+    if (!match) return null;
+    const [whole, , value] = match;
+    if (value !== undefined) {
+      const valueEnd = start + whole.lastIndexOf('"');
+      entries.push({ valueStart: valueEnd - value.length, valueEnd, comment });
+      comment = undefined;
+    } else if (whole.startsWith("/")) {
+      comment = whole.replace(/^\/[*/]|\*\/$/gu, "").trim();
+    }
+  }
+  return entries;
+};
+
+/** Whether `text` is an Apple `.strings` file of `"key" = "value";` entries. */
+export const isAppleStringsDocument = (text: string): boolean =>
+  Boolean(parseStringsEntries(text)?.length);
+
+/** Whether `text` is an Apple `.stringsdict` property list. */
+export const isStringsdictDocument = (text: string): boolean =>
+  STRINGSDICT_START.test(text) && text.includes(`<key>${STRINGSDICT_FORMAT_KEY}</key>`);
+
+/** Escape text for the inside of a double-quoted `.strings` value. */
+export const escapeAppleString = (text: string): string =>
+  text
+    .replace(/\\/gu, "\\\\")
+    .replace(/"/gu, '\\"')
+    .replace(/\n/gu, "\\n")
+    .replace(/\t/gu, "\\t");
+
+/**
+ * A `.strings` file as literal text and translation slots, one for each value.
+ * Keys are kept, a value's comment goes along as a read-only note, and format
+ * specifiers and `\U` escapes are protected.
+ */
+export const getAppleStringsTranslationParts = (
+  text: string,
+): (string | TranslationSlot)[] => {
+  const parts: (string | TranslationSlot)[] = [];
+  let cursor = 0;
+  for (const { valueStart, valueEnd, comment } of parseStringsEntries(text) ?? []) {
+    const slot: TranslationSlot = {
+      ...readXmlText(text.slice(valueStart, valueEnd), {
+        tokens: STRINGS_VALUE_TOKEN,
+        decoded: STRINGS_DECODED,
+      }),
+      note: comment && comment !== EMPTY_COMMENT ? `Comment: ${comment}` : undefined,
+    };
+    if (!hasProse(slot)) continue;
+    parts.push(text.slice(cursor, valueStart), slot);
+    cursor = valueEnd;
+  }
+  parts.push(text.slice(cursor));
+  return parts.filter((part) => part !== "");
+};
+
+const readKeyName = (text: string, key: XmlElement): string =>
+  text.slice(key.contentStart, key.contentEnd).trim();
+
+/**
+ * A `.stringsdict` file as literal text and translation slots: each format
+ * string and each plural category's string. Variables such as `%#@files@`
+ * and format specifiers are protected. With a target language, each plural
+ * rule gets a string for each of its categories, translated from `other`, and
+ * loses the ones it does not use, except `zero`, which Apple uses for any
+ * language.
+ */
+export const getStringsdictTranslationParts = (
+  text: string,
+  targetLanguage?: string,
+): (string | TranslationSlot)[] => {
+  const parts: (string | TranslationSlot)[] = [];
+  let cursor = 0;
+  const categories = targetLanguage ? getPluralCategories(targetLanguage) : undefined;
+  const readSlot = (value: XmlElement, name: string): TranslationSlot => ({
+    ...readXmlText(text.slice(value.contentStart, value.contentEnd), {
+      tokens: STRINGSDICT_TOKEN,
+    }),
+    note: PLURAL_KEYS.has(name) ? `Plural category: ${name}.` : undefined,
+  });
+
+  for (const key of findXmlElements(text, "key")) {
+    const name = readKeyName(text, key);
+    if (name !== STRINGSDICT_FORMAT_KEY && !PLURAL_KEYS.has(name)) continue;
+    const [value] = findXmlElements(text, "string", key.end);
+    if (!value || text.slice(key.end, value.start).trim()) continue;
+    if (categories && name !== "zero" && PLURAL_KEYS.has(name)) {
+      if (!categories.includes(name)) {
+        parts.push(text.slice(cursor, findXmlLineStart(text, key.start).start));
+        cursor = value.end;
+        continue;
+      }
+      if (name === "other") {
+        // A plural rule is a dictionary of strings, so its keys end at `</dict>`.
+        const names = findXmlElements(
+          text,
+          "key",
+          text.lastIndexOf("<dict>", key.start),
+          text.indexOf("</dict>", value.end),
+        ).map((sibling) => readKeyName(text, sibling));
+        const { start, lineBreak } = findXmlLineStart(text, key.start);
+        parts.push(text.slice(cursor, start));
+        cursor = start;
+        for (const category of categories) {
+          if (names.includes(category)) continue;
+          const slot = readSlot(value, category);
+          const open = `${lineBreak}<key>${category}</key>${text.slice(key.end, value.contentStart)}`;
+          if (hasProse(slot)) parts.push(open, slot, "</string>");
+          else parts.push(`${open}${text.slice(value.contentStart, value.end)}`);
+        }
+      }
+    }
+    const slot = readSlot(value, name);
+    if (!hasProse(slot)) continue;
+    parts.push(text.slice(cursor, value.contentStart), slot);
+    cursor = value.contentEnd;
+  }
+  parts.push(text.slice(cursor));
+  return parts.filter((part) => part !== "");
+};
@@ -7,6 +7,7 @@ export type DiagnosticOutcome =
   | "abstained"
   | "mismatch"
   | "same-language"
+  | "retry"
   | "error";
 export type DiagnosticConfidence = "high" | "medium" | "low";
 
@@ -19,6 +20,8 @@ export interface TranslationDiagnosticEvent {
   latencyMs: number;
   cacheHit?: boolean;
   confidence?: DiagnosticConfidence;
+  /** One-based request attempt for retried chunks. */
+  attempt?: number;
 }
 
 export interface TranslationDiagnosticsSnapshot {
@@ -49,6 +52,7 @@ const createEmptySnapshot = (): TranslationDiagnosticsSnapshot => ({
     abstained: 0,
     mismatch: 0,
     "same-language": 0,
+    retry: 0,
     error: 0,
   },
   byModel: {},
@@ -0,0 +1,182 @@
+import { TRANSLATION_CONFIG } from "../config/constants";
+import type { DocumentFormat } from "../types";
+import {
+  escapeAndroidString,
+  getAndroidTranslationParts,
+  isAndroidStringsDocument,
+} from "./androidStrings";
+import {
+  escapeAppleString,
+  getAppleStringsTranslationParts,
+  getStringsdictTranslationParts,
+  isAppleStringsDocument,
+  isStringsdictDocument,
+} from "./appleStrings";
+import {
+  escapeHtmlTranslation,
+  findHtmlSegments,
+  isHtmlDocument,
+} from "./htmlDocument";
+import {
+  addJsonPluralKeys,
+  checkJsonTranslation,
+  escapeJsonTranslation,
+  findJsonSegments,
+  isJsonDocument,
+} from "./jsonDocument";
+import { findMarkdownSegments, isMarkdownDocument } from "./markdownDocument";
+import {
+  escapePoString,
+  getPoTranslationParts,
+  isPoDocument,
+  type PoTranslationOptions,
+} from "./poDocument";
+import {
+  checkSubtitleTranslation,
+  findSubtitleSegments,
+  isSubtitleDocument,
+} from "./subtitleDocument";
+import {
+  estimateTokenCount,
+  splitIntoSegmentChunks,
+  splitIntoSlotChunks,
+  splitIntoTranslationChunks,
+  type TokenCounter,
+  type TranslationChunk,
+} from "./translationChunking";
+import { getXliffTranslationParts, isXliffDocument } from "./xliffDocument";
+import { escapeXmlText } from "./xmlText";
+
+/** The structure a document is translated with; prose without markup is plain text. */
+export const detectDocumentFormat = (text: string): DocumentFormat => {
+  if (isSubtitleDocument(text)) return "subtitles";
+  if (isPoDocument(text)) return "po";
+  if (isJsonDocument(text)) return "json";
+  if (isAppleStringsDocument(text)) return "strings";
+  if (isStringsdictDocument(text)) return "stringsdict";
+  if (isAndroidStringsDocument(text)) return "android";
+  if (isXliffDocument(text)) return "xliff";
+  // Markdown allows raw HTML, so a document that is all tags is read as HTML.
+  if (isHtmlDocument(text)) return "html";
+  return isMarkdownDocument(text) ? "markdown" : "text";
+};
+
+const findSegments = (text: string, format: DocumentFormat) => {
+  if (format === "html") return findHtmlSegments(text);
+  if (format === "subtitles") return findSubtitleSegments(text);
+  if (format === "json") return findJsonSegments(text);
+  return findMarkdownSegments(text);
+};
+
+const REBUILT_FORMATS: ReadonlySet<DocumentFormat> = new Set([
+  "po",
+  "xliff",
+  "android",
+  "strings",
+  "stringsdict",
+]);
+
+/** Whether documents of `format` are rebuilt around their translations, not edited. */
+export const isRebuiltFormat = (format: DocumentFormat): boolean =>
+  REBUILT_FORMATS.has(format);
+
+/**
+ * Whether a chunk of `format` can only be sent with its markup masked: the
+ * text between its segments would be escaped again on the way back.
+ */
+export const requiresMaskedMarkup = (format: DocumentFormat): boolean =>
+  format === "html" || format === "json";
+
+/**
+ * Whether the chunks of a previous translation can be reused. The text between
+ * reused chunks is split again on its own, which only finds segments in formats
+ * that do not need the rest of the document: cue numbers and timings, JSON keys,
+ * or enclosing HTML tags would be missing.
+ */
+export const canReuseTranslatedChunks = (format: DocumentFormat): boolean =>
+  format === "text" || format === "markdown";
+
+const getTranslationParts = (
+  text: string,
+  format: DocumentFormat,
+  poOptions: PoTranslationOptions,
+) => {
+  if (format === "po") return getPoTranslationParts(text, poOptions);
+  if (format === "xliff") return getXliffTranslationParts(text);
+  if (format === "android") {
+    return getAndroidTranslationParts(text, poOptions.targetLanguage);
+  }
+  if (format === "strings") return getAppleStringsTranslationParts(text);
+  return getStringsdictTranslationParts(text, poOptions.targetLanguage);
+};
+
+/**
+ * Chunk a document in the given format. Structured formats send only their
+ * translatable segments; the markup between them is reassembled verbatim.
+ * Catalogs, XLIFF, and mobile string resources are rebuilt instead, with each
+ * translation written into its msgstr, target, or value. JSON gets the i18next
+ * plural keys the target language needs first.
+ */
+export const splitIntoDocumentChunks = (
+  text: string,
+  format: DocumentFormat,
+  maxSourceTokens: number = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+  countTokens: TokenCounter = estimateTokenCount,
+  poOptions: PoTranslationOptions = {},
+): TranslationChunk[] => {
+  if (format === "text") {
+    return splitIntoTranslationChunks(text, maxSourceTokens, maxChunks, countTokens);
+  }
+  if (isRebuiltFormat(format)) {
+    return splitIntoSlotChunks(
+      getTranslationParts(text, format, poOptions),
+      (separator, slot) => escapeTranslation(format, separator, slot),
+      maxSourceTokens,
+      maxChunks,
+      countTokens,
+    );
+  }
+  const source =
+    format === "json" && poOptions.targetLanguage
+      ? addJsonPluralKeys(text, poOptions.targetLanguage)
+      : text;
+  return splitIntoSegmentChunks(
+    source,
+    findSegments(source, format),
+    maxSourceTokens,
+    maxChunks,
+    countTokens,
+  );
+};
+
+/**
+ * Make a translated chunk safe to splice back into a document of `format`,
+ * inside a CDATA section when the chunk came from one.
+ */
+export const escapeTranslation = (
+  format: DocumentFormat,
+  translation: string,
+  { cdata = false }: Pick<TranslationChunk, "cdata"> = {},
+): string => {
+  if (format === "html") return escapeHtmlTranslation(translation);
+  if (format === "po") return escapePoString(translation);
+  if (format === "json") return escapeJsonTranslation(translation);
+  if (format === "xliff" || format === "stringsdict") return escapeXmlText(translation);
+  if (format === "android") return escapeAndroidString(translation, cdata);
+  if (format === "strings") return escapeAppleString(translation);
+  return translation;
+};
+
+/**
+ * Throws when a translated chunk lost the structure of its source, such as
+ * the cues of a subtitle file.
+ */
+export const checkTranslationStructure = (
+  format: DocumentFormat,
+  source: string,
+  translation: string,
+): void => {
+  if (format === "subtitles") checkSubtitleTranslation(source, translation);
+  if (format === "json") checkJsonTranslation(source, translation);
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "bun:test";
+import type { GlossaryEntry } from "../types";
+import {
+  createGlossaryPairKey,
+  findGlossaryMatches,
+  findMissingGlossaryTerms,
+  getGlossaryEntries,
+  sanitizeGlossaryEntries,
+} from "./glossary";
+
+const entry = (
+  source: string,
+  target: string,
+  options: Partial<GlossaryEntry> = {},
+): GlossaryEntry => ({
+  id: source,
+  source,
+  target,
+  caseSensitive: false,
+  wholeWord: true,
+  ...options,
+});
+
+describe("glossary", () => {
+  it("keys entries by language pair and ignores auto-detect", () => {
+    const glossary = {
+      [createGlossaryPairKey("en", "es")]: [entry("pull request", "solicitud")],
+    };
+
+    expect(getGlossaryEntries(glossary, "en", "es")).toHaveLength(1);
+    expect(getGlossaryEntries(glossary, "es", "en")).toEqual([]);
+    expect(getGlossaryEntries(glossary, "auto", "es")).toEqual([]);
+  });
+
+  it("matches whole words across scripts unless disabled", () => {
+    const entries = [
+      entry("cat", "gato"),
+      entry("Straße", "calle"),
+      entry("micro", "micro-", { wholeWord: false }),
+    ];
+
+    expect(findGlossaryMatches("The category is new.", entries)).toEqual([]);
+    expect(
+      findGlossaryMatches("A CAT in the straße of microservices.", entries).map(
+        ({ source }) => source,
+      ),
+    ).toEqual(["cat", "Straße", "micro"]);
+    expect(findGlossaryMatches("Straßen", entries)).toEqual([]);
+  });
+
+  it("honors case sensitivity and Unicode normalization", () => {
+    const entries = [
+      entry("Go", "Go", { caseSensitive: true }),
+      entry("café", "cafetería"),
+    ];
+
+    expect(findGlossaryMatches("Let us go.", entries)).toEqual([]);
+    expect(
+      findGlossaryMatches("Written in Go at the café.", entries).map(
+        ({ source }) => source,
+      ),
+    ).toEqual(["Go", "café"]);
+  });
+
+  it("reports required target terms missing from a translation", () => {
+    const required = [
+      entry("cat", "gato"),
+      entry("sofa", "sofá"),
+      entry("cats", "gato"),
+    ];
+
+    expect(findMissingGlossaryTerms("El Gato duerme en el sillón.", required)).toEqual([
+      "sofá",
+    ]);
+    expect(findMissingGlossaryTerms("Un gatito.", required)).toEqual(["gato", "sofá"]);
+  });
+
+  it("trims terms and drops blank or duplicate entries", () => {
+    expect(
+      sanitizeGlossaryEntries([
+        entry(" cat ", " gato "),
+        entry("Cat", "felino"),
+        entry("Go", "Go", { caseSensitive: true }),
+        entry("go", "ir", { caseSensitive: true }),
+        entry("", "vacío"),
+        entry("dog", " "),
+      ]).map(({ source, target }) => `${source}=${target}`),
+    ).toEqual(["cat=gato", "Go=Go", "go=ir"]);
+  });
+});
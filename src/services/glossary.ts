@@ -0,0 +1,63 @@
+import type { Glossary, GlossaryEntry } from "../types";
+
+const PAIR_SEPARATOR = ">";
+// Letters, marks, and digits of any script count as part of a word.
+const WORD_CHARACTER = "[\\p{L}\\p{M}\\p{N}_]";
+
+export const createGlossaryPairKey = (source: string, target: string): string =>
+  `${source}${PAIR_SEPARATOR}${target}`;
+
+export const getGlossaryEntries = (
+  glossary: Glossary,
+  source: string,
+  target: string,
+): GlossaryEntry[] =>
+  source === "auto" ? [] : (glossary[createGlossaryPairKey(source, target)] ?? []);
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/gu, "\\$&");
+
+const containsTerm = (
+  text: string,
+  term: string,
+  { caseSensitive, wholeWord }: Pick<GlossaryEntry, "caseSensitive" | "wholeWord">,
+): boolean => {
+  const pattern = escapeRegExp(term.normalize("NFC"));
+  const bounded = wholeWord
+    ? `(?<!${WORD_CHARACTER})${pattern}(?!${WORD_CHARACTER})`
+    : pattern;
+  return new RegExp(bounded, caseSensitive ? "u" : "iu").test(text.normalize("NFC"));
+};
+
+/** Entries whose source term occurs in `text`, honoring each entry's options. */
+export const findGlossaryMatches = (
+  text: string,
+  entries: readonly GlossaryEntry[],
+): GlossaryEntry[] =>
+  entries.filter((entry) => containsTerm(text, entry.source, entry));
+
+/** Target terms that a translation was required to use but does not contain. */
+export const findMissingGlossaryTerms = (
+  translation: string,
+  requiredEntries: readonly GlossaryEntry[],
+): string[] => [
+  ...new Set(
+    requiredEntries
+      .filter((entry) => !containsTerm(translation, entry.target, entry))
+      .map(({ target }) => target),
+  ),
+];
+
+export const sanitizeGlossaryEntries = (
+  entries: readonly GlossaryEntry[],
+): GlossaryEntry[] => {
+  const seen = new Set<string>();
+  return entries.flatMap((entry) => {
+    const source = entry.source.trim();
+    const target = entry.target.trim();
+    const key = entry.caseSensitive ? source : source.toLowerCase();
+    if (!source || !target || seen.has(key)) return [];
+    seen.add(key);
+    return [{ ...entry, source, target }];
+  });
+};
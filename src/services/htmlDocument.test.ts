@@ -0,0 +1,91 @@
+import { describe, expect, it } from "bun:test";
+import { detectDocumentFormat, splitIntoDocumentChunks } from "./documentFormats";
+import {
+  escapeHtmlTranslation,
+  findHtmlSegments,
+  isHtmlDocument,
+} from "./htmlDocument";
+import { maskPlaceholders } from "./placeholderMasking";
+import { reassembleTranslationChunks } from "./translationChunking";
+
+const PAGE = [
+  "<!DOCTYPE html>",
+  '<html lang="en">',
+  "<head><title>Welcome home</title><style>p { color: red; }</style></head>",
+  "<body>",
+  "  <!-- navigation -->",
+  '  <h1 class="hero">Hello, <em>world</em>!</h1>',
+  '  <img src="logo.png" alt="Company logo">',
+  '  <p>Run <code>npm <b>i</b></code> and <a href="/docs" title="Read the docs">read more</a>.</p>',
+  '  <p translate="no">Brand <b>Name</b></p>',
+  "  <input placeholder='Search' aria-label=\"Search the site\">",
+  '  <script>const s = "<p>not text</p>";</script>',
+  "</body>",
+  "</html>",
+  "",
+].join("\n");
+
+const segmentTexts = (text: string): string[] =>
+  findHtmlSegments(text).map(({ start, end }) => text.slice(start, end));
+
+describe("html documents", () => {
+  it("tells HTML from Markdown and prose that mention tags", () => {
+    expect(isHtmlDocument(PAGE)).toBe(true);
+    expect(isHtmlDocument('<div class="card">\n  <p>Hi</p>\n</div>\n')).toBe(true);
+    expect(isHtmlDocument("Use the <b> tag for bold text.")).toBe(false);
+    expect(detectDocumentFormat(PAGE)).toBe("html");
+    expect(detectDocumentFormat("# Title\n\n<b>Bold</b> words.")).toBe("markdown");
+  });
+
+  it("finds text and translatable attributes outside skipped elements", () => {
+    expect(segmentTexts(PAGE)).toEqual([
+      "Welcome home",
+      "Hello, <em>world</em>!",
+      '<img src="logo.png" alt="Company logo">',
+      'Run <code>npm <b>i</b></code> and <a href="/docs" title="Read the docs">read more</a>.',
+      "<input placeholder='Search' aria-label=\"Search the site\">",
+    ]);
+    expect(
+      segmentTexts('<p title="Note">Body</p><div aria-label="Menu"></div>'),
+    ).toEqual(["Note", "Body", "Menu"]);
+  });
+
+  it("sends only text to the model and reassembles the markup verbatim", () => {
+    const chunks = splitIntoDocumentChunks(PAGE, "html", 1000);
+    const [first] = chunks;
+
+    expect(chunks).toHaveLength(1);
+    expect(first?.leadingSeparator).toBe(
+      '<!DOCTYPE html>\n<html lang="en">\n<head><title>',
+    );
+    expect(
+      chunks.map(
+        ({ text, protectedRanges }) => maskPlaceholders(text, protectedRanges).text,
+      ),
+    ).toEqual([
+      [
+        "Welcome home⟦1⟧",
+        "⟦2⟧",
+        "⟦3⟧",
+        "⟦4⟧Hello, ⟦5⟧world⟦6⟧!⟦7⟧",
+        "⟦8⟧⟦9⟧Company logo⟦10⟧",
+        "⟦11⟧Run ⟦12⟧ and ⟦13⟧Read the docs⟦10⟧read more⟦14⟧.⟦15⟧",
+        "⟦16⟧",
+        "⟦8⟧⟦17⟧Search the site⟦10⟧",
+      ].join("\n"),
+    ]);
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(PAGE);
+  });
+
+  it("escapes characters that would end a text node or an attribute", () => {
+    expect(escapeHtmlTranslation('Say "hi" <3 ⟦1⟧')).toBe(
+      "Say &quot;hi&quot; &lt;3 ⟦1⟧",
+    );
+    expect(escapeHtmlTranslation("&lt;b&gt; &quot;")).toBe("&lt;b&gt; &quot;");
+  });
+});
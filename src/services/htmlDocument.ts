@@ -0,0 +1,349 @@
+import type { ProtectedRange, TranslatableSegment } from "./translationChunking";
+
+interface HtmlAttribute {
+  name: string;
+  valueStart: number;
+  valueEnd: number;
+  quote: string;
+}
+
+type HtmlToken =
+  | { type: "text"; start: number; end: number }
+  | { type: "markup"; start: number; end: number }
+  | { type: "endTag"; name: string; start: number; end: number }
+  | {
+      type: "startTag";
+      name: string;
+      start: number;
+      end: number;
+      attributes: HtmlAttribute[];
+      selfClosing: boolean;
+    };
+
+interface InlineRun {
+  start: number;
+  end: number;
+  protectedRanges: ProtectedRange[];
+  hasProse: boolean;
+}
+
+const TAG_NAME = /[A-Za-z][\w:.-]*/y;
+const ATTRIBUTE =
+  /[\t\n\f\r ]*([^\t\n\f\r "'<>/=]+)(?:[\t\n\f\r ]*=[\t\n\f\r ]*(?:"([^"]*)"|'([^']*)'|([^\t\n\f\r "'<>=`]+)))?/y;
+const TAG_END = /[\t\n\f\r ]*(\/?)>/y;
+const LETTER = /\p{L}/u;
+const HTML_START = /^(?:<!doctype\s+html[\s>]|<html[\s>])/iu;
+const ELEMENT_START = /^<[a-z][\w-]*[\s/>]/iu;
+
+// Elements whose content is not markup; script and style are never translated.
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+const SKIPPED_ELEMENTS = new Set(["script", "style", "code"]);
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+// Phrasing elements stay inside the sentence around them; any other tag ends it.
+const INLINE_ELEMENTS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "big",
+  "br",
+  "button",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "font",
+  "i",
+  "img",
+  "input",
+  "ins",
+  "kbd",
+  "label",
+  "mark",
+  "meter",
+  "option",
+  "output",
+  "progress",
+  "q",
+  "s",
+  "samp",
+  "select",
+  "small",
+  "span",
+  "strike",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "tt",
+  "u",
+  "var",
+  "wbr",
+]);
+const TRANSLATABLE_ATTRIBUTES = new Set(["alt", "title", "placeholder", "aria-label"]);
+
+const findTagEnd = (text: string, from: number): number => {
+  const end = text.indexOf(">", from);
+  return end < 0 ? text.length : end + 1;
+};
+
+const readStartTag = (text: string, start: number): HtmlToken | null => {
+  TAG_NAME.lastIndex = start + 1;
+  const name = TAG_NAME.exec(text)?.[0].toLowerCase();
+  if (!name) return null;
+
+  const attributes: HtmlAttribute[] = [];
+  let cursor = TAG_NAME.lastIndex;
+  for (;;) {
+    TAG_END.lastIndex = cursor;
+    const end = TAG_END.exec(text);
+    if (end) {
+      return {
+        type: "startTag",
+        name,
+        start,
+        end: TAG_END.lastIndex,
+        attributes,
+        selfClosing: end[1] === "/",
+      };
+    }
+    ATTRIBUTE.lastIndex = cursor;
+    const attribute = ATTRIBUTE.exec(text);
+    // A malformed tag still ends at the next ">", with its attributes unread.
+    if (!attribute) {
+      return {
+        type: "startTag",
+        name,
+        start,
+        end: findTagEnd(text, cursor),
+        attributes,
+        selfClosing: false,
+      };
+    }
+    const [match, attributeName, doubleQuoted, singleQuoted, unquoted] = attribute;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted ?? "";
+    const quote =
+      doubleQuoted !== undefined ? '"' : singleQuoted !== undefined ? "'" : "";
+    const valueEnd = ATTRIBUTE.lastIndex - quote.length;
+    attributes.push({
+      name: (attributeName ?? "").toLowerCase(),
+      valueStart: valueEnd - value.length,
+      valueEnd,
+      quote,
+    });
+    cursor = attribute.index + match.length;
+  }
+};
+
+/** Split HTML into text, tags, and other markup, with source offsets. */
+const tokenizeHtml = (text: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  let cursor = 0;
+  let textStart = 0;
+  const push = (token: HtmlToken): void => {
+    if (token.start > textStart) {
+      tokens.push({ type: "text", start: textStart, end: token.start });
+    }
+    tokens.push(token);
+    cursor = token.end;
+    textStart = token.end;
+  };
+
+  while (cursor < text.length) {
+    const open = text.indexOf("<", cursor);
+    if (open < 0) break;
+    const next = text[open + 1] ?? "";
+    if (text.startsWith("<!--", open)) {
+      const close = text.indexOf("-->", open + 4);
+      push({ type: "markup", start: open, end: close < 0 ? text.length : close + 3 });
+    } else if (next === "!" || next === "?") {
+      push({ type: "markup", start: open, end: findTagEnd(text, open) });
+    } else if (next === "/" && /[A-Za-z]/u.test(text[open + 2] ?? "")) {
+      TAG_NAME.lastIndex = open + 2;
+      const name = TAG_NAME.exec(text)?.[0].toLowerCase() ?? "";
+      push({ type: "endTag", name, start: open, end: findTagEnd(text, open) });
+    } else {
+      const tag = /[A-Za-z]/u.test(next) ? readStartTag(text, open) : null;
+      if (!tag) {
+        cursor = open + 1;
+        continue;
+      }
+      push(tag);
+      if (
+        tag.type === "startTag" &&
+        RAW_TEXT_ELEMENTS.has(tag.name) &&
+        !tag.selfClosing
+      ) {
+        const close = text.toLowerCase().indexOf(`</${tag.name}`, tag.end);
+        cursor = close < 0 ? text.length : close;
+        if (cursor > textStart) {
+          tokens.push({ type: "text", start: textStart, end: cursor });
+          textStart = cursor;
+        }
+      }
+    }
+  }
+  if (textStart < text.length) {
+    tokens.push({ type: "text", start: textStart, end: text.length });
+  }
+  return tokens;
+};
+
+const isTranslatableAttribute = (text: string, attribute: HtmlAttribute): boolean =>
+  TRANSLATABLE_ATTRIBUTES.has(attribute.name) &&
+  // Only double-quoted values, since a translation may contain apostrophes.
+  attribute.quote === '"' &&
+  LETTER.test(text.slice(attribute.valueStart, attribute.valueEnd));
+
+const hasNoTranslate = (
+  text: string,
+  { attributes }: { attributes: HtmlAttribute[] },
+) =>
+  attributes.some(
+    ({ name, valueStart, valueEnd }) =>
+      name === "translate" &&
+      text.slice(valueStart, valueEnd).trim().toLowerCase() === "no",
+  );
+
+/**
+ * Whether `text` is an HTML document or fragment: it opens with a doctype, an
+ * `<html>` tag, or another element, and ends with a tag.
+ */
+export const isHtmlDocument = (text: string): boolean => {
+  const trimmed = text.replace(/^\uFEFF/u, "").trim();
+  return (
+    HTML_START.test(trimmed) || (ELEMENT_START.test(trimmed) && trimmed.endsWith(">"))
+  );
+};
+
+/**
+ * The sentences of an HTML document and its `alt`, `title`, `placeholder`, and
+ * `aria-label` values, in document order. Text and inline elements between two
+ * block tags form one segment whose tags are protected. Script, style, code,
+ * and elements marked `translate="no"` are left out.
+ */
+export const findHtmlSegments = (text: string): TranslatableSegment[] => {
+  const segments: TranslatableSegment[] = [];
+  let run: InlineRun | null = null;
+  let skipped: { name: string; depth: number; start: number; inline: boolean } | null =
+    null;
+
+  const flush = (): void => {
+    if (run?.hasProse) {
+      segments.push({
+        start: run.start,
+        end: run.end,
+        protectedRanges: run.protectedRanges,
+      });
+    }
+    run = null;
+  };
+  const extendRun = (start: number, end: number): InlineRun => {
+    if (!run) run = { start, end, protectedRanges: [], hasProse: false };
+    run.end = end;
+    return run;
+  };
+  const protect = (start: number, end: number): void => {
+    extendRun(start, end).protectedRanges.push({ start, end });
+  };
+
+  for (const token of tokenizeHtml(text)) {
+    if (skipped) {
+      if (
+        token.type === "startTag" &&
+        token.name === skipped.name &&
+        !token.selfClosing
+      ) {
+        skipped.depth += 1;
+      }
+      if (token.type === "endTag" && token.name === skipped.name) {
+        skipped.depth -= 1;
+        if (!skipped.depth) {
+          if (skipped.inline) protect(skipped.start, token.end);
+          skipped = null;
+        }
+      }
+      continue;
+    }
+
+    if (token.type === "text") {
+      const content = text.slice(token.start, token.end);
+      const leading = content.search(/\S/u);
+      if (leading < 0) continue;
+      const current = extendRun(
+        token.start + leading,
+        token.start + content.trimEnd().length,
+      );
+      if (LETTER.test(content)) current.hasProse = true;
+    } else if (token.type === "markup") {
+      if (run) protect(token.start, token.end);
+    } else if (!INLINE_ELEMENTS.has(token.name)) {
+      flush();
+      if (token.type === "startTag" && !hasNoTranslate(text, token)) {
+        for (const attribute of token.attributes) {
+          if (!isTranslatableAttribute(text, attribute)) continue;
+          segments.push({
+            start: attribute.valueStart,
+            end: attribute.valueEnd,
+            protectedRanges: [],
+          });
+        }
+      }
+      if (
+        token.type === "startTag" &&
+        !VOID_ELEMENTS.has(token.name) &&
+        !token.selfClosing &&
+        (SKIPPED_ELEMENTS.has(token.name) || hasNoTranslate(text, token))
+      ) {
+        skipped = { name: token.name, depth: 1, start: token.start, inline: false };
+      }
+    } else if (token.type === "endTag") {
+      if (run) protect(token.start, token.end);
+    } else if (SKIPPED_ELEMENTS.has(token.name) || hasNoTranslate(text, token)) {
+      if (VOID_ELEMENTS.has(token.name) || token.selfClosing) {
+        protect(token.start, token.end);
+      } else {
+        skipped = { name: token.name, depth: 1, start: token.start, inline: true };
+      }
+    } else {
+      // Inline tags are protected around any translatable attribute values.
+      let cursor = token.start;
+      const current = extendRun(token.start, token.end);
+      for (const attribute of token.attributes) {
+        if (!isTranslatableAttribute(text, attribute)) continue;
+        current.protectedRanges.push({ start: cursor, end: attribute.valueStart });
+        current.hasProse = true;
+        cursor = attribute.valueEnd;
+      }
+      current.protectedRanges.push({ start: cursor, end: token.end });
+    }
+  }
+  if (skipped?.inline) protect(skipped.start, text.length);
+  flush();
+  return segments;
+};
+
+/**
+ * Escape the characters a translation may add that would end a text node or a
+ * double-quoted attribute. Sentinels are unaffected.
+ */
+export const escapeHtmlTranslation = (translation: string): string =>
+  translation.replace(/</gu, "&lt;").replace(/"/gu, "&quot;");
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import {
+  createOpenAiCompatibleAdapter,
+  getInferenceProvider,
+  type InferenceProviderAdapter,
+  listInferenceProviders,
+  registerInferenceProvider,
+} from "./inferenceProviders";
+import { createModelReference, parseModelReference } from "./modelReferences";
+import { fetchAvailableModels, fetchTranslation } from "./ollamaApi";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const koboldAdapter: InferenceProviderAdapter = {
+  id: "kobold-test",
+  label: "KoboldCpp",
+  defaultBaseUrl: "http://localhost:5001/api",
+  connectionHint: "Ensure KoboldCpp is running.",
+  modelsPath: "/v1/model",
+  chatPath: "/v1/generate",
+  mapModels: (payload) => {
+    const result = (payload as { result?: string }).result;
+    return result ? [{ id: result, name: result }] : [];
+  },
+  createChatBody: ({ messages, options }) => ({
+    prompt: messages.map((message) => message.content).join("\n"),
+    ...options,
+  }),
+  getResponseContent: (payload) =>
+    (payload as { results?: Array<{ text: string }> }).results?.[0]?.text ?? "",
+  getStreamingToken: () => "",
+  isTerminalFrame: () => true,
+  getErrorMessage: () => null,
+};
+
+describe("inference provider registry", () => {
+  it("registers the built-in Ollama and llama.cpp adapters", () => {
+    expect(listInferenceProviders().map(({ id }) => id)).toEqual(
+      expect.arrayContaining(["ollama", "llamacpp"]),
+    );
+    expect(getInferenceProvider("llamacpp")?.chatPath).toBe("/chat/completions");
+  });
+
+  it("rejects ids that would break model references", () => {
+    expect(() => registerInferenceProvider({ ...koboldAdapter, id: "bad:id" })).toThrow(
+      "Invalid inference provider id",
+    );
+  });
+
+  it("resolves model references and requests through a registered adapter", async () => {
+    registerInferenceProvider(koboldAdapter);
+    const endpoint = {
+      id: "kobold-test",
+      provider: "kobold-test",
+      label: "KoboldCpp",
+      baseUrl: "http://localhost:5001/api",
+    };
+    const requests: Array<{ url: string; body?: string }> = [];
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), body: init?.body as string | undefined });
+      const body = String(input).endsWith("/model")
+        ? { result: "koboldcpp/gemma" }
+        : { results: [{ text: "Hola" }] };
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const [option] = await fetchAvailableModels([endpoint]);
+    expect(option?.value).toBe(createModelReference("kobold-test", "koboldcpp/gemma"));
+    expect(parseModelReference(option?.value ?? "")).toEqual({
+      provider: "kobold-test",
+      endpointId: "kobold-test",
+      model: "koboldcpp/gemma",
+    });
+
+    await expect(
+      fetchTranslation({
+        model: option?.value ?? "",
+        messages: [{ role: "user", content: "Hello" }],
+        options: { temperature: 0 },
+        endpoints: [endpoint],
+      }),
+    ).resolves.toBe("Hola");
+    expect(requests[1]?.url).toBe("http://localhost:5001/api/v1/generate");
+    expect(JSON.parse(requests[1]?.body ?? "{}")).toEqual({
+      prompt: "Hello",
+      temperature: 0,
+    });
+  });
+
+  it("shares OpenAI-compatible frame parsing across adapters", () => {
+    const adapter = createOpenAiCompatibleAdapter({
+      id: "lmstudio-test",
+      label: "LM Studio",
+      defaultBaseUrl: "http://localhost:1234/v1",
+      connectionHint: "",
+    });
+    const frame = { choices: [{ delta: { content: "Hi" }, finish_reason: "stop" }] };
+
+    expect(adapter.getStreamingToken(frame)).toBe("Hi");
+    expect(adapter.isTerminalFrame(frame)).toBe(true);
+    expect(adapter.getErrorMessage({ error: { message: "busy" } })).toBe("busy");
+  });
+});
@@ -0,0 +1,211 @@
+import { API } from "../config/constants";
+import type {
+  LlamaCppChatResponse,
+  LlamaCppModelsResponse,
+  OllamaChatResponse,
+  OllamaMessage,
+  OllamaTagsResponse,
+} from "../types";
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+}
+
+export interface ProviderProbeRequest {
+  url: string;
+  body?: unknown;
+}
+
+export interface ProviderChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  options?: Record<string, unknown>;
+  stream: boolean;
+}
+
+/**
+ * Everything the core client needs to talk to one kind of inference server.
+ * Adapters only translate between the server's wire format and Interlingua's
+ * provider-neutral requests; transport, timeouts, and streaming stay shared.
+ */
+export interface InferenceProviderAdapter {
+  id: string;
+  label: string;
+  defaultBaseUrl: string;
+  connectionHint: string;
+  modelsPath: string;
+  chatPath: string;
+  mapModels: (payload: unknown) => ProviderModel[];
+  createChatBody: (request: ProviderChatRequest) => unknown;
+  getResponseContent: (payload: unknown) => string;
+  getStreamingToken: (payload: unknown) => string;
+  isTerminalFrame: (payload: unknown) => boolean;
+  getErrorMessage: (payload: unknown) => string | null;
+  getContextWindowRequest?: (baseUrl: string, model: string) => ProviderProbeRequest;
+  readContextWindow?: (payload: unknown) => number | null;
+  getTokenizeRequest?: (
+    baseUrl: string,
+    model: string,
+    text: string,
+  ) => ProviderProbeRequest;
+  readTokenCount?: (payload: unknown) => number | null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+
+const getMessageContent = (message: unknown): string => {
+  const content = asRecord(message)?.content;
+  return typeof content === "string" ? content : "";
+};
+
+const getFirstChoice = (payload: unknown): Record<string, unknown> | null => {
+  const choices = asRecord(payload)?.choices;
+  return Array.isArray(choices) ? asRecord(choices[0]) : null;
+};
+
+const asPositiveInteger = (value: unknown): number | null => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isInteger(number) && number > 0
+    ? number
+    : null;
+};
+
+export const readProviderErrorMessage = (payload: unknown): string | null => {
+  const error = asRecord(payload)?.error;
+  if (typeof error === "string") return error;
+  const message = asRecord(error)?.message;
+  return typeof message === "string" ? message : null;
+};
+
+export const ollamaAdapter: InferenceProviderAdapter = {
+  id: "ollama",
+  label: "Ollama",
+  defaultBaseUrl: API.OLLAMA_BASE_URL,
+  connectionHint: "Ensure `ollama serve` is running and reachable.",
+  modelsPath: "/tags",
+  chatPath: "/chat",
+  mapModels: (payload) =>
+    ((payload as OllamaTagsResponse | null)?.models ?? []).map((model) => ({
+      id: model.name,
+      name: model.name,
+    })),
+  createChatBody: ({ model, messages, options, stream }) => ({
+    model,
+    messages,
+    stream,
+    options,
+  }),
+  getResponseContent: (payload) =>
+    getMessageContent((payload as OllamaChatResponse | null)?.message),
+  getStreamingToken: (payload) => getMessageContent(asRecord(payload)?.message),
+  isTerminalFrame: (payload) => Boolean(asRecord(payload)?.done),
+  getErrorMessage: readProviderErrorMessage,
+  getContextWindowRequest: (baseUrl, model) => ({
+    url: `${baseUrl}/show`,
+    body: { model },
+  }),
+  readContextWindow: (payload) => {
+    const parameters = asRecord(payload)?.parameters;
+    if (typeof parameters !== "string") return null;
+    return asPositiveInteger(parameters.match(/^\s*num_ctx\s+(\d+)\s*$/mu)?.[1]);
+  },
+};
+
+export const createOpenAiCompatibleAdapter = ({
+  id,
+  label,
+  defaultBaseUrl,
+  connectionHint,
+}: Pick<
+  InferenceProviderAdapter,
+  "id" | "label" | "defaultBaseUrl" | "connectionHint"
+>): InferenceProviderAdapter => ({
+  id,
+  label,
+  defaultBaseUrl,
+  connectionHint,
+  modelsPath: "/models",
+  chatPath: "/chat/completions",
+  mapModels: (payload) =>
+    ((payload as LlamaCppModelsResponse | null)?.data ?? []).map((model) => ({
+      id: model.id,
+      name: model.id.split("/").pop() || model.id,
+    })),
+  createChatBody: ({ model, messages, options, stream }) => ({
+    model,
+    messages,
+    ...options,
+    stream,
+  }),
+  getResponseContent: (payload) =>
+    getMessageContent((payload as LlamaCppChatResponse | null)?.choices?.[0]?.message),
+  getStreamingToken: (payload) => {
+    const choice = getFirstChoice(payload);
+    if (!choice) return "";
+    const delta = asRecord(choice.delta);
+    if (typeof delta?.content === "string") return delta.content;
+    return getMessageContent(choice.message);
+  },
+  isTerminalFrame: (payload) => getFirstChoice(payload)?.finish_reason != null,
+  getErrorMessage: readProviderErrorMessage,
+});
+
+// llama-server serves /props and /tokenize outside its OpenAI-compatible /v1 prefix.
+const getLlamaCppServerUrl = (baseUrl: string): string => baseUrl.replace(/\/v1$/u, "");
+
+export const llamaCppAdapter: InferenceProviderAdapter = {
+  ...createOpenAiCompatibleAdapter({
+    id: "llamacpp",
+    label: "llama.cpp",
+    defaultBaseUrl: API.LLAMA_CPP_BASE_URL,
+    connectionHint: "Ensure `llama-server` is running and reachable.",
+  }),
+  getContextWindowRequest: (baseUrl) => ({
+    url: `${getLlamaCppServerUrl(baseUrl)}/props`,
+  }),
+  readContextWindow: (payload) =>
+    asPositiveInteger(
+      asRecord(asRecord(payload)?.default_generation_settings)?.n_ctx,
+    ) ?? asPositiveInteger(asRecord(payload)?.n_ctx),
+  getTokenizeRequest: (baseUrl, _model, text) => ({
+    url: `${getLlamaCppServerUrl(baseUrl)}/tokenize`,
+    body: { content: text, add_special: false },
+  }),
+  readTokenCount: (payload) => {
+    const tokens = asRecord(payload)?.tokens;
+    return Array.isArray(tokens) ? tokens.length : null;
+  },
+};
+
+export const openAiCompatibleAdapter = createOpenAiCompatibleAdapter({
+  id: "openai-compatible",
+  label: "OpenAI-compatible",
+  defaultBaseUrl: API.OPENAI_COMPATIBLE_BASE_URL,
+  connectionHint:
+    "Ensure the server exposes /v1/models and /v1/chat/completions and allows this origin.",
+});
+
+const adapters = new Map<string, InferenceProviderAdapter>();
+
+export const registerInferenceProvider = (adapter: InferenceProviderAdapter): void => {
+  if (!adapter.id || adapter.id.includes(":") || adapter.id.includes("@")) {
+    throw new Error(`Invalid inference provider id: ${adapter.id}`);
+  }
+  adapters.set(adapter.id, adapter);
+};
+
+export const getInferenceProvider = (
+  id: string,
+): InferenceProviderAdapter | undefined => adapters.get(id);
+
+export const hasInferenceProvider = (id: string): boolean => adapters.has(id);
+
+export const listInferenceProviders = (): InferenceProviderAdapter[] => [
+  ...adapters.values(),
+];
+
+registerInferenceProvider(ollamaAdapter);
+registerInferenceProvider(llamaCppAdapter);
+registerInferenceProvider(openAiCompatibleAdapter);
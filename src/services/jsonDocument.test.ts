@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import {
+  detectDocumentFormat,
+  escapeTranslation,
+  splitIntoDocumentChunks,
+} from "./documentFormats";
+import {
+  addJsonPluralKeys,
+  checkJsonTranslation,
+  findJsonSegments,
+  isJsonDocument,
+} from "./jsonDocument";
+import { maskPlaceholders, restorePlaceholders } from "./placeholderMasking";
+import {
+  DocumentStructureError,
+  reassembleTranslationChunks,
+} from "./translationChunking";
+
+const RESOURCES = [
+  "{",
+  '  "app": {',
+  '    "title": "Mi aplicación",',
+  '    "greeting": "Hola, {{name}}! Tienes $t(common:inbox).",',
+  '    "items_one": "{{count}} elemento",',
+  '    "items_other": "{{count}} elementos",',
+  '    "terms": "Acepta los <1>términos</1>\\ny \\"condiciones\\"."',
+  "  },",
+  '  "colors": ["rojo", ""],',
+  '  "count": 3',
+  "}",
+  "",
+].join("\n");
+
+const segmentTexts = (text: string): string[] =>
+  findJsonSegments(text).map(({ start, end }) => text.slice(start, end));
+
+describe("json resource files", () => {
+  it("recognizes JSON objects and arrays", () => {
+    expect(isJsonDocument(RESOURCES)).toBe(true);
+    expect(isJsonDocument('["uno", "dos"]')).toBe(true);
+    expect(isJsonDocument('{ "broken": }')).toBe(false);
+    expect(isJsonDocument("{{name}} is here")).toBe(false);
+    expect(detectDocumentFormat(RESOURCES)).toBe("json");
+  });
+
+  it("finds string values at any depth but never keys", () => {
+    expect(segmentTexts(RESOURCES)).toEqual([
+      "Mi aplicación",
+      "Hola, {{name}}! Tienes $t(common:inbox).",
+      "{{count}} elemento",
+      "{{count}} elementos",
+      'Acepta los <1>términos</1>\\ny \\"condiciones\\".',
+      "rojo",
+    ]);
+  });
+
+  it("batches values by budget and keeps keys, escapes, and i18next syntax", () => {
+    // Two copies hold more values than are kept one per chunk.
+    const resources = `[${RESOURCES.trim()}, ${RESOURCES.trim()}]`;
+    const chunks = splitIntoDocumentChunks(resources, "json", 1000);
+    const [chunk] = chunks;
+    const masked = maskPlaceholders(chunk?.text ?? "", chunk?.protectedRanges);
+
+    expect(chunks).toHaveLength(1);
+    expect(masked.text.split("\n").slice(0, 5)).toEqual([
+      "Mi aplicación⟦1⟧",
+      "⟦2⟧Hola, ⟦3⟧! Tienes ⟦4⟧.⟦1⟧",
+      "⟦5⟧⟦6⟧ elemento⟦1⟧",
+      "⟦7⟧⟦6⟧ elementos⟦1⟧",
+      "⟦8⟧Acepta los ⟦9⟧términos⟦10⟧⟦11⟧y ⟦12⟧condiciones⟦12⟧.⟦13⟧",
+    ]);
+
+    const translated = chunks.map(({ text }, index) => {
+      const { text: maskedText, placeholders } = maskPlaceholders(
+        text,
+        chunks[index]?.protectedRanges,
+      );
+      return restorePlaceholders(
+        escapeTranslation("json", maskedText.replace("Mi aplicación", 'Mi "app"')),
+        placeholders,
+      );
+    });
+    const output = reassembleTranslationChunks(chunks, translated);
+    expect(JSON.parse(output)[0].app).toEqual({
+      ...JSON.parse(RESOURCES).app,
+      title: 'Mi "app"',
+    });
+  });
+
+  it("adds the i18next plural keys the target language needs", () => {
+    const polish = addJsonPluralKeys(RESOURCES, "pl");
+
+    expect(polish).toBe(
+      RESOURCES.replace(
+        '    "items_other"',
+        [
+          '    "items_few": "{{count}} elementos",',
+          '    "items_many": "{{count}} elementos",',
+          '    "items_other"',
+        ].join("\n"),
+      ),
+    );
+    expect(JSON.parse(polish).app).toHaveProperty("items_many");
+    expect(addJsonPluralKeys(RESOURCES, "ja")).toBe(RESOURCES);
+    expect(
+      addJsonPluralKeys('{"a": {"x_one": "uno", "x_other": "varios"}}', "en"),
+    ).toBe('{"a": {"x_one": "uno", "x_other": "varios"}}');
+
+    const chunks = splitIntoDocumentChunks(
+      RESOURCES,
+      "json",
+      1000,
+      undefined,
+      undefined,
+      {
+        targetLanguage: "ru",
+      },
+    );
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(addJsonPluralKeys(RESOURCES, "ru"));
+  });
+
+  it("rejects a translation that adds or removes line breaks", () => {
+    expect(() =>
+      checkJsonTranslation('Uno",\n  "b": "Dos', 'One",\n  "b": "Two'),
+    ).not.toThrow();
+    expect(() =>
+      checkJsonTranslation('Uno",\n  "b": "Dos', 'One\nmore",\n  "b": "Two'),
+    ).toThrow(DocumentStructureError);
+  });
+});
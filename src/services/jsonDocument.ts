@@ -0,0 +1,153 @@
+import { getPluralCategories, PLURAL_CATEGORIES } from "./poDocument";
+import {
+  DocumentStructureError,
+  type ProtectedRange,
+  type TranslatableSegment,
+} from "./translationChunking";
+
+interface JsonString {
+  /** Offsets of the string's content, without its quotes. */
+  start: number;
+  end: number;
+  isKey: boolean;
+}
+
+const LETTER = /\p{L}/u;
+// Escape sequences, i18next nesting such as $t(common:save), and the numbered
+// tags of its Trans component, such as <1>…</1>.
+const RESOURCE_MARKUP = /\\(?:u[\da-fA-F]{4}|.)|\$t\([^()]*\)|<\/?\d+\s*\/?>/gu;
+// i18next plural keys such as `files_one`; ordinal ones follow other rules.
+const PLURAL_KEY = new RegExp(
+  `^(.*?)(?<!_ordinal)_(${PLURAL_CATEGORIES.join("|")})$`,
+  "u",
+);
+
+const findJsonStrings = (text: string): JsonString[] => {
+  const strings: JsonString[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] !== '"') {
+      index += 1;
+      continue;
+    }
+    const start = index + 1;
+    let end = start;
+    while (end < text.length && text[end] !== '"') end += text[end] === "\\" ? 2 : 1;
+    const next = text.slice(end + 1).search(/\S/u);
+    strings.push({ start, end, isKey: next >= 0 && text[end + 1 + next] === ":" });
+    index = end + 1;
+  }
+  return strings;
+};
+
+/** Whether `text` is a JSON object or array, such as an i18next resource file. */
+export const isJsonDocument = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The document with an i18next plural key added for each category the target
+ * language uses but a group of plural keys lacks, such as `files_few` and
+ * `files_many` for Polish. Each is a copy of the group's `_other` entry, put
+ * before it so the model translates it too; keys the language does not use
+ * are kept, since i18next ignores them.
+ */
+export const addJsonPluralKeys = (text: string, targetLanguage: string): string => {
+  const categories = getPluralCategories(targetLanguage);
+  const strings = findJsonStrings(text);
+  const entries = strings.flatMap((key, index) => {
+    const value = strings[index + 1];
+    const plural = PLURAL_KEY.exec(text.slice(key.start, key.end));
+    // Only a key whose value is a string, right after its colon, is copied.
+    if (!key.isKey || !value || value.isKey || !plural) return [];
+    if (!/^"\s*:\s*"$/u.test(text.slice(key.end, value.start))) return [];
+    return [{ key, value, base: plural[1] ?? "", category: plural[2] ?? "" }];
+  });
+
+  type PluralEntry = (typeof entries)[number];
+  // Entries of one group have the same base and are next to each other in one object.
+  const areGrouped = (
+    left: PluralEntry | undefined,
+    right: PluralEntry | undefined,
+  ): boolean =>
+    left !== undefined &&
+    right !== undefined &&
+    left.base === right.base &&
+    !/[{}[\]]/u.test(text.slice(left.value.end, right.key.start));
+
+  let result = "";
+  let cursor = 0;
+  entries.forEach((entry, index) => {
+    if (entry.category !== "other") return;
+    let first = index;
+    while (areGrouped(entries[first - 1], entries[first])) first -= 1;
+    let last = index;
+    while (areGrouped(entries[last], entries[last + 1])) last += 1;
+    const group = new Set(
+      entries.slice(first, last + 1).map(({ category }) => category),
+    );
+    const missing = categories.filter((category) => !group.has(category));
+    if (!missing.length) return;
+    const keyStart = entry.key.start - 1;
+    const lineStart = text.lastIndexOf("\n", keyStart - 1) + 1;
+    const indent = text.slice(lineStart, keyStart);
+    const lineBreak = /^[ \t]*$/u.test(indent)
+      ? `${text[lineStart - 2] === "\r" ? "\r\n" : "\n"}${indent}`
+      : " ";
+    const rest = text.slice(entry.key.end, entry.value.end + 1);
+    result += text.slice(cursor, keyStart);
+    for (const category of missing) {
+      result += `"${entry.base}_${category}${rest},${lineBreak}`;
+    }
+    cursor = keyStart;
+  });
+  return result + text.slice(cursor);
+};
+
+/**
+ * The string values of a JSON document, at any depth, in document order. Keys
+ * are left out, and escape sequences and i18next nesting and Trans tags inside
+ * a value are protected.
+ */
+export const findJsonSegments = (text: string): TranslatableSegment[] =>
+  findJsonStrings(text).flatMap(({ start, end, isKey }) => {
+    const value = text.slice(start, end);
+    if (isKey || !LETTER.test(value.replace(RESOURCE_MARKUP, ""))) return [];
+    const protectedRanges: ProtectedRange[] = Array.from(
+      value.matchAll(RESOURCE_MARKUP),
+      (match) => ({
+        start: start + match.index,
+        end: start + match.index + match[0].length,
+      }),
+    );
+    return [{ start, end, protectedRanges }];
+  });
+
+/**
+ * Escape the characters a translation may add that would end a JSON string.
+ * Line breaks are kept: inside a chunk they separate values.
+ */
+export const escapeJsonTranslation = (translation: string): string =>
+  translation.replace(/\\/gu, "\\\\").replace(/"/gu, '\\"').replace(/\t/gu, "\\t");
+
+/**
+ * Throws when a translated run of values has a different number of lines than
+ * its source. JSON strings cannot hold raw line breaks, so every line break in
+ * a chunk belongs to the document's layout.
+ */
+export const checkJsonTranslation = (source: string, translation: string): void => {
+  const expected = source.split("\n").length;
+  const actual = translation.split("\n").length;
+  if (expected !== actual) {
+    throw new DocumentStructureError(
+      `The model changed the line structure of the JSON values (expected ${expected} lines, got ${actual}).`,
+    );
+  }
+};
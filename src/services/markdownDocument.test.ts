@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import { detectDocumentFormat, splitIntoDocumentChunks } from "./documentFormats";
+import { findMarkdownSegments, isMarkdownDocument } from "./markdownDocument";
+import { maskPlaceholders } from "./placeholderMasking";
+import { reassembleTranslationChunks } from "./translationChunking";
+
+const segmentTexts = (text: string): string[] =>
+  findMarkdownSegments(text).map(({ start, end }) => text.slice(start, end));
+
+const README = [
+  "---",
+  "title: Getting started",
+  "---",
+  "",
+  "# Getting started",
+  "",
+  'Install the [package](https://example.com/pkg "Package") with `npm i`.',
+  "",
+  "- [ ] First step",
+  "- Second **step**",
+  "",
+  "```sh",
+  "npm ci",
+  "```",
+  "",
+  "| Name | Role |",
+  "| --- | --- |",
+  "| Ana | Lead |",
+  "",
+  '<div align="center">Logo</div>',
+  "",
+  "See [the docs] and ![logo](logo.png).",
+  "",
+  "[the docs]: https://example.com/docs",
+  "",
+].join("\n");
+
+describe("markdown documents", () => {
+  it("tells Markdown from plain prose", () => {
+    expect(isMarkdownDocument(README)).toBe(true);
+    expect(isMarkdownDocument("See [the guide](https://example.com).")).toBe(true);
+    expect(isMarkdownDocument("First paragraph.\n\nSecond, see https://x.y.")).toBe(
+      false,
+    );
+    expect(isMarkdownDocument("    An indented line of prose.")).toBe(false);
+    expect(detectDocumentFormat("---\ntitle: Notes\n---\nPlain text.")).toBe(
+      "markdown",
+    );
+  });
+
+  it("finds the prose of paragraphs, headings, list items, and table cells", () => {
+    expect(segmentTexts(README)).toEqual([
+      "Getting started",
+      'Install the [package](https://example.com/pkg "Package") with `npm i`.',
+      "First step",
+      "Second **step**",
+      "Name",
+      "Role",
+      "Ana",
+      "Lead",
+      "See [the docs] and ![logo](logo.png).",
+    ]);
+  });
+
+  it("protects link destinations, inline code, image URLs, and definition labels", () => {
+    const [, install, , , , , , , see] = findMarkdownSegments(README);
+    const protectedText = (segment: typeof install) =>
+      segment?.protectedRanges.map(({ start, end }) => README.slice(start, end));
+
+    expect(protectedText(install)).toEqual([
+      "[",
+      '](https://example.com/pkg "Package")',
+      "`npm i`",
+    ]);
+    expect(protectedText(see)).toEqual(["[the docs]", "![", "](logo.png)"]);
+  });
+
+  it("sends the alt text and title of an image and protects the rest", () => {
+    const text =
+      'Look: ![alt text](img.png "Img title") and ![Logo][logo] and ![logo]\n\n[logo]: logo.png\n';
+    const [chunk] = splitIntoDocumentChunks(text, "markdown", 1000);
+
+    expect(maskPlaceholders(chunk?.text ?? "", chunk?.protectedRanges).text).toBe(
+      "Look: ⟦1⟧alt text⟦2⟧Img title⟦3⟧ and ⟦1⟧Logo⟦4⟧ and ⟦5⟧",
+    );
+  });
+
+  it("sends only prose to the model and reassembles the markup verbatim", () => {
+    const chunks = splitIntoDocumentChunks(README, "markdown", 1000);
+    const [chunk] = chunks;
+
+    expect(chunks).toHaveLength(1);
+    expect(chunk?.leadingSeparator).toBe("---\ntitle: Getting started\n---\n\n# ");
+    expect(chunk?.trailingSeparator).toBe("\n\n[the docs]: https://example.com/docs\n");
+    expect(maskPlaceholders(chunk?.text ?? "", chunk?.protectedRanges).text).toBe(
+      [
+        "Getting started",
+        "",
+        "Install the ⟦1⟧package⟦2⟧ with ⟦3⟧.",
+        "",
+        "⟦4⟧First step",
+        "⟦5⟧Second **step**",
+        "",
+        "⟦6⟧",
+        "⟦7⟧",
+        "⟦8⟧",
+        "",
+        "⟦9⟧Name⟦10⟧Role⟦11⟧",
+        "⟦12⟧",
+        "⟦9⟧Ana⟦10⟧Lead⟦11⟧",
+        "",
+        "⟦13⟧",
+        "",
+        "See ⟦14⟧ and ⟦15⟧logo⟦16⟧.",
+      ].join("\n"),
+    );
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(README);
+  });
+
+  it("sends the cells of a short table together with their heading", () => {
+    const chunks = splitIntoDocumentChunks(
+      "# Sizes\n\n| a | b |\n| --- | --- |\n| one | two |\n",
+      "markdown",
+      1000,
+    );
+
+    expect(
+      chunks.map(
+        ({ text, protectedRanges }) => maskPlaceholders(text, protectedRanges).text,
+      ),
+    ).toEqual(["Sizes\n\n⟦1⟧a⟦2⟧b⟦3⟧\n⟦4⟧\n⟦1⟧one⟦2⟧two"]);
+  });
+
+  it("has nothing to translate in a document of code only", () => {
+    expect(splitIntoDocumentChunks("```js\nconst a = 1;\n```\n", "markdown")).toEqual(
+      [],
+    );
+  });
+});
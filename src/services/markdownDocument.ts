@@ -0,0 +1,205 @@
+import type { Nodes, Root } from "mdast";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import type { ProtectedRange, TranslatableSegment } from "./translationChunking";
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+// YAML (---) or TOML (+++) front matter, which remark would read as a heading.
+const FRONT_MATTER = /^(---|\+\+\+)[ \t]*\r?\n(?:[\s\S]*?\r?\n)?\1[ \t]*(?:\r?\n|$)/u;
+const LETTER = /\p{L}/u;
+const FENCE_START = /^[ \t]*(?:`{3,}|~{3,})/u;
+// The title at the end of an image's destination, after its URL.
+const IMAGE_TITLE =
+  /\s(?:"((?:[^"\\]|\\[\s\S])*)"|'((?:[^'\\]|\\[\s\S])*)'|\(((?:[^()\\]|\\[\s\S])*)\))\s*$/u;
+
+// Blocks whose inline content is prose.
+const PROSE_BLOCKS = new Set(["paragraph", "heading", "tableCell"]);
+// Inline nodes kept verbatim: the model never sees code, raw HTML, hard breaks,
+// or footnote markers.
+const VERBATIM_INLINE = new Set(["inlineCode", "html", "break", "footnoteReference"]);
+// Nodes that only occur in documents written as Markdown, unlike plain text.
+const MARKDOWN_STRUCTURE = new Set([
+  "heading",
+  "list",
+  "table",
+  "blockquote",
+  "html",
+  "thematicBreak",
+  "inlineCode",
+  "image",
+  "imageReference",
+  "definition",
+  "footnoteDefinition",
+]);
+
+interface ParsedMarkdown {
+  text: string;
+  /** Length of the front matter; node offsets are relative to the text after it. */
+  offset: number;
+  root: Root;
+}
+
+let lastParsed: ParsedMarkdown | null = null;
+
+// Detection and chunking parse the same draft back to back.
+const parseMarkdown = (text: string): ParsedMarkdown => {
+  if (lastParsed?.text === text) return lastParsed;
+  const offset = FRONT_MATTER.exec(text)?.[0].length ?? 0;
+  lastParsed = { text, offset, root: parser.parse(text.slice(offset)) };
+  return lastParsed;
+};
+
+const getStart = (node: Nodes): number => node.position?.start.offset ?? 0;
+const getEnd = (node: Nodes): number => node.position?.end.offset ?? 0;
+
+const hasChildren = (node: Nodes): node is Extract<Nodes, { children: unknown }> =>
+  "children" in node && Array.isArray(node.children);
+
+const isMarkdownStructure = (node: Nodes, text: string): boolean => {
+  if (MARKDOWN_STRUCTURE.has(node.type)) return true;
+  // Indented code is too common in plain text to count; fences are not.
+  if (node.type === "code") return FENCE_START.test(text.slice(getStart(node)));
+  if (node.type === "link") return text[getStart(node)] === "[";
+  if (node.type === "linkReference") return node.referenceType === "full";
+  return (
+    hasChildren(node) && node.children.some((child) => isMarkdownStructure(child, text))
+  );
+};
+
+/**
+ * Whether `text` is written as Markdown rather than plain prose: front matter,
+ * headings, lists, tables, fenced code, inline markup, or bracketed links.
+ */
+export const isMarkdownDocument = (text: string): boolean => {
+  const { offset, root } = parseMarkdown(text);
+  return offset > 0 || isMarkdownStructure(root, text.slice(offset));
+};
+
+/** Where the bracketed text that starts at `start` ends, before its `]`. */
+const findBracketEnd = (text: string, start: number, end: number): number => {
+  let depth = 0;
+  for (let index = start; index < end; index += 1) {
+    if (text[index] === "\\") index += 1;
+    else if (text[index] === "[") depth += 1;
+    else if (text[index] === "]" && !depth--) return index;
+  }
+  return end;
+};
+
+/**
+ * An image's alt text and title, which are translated; its markers, URL, and
+ * reference label are protected. An image named by its label stays verbatim.
+ */
+const collectImage = (
+  node: Extract<Nodes, { type: "image" | "imageReference" }>,
+  text: string,
+  protectedRanges: ProtectedRange[],
+): boolean => {
+  const start = getStart(node);
+  const end = getEnd(node);
+  const altStart = start + 2;
+  const altEnd = findBracketEnd(text, altStart, end);
+  const proseRanges = [{ start: altStart, end: altEnd }];
+  if (node.type === "image" && node.title) {
+    const title = IMAGE_TITLE.exec(text.slice(altEnd + 2, end - 1));
+    const value = title?.[1] ?? title?.[2] ?? title?.[3];
+    if (title && value !== undefined) {
+      const titleEnd = altEnd + 2 + title.index + title[0].trimEnd().length - 1;
+      proseRanges.push({ start: titleEnd - value.length, end: titleEnd });
+    }
+  }
+  const translated = proseRanges.filter(
+    (range) =>
+      (node.type === "image" || node.referenceType === "full") &&
+      LETTER.test(text.slice(range.start, range.end)),
+  );
+  let cursor = start;
+  for (const range of translated) {
+    protectedRanges.push({ start: cursor, end: range.start });
+    cursor = range.end;
+  }
+  protectedRanges.push({ start: cursor, end });
+  return translated.length > 0;
+};
+
+const collectInline = (
+  node: Nodes,
+  text: string,
+  protectedRanges: ProtectedRange[],
+): boolean => {
+  const whole = { start: getStart(node), end: getEnd(node) };
+  if (node.type === "text") return LETTER.test(node.value);
+  if (node.type === "image" || node.type === "imageReference") {
+    return collectImage(node, text, protectedRanges);
+  }
+  if (VERBATIM_INLINE.has(node.type)) {
+    protectedRanges.push(whole);
+    return false;
+  }
+  // Autolinks and labels that name a definition must stay as written.
+  const isVerbatimLink =
+    (node.type === "link" && text[whole.start] !== "[") ||
+    (node.type === "linkReference" && node.referenceType !== "full");
+  if (isVerbatimLink || !hasChildren(node) || !node.children.length) {
+    if (isVerbatimLink) protectedRanges.push(whole);
+    return false;
+  }
+
+  const first = node.children[0] as Nodes;
+  const last = node.children[node.children.length - 1] as Nodes;
+  if (node.type === "link" || node.type === "linkReference") {
+    // Only the link text is translated; its bracket and destination are not.
+    protectedRanges.push({ start: whole.start, end: getStart(first) });
+    protectedRanges.push({ start: getEnd(last), end: whole.end });
+  }
+  let hasProse = false;
+  for (const child of node.children) {
+    if (collectInline(child, text, protectedRanges)) hasProse = true;
+  }
+  return hasProse;
+};
+
+const collectSegments = (
+  node: Nodes,
+  text: string,
+  segments: TranslatableSegment[],
+): void => {
+  if (!hasChildren(node) || !node.children.length) return;
+  if (!PROSE_BLOCKS.has(node.type)) {
+    for (const child of node.children) collectSegments(child, text, segments);
+    return;
+  }
+
+  const protectedRanges: ProtectedRange[] = [];
+  const hasProse = node.children
+    .map((child) => collectInline(child, text, protectedRanges))
+    .some(Boolean);
+  if (!hasProse) return;
+  segments.push({
+    start: getStart(node.children[0] as Nodes),
+    end: getEnd(node.children[node.children.length - 1] as Nodes),
+    protectedRanges,
+  });
+};
+
+/**
+ * The inline content of each paragraph, heading, and table cell that holds
+ * prose, in document order. Front matter, code, HTML blocks, definitions, and
+ * the syntax around the segments are left out, so they never reach the model.
+ */
+export const findMarkdownSegments = (text: string): TranslatableSegment[] => {
+  const { offset, root } = parseMarkdown(text);
+  const segments: TranslatableSegment[] = [];
+  collectSegments(root, text.slice(offset), segments);
+  if (!offset) return segments;
+  const shift = (range: ProtectedRange): ProtectedRange => ({
+    start: range.start + offset,
+    end: range.end + offset,
+  });
+  return segments.map((segment) => ({
+    ...shift(segment),
+    protectedRanges: segment.protectedRanges.map(shift),
+  }));
+};
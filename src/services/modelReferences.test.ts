@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createModelReference,
+  findProviderEndpoint,
+  mapProviderModelsToOptions,
+  parseModelReference,
+} from "./modelReferences";
+
+const lanEndpoint = {
+  id: "lan",
+  provider: "ollama",
+  label: "LAN",
+  baseUrl: "http://192.168.1.20:11434",
+} as const;
+
+describe("model references", () => {
+  it("preserves provider namespaces and model names", () => {
+    expect(parseModelReference("ollama:translategemma:4b")).toEqual({
+      provider: "ollama",
+      endpointId: "ollama",
+      model: "translategemma:4b",
+    });
+    expect(parseModelReference("llamacpp:local.gguf")).toEqual({
+      provider: "llamacpp",
+      endpointId: "llamacpp",
+      model: "local.gguf",
+    });
+  });
+
+  it("addresses additional endpoints without changing default references", () => {
+    expect(createModelReference("ollama", "translategemma:4b")).toBe(
+      "ollama:translategemma:4b",
+    );
+    const reference = createModelReference("ollama", "translategemma:4b", "lan");
+    expect(reference).toBe("ollama@lan:translategemma:4b");
+    expect(parseModelReference(reference)).toEqual({
+      provider: "ollama",
+      endpointId: "lan",
+      model: "translategemma:4b",
+    });
+  });
+
+  it("falls back to Ollama for references without a registered provider", () => {
+    expect(parseModelReference("unknown:model")).toEqual({
+      provider: "ollama",
+      endpointId: "ollama",
+      model: "unknown:model",
+    });
+  });
+
+  it("finds the endpoint a model option was listed from", () => {
+    const [option] = mapProviderModelsToOptions(
+      [{ id: "translategemma:4b", name: "translategemma:4b" }],
+      lanEndpoint,
+    );
+    expect(option).toEqual({
+      value: "ollama@lan:translategemma:4b",
+      label: "translategemma:4b · LAN",
+      group: "LAN",
+    });
+    expect(findProviderEndpoint([lanEndpoint], option?.value ?? "")).toBe(lanEndpoint);
+    expect(findProviderEndpoint([lanEndpoint], "ollama:translategemma:4b")).toBe(
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import type { DropdownOption, InferenceProvider, ProviderEndpoint } from "../types";
+import { hasInferenceProvider, type ProviderModel } from "./inferenceProviders";
+
+const MODEL_REFERENCE_SEPARATOR = ":";
+const ENDPOINT_REFERENCE_SEPARATOR = "@";
+
+/**
+ * Models served by a provider's default endpoint keep the short
+ * `provider:model` form so persisted selections survive endpoint edits; any
+ * additional endpoint is addressed as `provider@endpoint:model`.
+ */
+export const createModelReference = (
+  provider: InferenceProvider,
+  model: string,
+  endpointId: string = provider,
+): string =>
+  endpointId === provider
+    ? `${provider}${MODEL_REFERENCE_SEPARATOR}${model}`
+    : `${provider}${ENDPOINT_REFERENCE_SEPARATOR}${endpointId}${MODEL_REFERENCE_SEPARATOR}${model}`;
+
+export const parseModelReference = (
+  reference: string,
+): { provider: InferenceProvider; endpointId: string; model: string } => {
+  const separatorIndex = reference.indexOf(MODEL_REFERENCE_SEPARATOR);
+  if (separatorIndex < 0) {
+    return { provider: "ollama", endpointId: "ollama", model: reference };
+  }
+
+  const prefix = reference.slice(0, separatorIndex);
+  const model = reference.slice(separatorIndex + 1);
+  const endpointSeparatorIndex = prefix.indexOf(ENDPOINT_REFERENCE_SEPARATOR);
+  const provider =
+    endpointSeparatorIndex < 0 ? prefix : prefix.slice(0, endpointSeparatorIndex);
+  const endpointId =
+    endpointSeparatorIndex < 0 ? prefix : prefix.slice(endpointSeparatorIndex + 1);
+  if (!hasInferenceProvider(provider) || !endpointId) {
+    return { provider: "ollama", endpointId: "ollama", model: reference };
+  }
+  return { provider, endpointId, model };
+};
+
+export const findProviderEndpoint = (
+  endpoints: readonly ProviderEndpoint[],
+  reference: string,
+): ProviderEndpoint | undefined => {
+  const { provider, endpointId } = parseModelReference(reference);
+  return endpoints.find(
+    (endpoint) => endpoint.id === endpointId && endpoint.provider === provider,
+  );
+};
+
+export const mapProviderModelsToOptions = (
+  models: readonly ProviderModel[],
+  endpoint: ProviderEndpoint,
+): DropdownOption[] =>
+  models.map((model) => ({
+    value: createModelReference(endpoint.provider, model.id, endpoint.id),
+    label: `${model.name} · ${endpoint.label}`,
+    group: endpoint.label,
+  }));
@@ -1,5 +1,11 @@
 import { afterEach, describe, expect, it, mock } from "bun:test";
-import { fetchAvailableModels, fetchTranslation } from "./ollamaApi";
+import {
+  fetchAvailableModels,
+  fetchModelContextWindow,
+  fetchTokenCount,
+  fetchTranslation,
+  isRetryableProviderError,
+} from "./ollamaApi";
 
 const originalFetch = globalThis.fetch;
 
@@ -52,10 +58,12 @@ describe("fetchAvailableModels", () => {
       {
         value: "ollama:translategemma:4b",
         label: "translategemma:4b · Ollama",
+        group: "Ollama",
       },
       {
         value: "llamacpp:translategemma-12b.gguf",
         label: "translategemma-12b.gguf · llama.cpp",
+        group: "llama.cpp",
       },
     ]);
   });
@@ -75,6 +83,50 @@ describe("fetchAvailableModels", () => {
     expect(models.map((model) => model.value)).toEqual(["llamacpp:local.gguf"]);
   });
 
+  it("discovers models on every configured endpoint", async () => {
+    const urls: string[] = [];
+    mockFetch(async (input: RequestInfo | URL) => {
+      urls.push(String(input));
+      return jsonResponse({ models: [{ name: "translategemma:4b" }] });
+    });
+
+    const models = await fetchAvailableModels([
+      { id: "ollama", provider: "ollama", label: "Ollama", baseUrl: "http://a:1/api" },
+      { id: "lan", provider: "ollama", label: "LAN box", baseUrl: "http://b:2/api" },
+    ]);
+
+    expect(urls).toEqual(["http://a:1/api/tags", "http://b:2/api/tags"]);
+    expect(models).toEqual([
+      {
+        value: "ollama:translategemma:4b",
+        label: "translategemma:4b · Ollama",
+        group: "Ollama",
+      },
+      {
+        value: "ollama@lan:translategemma:4b",
+        label: "translategemma:4b · LAN box",
+        group: "LAN box",
+      },
+    ]);
+  });
+
+  it("names the unreachable endpoint in connection errors", async () => {
+    mockFetch(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    await expect(
+      fetchAvailableModels([
+        {
+          id: "llamacpp",
+          provider: "llamacpp",
+          label: "llama.cpp",
+          baseUrl: "http://localhost:8080/v1",
+        },
+      ]),
+    ).rejects.toThrow("Could not connect to llama.cpp at http://localhost:8080/v1.");
+  });
+
   it("reports both providers when neither is available", async () => {
     mockFetch(async () => {
       throw new TypeError("Failed to fetch");
@@ -87,6 +139,90 @@ describe("fetchAvailableModels", () => {
   });
 });
 
+describe("fetchModelContextWindow", () => {
+  it("reads num_ctx from Ollama's model parameters", async () => {
+    const requests: Array<{ url: string; body: string }> = [];
+    mockFetch(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), body: String(init?.body) });
+      return jsonResponse({
+        parameters: 'num_ctx                        8192\nstop "<eos>"',
+      });
+    });
+
+    await expect(fetchModelContextWindow("ollama:translategemma:4b")).resolves.toBe(
+      8192,
+    );
+    expect(requests).toEqual([
+      {
+        url: "http://localhost:11434/api/show",
+        body: JSON.stringify({ model: "translategemma:4b" }),
+      },
+    ]);
+  });
+
+  it("reads n_ctx from llama.cpp props at the server root", async () => {
+    let url = "";
+    mockFetch(async (input: RequestInfo | URL) => {
+      url = String(input);
+      return jsonResponse({ default_generation_settings: { n_ctx: 16384 } });
+    });
+
+    await expect(fetchModelContextWindow("llamacpp:local.gguf")).resolves.toBe(16384);
+    expect(url).toBe("http://localhost:4256/props");
+  });
+
+  it("falls back when the context is unknown or unreachable", async () => {
+    const fetchMock = mock(async () => jsonResponse({ parameters: "stop <eos>" }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    await expect(
+      fetchModelContextWindow("ollama:translategemma:4b"),
+    ).resolves.toBeNull();
+
+    await expect(
+      fetchModelContextWindow("openai-compatible@lmstudio:qwen", [
+        {
+          id: "lmstudio",
+          provider: "openai-compatible",
+          label: "LM Studio",
+          baseUrl: "http://localhost:1234/v1",
+        },
+      ]),
+    ).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    mockFetch(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    await expect(fetchModelContextWindow("llamacpp:local.gguf")).resolves.toBeNull();
+  });
+});
+
+describe("fetchTokenCount", () => {
+  it("tokenizes through llama.cpp's root /tokenize endpoint", async () => {
+    const requests: Array<{ url: string; body: string }> = [];
+    mockFetch(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), body: String(init?.body) });
+      return jsonResponse({ tokens: [9906, 11, 1917, 0] });
+    });
+
+    await expect(fetchTokenCount("llamacpp:local.gguf", "Hello, world!")).resolves.toBe(
+      4,
+    );
+    expect(requests).toEqual([
+      {
+        url: "http://localhost:4256/tokenize",
+        body: JSON.stringify({ content: "Hello, world!", add_special: false }),
+      },
+    ]);
+  });
+
+  it("rejects providers without a tokenizer endpoint", async () => {
+    await expect(fetchTokenCount("ollama:translategemma:4b", "Hello")).rejects.toThrow(
+      "does not expose a tokenizer",
+    );
+  });
+});
+
 describe("fetchTranslation", () => {
   it("uses Ollama's native chat payload", async () => {
     let request: RequestInit | undefined;
@@ -138,6 +274,85 @@ describe("fetchTranslation", () => {
     });
   });
 
+  it("dispatches to the endpoint encoded in the model reference", async () => {
+    let url = "";
+    mockFetch(async (input: RequestInfo | URL) => {
+      url = String(input);
+      return jsonResponse({ message: { role: "assistant", content: "Hola" } });
+    });
+
+    await fetchTranslation({
+      model: "ollama@lan:translategemma:4b",
+      messages: [{ role: "user", content: "Hello" }],
+      endpoints: [
+        { id: "lan", provider: "ollama", label: "LAN", baseUrl: "http://10.0.0.2/api" },
+      ],
+    });
+
+    expect(url).toBe("http://10.0.0.2/api/chat");
+    await expect(
+      fetchTranslation({
+        model: "ollama@removed:translategemma:4b",
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    ).rejects.toThrow("no longer configured");
+  });
+
+  it("sends the API key and custom headers of OpenAI-compatible endpoints", async () => {
+    const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+    const deltas: string[] = [];
+    const endpoint = {
+      id: "lmstudio",
+      provider: "openai-compatible",
+      label: "LM Studio",
+      baseUrl: "http://localhost:1234/v1",
+      apiKey: "secret",
+      headers: { "X-Team": "docs" },
+    };
+    mockFetch(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({
+        url: String(input),
+        headers: init?.headers as Record<string, string>,
+      });
+      if (String(input).endsWith("/models")) {
+        return jsonResponse({ data: [{ id: "qwen2.5-7b-instruct" }] });
+      }
+      return streamingResponse(
+        'data: {"choices":[{"delta":{"content":"Hola"},"finish_reason":"stop"}]}\n\n',
+      );
+    });
+
+    const [option] = await fetchAvailableModels([endpoint]);
+    expect(option).toEqual({
+      value: "openai-compatible@lmstudio:qwen2.5-7b-instruct",
+      label: "qwen2.5-7b-instruct · LM Studio",
+      group: "LM Studio",
+    });
+    await expect(
+      fetchTranslation({
+        model: option?.value ?? "",
+        messages: [{ role: "user", content: "Hello" }],
+        onDelta: (delta) => deltas.push(delta),
+        endpoints: [endpoint],
+      }),
+    ).resolves.toBe("Hola");
+
+    expect(requests.map(({ url }) => url)).toEqual([
+      "http://localhost:1234/v1/models",
+      "http://localhost:1234/v1/chat/completions",
+    ]);
+    expect(requests[0]?.headers).toEqual({
+      "X-Team": "docs",
+      Authorization: "Bearer secret",
+    });
+    expect(requests[1]?.headers).toEqual({
+      "X-Team": "docs",
+      Authorization: "Bearer secret",
+      "Content-Type": "application/json",
+    });
+    expect(deltas).toEqual(["Hola"]);
+  });
+
   it("forwards caller cancellation to the provider request", async () => {
     const controller = new AbortController();
     let requestSignal: AbortSignal | undefined;
@@ -227,4 +442,35 @@ describe("fetchTranslation", () => {
       }),
     ).rejects.toThrow("model failed");
   });
+
+  it("classifies transient and fatal provider failures", async () => {
+    const translate = (): Promise<string> =>
+      fetchTranslation({
+        model: "ollama:translategemma:4b",
+        messages: [{ role: "user", content: "Hello" }],
+        onDelta: () => undefined,
+      });
+    const rejection = (): Promise<unknown> => translate().catch((error) => error);
+
+    mockFetch(async () => jsonResponse({ error: "model is loading" }, 503));
+    expect(isRetryableProviderError(await rejection())).toBe(true);
+
+    mockFetch(async () => jsonResponse({ error: "model not found" }, 404));
+    const fatal = await rejection();
+    expect(isRetryableProviderError(fatal)).toBe(false);
+    expect(fatal).toMatchObject({ message: "model not found", status: 404 });
+
+    mockFetch(async () =>
+      streamingResponse('{"message":{"content":"partial"},"done":false}\n'),
+    );
+    expect(isRetryableProviderError(await rejection())).toBe(true);
+
+    mockFetch(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    expect(isRetryableProviderError(await rejection())).toBe(true);
+
+    mockFetch(async () => streamingResponse('{"error":"model failed"}\n'));
+    expect(isRetryableProviderError(await rejection())).toBe(false);
+  });
 });
@@ -1,101 +1,111 @@
+import { DEFAULT_PROVIDER_ENDPOINTS, LIMITS } from "../config/constants";
+import type { DropdownOption, OllamaMessage, ProviderEndpoint } from "../types";
+import { isAbortError, withInactivityTimeout, withTimeout } from "../utils/transforms";
 import {
-  LIMITS,
-  LLAMA_CPP_API_BASE_URL,
-  OLLAMA_API_BASE_URL,
-} from "../config/constants";
-import type {
-  DropdownOption,
-  InferenceProvider,
-  LlamaCppChatResponse,
-  LlamaCppModelsResponse,
-  OllamaChatResponse,
-  OllamaMessage,
-  OllamaTagsResponse,
-} from "../types";
+  getInferenceProvider,
+  type InferenceProviderAdapter,
+  type ProviderProbeRequest,
+} from "./inferenceProviders";
 import {
-  isAbortError,
-  mapLlamaCppModelsToOptions,
-  mapOllamaModelsToOptions,
+  findProviderEndpoint,
+  mapProviderModelsToOptions,
   parseModelReference,
-  withInactivityTimeout,
-  withTimeout,
-} from "../utils/transforms";
+} from "./modelReferences";
 
 const { MODEL_FETCH_TIMEOUT, TRANSLATION_TIMEOUT } = LIMITS;
 
-interface ProviderModelsRequest<T> {
-  provider: InferenceProvider;
-  endpoint: string;
-  mapResponse: (response: T) => DropdownOption[];
-  httpErrorMessage: (response: Response) => string;
-  timeoutMessage: string;
+// Loading models answer 503, overloaded servers 429, and gateways 502/504.
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** A provider failure classified as transient (worth retrying) or fatal. */
+export class ProviderRequestError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = "ProviderRequestError";
+    this.retryable = retryable;
+    this.status = status;
+  }
 }
 
-const handleNetworkError = (error: unknown, provider?: InferenceProvider): string => {
-  if (error instanceof TypeError) {
-    const msg = error.message.toLowerCase();
-    if (
-      msg.includes("failed to fetch") ||
-      msg.includes("networkerror") ||
-      msg.includes("load failed")
-    ) {
-      if (provider === "ollama")
-        return "Could not connect to Ollama. Ensure `ollama serve` is running.";
-      if (provider === "llamacpp")
-        return "Could not connect to llama.cpp. Ensure `llama-server` is running on port 4256.";
-      return "Could not connect to Ollama or llama.cpp.";
-    }
+export const isRetryableProviderError = (error: unknown): boolean =>
+  error instanceof ProviderRequestError && error.retryable;
+
+const resolveAdapter = (endpoint: ProviderEndpoint): InferenceProviderAdapter => {
+  const adapter = getInferenceProvider(endpoint.provider);
+  if (!adapter) {
+    throw new Error(
+      `${endpoint.label} uses an unsupported provider type: ${endpoint.provider}.`,
+    );
+  }
+  return adapter;
+};
+
+const createRequestHeaders = (
+  endpoint: ProviderEndpoint,
+  headers: Record<string, string> = {},
+): Record<string, string> => ({
+  ...endpoint.headers,
+  ...(endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {}),
+  ...headers,
+});
+
+const isConnectionFailure = (error: unknown): boolean => {
+  if (!(error instanceof TypeError)) return false;
+  const msg = error.message.toLowerCase();
+  return (
+    msg.includes("failed to fetch") ||
+    msg.includes("networkerror") ||
+    msg.includes("load failed")
+  );
+};
+
+const handleNetworkError = (error: unknown, endpoint?: ProviderEndpoint): string => {
+  if (isConnectionFailure(error)) {
+    if (!endpoint) return "Could not connect to the configured inference provider.";
+    const hint = getInferenceProvider(endpoint.provider)?.connectionHint;
+    return `Could not connect to ${endpoint.label} at ${endpoint.baseUrl}.${hint ? ` ${hint}` : ""}`;
   }
   return error instanceof Error ? error.message : "An unknown network error occurred.";
 };
 
-const fetchProviderModels = async <T>({
-  provider,
-  endpoint,
-  mapResponse,
-  httpErrorMessage,
-  timeoutMessage,
-}: ProviderModelsRequest<T>): Promise<DropdownOption[]> =>
-  withTimeout(async (signal) => {
-    const response = await fetch(endpoint, { signal });
-    if (!response.ok) throw new Error(httpErrorMessage(response));
-
-    const data = (await response.json()) as T;
-    return mapResponse(data);
+export const fetchEndpointModels = async (
+  endpoint: ProviderEndpoint,
+): Promise<DropdownOption[]> => {
+  const adapter = resolveAdapter(endpoint);
+  return withTimeout(async (signal) => {
+    const response = await fetch(`${endpoint.baseUrl}${adapter.modelsPath}`, {
+      headers: createRequestHeaders(endpoint),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch models from ${endpoint.label}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data: unknown = await response.json();
+    return mapProviderModelsToOptions(adapter.mapModels(data), endpoint);
   }, MODEL_FETCH_TIMEOUT).catch((error) => {
     if (error instanceof Error && error.message.includes("timed out")) {
-      throw new Error(timeoutMessage);
+      throw new Error(
+        `${endpoint.label} at ${endpoint.baseUrl} is not responding. ${adapter.connectionHint}`,
+      );
     }
-    throw new Error(handleNetworkError(error, provider));
-  });
-
-const fetchOllamaModels = (): Promise<DropdownOption[]> =>
-  fetchProviderModels<OllamaTagsResponse>({
-    provider: "ollama",
-    endpoint: `${OLLAMA_API_BASE_URL}/tags`,
-    mapResponse: mapOllamaModelsToOptions,
-    httpErrorMessage: (response) =>
-      `Failed to fetch models: ${response.status} ${response.statusText}`,
-    timeoutMessage:
-      "Ollama server not responding. Ensure it is running and accessible.",
+    throw new Error(handleNetworkError(error, endpoint));
   });
+};
 
-const fetchLlamaCppModels = (): Promise<DropdownOption[]> =>
-  fetchProviderModels<LlamaCppModelsResponse>({
-    provider: "llamacpp",
-    endpoint: `${LLAMA_CPP_API_BASE_URL}/models`,
-    mapResponse: mapLlamaCppModelsToOptions,
-    httpErrorMessage: (response) =>
-      `Failed to fetch llama.cpp models: ${response.status} ${response.statusText}`,
-    timeoutMessage:
-      "llama.cpp server not responding. Ensure llama-server is running on port 4256.",
-  });
+export const fetchAvailableModels = async (
+  endpoints: readonly ProviderEndpoint[] = DEFAULT_PROVIDER_ENDPOINTS,
+): Promise<DropdownOption[]> => {
+  if (endpoints.length === 0) {
+    throw new Error("No provider endpoints are configured.");
+  }
 
-export const fetchAvailableModels = async (): Promise<DropdownOption[]> => {
-  const results = await Promise.allSettled([
-    fetchOllamaModels(),
-    fetchLlamaCppModels(),
-  ]);
+  const results = await Promise.allSettled(endpoints.map(fetchEndpointModels));
   const models = results.flatMap((result) =>
     result.status === "fulfilled" ? result.value : [],
   );
@@ -109,73 +119,108 @@ export const fetchAvailableModels = async (): Promise<DropdownOption[]> => {
   throw new Error(errors.join(" ") || "No local inference models found.");
 };
 
-const readApiError = async (response: Response): Promise<string> => {
+const readApiError = async (
+  response: Response,
+  adapter: InferenceProviderAdapter,
+): Promise<string> => {
   const data = await response.json().catch(() => null);
-  if (typeof data?.error === "string") return data.error;
-  if (typeof data?.error?.message === "string") return data.error.message;
-  return `HTTP error: ${response.status}`;
+  return adapter.getErrorMessage(data) ?? `HTTP error: ${response.status}`;
 };
 
-export type TranslationDeltaHandler = (delta: string) => void;
+const createApiError = async (
+  response: Response,
+  adapter: InferenceProviderAdapter,
+): Promise<ProviderRequestError> =>
+  new ProviderRequestError(
+    await readApiError(response, adapter),
+    RETRYABLE_STATUS_CODES.has(response.status),
+    response.status,
+  );
 
-type StreamingFrame = {
-  delta: string;
-  terminal: boolean;
-};
+const fetchProviderProbe = (
+  endpoint: ProviderEndpoint,
+  { url, body }: ProviderProbeRequest,
+  signal: AbortSignal,
+): Promise<Response> =>
+  fetch(
+    url,
+    body === undefined
+      ? { headers: createRequestHeaders(endpoint), signal }
+      : {
+          method: "POST",
+          headers: createRequestHeaders(endpoint, {
+            "Content-Type": "application/json",
+          }),
+          body: JSON.stringify(body),
+          signal,
+        },
+  );
 
-const getStreamingToken = (payload: unknown, isOllama: boolean): string => {
-  if (!payload || typeof payload !== "object") return "";
-  const record = payload as Record<string, unknown>;
-  if (isOllama) {
-    const message = record.message;
-    if (message && typeof message === "object") {
-      const content = (message as Record<string, unknown>).content;
-      return typeof content === "string" ? content : "";
-    }
-    return "";
+export const fetchModelContextWindow = async (
+  model: string,
+  endpoints: readonly ProviderEndpoint[] = DEFAULT_PROVIDER_ENDPOINTS,
+): Promise<number | null> => {
+  const endpoint = findProviderEndpoint(endpoints, model);
+  const adapter = endpoint ? getInferenceProvider(endpoint.provider) : undefined;
+  if (!endpoint || !adapter?.getContextWindowRequest || !adapter.readContextWindow) {
+    return null;
   }
 
-  const choices = record.choices;
-  if (!Array.isArray(choices)) return "";
-  const choice = choices[0];
-  if (!choice || typeof choice !== "object") return "";
-  const choiceRecord = choice as Record<string, unknown>;
-  const delta = choiceRecord.delta;
-  if (delta && typeof delta === "object") {
-    const content = (delta as Record<string, unknown>).content;
-    if (typeof content === "string") return content;
-  }
-  const message = choiceRecord.message;
-  if (message && typeof message === "object") {
-    const content = (message as Record<string, unknown>).content;
-    return typeof content === "string" ? content : "";
-  }
-  return "";
+  const request = adapter.getContextWindowRequest(
+    endpoint.baseUrl,
+    parseModelReference(model).model,
+  );
+  const readContextWindow = adapter.readContextWindow;
+  return withTimeout(async (signal) => {
+    const response = await fetchProviderProbe(endpoint, request, signal);
+    if (!response.ok) return null;
+    return readContextWindow(await response.json());
+  }, MODEL_FETCH_TIMEOUT).catch(() => null);
 };
 
-const getStreamingError = (payload: unknown): string | null => {
-  if (!payload || typeof payload !== "object") return null;
-  const error = (payload as Record<string, unknown>).error;
-  if (typeof error === "string") return error;
-  if (error && typeof error === "object") {
-    const message = (error as Record<string, unknown>).message;
-    if (typeof message === "string") return message;
+export const fetchTokenCount = async (
+  model: string,
+  text: string,
+  endpoints: readonly ProviderEndpoint[] = DEFAULT_PROVIDER_ENDPOINTS,
+  signal?: AbortSignal,
+): Promise<number> => {
+  const endpoint = findProviderEndpoint(endpoints, model);
+  const adapter = endpoint ? getInferenceProvider(endpoint.provider) : undefined;
+  if (!endpoint || !adapter?.getTokenizeRequest || !adapter.readTokenCount) {
+    throw new Error("The selected provider does not expose a tokenizer.");
   }
-  return null;
+
+  const request = adapter.getTokenizeRequest(
+    endpoint.baseUrl,
+    parseModelReference(model).model,
+    text,
+  );
+  const readTokenCount = adapter.readTokenCount;
+  return withTimeout(
+    async (requestSignal) => {
+      const response = await fetchProviderProbe(endpoint, request, requestSignal);
+      if (!response.ok) throw new Error(await readApiError(response, adapter));
+      const count = readTokenCount(await response.json());
+      if (count === null) {
+        throw new Error(`${endpoint.label} returned an invalid tokenizer response.`);
+      }
+      return count;
+    },
+    MODEL_FETCH_TIMEOUT,
+    signal,
+  );
 };
 
-const hasLlamaFinishReason = (payload: unknown): boolean => {
-  if (!payload || typeof payload !== "object") return false;
-  const choices = (payload as Record<string, unknown>).choices;
-  if (!Array.isArray(choices)) return false;
-  const choice = choices[0];
-  if (!choice || typeof choice !== "object") return false;
-  return (choice as Record<string, unknown>).finish_reason != null;
+export type TranslationDeltaHandler = (delta: string) => void;
+
+type StreamingFrame = {
+  delta: string;
+  terminal: boolean;
 };
 
 const parseStreamingFrame = (
   line: string,
-  isOllama: boolean,
+  adapter: InferenceProviderAdapter,
 ): StreamingFrame | null => {
   const normalizedLine = line.trim();
   if (!normalizedLine || normalizedLine.startsWith(":")) return null;
@@ -194,24 +239,27 @@ const parseStreamingFrame = (
     throw new Error("The provider returned an invalid streaming response frame.");
   }
 
-  const providerError = getStreamingError(parsed);
+  const providerError = adapter.getErrorMessage(parsed);
   if (providerError) throw new Error(providerError);
 
   return {
-    delta: getStreamingToken(parsed, isOllama),
-    terminal: isOllama
-      ? Boolean((parsed as Record<string, unknown>).done)
-      : hasLlamaFinishReason(parsed),
+    delta: adapter.getStreamingToken(parsed),
+    terminal: adapter.isTerminalFrame(parsed),
   };
 };
 
 const readStreamingTranslation = async (
   response: Response,
-  isOllama: boolean,
+  adapter: InferenceProviderAdapter,
   onDelta: TranslationDeltaHandler,
   onActivity: () => void,
 ): Promise<string> => {
-  if (!response.body) throw new Error("The provider returned an empty streaming body.");
+  if (!response.body) {
+    throw new ProviderRequestError(
+      "The provider returned an empty streaming body.",
+      true,
+    );
+  }
 
   const reader = response.body.getReader();
   const decoder = new TextDecoder("utf-8", { fatal: false });
@@ -221,7 +269,7 @@ const readStreamingTranslation = async (
 
   const processLine = (line: string): void => {
     if (terminal) return;
-    const frame = parseStreamingFrame(line, isOllama);
+    const frame = parseStreamingFrame(line, adapter);
     if (!frame) return;
     if (frame.delta) {
       content += frame.delta;
@@ -250,8 +298,9 @@ const readStreamingTranslation = async (
       if (buffer.trim()) processLine(buffer);
     }
     if (!terminal) {
-      throw new Error(
+      throw new ProviderRequestError(
         "The provider ended the stream before a terminal frame was received.",
+        true,
       );
     }
     if (!content) throw new Error("The provider returned an empty streaming response.");
@@ -267,44 +316,43 @@ export const fetchTranslation = async ({
   options,
   signal,
   onDelta,
+  endpoints = DEFAULT_PROVIDER_ENDPOINTS,
 }: {
   model: string;
   messages: OllamaMessage[];
   options?: Record<string, unknown>;
   signal?: AbortSignal;
   onDelta?: TranslationDeltaHandler;
+  endpoints?: readonly ProviderEndpoint[];
 }): Promise<string> => {
   const stream = Boolean(onDelta);
+  const reference = parseModelReference(model);
+  const endpoint = findProviderEndpoint(endpoints, model);
+  if (!endpoint) {
+    throw new Error(
+      `The provider endpoint for ${reference.model} is no longer configured. Select another model.`,
+    );
+  }
+
+  const adapter = resolveAdapter(endpoint);
+
   const request = async (requestSignal: AbortSignal, onActivity = (): void => {}) => {
-    const reference = parseModelReference(model);
-    const isOllama = reference.provider === "ollama";
-    const endpoint = isOllama
-      ? `${OLLAMA_API_BASE_URL}/chat`
-      : `${LLAMA_CPP_API_BASE_URL}/chat/completions`;
-    const body = isOllama
-      ? { model: reference.model, messages, stream, options }
-      : { model: reference.model, messages, ...options, stream };
-    const response = await fetch(endpoint, {
+    const response = await fetch(`${endpoint.baseUrl}${adapter.chatPath}`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+      headers: createRequestHeaders(endpoint, { "Content-Type": "application/json" }),
+      body: JSON.stringify(
+        adapter.createChatBody({ model: reference.model, messages, options, stream }),
+      ),
       signal: requestSignal,
     });
 
-    if (!response.ok) {
-      throw new Error(await readApiError(response));
-    }
+    if (!response.ok) throw await createApiError(response, adapter);
 
     if (onDelta)
-      return readStreamingTranslation(response, isOllama, onDelta, onActivity);
+      return readStreamingTranslation(response, adapter, onDelta, onActivity);
 
-    if (isOllama) {
-      const data: OllamaChatResponse = await response.json();
-      return data.message.content;
-    }
-    const data: LlamaCppChatResponse = await response.json();
-    const content = data.choices[0]?.message.content;
-    if (!content) throw new Error("llama.cpp returned an empty response.");
+    const content = adapter.getResponseContent(await response.json());
+    if (!content) throw new Error(`${endpoint.label} returned an empty response.`);
     return content;
   };
 
@@ -314,15 +362,20 @@ export const fetchTranslation = async ({
 
   return requestWithTimeout.catch((error) => {
     if (isAbortError(error) || signal?.aborted) throw error;
+    if (error instanceof ProviderRequestError) throw error;
     if (
       error instanceof Error &&
       error.message.includes("timed out") &&
       error.message.includes(`${TRANSLATION_TIMEOUT}ms`)
     ) {
-      throw new Error(
+      throw new ProviderRequestError(
         "Translation request timeout. The model may be taking too long to respond.",
+        true,
       );
     }
-    throw new Error(handleNetworkError(error, parseModelReference(model).provider));
+    throw new ProviderRequestError(
+      handleNetworkError(error, endpoint),
+      isConnectionFailure(error),
+    );
   });
 };
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import {
+  maskPlaceholders,
+  PlaceholderValidationError,
+  previewPlaceholders,
+  restorePlaceholders,
+} from "./placeholderMasking";
+
+const maskedValues = (text: string): string[] =>
+  maskPlaceholders(text).placeholders.map(({ value }) => value);
+
+describe("maskPlaceholders", () => {
+  it("replaces code, format arguments, tags, emails, and URLs with sentinels", () => {
+    const masked = maskPlaceholders(
+      'Run `npm test`, then email {{user.email}} or <a href="/x">ops@example.com</a>.',
+    );
+
+    expect(masked.text).toBe("Run ⟦1⟧, then email ⟦2⟧ or ⟦3⟧⟦4⟧⟦5⟧.");
+    expect(masked.placeholders.map(({ value }) => value)).toEqual([
+      "`npm test`",
+      "{{user.email}}",
+      '<a href="/x">',
+      "ops@example.com",
+      "</a>",
+    ]);
+  });
+
+  it("recognizes printf, positional, and ICU arguments", () => {
+    expect(
+      maskedValues("Hello %s, you have %1$d new %(kind)s and {0} {name}."),
+    ).toEqual(["%s", "%1$d", "%(kind)s", "{0}", "{name}"]);
+    expect(
+      maskedValues("You have {count, plural, one {# file} other {# files}} left."),
+    ).toEqual(["{count, plural, one {# file} other {# files}}"]);
+  });
+
+  it("leaves prose percentages, braces, and URL punctuation alone", () => {
+    expect(maskedValues("Save 100% today { or not }.")).toEqual([]);
+    expect(
+      maskedValues("See https://example.com/a_(b). Or (www.example.org)."),
+    ).toEqual(["https://example.com/a_(b)", "www.example.org"]);
+  });
+
+  it("shares a sentinel for repeated values and masks literal sentinel brackets", () => {
+    const masked = maskPlaceholders("{name} and {name} ⟦1⟧");
+
+    expect(masked.text).toBe("⟦1⟧ and ⟦1⟧ ⟦2⟧1⟦3⟧");
+    expect(masked.placeholders[0]?.occurrences).toBe(2);
+    expect(restorePlaceholders(masked.text, masked.placeholders)).toBe(
+      "{name} and {name} ⟦1⟧",
+    );
+  });
+});
+
+describe("restorePlaceholders", () => {
+  const { placeholders } = maskPlaceholders("Hi {name}, open %s.");
+
+  it("masks caller-protected ranges ahead of overlapping patterns", () => {
+    const text = "See [docs](https://example.com/docs) now.";
+    const masked = maskPlaceholders(text, [
+      { start: 4, end: 5 },
+      { start: 9, end: 36 },
+    ]);
+
+    expect(masked.text).toBe("See ⟦1⟧docs⟦2⟧ now.");
+    expect(masked.placeholders.map(({ value }) => value)).toEqual([
+      "[",
+      "](https://example.com/docs)",
+    ]);
+  });
+
+  it("restores reordered sentinels", () => {
+    expect(restorePlaceholders("Abre ⟦2⟧, ⟦1⟧.", placeholders)).toBe(
+      "Abre %s, {name}.",
+    );
+  });
+
+  it("rejects dropped, duplicated, and altered sentinels", () => {
+    expect(() => restorePlaceholders("Hola ⟦1⟧.", placeholders)).toThrow("dropped %s");
+    expect(() => restorePlaceholders("⟦1⟧ ⟦1⟧ ⟦2⟧", placeholders)).toThrow(
+      "duplicated {name}",
+    );
+    expect(() => restorePlaceholders("⟦1⟧ ⟦ 2 ⟧", placeholders)).toThrow(
+      PlaceholderValidationError,
+    );
+    expect(() => restorePlaceholders("⟦1⟧ ⟦2⟧ ⟦3⟧", placeholders)).toThrow(
+      "altered ⟦3⟧",
+    );
+  });
+
+  it("previews partial output without validating it", () => {
+    expect(previewPlaceholders("Hola ⟦1⟧, abre ⟦", placeholders)).toBe(
+      "Hola {name}, abre ⟦",
+    );
+  });
+});
@@ -0,0 +1,199 @@
+export interface MaskedPlaceholder {
+  sentinel: string;
+  value: string;
+  occurrences: number;
+}
+
+export interface MaskedText {
+  text: string;
+  placeholders: MaskedPlaceholder[];
+}
+
+export interface PlaceholderRange {
+  start: number;
+  end: number;
+}
+
+export class PlaceholderValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlaceholderValidationError";
+  }
+}
+
+const SENTINEL_OPEN = "⟦";
+const SENTINEL_CLOSE = "⟧";
+const SENTINEL = /⟦\d+⟧/gu;
+// Anything left with a sentinel bracket after restoring was altered by the model.
+const SENTINEL_RESIDUE = /⟦[^⟦⟧\s]{0,8}⟧?|⟧/gu;
+
+/** printf-style conversions, including positional and Python named forms. */
+export const PRINTF_CONVERSION =
+  /%(?:\d+\$|\([\w.]+\))?[-+0#']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|q|j|z|t)?[diouxXeEfFgGaAcspn@]/gu;
+
+const PLACEHOLDER_PATTERNS: readonly RegExp[] = [
+  // Inline code spans.
+  /(`+)[^`\n]+?\1(?!`)/gu,
+  // Mustache/Handlebars variables.
+  /\{\{[^{}\n]+\}\}/gu,
+  // Named or positional arguments: {name}, {0}, {user.id}.
+  /\{\s*[\p{L}\p{N}_$][\p{L}\p{N}_.$-]*\s*\}/gu,
+  PRINTF_CONVERSION,
+  // HTML and XML tags.
+  /<\/?[A-Za-z][\w:.-]*(?:\s[^<>]*)?\/?>/gu,
+  /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  /\b(?:https?:\/\/|ftp:\/\/|www\.)[^\s<>"'`]+/gu,
+  // Literal sentinel brackets, so source text can never forge a sentinel.
+  /[⟦⟧]/gu,
+];
+const ICU_ARGUMENT_START =
+  /\{\s*[\p{L}\p{N}_$][\p{L}\p{N}_.$-]*\s*,\s*(?:plural|select|selectordinal|number|date|time|spellout|ordinal|duration)\b/gu;
+const URL_TRAILING_PUNCTUATION = /[.,;:!?]+$/u;
+
+const findBalancedEnd = (text: string, start: number): number => {
+  let depth = 0;
+  for (let index = start; index < text.length; index += 1) {
+    const character = text[index];
+    if (character === "{") depth += 1;
+    if (character === "}") {
+      depth -= 1;
+      if (depth === 0) return index + 1;
+    }
+  }
+  return -1;
+};
+
+const trimUrl = (value: string): string => {
+  let trimmed = value.replace(URL_TRAILING_PUNCTUATION, "");
+  // Keep a closing parenthesis only when the URL itself opened one.
+  while (
+    trimmed.endsWith(")") &&
+    trimmed.split(")").length > trimmed.split("(").length
+  ) {
+    trimmed = trimmed.slice(0, -1).replace(URL_TRAILING_PUNCTUATION, "");
+  }
+  return trimmed;
+};
+
+const findPlaceholderRanges = (
+  text: string,
+  protectedRanges: readonly PlaceholderRange[],
+): PlaceholderRange[] => {
+  const candidates: PlaceholderRange[] = [...protectedRanges];
+  // Ranges the caller protects win over any pattern match they overlap.
+  const addMatch = (start: number, end: number): void => {
+    if (protectedRanges.some((range) => start < range.end && range.start < end)) return;
+    candidates.push({ start, end });
+  };
+
+  for (const match of text.matchAll(ICU_ARGUMENT_START)) {
+    const end = findBalancedEnd(text, match.index);
+    if (end > 0) addMatch(match.index, end);
+  }
+  for (const pattern of PLACEHOLDER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = /^(?:https?|ftp|www)/iu.test(match[0])
+        ? trimUrl(match[0])
+        : match[0];
+      if (value) addMatch(match.index, match.index + value.length);
+    }
+  }
+
+  // Earlier ranges win; at the same start the longest does.
+  candidates.sort((left, right) => left.start - right.start || right.end - left.end);
+  const ranges: PlaceholderRange[] = [];
+  for (const candidate of candidates) {
+    const previous = ranges[ranges.length - 1];
+    if (!previous || candidate.start >= previous.end) ranges.push(candidate);
+  }
+  return ranges;
+};
+
+/**
+ * Replace protected spans such as inline code, format arguments, tags, emails,
+ * and URLs with numbered sentinels. Repeated values share a sentinel.
+ * `protectedRanges`, such as the markup of a structured document, are masked too.
+ */
+export const maskPlaceholders = (
+  text: string,
+  protectedRanges: readonly PlaceholderRange[] = [],
+): MaskedText => {
+  const placeholders: MaskedPlaceholder[] = [];
+  const byValue = new Map<string, MaskedPlaceholder>();
+  let masked = "";
+  let cursor = 0;
+
+  for (const { start, end } of findPlaceholderRanges(text, protectedRanges)) {
+    const value = text.slice(start, end);
+    let placeholder = byValue.get(value);
+    if (!placeholder) {
+      placeholder = {
+        sentinel: `${SENTINEL_OPEN}${placeholders.length + 1}${SENTINEL_CLOSE}`,
+        value,
+        occurrences: 0,
+      };
+      byValue.set(value, placeholder);
+      placeholders.push(placeholder);
+    }
+    placeholder.occurrences += 1;
+    masked += text.slice(cursor, start) + placeholder.sentinel;
+    cursor = end;
+  }
+
+  return { text: masked + text.slice(cursor), placeholders };
+};
+
+export const hasPlaceholderSentinels = (text: string): boolean =>
+  text.search(SENTINEL) >= 0;
+
+const replaceSentinels = (
+  text: string,
+  placeholders: readonly MaskedPlaceholder[],
+): string => {
+  const values = new Map(placeholders.map(({ sentinel, value }) => [sentinel, value]));
+  return text.replace(SENTINEL, (sentinel) => values.get(sentinel) ?? sentinel);
+};
+
+/** Best-effort restore for streaming previews, where sentinels may be incomplete. */
+export const previewPlaceholders = (
+  text: string,
+  placeholders: readonly MaskedPlaceholder[],
+): string => (placeholders.length ? replaceSentinels(text, placeholders) : text);
+
+/**
+ * Restore the original spans in a translation. Throws when a sentinel was
+ * dropped, duplicated, or altered, because the output would no longer carry
+ * the protected value verbatim.
+ */
+export const restorePlaceholders = (
+  text: string,
+  placeholders: readonly MaskedPlaceholder[],
+): string => {
+  const counts = new Map<string, number>();
+  for (const [sentinel] of text.matchAll(SENTINEL)) {
+    counts.set(sentinel, (counts.get(sentinel) ?? 0) + 1);
+  }
+
+  const problems: string[] = [];
+  for (const { sentinel, value, occurrences } of placeholders) {
+    const count = counts.get(sentinel) ?? 0;
+    counts.delete(sentinel);
+    if (count < occurrences) problems.push(`dropped ${value}`);
+    if (count > occurrences) problems.push(`duplicated ${value}`);
+  }
+  const altered = [
+    ...counts.keys(),
+    ...Array.from(
+      text.replace(SENTINEL, "").matchAll(SENTINEL_RESIDUE),
+      ([residue]) => residue,
+    ),
+  ];
+  if (altered.length) problems.push(`altered ${[...new Set(altered)].join(" ")}`);
+  if (problems.length) {
+    throw new PlaceholderValidationError(
+      `The model changed protected placeholders (${problems.join("; ")}).`,
+    );
+  }
+
+  return replaceSentinels(text, placeholders);
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+import {
+  detectDocumentFormat,
+  escapeTranslation,
+  splitIntoDocumentChunks,
+} from "./documentFormats";
+import { escapePoString, getPoTranslationParts, isPoDocument } from "./poDocument";
+import { reassembleTranslationChunks } from "./translationChunking";
+
+const TEMPLATE = [
+  "# Translation template.",
+  'msgid ""',
+  'msgstr ""',
+  '"Content-Type: text/plain; charset=UTF-8\\n"',
+  '"Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;\\n"',
+  "",
+  "#. Toolbar button",
+  "#: src/toolbar.c:12",
+  'msgctxt "menu"',
+  'msgid "Open"',
+  'msgstr ""',
+  "",
+  "#: src/app.c:40",
+  "#, c-format",
+  'msgid "%d file"',
+  'msgid_plural "%d files"',
+  'msgstr[0] ""',
+  'msgstr[1] ""',
+  "",
+  "#, fuzzy",
+  'msgid ""',
+  '"Save the \\"draft\\"\\n"',
+  '"and close."',
+  'msgstr "Guardar"',
+  "",
+  'msgid "Done"',
+  'msgstr "Listo"',
+  "",
+  '#~ msgid "Old"',
+  '#~ msgstr ""',
+  "",
+].join("\n");
+
+const translate = (
+  text: string,
+  options: Parameters<typeof getPoTranslationParts>[1],
+): { sources: (string | undefined)[]; output: string } => {
+  const chunks = splitIntoDocumentChunks(text, "po", 1000, 512, undefined, options);
+  return {
+    sources: chunks.map(({ text: source, note }) =>
+      note ? `${source} | ${note}` : source,
+    ),
+    output: reassembleTranslationChunks(
+      chunks,
+      chunks.map(({ text: source }) => escapeTranslation("po", `<${source}>`)),
+    ),
+  };
+};
+
+describe("gettext catalogs", () => {
+  it("recognizes PO and POT files", () => {
+    expect(isPoDocument(TEMPLATE)).toBe(true);
+    expect(detectDocumentFormat(TEMPLATE)).toBe("po");
+    expect(isPoDocument("Use msgid and msgstr in your catalog.")).toBe(false);
+  });
+
+  it("translates untranslated entries with their context and plural forms", () => {
+    const { sources, output } = translate(TEMPLATE, { targetLanguage: "ru" });
+
+    expect(sources).toEqual([
+      "Open | Comment: Toolbar button\nContext: menu",
+      "%d file | Plural form 1 of 3, used for a count such as 1.",
+      "%d files | Plural form 2 of 3, used for a count such as 2.",
+      "%d files | Plural form 3 of 3, used for a count such as 5.",
+    ]);
+    expect(output).toBe(
+      TEMPLATE.replace(
+        "nplurals=INTEGER; plural=EXPRESSION;",
+        "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+      )
+        .replace("#: src/toolbar.c:12\n", "#: src/toolbar.c:12\n#, fuzzy\n")
+        .replace('msgid "Open"\nmsgstr ""', 'msgid "Open"\nmsgstr "<Open>"')
+        .replace("#, c-format", "#, fuzzy, c-format")
+        .replace(
+          'msgstr[0] ""\nmsgstr[1] ""',
+          'msgstr[0] "<%d file>"\nmsgstr[1] "<%d files>"\nmsgstr[2] "<%d files>"',
+        ),
+    );
+  });
+
+  it("follows the catalog's own Plural-Forms and retranslates fuzzy entries on request", () => {
+    const catalog = TEMPLATE.replace(
+      "nplurals=INTEGER; plural=EXPRESSION;",
+      "nplurals=1; plural=0;",
+    );
+    const { sources, output } = translate(catalog, {
+      targetLanguage: "ru",
+      translateFuzzyEntries: true,
+    });
+
+    expect(sources.slice(1)).toEqual([
+      "%d files | The same plural form is used for every count.",
+      'Save the "draft"\nand close.',
+    ]);
+    expect(output).toContain('msgstr[0] "<%d files>"\n\n#, fuzzy\nmsgid ""');
+    expect(output).toContain(
+      '"and close."\nmsgstr "<Save the \\"draft\\"\\nand close.>"',
+    );
+  });
+
+  it("leaves a translated catalog byte for byte", () => {
+    const translated =
+      'msgid "Yes"\r\nmsgstr "Sí"\r\n\r\n#, fuzzy\r\nmsgid "No"\r\nmsgstr "No"\r\n';
+
+    expect(getPoTranslationParts(translated)).toEqual([translated]);
+    expect(splitIntoDocumentChunks(translated, "po")).toEqual([]);
+  });
+
+  it("escapes translations for a quoted string", () => {
+    expect(escapePoString('Say "hi"\\\n\tnow')).toBe('Say \\"hi\\"\\\\\\n\\tnow');
+  });
+});
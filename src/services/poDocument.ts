@@ -0,0 +1,368 @@
+import type { TranslationSlot } from "./translationChunking";
+
+interface PoFlags {
+  /** Offset just after `#,` and its spacing, where a new flag is inserted. */
+  insertAt: number;
+  values: string[];
+}
+
+interface PoEntry {
+  flags: PoFlags | null;
+  /** Where a missing flags line goes: before previous strings and keywords. */
+  flagsLineAt: number;
+  comments: string[];
+  context?: string;
+  id?: string;
+  pluralId?: string;
+  translations: string[];
+  translationsStart: number;
+  translationsEnd: number;
+  obsolete: boolean;
+}
+
+interface PluralRule {
+  forms: string;
+  /** A count that selects each form, in form order. */
+  examples: number[];
+  /** The CLDR category of each form, in form order, as mobile resources name them. */
+  categories: string[];
+}
+
+type PoField = "context" | "id" | "pluralId" | "translation";
+
+export interface PoTranslationOptions {
+  /**
+   * Language code the document is translated into, such as `pt-BR`, which
+   * decides the plural forms of a catalog or a mobile string resource.
+   */
+  targetLanguage?: string;
+  /** Also translate entries marked `#, fuzzy`, replacing their translations. */
+  translateFuzzyEntries?: boolean;
+}
+
+const KEYWORD = /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[\d+\])?[ \t]+(".*)$/u;
+const PO_START = /^[ \t]*msgid[ \t]+"/mu;
+const PO_TRANSLATION = /^[ \t]*msgstr(?:\[0\])?[ \t]+"/mu;
+const HEADER_NPLURALS = /Plural-Forms:[ \t]*nplurals[ \t]*=[ \t]*(\d+)/u;
+const TEMPLATE_PLURAL_FORMS = "nplurals=INTEGER; plural=EXPRESSION;";
+const LETTER = /\p{L}/u;
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", a: "\u0007" };
+export const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+const ONE_FORM: PluralRule = {
+  forms: "nplurals=1; plural=0;",
+  examples: [1],
+  categories: ["other"],
+};
+const EAST_SLAVIC: PluralRule = {
+  forms:
+    "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+  examples: [1, 2, 5],
+  categories: ["one", "few", "many"],
+};
+// Same forms as East Slavic, but CLDR calls the third one `other`.
+const SOUTH_SLAVIC: PluralRule = {
+  ...EAST_SLAVIC,
+  categories: ["one", "few", "other"],
+};
+const WEST_SLAVIC: PluralRule = {
+  forms: "nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;",
+  examples: [1, 2, 5],
+  categories: ["one", "few", "other"],
+};
+const ONE_AND_ABOVE: PluralRule = {
+  forms: "nplurals=2; plural=(n > 1);",
+  examples: [1, 2],
+  categories: ["one", "other"],
+};
+const DEFAULT_PLURAL_RULE: PluralRule = {
+  forms: "nplurals=2; plural=(n != 1);",
+  examples: [1, 2],
+  categories: ["one", "other"],
+};
+// Plural-Forms from the gettext manual, by language or regional variant.
+const PLURAL_RULES: Record<string, PluralRule> = {
+  ar: {
+    forms:
+      "nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);",
+    examples: [0, 1, 2, 3, 11, 100],
+    categories: ["zero", "one", "two", "few", "many", "other"],
+  },
+  be: EAST_SLAVIC,
+  bs: SOUTH_SLAVIC,
+  cs: WEST_SLAVIC,
+  fr: ONE_AND_ABOVE,
+  ga: {
+    forms: "nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n<7 ? 2 : n<11 ? 3 : 4);",
+    examples: [1, 2, 3, 7, 11],
+    categories: ["one", "two", "few", "many", "other"],
+  },
+  hr: SOUTH_SLAVIC,
+  id: ONE_FORM,
+  ja: ONE_FORM,
+  km: ONE_FORM,
+  ko: ONE_FORM,
+  lt: {
+    forms:
+      "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);",
+    examples: [1, 2, 10],
+    categories: ["one", "few", "other"],
+  },
+  lv: {
+    forms: "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);",
+    examples: [1, 2, 0],
+    categories: ["one", "other", "zero"],
+  },
+  ms: ONE_FORM,
+  pl: {
+    forms:
+      "nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+    examples: [1, 2, 5],
+    categories: ["one", "few", "many"],
+  },
+  "pt-BR": ONE_AND_ABOVE,
+  ro: {
+    forms:
+      "nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);",
+    examples: [1, 2, 20],
+    categories: ["one", "few", "other"],
+  },
+  ru: EAST_SLAVIC,
+  sk: WEST_SLAVIC,
+  sl: {
+    forms:
+      "nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);",
+    examples: [1, 2, 3, 5],
+    categories: ["one", "two", "few", "other"],
+  },
+  sr: SOUTH_SLAVIC,
+  th: ONE_FORM,
+  uk: EAST_SLAVIC,
+  vi: ONE_FORM,
+  zh: ONE_FORM,
+};
+
+const getPluralRule = (language = ""): PluralRule =>
+  PLURAL_RULES[language] ??
+  PLURAL_RULES[language.split("-")[0] ?? ""] ??
+  DEFAULT_PLURAL_RULE;
+
+/**
+ * The CLDR plural categories `language` uses for whole numbers, in CLDR order.
+ * `other` is always included: Android and Apple fall back to it.
+ */
+export const getPluralCategories = (language?: string): string[] => {
+  const { categories } = getPluralRule(language);
+  return PLURAL_CATEGORIES.filter(
+    (category) => category === "other" || categories.includes(category),
+  );
+};
+
+const unquote = (line: string): string => {
+  const start = line.indexOf('"');
+  const end = line.lastIndexOf('"');
+  if (start < 0 || end <= start) return "";
+  return line
+    .slice(start + 1, end)
+    .replace(/\\(.)/gu, (_, character: string) => ESCAPES[character] ?? character);
+};
+
+/** Escape text for the inside of a double-quoted PO string. */
+export const escapePoString = (text: string): string =>
+  text
+    .replace(/\\/gu, "\\\\")
+    .replace(/"/gu, '\\"')
+    .replace(/\n/gu, "\\n")
+    .replace(/\r/gu, "\\r")
+    .replace(/\t/gu, "\\t");
+
+const createEntry = (): PoEntry => ({
+  flags: null,
+  flagsLineAt: -1,
+  comments: [],
+  translations: [],
+  translationsStart: -1,
+  translationsEnd: -1,
+  obsolete: false,
+});
+
+const FIELDS: Record<string, Exclude<PoField, "translation">> = {
+  msgctxt: "context",
+  msgid: "id",
+  msgid_plural: "pluralId",
+};
+
+/** Entries of a catalog in order, with the offsets needed to rewrite them. */
+const parsePoEntries = (text: string): PoEntry[] => {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry | null = null;
+  let field: PoField | null = null;
+  let lineStart = 0;
+  const finish = (): void => {
+    if (entry) entries.push(entry);
+    entry = null;
+    field = null;
+  };
+
+  for (const rawLine of text.split("\n")) {
+    const start = lineStart;
+    const end = start + rawLine.replace(/\r$/u, "").length;
+    lineStart += rawLine.length + 1;
+    const line = text.slice(start, end).trim();
+    if (!line) {
+      finish();
+      continue;
+    }
+    const keyword = KEYWORD.exec(line);
+    // A comment or a new message after a translation starts the next entry.
+    if (
+      field === "translation" &&
+      (line.startsWith("#") || keyword?.[1] === "msgctxt" || keyword?.[1] === "msgid")
+    ) {
+      finish();
+    }
+    const current: PoEntry = entry ?? createEntry();
+    entry = current;
+    // gettext writes flags after comments and references, before anything else.
+    if (current.flagsLineAt < 0 && (keyword || line.startsWith("#|"))) {
+      current.flagsLineAt = start;
+    }
+
+    if (line.startsWith("#~")) {
+      current.obsolete = true;
+    } else if (line.startsWith("#,")) {
+      const flagsStart = start + text.slice(start, end).indexOf("#,") + 2;
+      const spacing = /^[ \t]*/u.exec(text.slice(flagsStart, end))?.[0].length ?? 0;
+      current.flags = {
+        insertAt: flagsStart + spacing,
+        values: line
+          .slice(2)
+          .split(",")
+          .map((flag) => flag.trim())
+          .filter(Boolean),
+      };
+    } else if (/^#(?:\.|[ \t]|$)/u.test(line)) {
+      current.comments.push(line.replace(/^#\.?[ \t]*/u, ""));
+    } else if (keyword) {
+      const [, name = "", value = ""] = keyword;
+      if (name === "msgstr") {
+        if (field !== "translation") current.translationsStart = start;
+        current.translations.push(unquote(value));
+        current.translationsEnd = end;
+        field = "translation";
+      } else {
+        field = FIELDS[name] ?? "id";
+        current[field] = unquote(value);
+      }
+    } else if (line.startsWith('"') && field) {
+      const value = unquote(line);
+      if (field === "translation") {
+        const last = current.translations.length - 1;
+        current.translations[last] = (current.translations[last] ?? "") + value;
+        current.translationsEnd = end;
+      } else {
+        current[field] = (current[field] ?? "") + value;
+      }
+    }
+  }
+  finish();
+  return entries;
+};
+
+/** Whether `text` is a gettext catalog (`.po` or `.pot`). */
+export const isPoDocument = (text: string): boolean =>
+  PO_START.test(text) && PO_TRANSLATION.test(text);
+
+const isHeader = (entry: PoEntry): boolean =>
+  entry.id === "" && entry.context === undefined;
+
+const needsTranslation = (
+  entry: PoEntry,
+  translateFuzzyEntries: boolean,
+): entry is PoEntry & { id: string } =>
+  !entry.obsolete &&
+  entry.id !== undefined &&
+  !isHeader(entry) &&
+  LETTER.test(entry.id) &&
+  entry.translationsStart >= 0 &&
+  (entry.translations.every((translation) => !translation) ||
+    (translateFuzzyEntries && Boolean(entry.flags?.values.includes("fuzzy"))));
+
+const createNote = (entry: PoEntry, pluralNote?: string): string | undefined => {
+  const lines = [
+    ...entry.comments.map((comment) => `Comment: ${comment}`),
+    ...(entry.context ? [`Context: ${entry.context}`] : []),
+    ...(pluralNote ? [pluralNote] : []),
+  ];
+  return lines.length ? lines.join("\n") : undefined;
+};
+
+/**
+ * The catalog as literal text and translation slots. Untranslated entries, and
+ * fuzzy ones when asked, get a slot for each of the target language's plural
+ * forms and are flagged fuzzy; everything else is kept byte for byte. A
+ * template's placeholder Plural-Forms header is filled in for the target.
+ */
+export const getPoTranslationParts = (
+  text: string,
+  { targetLanguage, translateFuzzyEntries = false }: PoTranslationOptions = {},
+): (string | TranslationSlot)[] => {
+  const entries = parsePoEntries(text);
+  const newline = text.includes("\r\n") ? "\r\n" : "\n";
+  const rule = getPluralRule(targetLanguage);
+  const header = entries.find(isHeader);
+  const headerForms = Number(HEADER_NPLURALS.exec(header?.translations[0] ?? "")?.[1]);
+  const pluralCount = headerForms > 0 ? headerForms : rule.examples.length;
+  const examples = pluralCount === rule.examples.length ? rule.examples : [];
+
+  const parts: (string | TranslationSlot)[] = [];
+  let cursor = 0;
+  const copyTo = (offset: number): void => {
+    parts.push(text.slice(cursor, offset));
+    cursor = offset;
+  };
+
+  if (header && !headerForms) {
+    const placeholder = text.indexOf(TEMPLATE_PLURAL_FORMS, header.translationsStart);
+    if (placeholder >= 0 && placeholder < header.translationsEnd) {
+      copyTo(placeholder);
+      parts.push(rule.forms);
+      cursor += TEMPLATE_PLURAL_FORMS.length;
+    }
+  }
+
+  for (const entry of entries) {
+    if (!needsTranslation(entry, translateFuzzyEntries)) continue;
+    if (!entry.flags) {
+      copyTo(entry.flagsLineAt);
+      parts.push(`#, fuzzy${newline}`);
+    } else if (!entry.flags.values.includes("fuzzy")) {
+      copyTo(entry.flags.insertAt);
+      parts.push(entry.flags.values.length ? "fuzzy, " : "fuzzy");
+    }
+    copyTo(entry.translationsStart);
+
+    if (entry.pluralId === undefined) {
+      parts.push('msgstr "', { source: entry.id, note: createNote(entry) }, '"');
+    } else {
+      for (let form = 0; form < pluralCount; form += 1) {
+        const example = examples[form];
+        const pluralNote =
+          pluralCount === 1
+            ? "The same plural form is used for every count."
+            : `Plural form ${form + 1} of ${pluralCount}${example === undefined ? "" : `, used for a count such as ${example}`}.`;
+        parts.push(
+          `${form ? newline : ""}msgstr[${form}] "`,
+          {
+            source: form || pluralCount === 1 ? entry.pluralId : entry.id,
+            note: createNote(entry, pluralNote),
+          },
+          '"',
+        );
+      }
+    }
+    cursor = entry.translationsEnd;
+  }
+  parts.push(text.slice(cursor));
+  return parts.filter((part) => part !== "");
+};
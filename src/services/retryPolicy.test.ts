@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import { getRetryDelay, type RetryAttempt, retryWithBackoff } from "./retryPolicy";
+
+const transient = new Error("503");
+const isTransient = (error: unknown): boolean => error === transient;
+
+describe("getRetryDelay", () => {
+  it("doubles a capped delay and jitters its upper half", () => {
+    expect(getRetryDelay(1, 100, 1000, () => 0)).toBe(50);
+    expect(getRetryDelay(1, 100, 1000, () => 1)).toBe(100);
+    expect(getRetryDelay(3, 100, 1000, () => 1)).toBe(400);
+    expect(getRetryDelay(8, 100, 1000, () => 0.5)).toBe(750);
+  });
+});
+
+describe("retryWithBackoff", () => {
+  it("retries transient failures and reports each retry", async () => {
+    const retries: RetryAttempt[] = [];
+    const attempts: number[] = [];
+    const result = await retryWithBackoff(
+      async (attempt) => {
+        attempts.push(attempt);
+        if (attempt < 3) throw transient;
+        return "ok";
+      },
+      {
+        shouldRetry: isTransient,
+        baseDelayMs: 1,
+        onRetry: (retry) => retries.push(retry),
+      },
+    );
+
+    expect(result).toBe("ok");
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(retries.map(({ attempt, maxAttempts }) => [attempt, maxAttempts])).toEqual([
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+
+  it("gives up on fatal errors and after the last attempt", async () => {
+    let calls = 0;
+    const fatal = new Error("400");
+    await expect(
+      retryWithBackoff(
+        async () => {
+          calls += 1;
+          throw fatal;
+        },
+        { shouldRetry: isTransient, baseDelayMs: 1 },
+      ),
+    ).rejects.toBe(fatal);
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await expect(
+      retryWithBackoff(
+        async () => {
+          calls += 1;
+          throw transient;
+        },
+        { shouldRetry: isTransient, baseDelayMs: 1, maxAttempts: 2 },
+      ),
+    ).rejects.toBe(transient);
+    expect(calls).toBe(2);
+  });
+
+  it("stops waiting when the caller aborts", async () => {
+    const controller = new AbortController();
+    const retry = retryWithBackoff(
+      async () => {
+        throw transient;
+      },
+      {
+        shouldRetry: isTransient,
+        signal: controller.signal,
+        baseDelayMs: 10_000,
+        onRetry: () => controller.abort(),
+      },
+    );
+
+    await expect(retry).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,81 @@
+import { TRANSLATION_CONFIG } from "../config/constants";
+
+const { MAX_ATTEMPTS, BASE_DELAY_MS, MAX_DELAY_MS } = TRANSLATION_CONFIG.RETRY;
+
+export interface RetryAttempt {
+  /** One-based number of the attempt about to start. */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (retry: RetryAttempt) => void;
+  random?: () => number;
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the capped delay is fixed and
+ * half is random, so parallel chunks that failed together do not retry in step.
+ */
+export const getRetryDelay = (
+  failedAttempt: number,
+  baseDelayMs: number = BASE_DELAY_MS,
+  maxDelayMs: number = MAX_DELAY_MS,
+  random: () => number = Math.random,
+): number => {
+  const ceiling = Math.min(
+    maxDelayMs,
+    baseDelayMs * 2 ** Math.max(0, failedAttempt - 1),
+  );
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+const waitForDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abortError = (): DOMException =>
+      new DOMException("The operation was aborted.", "AbortError");
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const abort = (): void => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+
+export const retryWithBackoff = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  {
+    shouldRetry,
+    signal,
+    maxAttempts = MAX_ATTEMPTS,
+    baseDelayMs = BASE_DELAY_MS,
+    maxDelayMs = MAX_DELAY_MS,
+    onRetry,
+    random,
+  }: RetryOptions,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxAttempts || !shouldRetry(error)) throw error;
+      const delayMs = getRetryDelay(attempt, baseDelayMs, maxDelayMs, random);
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+      await waitForDelay(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import { detectDocumentFormat, splitIntoDocumentChunks } from "./documentFormats";
+import { maskPlaceholders } from "./placeholderMasking";
+import {
+  checkSubtitleTranslation,
+  findLongSubtitleLines,
+  findSubtitleSegments,
+  isSubtitleDocument,
+} from "./subtitleDocument";
+import {
+  DocumentStructureError,
+  reassembleTranslationChunks,
+} from "./translationChunking";
+
+const SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:03,500",
+  "Hola, ¿qué tal?",
+  "",
+  "2",
+  "00:00:04,000 --> 00:00:06,000",
+  "{\\an8}<i>Muy bien,</i>",
+  "gracias.",
+  "",
+  "3",
+  "00:00:06,500 --> 00:00:07,000",
+  "♪ ♪",
+  "",
+].join("\r\n");
+
+const VTT = [
+  "WEBVTT - Episode 1",
+  "",
+  "STYLE",
+  "::cue(.loud) { font-weight: bold; }",
+  "",
+  "NOTE Translator: keep names as written",
+  "",
+  "intro",
+  "00:01.000 --> 00:03.000 align:start",
+  "<v Ana>Buenos días.</v>",
+  "",
+  "00:03.500 --> 00:05.000",
+  "<c.loud>¡Vamos!</c> <00:04.200>Ya.",
+  "",
+].join("\n");
+
+const segmentTexts = (text: string): string[] =>
+  findSubtitleSegments(text).map(({ start, end }) => text.slice(start, end));
+
+describe("subtitle documents", () => {
+  it("recognizes SubRip and WebVTT files", () => {
+    expect(isSubtitleDocument(SRT)).toBe(true);
+    expect(isSubtitleDocument(`\uFEFF${VTT}`)).toBe(true);
+    expect(isSubtitleDocument("1\nThe first point.\n\n2\nThe second.")).toBe(false);
+    expect(detectDocumentFormat(SRT)).toBe("subtitles");
+    expect(detectDocumentFormat(VTT)).toBe("subtitles");
+  });
+
+  it("finds only cue text and protects styling tags", () => {
+    expect(segmentTexts(SRT)).toEqual([
+      "Hola, ¿qué tal?",
+      "{\\an8}<i>Muy bien,</i>\r\ngracias.",
+    ]);
+    expect(segmentTexts(VTT)).toEqual([
+      "<v Ana>Buenos días.</v>",
+      "<c.loud>¡Vamos!</c> <00:04.200>Ya.",
+    ]);
+    const [, styled] = findSubtitleSegments(VTT);
+    expect(
+      styled?.protectedRanges.map(({ start, end }) => VTT.slice(start, end)),
+    ).toEqual(["<c.loud>", "</c>", "<00:04.200>"]);
+  });
+
+  it("keeps indices and timings out of the model's text", () => {
+    const chunks = splitIntoDocumentChunks(VTT, "subtitles", 1000);
+
+    expect(chunks[0]?.leadingSeparator).toBe(
+      [
+        "WEBVTT - Episode 1",
+        "",
+        "STYLE",
+        "::cue(.loud) { font-weight: bold; }",
+        "",
+        "NOTE Translator: keep names as written",
+        "",
+        "intro",
+        "00:01.000 --> 00:03.000 align:start",
+        "",
+      ].join("\n"),
+    );
+    expect(
+      chunks.map(
+        ({ text, protectedRanges }) => maskPlaceholders(text, protectedRanges).text,
+      ),
+    ).toEqual(["⟦1⟧Buenos días.⟦2⟧\n\n⟦3⟧\n⟦4⟧¡Vamos!⟦5⟧ ⟦6⟧Ya."]);
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(VTT);
+  });
+
+  it("sends the cues of a short file together", () => {
+    const cues = ["Hola.", "¿Qué tal?", "Bien.", "¿Y tú?", "Adiós."].map(
+      (line, index) =>
+        `${index + 1}\n00:00:0${index},000 --> 00:00:0${index},900\n${line}\n`,
+    );
+    const chunks = splitIntoDocumentChunks(cues.join("\n"), "subtitles", 1000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]?.text).toStartWith("Hola.");
+    expect(chunks[0]?.text).toEndWith("Adiós.");
+    expect(splitIntoDocumentChunks(cues.join("\n"), "subtitles", 30)).toHaveLength(3);
+  });
+
+  it("rejects a translation that merges or splits cues", () => {
+    const source = "Hola.\n\n2\n00:00:04,000 --> 00:00:06,000\nAdiós.";
+
+    expect(() =>
+      checkSubtitleTranslation(
+        source,
+        "Hello.\n\n2\n00:00:04,000 --> 00:00:06,000\nBye.",
+      ),
+    ).not.toThrow();
+    expect(() =>
+      checkSubtitleTranslation(
+        source,
+        "Hello.\n2\n00:00:04,000 --> 00:00:06,000\nBye.",
+      ),
+    ).toThrow(DocumentStructureError);
+    expect(() =>
+      checkSubtitleTranslation(
+        source,
+        "Hello.\n\n2\n00:00:04,000 --> 00:00:06,000\nGood\n\nbye.",
+      ),
+    ).toThrow("expected 2, got 3");
+  });
+
+  it("flags cues with lines too long to read", () => {
+    const translated = SRT.replace(
+      "Hola, ¿qué tal?",
+      "Hello there, how has your week been going so far?",
+    );
+
+    expect(findLongSubtitleLines(SRT, 42)).toEqual([]);
+    expect(findLongSubtitleLines(translated, 42)).toEqual([
+      { cue: 0, longestLine: 49 },
+    ]);
+    expect(
+      findLongSubtitleLines(
+        "1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Muy bien</i>",
+        8,
+      ),
+    ).toEqual([]);
+  });
+});
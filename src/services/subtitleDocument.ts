@@ -0,0 +1,129 @@
+import type { SubtitleLineWarning } from "../types";
+import {
+  DocumentStructureError,
+  type ProtectedRange,
+  type TranslatableSegment,
+} from "./translationChunking";
+
+interface SubtitleLine {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMESTAMP = String.raw`(?:\d+:)?\d{1,2}:\d{2}[,.]\d{3}`;
+const TIMING_LINE = String.raw`[ \t]*${TIMESTAMP}[ \t]+-->[ \t]+${TIMESTAMP}`;
+const TIMING = new RegExp(`^${TIMING_LINE}`, "u");
+const SRT_START = new RegExp(String.raw`^\d+[ \t]*\r?\n${TIMING_LINE}`, "u");
+const VTT_START = /^WEBVTT(?:[ \t]|\r?\n|$)/u;
+// WebVTT blocks that are not cues: comments, style sheets, and regions.
+const VTT_METADATA = /^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/u;
+const BLOCK_BREAK = /\r?\n(?:[ \t]*\r?\n)+/u;
+// Styling tags, voice spans, inline timestamps, and ASS overrides such as {\an8}.
+const CUE_MARKUP = /<[^<>\r\n]*>|\{\\[^{}\r\n]*\}/gu;
+const LETTER = /\p{L}/u;
+
+const readBlocks = (text: string): SubtitleLine[][] => {
+  const blocks: SubtitleLine[][] = [];
+  let block: SubtitleLine[] = [];
+  let start = 0;
+  for (const raw of text.split("\n")) {
+    const end = start + raw.replace(/\r$/u, "").length;
+    const line = { start, end, text: text.slice(start, end) };
+    start += raw.length + 1;
+    if (line.text.trim()) {
+      block.push(line);
+    } else if (block.length) {
+      blocks.push(block);
+      block = [];
+    }
+  }
+  if (block.length) blocks.push(block);
+  return blocks;
+};
+
+/** The text lines of each cue, without its identifier and timing. */
+const parseCues = (text: string): SubtitleLine[][] => {
+  const cues: SubtitleLine[][] = [];
+  for (const [index, block] of readBlocks(text).entries()) {
+    const [first] = block;
+    if (!first || (index === 0 && VTT_START.test(first.text))) continue;
+    if (VTT_METADATA.test(first.text)) continue;
+    // The timing line comes first, or second after a cue number or identifier.
+    const timing = block.slice(0, 2).findIndex((line) => TIMING.test(line.text));
+    if (timing < 0) continue;
+    cues.push(block.slice(timing + 1));
+  }
+  return cues;
+};
+
+/** Whether `text` is a WebVTT file or starts with a SubRip cue. */
+export const isSubtitleDocument = (text: string): boolean => {
+  const trimmed = text.replace(/^\uFEFF/u, "").trimStart();
+  return VTT_START.test(trimmed) || SRT_START.test(trimmed);
+};
+
+/**
+ * The text of each SubRip or WebVTT cue, in order. Cue numbers, identifiers,
+ * timings, headers, and NOTE, STYLE, and REGION blocks are left out, and
+ * styling tags inside the text are protected.
+ */
+export const findSubtitleSegments = (text: string): TranslatableSegment[] =>
+  parseCues(text).flatMap((lines) => {
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    if (!first || !last) return [];
+    const cueText = text.slice(first.start, last.end);
+    if (!LETTER.test(cueText.replace(CUE_MARKUP, ""))) return [];
+    const protectedRanges: ProtectedRange[] = Array.from(
+      cueText.matchAll(CUE_MARKUP),
+      (match) => ({
+        start: first.start + match.index,
+        end: first.start + match.index + match[0].length,
+      }),
+    );
+    return [{ start: first.start, end: last.end, protectedRanges }];
+  });
+
+const getBlockHeaders = (text: string): string[] =>
+  text
+    .trim()
+    .split(BLOCK_BREAK)
+    .map((block) => {
+      const lines = block.split(/\r?\n/u).map((line) => line.trim());
+      const timing = lines.slice(0, 2).findIndex((line) => TIMING.test(line));
+      return lines.slice(0, timing + 1).join("\n");
+    });
+
+/**
+ * Throws when a translated run of cues no longer has the same cues, in the
+ * same order, as its source: the model merged cues or split one with a blank
+ * line, which would shift every later cue.
+ */
+export const checkSubtitleTranslation = (source: string, translation: string): void => {
+  const expected = getBlockHeaders(source);
+  const actual = getBlockHeaders(translation);
+  if (
+    expected.length !== actual.length ||
+    expected.some((header, index) => header !== actual[index])
+  ) {
+    throw new DocumentStructureError(
+      `The model changed the subtitle cues (expected ${expected.length}, got ${actual.length}).`,
+    );
+  }
+};
+
+/** Cues with a line longer than `maxLineLength` characters, ignoring tags. */
+export const findLongSubtitleLines = (
+  text: string,
+  maxLineLength: number,
+): SubtitleLineWarning[] =>
+  parseCues(text).flatMap((lines, cue) => {
+    const longestLine = Math.max(
+      0,
+      ...lines.map(
+        (line) => Array.from(line.text.replace(CUE_MARKUP, "").trim()).length,
+      ),
+    );
+    return longestLine > maxLineLength ? [{ cue, longestLine }] : [];
+  });
@@ -0,0 +1,114 @@
+import { describe, expect, it, mock } from "bun:test";
+import {
+  createCachedTokenizer,
+  heuristicTokenizer,
+  runWithTokenizer,
+  type Tokenizer,
+} from "./tokenizer";
+import {
+  estimateTokenCount,
+  getLanguageDetectionSample,
+  splitIntoTranslationChunks,
+} from "./translationChunking";
+
+const countWordsAsTokens = (text: string): number =>
+  text.split(/\s+/u).filter(Boolean).length;
+
+describe("createCachedTokenizer", () => {
+  it("deduplicates, caches, and bounds concurrent count requests", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const countText = mock(async (text: string) => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active -= 1;
+      return countWordsAsTokens(text);
+    });
+    const tokenizer = createCachedTokenizer(countText, { concurrency: 2 });
+
+    await expect(
+      tokenizer.countTokens(["one", "one two", "one", "a b c", "d e f g"]),
+    ).resolves.toEqual([1, 2, 1, 3, 4]);
+    expect(countText).toHaveBeenCalledTimes(4);
+    expect(maxActive).toBe(2);
+
+    await expect(tokenizer.countTokens(["one two"])).resolves.toEqual([2]);
+    expect(countText).toHaveBeenCalledTimes(4);
+    expect(tokenizer.peekTokenCount?.("a b c")).toBe(3);
+  });
+
+  it("evicts the least recently used counts", async () => {
+    const countText = mock(async (text: string) => countWordsAsTokens(text));
+    const tokenizer = createCachedTokenizer(countText, { cacheSize: 2 });
+
+    await tokenizer.countTokens(["a", "b c", "d e f"]);
+    expect(tokenizer.peekTokenCount?.("a")).toBeUndefined();
+    expect(tokenizer.peekTokenCount?.("d e f")).toBe(3);
+  });
+
+  it("falls back to the heuristic once the server cannot tokenize", async () => {
+    const countText = mock(async () => {
+      throw new Error("HTTP error: 404");
+    });
+    const tokenizer = createCachedTokenizer(countText);
+
+    await expect(tokenizer.countTokens(["Hello, world."])).resolves.toEqual([
+      estimateTokenCount("Hello, world."),
+    ]);
+    expect(tokenizer.exact).toBe(false);
+    await tokenizer.countTokens(["Another text"]);
+    expect(countText).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runWithTokenizer", () => {
+  const fakeTokenizer = (): Tokenizer & { batches: string[][] } => {
+    const batches: string[][] = [];
+    return {
+      exact: true,
+      batches,
+      countTokens: async (texts) => {
+        batches.push([...texts]);
+        return texts.map(countWordsAsTokens);
+      },
+    };
+  };
+
+  it("packs chunks with counts from an injected tokenizer", async () => {
+    const tokenizer = fakeTokenizer();
+    const source = Array.from(
+      { length: 12 },
+      (_, index) => `Sentence ${index} ends.`,
+    ).join("\n\n");
+
+    const chunks = await runWithTokenizer(tokenizer, (countTokens) =>
+      splitIntoTranslationChunks(source, 9, 512, countTokens),
+    );
+
+    expect(chunks.map((chunk) => chunk.estimatedSourceTokens)).toEqual([9, 9, 9, 9]);
+    expect(chunks.map((chunk) => chunk.text).join("\n\n")).toBe(source);
+    expect(tokenizer.batches.length).toBeGreaterThan(1);
+    expect(tokenizer.batches.every((batch) => batch.length > 0)).toBe(true);
+  });
+
+  it("retries budgets rejected by heuristic overestimates", async () => {
+    const protectedUrl =
+      "https://example.com/a/very/long/path/segment/that/keeps/going";
+    expect(() => splitIntoTranslationChunks(protectedUrl, 4)).toThrow();
+
+    const chunks = await runWithTokenizer(fakeTokenizer(), (countTokens) =>
+      splitIntoTranslationChunks(protectedUrl, 4, 512, countTokens),
+    );
+    expect(chunks).toHaveLength(1);
+  });
+
+  it("uses the heuristic synchronously for heuristic tokenizers", async () => {
+    const source = "Hola, ¿cómo estás? Esta es una prueba corta.";
+    await expect(
+      runWithTokenizer(heuristicTokenizer, (countTokens) =>
+        getLanguageDetectionSample(source, 600, countTokens),
+      ),
+    ).resolves.toBe(getLanguageDetectionSample(source, 600));
+  });
+});
@@ -0,0 +1,136 @@
+import { TRANSLATION_CONFIG } from "../config/constants";
+import type { ProviderEndpoint } from "../types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { hashText, isAbortError } from "../utils/transforms";
+import { getInferenceProvider } from "./inferenceProviders";
+import { findProviderEndpoint } from "./modelReferences";
+import { fetchTokenCount } from "./ollamaApi";
+import { estimateTokenCount, type TokenCounter } from "./translationChunking";
+
+const { CACHE_SIZE, CONCURRENCY, MAX_PASSES, MAX_TEXTS_PER_PASS } =
+  TRANSLATION_CONFIG.TOKENIZER;
+
+export interface Tokenizer {
+  /** False when counts come from `estimateTokenCount` rather than the model. */
+  readonly exact: boolean;
+  countTokens: (texts: readonly string[], signal?: AbortSignal) => Promise<number[]>;
+  peekTokenCount?: (text: string) => number | undefined;
+}
+
+export const heuristicTokenizer: Tokenizer = {
+  exact: false,
+  countTokens: async (texts) => texts.map(estimateTokenCount),
+};
+
+/**
+ * Wrap a single-text counting call with deduplication, an LRU cache, bounded
+ * request concurrency, and a permanent fall back to the heuristic once the
+ * server reports that it cannot tokenize.
+ */
+export const createCachedTokenizer = (
+  countText: (text: string, signal?: AbortSignal) => Promise<number>,
+  { cacheSize = CACHE_SIZE, concurrency = CONCURRENCY } = {},
+): Tokenizer => {
+  const cache = new Map<string, number>();
+  const pending = new Map<string, Promise<number>>();
+  let isAvailable = true;
+
+  const remember = (key: string, count: number): void => {
+    cache.delete(key);
+    cache.set(key, count);
+    if (cache.size <= cacheSize) return;
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) cache.delete(oldestKey);
+  };
+
+  const request = (text: string, signal?: AbortSignal): Promise<number> => {
+    const key = hashText(text);
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+    const promise = countText(text, signal)
+      .then((count) => {
+        remember(key, count);
+        return count;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, promise);
+    return promise;
+  };
+
+  const peekTokenCount = (text: string): number | undefined =>
+    cache.get(hashText(text));
+
+  return {
+    get exact() {
+      return isAvailable;
+    },
+    peekTokenCount,
+    countTokens: async (texts, signal) => {
+      const missing = isAvailable
+        ? [...new Set(texts)].filter((text) => peekTokenCount(text) === undefined)
+        : [];
+      try {
+        await mapWithConcurrency(missing, concurrency, (text) => request(text, signal));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (!isAbortError(error)) isAvailable = false;
+      }
+      return texts.map((text) => peekTokenCount(text) ?? estimateTokenCount(text));
+    },
+  };
+};
+
+export const createModelTokenizer = (
+  model: string,
+  endpoints: readonly ProviderEndpoint[],
+): Tokenizer => {
+  const endpoint = model ? findProviderEndpoint(endpoints, model) : undefined;
+  const adapter = endpoint ? getInferenceProvider(endpoint.provider) : undefined;
+  if (!adapter?.getTokenizeRequest) return heuristicTokenizer;
+  return createCachedTokenizer((text, signal) =>
+    fetchTokenCount(model, text, endpoints, signal),
+  );
+};
+
+/**
+ * Run a synchronous, token-budgeted computation such as the chunker with exact
+ * counts. Each pass records the texts it had to estimate, tokenizes them as
+ * one batch, and reruns until every count the result depends on is exact.
+ */
+export const runWithTokenizer = async <T>(
+  tokenizer: Tokenizer,
+  compute: (countTokens: TokenCounter) => T,
+  signal?: AbortSignal,
+): Promise<T> => {
+  if (!tokenizer.exact) return compute(estimateTokenCount);
+
+  const counts = new Map<string, number>();
+  const createCounter =
+    (missing?: Set<string>): TokenCounter =>
+    (text) => {
+      const known = counts.get(text) ?? tokenizer.peekTokenCount?.(text);
+      if (known !== undefined) return known;
+      missing?.add(text);
+      return estimateTokenCount(text);
+    };
+
+  for (let pass = 0; pass < MAX_PASSES && tokenizer.exact; pass += 1) {
+    const missing = new Set<string>();
+    let result: { value: T } | null = null;
+    try {
+      result = { value: compute(createCounter(missing)) };
+    } catch (error) {
+      // Heuristic overestimates can reject input that exact counts accept.
+      if (!missing.size) throw error;
+    }
+    if (result && !missing.size) return result.value;
+
+    const texts = [...missing].slice(0, MAX_TEXTS_PER_PASS);
+    const values = await tokenizer.countTokens(texts, signal);
+    texts.forEach((text, index) => {
+      counts.set(text, values[index] ?? estimateTokenCount(text));
+    });
+  }
+
+  return compute(createCounter());
+};
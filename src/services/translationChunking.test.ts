@@ -1,9 +1,20 @@
 import { describe, expect, it } from "bun:test";
 import {
   estimateTokenCount,
+  getCarryOverTail,
+  getCarryOverTokenBudget,
+  getChunkLanguageRuns,
+  getContextSourceTokenBudget,
   getLanguageDetectionSample,
+  joinChunkParagraphs,
+  pairChunkParagraphs,
   reassembleTranslationChunks,
+  reuseTranslatedChunks,
+  splitChunkParagraphs,
+  splitIntoLanguageChunks,
+  splitIntoSegmentChunks,
   splitIntoTranslationChunks,
+  splitLanguageRegions,
   TranslationChunkingError,
 } from "./translationChunking";
 
@@ -109,4 +120,328 @@ describe("translation chunking", () => {
     expect(sample).toContain("HEAD");
     expect(sample).toContain("TAIL");
   });
+
+  it("derives the source budget from the model context window", () => {
+    expect(getContextSourceTokenBudget(null, 200)).toBe(1600);
+    expect(getContextSourceTokenBudget(8192, 200)).toBe(3094);
+    expect(getContextSourceTokenBudget(131072, 200)).toBe(8192);
+    expect(getContextSourceTokenBudget(512, 400)).toBe(128);
+
+    const source = Array.from(
+      { length: 400 },
+      () => "The cat sleeps in the house.",
+    ).join(" ");
+    const fixedChunks = splitIntoTranslationChunks(source);
+    const contextChunks = splitIntoTranslationChunks(
+      source,
+      getContextSourceTokenBudget(32768, 200),
+    );
+    expect(contextChunks.length).toBeLessThan(fixedChunks.length);
+    expect(
+      reassembleTranslationChunks(
+        contextChunks,
+        contextChunks.map((c) => c.text),
+      ),
+    ).toBe(source);
+  });
+
+  it("takes whole-word carry-over tails within a share of the chunk budget", () => {
+    expect(getCarryOverTokenBudget(1600, 200)).toBe(200);
+    expect(getCarryOverTokenBudget(400, 200)).toBe(100);
+    expect(getCarryOverTokenBudget(1600, 0)).toBe(0);
+
+    const passage = "The committee approved the budget. Maria signed the final report.";
+    expect(getCarryOverTail(passage, 1000)).toBe(passage);
+    const tail = getCarryOverTail(passage, 6);
+    expect(passage.endsWith(tail)).toBe(true);
+    expect(estimateTokenCount(tail)).toBeLessThanOrEqual(6);
+    expect(passage.charAt(passage.length - tail.length - 1)).toBe(" ");
+    expect(getCarryOverTail(passage, 0)).toBe("");
+  });
+
+  it("keeps carry-over tails within budgets smaller than the last sentence", () => {
+    const passage = "The committee approved the budget. Maria signed the final report.";
+    const countCharacters = (text: string) => text.length;
+    const tail = getCarryOverTail(passage, 12, countCharacters);
+    expect(tail).toBe("report.");
+    expect(countCharacters(tail)).toBeLessThanOrEqual(12);
+
+    // A counter that charges for every request leaves no room for any grapheme.
+    expect(getCarryOverTail(passage, 3, (text) => text.length + 4)).toBe("");
+  });
+
+  it("divides a packed chunk into paragraphs and joins them back", () => {
+    const text = "One.\n\n```\ncode\n\nmore\n```\n\nTwo.\n\n  Three.";
+    const chunk = {
+      text,
+      leadingSeparator: "\n",
+      trailingSeparator: "\n",
+      estimatedSourceTokens: estimateTokenCount(text),
+    };
+
+    const paragraphs = splitChunkParagraphs(chunk);
+    expect(paragraphs.map(({ text }) => text)).toEqual([
+      "One.",
+      "```\ncode\n\nmore\n```",
+      "Two.",
+      "Three.",
+    ]);
+    expect(paragraphs.map(({ trailingSeparator }) => trailingSeparator)).toEqual([
+      "\n\n",
+      "\n\n",
+      "\n\n  ",
+      "\n",
+    ]);
+    expect(
+      reassembleTranslationChunks(paragraphs, [
+        "1",
+        "```\ncode\n\nmore\n```",
+        "2",
+        "3",
+      ]),
+    ).toBe("\n1\n\n```\ncode\n\nmore\n```\n\n2\n\n  3\n");
+    expect(joinChunkParagraphs(paragraphs.slice(1, 3))).toMatchObject({
+      text: "```\ncode\n\nmore\n```\n\nTwo.",
+      trailingSeparator: "\n\n  ",
+    });
+    expect(pairChunkParagraphs(chunk, "1\n\n```\ncode\n```\n\n2\n\n3")).toEqual(
+      paragraphs.map((paragraph, index) => [
+        paragraph,
+        ["1", "```\ncode\n```", "2", "3"][index] as string,
+      ]),
+    );
+    expect(pairChunkParagraphs(chunk, "1 2 3")).toEqual([]);
+  });
+
+  it("keeps protected markup with a paragraph when dividing a chunk", () => {
+    const text = "<p>Uno.</p>\n\n<hr>\n\n<p>Dos.</p>";
+    const protectedRanges = [
+      { start: 0, end: 3 },
+      { start: 7, end: 11 },
+      { start: 13, end: 17 },
+      { start: 19, end: 22 },
+      { start: 26, end: 30 },
+    ];
+    const chunk = {
+      text,
+      leadingSeparator: "",
+      trailingSeparator: "",
+      estimatedSourceTokens: 0,
+      protectedRanges,
+    };
+
+    const paragraphs = splitChunkParagraphs(chunk);
+    expect(paragraphs.map(({ text: paragraph }) => paragraph)).toEqual([
+      "<p>Uno.</p>",
+      "<hr>\n\n<p>Dos.</p>",
+    ]);
+    expect(paragraphs[1]?.protectedRanges).toEqual([
+      { start: 0, end: 4 },
+      { start: 6, end: 9 },
+      { start: 13, end: 17 },
+    ]);
+    expect(joinChunkParagraphs(paragraphs)).toEqual({
+      ...chunk,
+      estimatedSourceTokens: paragraphs.reduce(
+        (total, paragraph) => total + paragraph.estimatedSourceTokens,
+        0,
+      ),
+    });
+  });
+
+  it("re-splits only the edited paragraphs of a previous translation", () => {
+    const previousSource = "\nAlpha one.\n\nBeta two.\n\nGamma three.\n\nDelta four.\n";
+    const previousChunks = splitIntoTranslationChunks(previousSource, 1000);
+    const previousParts = ["A1", "B2", "G3", "D4"];
+    const split = (region: string) => splitIntoTranslationChunks(region, 1000);
+
+    const edited = "\nAlpha one.\n\nBeta 2.\n\nGamma three.\n\n\nNew.\n\nDelta four.\n";
+    const reuse = reuseTranslatedChunks(edited, previousChunks, previousParts, split);
+
+    expect(reuse?.chunks.map(({ text }) => text)).toEqual([
+      "Alpha one.",
+      "Beta 2.",
+      "Gamma three.",
+      "New.",
+      "Delta four.",
+    ]);
+    expect(reuse?.parts).toEqual(["A1", undefined, "G3", undefined, "D4"]);
+    expect(
+      reassembleTranslationChunks(
+        reuse?.chunks ?? [],
+        reuse?.chunks.map(({ text }) => text) ?? [],
+      ),
+    ).toBe(edited);
+  });
+
+  it("packs segments within the budget and protects the markup between them", () => {
+    const source = Array.from(
+      { length: 10 },
+      (_, index) => `- Item ${index + 1} of the list.`,
+    ).join("\n");
+    const segments = Array.from(source.matchAll(/Item[^\n]+/gu), (match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+      protectedRanges: [],
+    }));
+    const chunks = splitIntoSegmentChunks(source, segments, 16);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(
+      chunks.every(({ estimatedSourceTokens }) => estimatedSourceTokens <= 16),
+    ).toBe(true);
+    expect(chunks[0]?.leadingSeparator).toBe("- ");
+    expect(chunks[0]?.trailingSeparator).toBe("\n- ");
+    expect(chunks[0]?.text).toBe("Item 1 of the list.\n- Item 2 of the list.");
+    expect(chunks[0]?.protectedRanges).toEqual([{ start: 20, end: 22 }]);
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(source);
+  });
+
+  it("splits an oversized segment without cutting its protected markup", () => {
+    const source =
+      'Read [the guide](https://example.com/a "A title with several words") today, then try the examples one by one.';
+    const tailStart = source.indexOf("](");
+    const tailEnd = source.indexOf(") today") + 1;
+    const chunks = splitIntoSegmentChunks(
+      source,
+      [
+        {
+          start: 0,
+          end: source.length,
+          protectedRanges: [
+            { start: 5, end: 6 },
+            { start: tailStart, end: tailEnd },
+          ],
+        },
+      ],
+      8,
+    );
+    const tail = source.slice(tailStart, tailEnd);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.filter(({ text }) => text.includes(tail))).toHaveLength(1);
+    expect(
+      chunks.some(({ text }) => text.includes("several") && !text.includes(tail)),
+    ).toBe(false);
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(source);
+  });
+
+  it("keeps a re-split region with nothing to translate as written", () => {
+    const previous = splitIntoTranslationChunks("First paragraph.\n\nLast paragraph.");
+    const edited = "First paragraph.\n\n```\ncode\n```\n\nLast paragraph.";
+    const reuse = reuseTranslatedChunks(
+      edited,
+      previous,
+      ["Primero.", "Último."],
+      (region) => (region.startsWith("```") ? [] : splitIntoTranslationChunks(region)),
+    );
+
+    expect(reuse?.chunks.map(({ text }) => text)).toEqual([
+      "First paragraph.",
+      "Last paragraph.",
+    ]);
+    expect(
+      reassembleTranslationChunks(reuse?.chunks ?? [], ["Primero.", "Último."]),
+    ).toBe("Primero.\n\n```\ncode\n```\n\nÚltimo.");
+  });
+
+  it("groups paragraphs by language, attaching undecided ones to the run before", () => {
+    const detect = (paragraph: string) =>
+      paragraph.startsWith("EN") ? "en" : paragraph.startsWith("ES") ? "es" : null;
+    const source =
+      "\n# Title\n\nEN one.\n\nEN two.\n\nES uno.\n\n```\ncode\n```\n\nEN three.\n";
+
+    const regions = splitLanguageRegions(source, detect);
+    expect(regions.map(({ language }) => language)).toEqual(["en", "es", "en"]);
+    expect(regions.map(({ text }) => text).join("")).toBe(source);
+    expect(splitLanguageRegions("# Title\n\nCode.", () => null)).toEqual([
+      { text: "# Title\n\nCode.", language: null },
+    ]);
+
+    const chunks = splitIntoLanguageChunks(source, detect, (region) =>
+      splitIntoTranslationChunks(region, 1000),
+    );
+    expect(chunks.map(({ sourceLanguage }) => sourceLanguage)).toEqual([
+      "en",
+      "en",
+      "en",
+      "es",
+      "es",
+      "en",
+    ]);
+    expect(
+      reassembleTranslationChunks(
+        chunks,
+        chunks.map(({ text }) => text),
+      ),
+    ).toBe(source);
+    expect(getChunkLanguageRuns(chunks)).toEqual([
+      { firstChunk: 0, lastChunk: 2, language: "en" },
+      { firstChunk: 3, lastChunk: 4, language: "es" },
+      { firstChunk: 5, lastChunk: 5, language: "en" },
+    ]);
+  });
+
+  it("chunks a single-language document without language tags", () => {
+    const chunks = splitIntoLanguageChunks(
+      "EN one.\n\nEN two.",
+      () => "en",
+      (region) => splitIntoTranslationChunks(region, 1000),
+    );
+
+    expect(chunks.map(({ sourceLanguage }) => sourceLanguage)).toEqual([
+      undefined,
+      undefined,
+    ]);
+    expect(getChunkLanguageRuns(chunks)).toEqual([]);
+  });
+
+  it("drops deleted or rejected chunks and ignores matches inside a paragraph", () => {
+    const previousChunks = splitIntoTranslationChunks("One.\n\nTwo.\n\nThree.", 1000);
+    const split = (region: string) => splitIntoTranslationChunks(region, 1000);
+
+    const deleted = reuseTranslatedChunks(
+      "One.\n\nThree.",
+      previousChunks,
+      ["1", "2", "3"],
+      split,
+    );
+    expect(deleted?.parts).toEqual(["1", "3"]);
+
+    const inline = reuseTranslatedChunks(
+      "Count: One.\n\nTwo.\n\nThree. Four.",
+      previousChunks,
+      ["1", "2", "3"],
+      split,
+    );
+    expect(inline?.chunks.map(({ text }) => text)).toEqual([
+      "Count: One.",
+      "Two.",
+      "Three. Four.",
+    ]);
+    expect(inline?.parts).toEqual([undefined, "2", undefined]);
+    expect(
+      reuseTranslatedChunks("Other.", previousChunks, ["1", "2", "3"], split),
+    ).toBeNull();
+    expect(
+      reuseTranslatedChunks(
+        "One.\n\nTwo.\n\nThree.",
+        previousChunks,
+        ["1", "2", "3"],
+        split,
+        10,
+        (chunk) => chunk.text !== "Two.",
+      )?.parts,
+    ).toEqual(["1", undefined, "3"]);
+  });
 });
@@ -7,11 +7,17 @@ interface SourceUnit {
   separator: string;
 }
 
-interface ProtectedRange {
+export interface ProtectedRange {
   start: number;
   end: number;
 }
 
+/** A span of a structured document that holds text for the model. */
+export interface TranslatableSegment extends ProtectedRange {
+  /** Markup inside the segment, such as link targets, kept out of the translation. */
+  protectedRanges: ProtectedRange[];
+}
+
 interface SegmenterResult {
   segment: string;
   index: number;
@@ -33,8 +39,39 @@ export interface TranslationChunk {
   leadingSeparator: string;
   trailingSeparator: string;
   estimatedSourceTokens: number;
+  /** Language detected for this chunk alone; set only when the document mixes languages. */
+  sourceLanguage?: string;
+  /** Ranges of `text` that must reach the output verbatim, such as Markdown syntax. */
+  protectedRanges?: ProtectedRange[];
+  /** Read-only guidance for the model, such as a gettext message context. */
+  note?: string;
+  /** Written back inside a CDATA section, where markup is not escaped. */
+  cdata?: boolean;
+}
+
+/** Text to translate into a document that is rebuilt rather than edited in place. */
+export interface TranslationSlot {
+  source: string;
+  note?: string;
+  /** Inline markup in `source` that must reach the output verbatim. */
+  protectedRanges?: ProtectedRange[];
+  /** The value is the content of a CDATA section, which stays around it. */
+  cdata?: boolean;
 }
 
+export interface LanguageRegion {
+  text: string;
+  language: string | null;
+}
+
+export interface ChunkLanguageRun {
+  firstChunk: number;
+  lastChunk: number;
+  language: string;
+}
+
+export type TokenCounter = (text: string) => number;
+
 export class TranslationChunkingError extends Error {
   constructor(message: string) {
     super(message);
@@ -42,6 +79,14 @@ export class TranslationChunkingError extends Error {
   }
 }
 
+/** A translated chunk no longer fits the structure of its document. */
+export class DocumentStructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentStructureError";
+  }
+}
+
 const PARAGRAPH_SEPARATOR = /\r?\n[ \t]*(?:\r?\n[ \t]*)+/g;
 const SENTENCE_PUNCTUATION = /[.!?。！？…]/u;
 const CLAUSE_PUNCTUATION = /[,;:，；：—–]/u;
@@ -50,6 +95,7 @@ const WORD_RUN = /[\p{L}\p{N}]+/gu;
 const PUNCTUATION_RUN = /[^\p{L}\p{N}\s]/gu;
 const CJK_OR_KANA = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/u;
 const FENCE_LINE = /^[ \t]{0,3}(`{3,}|~{3,})([^\r\n]*)$/u;
+const LINE_CONTENT = /[^\r\n]+/gu;
 const MAX_ATOMIC_PARAGRAPHS = 8;
 
 const COMMON_ABBREVIATIONS = new Set([
@@ -88,6 +134,33 @@ export const estimateTokenCount = (text: string): number => {
   return wordTokens + punctuationTokens + structuralWhitespaceTokens;
 };
 
+/**
+ * Size source chunks so the prompt, the source, and its translation all fit in
+ * the model's reported context window. Unknown contexts keep the fixed budget.
+ */
+export const getContextSourceTokenBudget = (
+  contextWindow: number | null | undefined,
+  promptTokens: number,
+  fallback: number = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
+): number => {
+  if (!contextWindow || !Number.isFinite(contextWindow) || contextWindow <= 0) {
+    return fallback;
+  }
+
+  const {
+    CONTEXT_RESERVE_TOKENS,
+    OUTPUT_TOKEN_RATIO,
+    MIN_CONTEXT_SOURCE_TOKENS,
+    MAX_CONTEXT_SOURCE_TOKENS,
+  } = TRANSLATION_CONFIG.CHUNKING;
+  const availableTokens = contextWindow - promptTokens - CONTEXT_RESERVE_TOKENS;
+  const budget = Math.floor(availableTokens / (1 + OUTPUT_TOKEN_RATIO));
+  return Math.min(
+    MAX_CONTEXT_SOURCE_TOKENS,
+    Math.max(MIN_CONTEXT_SOURCE_TOKENS, budget),
+  );
+};
+
 const getLines = (
   text: string,
 ): Array<{ start: number; end: number; content: string }> => {
@@ -141,7 +214,7 @@ const findProtectedRanges = (text: string): ProtectedRange[] => {
   return ranges;
 };
 
-const isProtectedIndex = (index: number, ranges: ProtectedRange[]): boolean =>
+const isProtectedIndex = (index: number, ranges: readonly ProtectedRange[]): boolean =>
   ranges.some((range) => index >= range.start && index < range.end);
 
 const appendTrailingSeparator = (
@@ -285,12 +358,13 @@ const splitAtGraphemes = (
   text: string,
   trailingSeparator: string,
   maxSourceTokens: number,
+  countTokens: TokenCounter,
 ) => {
   const units: SourceUnit[] = [];
   let current = "";
 
   for (const grapheme of getGraphemes(text)) {
-    if (current && estimateTokenCount(current + grapheme) > maxSourceTokens) {
+    if (current && countTokens(current + grapheme) > maxSourceTokens) {
       units.push({ text: current, separator: "" });
       current = "";
     }
@@ -307,9 +381,10 @@ const splitOversizedContent = (
   text: string,
   trailingSeparator: string,
   maxSourceTokens: number,
+  countTokens: TokenCounter,
   levelIndex = 0,
 ): SourceUnit[] => {
-  if (estimateTokenCount(text) <= maxSourceTokens) {
+  if (countTokens(text) <= maxSourceTokens) {
     return [{ text, separator: trailingSeparator }];
   }
 
@@ -329,7 +404,7 @@ const splitOversizedContent = (
 
   const units =
     level === "grapheme"
-      ? splitAtGraphemes(text, trailingSeparator, maxSourceTokens)
+      ? splitAtGraphemes(text, trailingSeparator, maxSourceTokens, countTokens)
       : level === "sentence"
         ? splitAtPunctuation(text, SENTENCE_PUNCTUATION, trailingSeparator)
         : level === "clause"
@@ -341,17 +416,19 @@ const splitOversizedContent = (
       text,
       trailingSeparator,
       maxSourceTokens,
+      countTokens,
       levelIndex + 1,
     );
   }
 
   return units.flatMap((unit) =>
-    estimateTokenCount(unit.text) <= maxSourceTokens
+    countTokens(unit.text) <= maxSourceTokens
       ? [unit]
       : splitOversizedContent(
           unit.text,
           unit.separator,
           maxSourceTokens,
+          countTokens,
           levelIndex + 1,
         ),
   );
@@ -375,11 +452,7 @@ const splitOuterWhitespace = (
   };
 };
 
-export const splitIntoTranslationChunks = (
-  text: string,
-  maxSourceTokens = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
-  maxChunks = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
-): TranslationChunk[] => {
+const assertChunkLimits = (maxSourceTokens: number, maxChunks: number): void => {
   if (!Number.isFinite(maxSourceTokens) || maxSourceTokens < 1) {
     throw new TranslationChunkingError(
       "The translation source-token budget must be positive.",
@@ -388,15 +461,32 @@ export const splitIntoTranslationChunks = (
   if (!Number.isFinite(maxChunks) || maxChunks < 1) {
     throw new TranslationChunkingError("The translation chunk limit must be positive.");
   }
+};
+
+const assertChunkCount = (chunks: readonly TranslationChunk[], maxChunks: number) => {
+  if (chunks.length > maxChunks) {
+    throw new TranslationChunkingError(
+      `This document requires more than ${maxChunks.toLocaleString()} translation chunks. Reduce the document size or increase the configured safety limit.`,
+    );
+  }
+};
+
+export const splitIntoTranslationChunks = (
+  text: string,
+  maxSourceTokens: number = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+  countTokens: TokenCounter = estimateTokenCount,
+): TranslationChunk[] => {
+  assertChunkLimits(maxSourceTokens, maxChunks);
 
   const { leading, content, trailing } = splitOuterWhitespace(text);
   if (!content) return [];
 
   const units = splitParagraphs(content);
   const expandedParagraphs = units.map((unit) =>
-    estimateTokenCount(unit.text) <= maxSourceTokens
+    countTokens(unit.text) <= maxSourceTokens
       ? [unit]
-      : splitOversizedContent(unit.text, unit.separator, maxSourceTokens),
+      : splitOversizedContent(unit.text, unit.separator, maxSourceTokens, countTokens),
   );
   const lastParagraph = expandedParagraphs[expandedParagraphs.length - 1];
   const lastUnit = lastParagraph?.[lastParagraph.length - 1];
@@ -416,14 +506,14 @@ export const splitIntoTranslationChunks = (
       text: chunkText,
       leadingSeparator: chunks.length === 0 ? leading : "",
       trailingSeparator: finalUnit.separator,
-      estimatedSourceTokens: estimateTokenCount(chunkText),
+      estimatedSourceTokens: countTokens(chunkText),
     });
     currentUnits = [];
   };
 
   for (const paragraphUnits of expandedParagraphs) {
     for (const unit of paragraphUnits) {
-      if (estimateTokenCount(unit.text) > maxSourceTokens) {
+      if (countTokens(unit.text) > maxSourceTokens) {
         throw new TranslationChunkingError(
           "A protected URL, identifier, or code block is larger than the safe translation context.",
         );
@@ -431,7 +521,7 @@ export const splitIntoTranslationChunks = (
       const candidateUnits = [...currentUnits, unit];
       if (
         currentUnits.length > 0 &&
-        estimateTokenCount(composeUnits(candidateUnits)) > maxSourceTokens
+        countTokens(composeUnits(candidateUnits)) > maxSourceTokens
       ) {
         flush();
       }
@@ -441,14 +531,260 @@ export const splitIntoTranslationChunks = (
   }
   if (!keepShortDocumentParagraphsAtomic) flush();
 
-  if (chunks.length > maxChunks) {
-    throw new TranslationChunkingError(
-      `This document requires more than ${maxChunks.toLocaleString()} translation chunks. Reduce the document size or increase the configured safety limit.`,
-    );
+  assertChunkCount(chunks, maxChunks);
+  return chunks;
+};
+
+// Split a segment larger than the budget as plain text, joining back pieces
+// whose boundary would cut protected markup such as a link title.
+const splitOversizedSegment = (
+  text: string,
+  segment: TranslatableSegment,
+  maxSourceTokens: number,
+  maxChunks: number,
+  countTokens: TokenCounter,
+): TranslatableSegment[] => {
+  const parts = splitIntoTranslationChunks(
+    text.slice(segment.start, segment.end),
+    maxSourceTokens,
+    maxChunks,
+    countTokens,
+  );
+  const pieces: ProtectedRange[] = [];
+  let cursor = segment.start + (parts[0]?.leadingSeparator.length ?? 0);
+  for (const part of parts) {
+    const start = cursor;
+    const end = start + part.text.length;
+    cursor = end + part.trailingSeparator.length;
+    const previous = pieces[pieces.length - 1];
+    if (
+      previous &&
+      segment.protectedRanges.some(
+        (range) => range.start < start && previous.end < range.end,
+      )
+    ) {
+      previous.end = end;
+    } else {
+      pieces.push({ start, end });
+    }
+  }
+  return pieces.map((piece) => ({
+    ...piece,
+    protectedRanges: segment.protectedRanges.filter(
+      (range) => range.start >= piece.start && range.end <= piece.end,
+    ),
+  }));
+};
+
+/**
+ * Chunk a structured document whose translatable text is limited to `segments`,
+ * given in document order. Markup between segments never reaches the model: at
+ * a chunk boundary it becomes a separator, and inside a chunk each of its lines
+ * is protected like a placeholder so the model still sees the line breaks.
+ * Segments are grouped by the token budget however few there are, so a short
+ * cell or cue is sent with the text around it.
+ */
+export const splitIntoSegmentChunks = (
+  text: string,
+  segments: readonly TranslatableSegment[],
+  maxSourceTokens: number = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+  countTokens: TokenCounter = estimateTokenCount,
+): TranslationChunk[] => {
+  assertChunkLimits(maxSourceTokens, maxChunks);
+
+  const pieces = segments.flatMap((segment) =>
+    countTokens(text.slice(segment.start, segment.end)) <= maxSourceTokens
+      ? [segment]
+      : splitOversizedSegment(text, segment, maxSourceTokens, maxChunks, countTokens),
+  );
+  const groups: TranslatableSegment[][] = [];
+  let current: TranslatableSegment[] = [];
+  for (const piece of pieces) {
+    const [first] = current;
+    if (first && countTokens(text.slice(first.start, piece.end)) > maxSourceTokens) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(piece);
+  }
+  if (current.length) groups.push(current);
+
+  const chunks = groups.map((group, index): TranslationChunk => {
+    const first = group[0] as TranslatableSegment;
+    const last = group[group.length - 1] as TranslatableSegment;
+    const nextStart = groups[index + 1]?.[0]?.start ?? text.length;
+    const protectedRanges = group.flatMap((piece, pieceIndex) => {
+      const gapEnd = group[pieceIndex + 1]?.start ?? piece.end;
+      const gap = Array.from(
+        text.slice(piece.end, gapEnd).matchAll(LINE_CONTENT),
+        (match) => ({
+          start: piece.end + match.index,
+          end: piece.end + match.index + match[0].length,
+        }),
+      );
+      return [...piece.protectedRanges, ...gap].map((range) => ({
+        start: range.start - first.start,
+        end: range.end - first.start,
+      }));
+    });
+    const chunkText = text.slice(first.start, last.end);
+    return {
+      text: chunkText,
+      leadingSeparator: index === 0 ? text.slice(0, first.start) : "",
+      trailingSeparator: text.slice(last.end, nextStart),
+      estimatedSourceTokens: countTokens(chunkText),
+      protectedRanges,
+    };
+  });
+
+  assertChunkCount(chunks, maxChunks);
+  return chunks;
+};
+
+/**
+ * Chunk a document that is written from `parts`: literal text, kept as is, and
+ * slots, whose translations are written in their place. Each slot is chunked on
+ * its own, and `encode` turns the separators kept inside a slot into the
+ * document's syntax, such as escapes inside a quoted string.
+ */
+export const splitIntoSlotChunks = (
+  parts: readonly (string | TranslationSlot)[],
+  encode: (separator: string, slot: TranslationSlot) => string,
+  maxSourceTokens: number = TRANSLATION_CONFIG.CHUNKING.MAX_SOURCE_TOKENS,
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+  countTokens: TokenCounter = estimateTokenCount,
+): TranslationChunk[] => {
+  assertChunkLimits(maxSourceTokens, maxChunks);
+
+  const chunks: TranslationChunk[] = [];
+  let pending = "";
+  const attachLiteral = (literal: string): void => {
+    const previous = chunks[chunks.length - 1];
+    if (previous) previous.trailingSeparator += literal;
+    else pending += literal;
+  };
+  for (const part of parts) {
+    if (typeof part === "string") {
+      attachLiteral(part);
+      continue;
+    }
+    const contentStart = part.source.search(/\S/u);
+    const slotChunks = !part.protectedRanges
+      ? splitIntoTranslationChunks(part.source, maxSourceTokens, maxChunks, countTokens)
+      : splitIntoSegmentChunks(
+          part.source,
+          contentStart < 0
+            ? []
+            : [
+                {
+                  start: contentStart,
+                  end: part.source.trimEnd().length,
+                  protectedRanges: part.protectedRanges,
+                },
+              ],
+          maxSourceTokens,
+          maxChunks,
+          countTokens,
+        );
+    if (!slotChunks.length) attachLiteral(encode(part.source, part));
+    for (const chunk of slotChunks) {
+      chunks.push({
+        ...chunk,
+        leadingSeparator: pending + encode(chunk.leadingSeparator, part),
+        trailingSeparator: encode(chunk.trailingSeparator, part),
+        ...(part.note ? { note: part.note } : {}),
+        ...(part.cdata ? { cdata: true } : {}),
+      });
+      pending = "";
+    }
+    assertChunkCount(chunks, maxChunks);
   }
   return chunks;
 };
 
+/**
+ * Group consecutive paragraphs by detected language. A paragraph without a
+ * decision, such as a heading or a code block, joins the run before it, or the
+ * first run when it opens the document. The regions concatenate back to `text`.
+ */
+export const splitLanguageRegions = (
+  text: string,
+  detectLanguage: (paragraph: string) => string | null,
+): LanguageRegion[] => {
+  const { leading, content, trailing } = splitOuterWhitespace(text);
+  if (!content) return [];
+
+  const units = appendTrailingSeparator(splitParagraphs(content), trailing);
+  const detected = units.map(({ text: paragraph }) => detectLanguage(paragraph));
+  let language = detected.find((code) => code !== null) ?? null;
+  const regions: LanguageRegion[] = [];
+  units.forEach((unit, index) => {
+    language = detected[index] ?? language;
+    const previous = regions[regions.length - 1];
+    const unitText = (index === 0 ? leading : "") + unit.text + unit.separator;
+    if (previous?.language === language) previous.text += unitText;
+    else regions.push({ text: unitText, language });
+  });
+  return regions;
+};
+
+/**
+ * Chunk each language region of a mixed document on its own so no chunk spans
+ * two languages, and tag every chunk with its region's language. A document in
+ * one language is chunked as usual, without tags.
+ */
+export const splitIntoLanguageChunks = (
+  text: string,
+  detectLanguage: (paragraph: string) => string | null,
+  splitRegion: (region: string) => TranslationChunk[],
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+): TranslationChunk[] => {
+  const regions = splitLanguageRegions(text, detectLanguage);
+  if (regions.length < 2) return splitRegion(text);
+
+  const chunks: TranslationChunk[] = [];
+  let leadingSeparator = "";
+  const attachSeparator = (separator: string): void => {
+    const previous = chunks[chunks.length - 1];
+    if (previous) previous.trailingSeparator += separator;
+    else leadingSeparator += separator;
+  };
+  for (const { text: region, language } of regions) {
+    const regionChunks = splitRegion(region);
+    // A region with nothing to translate, such as a code block, stays as written.
+    if (!regionChunks.length) attachSeparator(region);
+    regionChunks.forEach((chunk, index) => {
+      if (index === 0) attachSeparator(chunk.leadingSeparator);
+      chunks.push({
+        ...chunk,
+        leadingSeparator: "",
+        sourceLanguage: language ?? undefined,
+      });
+    });
+  }
+
+  assertChunkCount(chunks, maxChunks);
+  const [firstChunk] = chunks;
+  if (firstChunk) firstChunk.leadingSeparator = leadingSeparator;
+  return chunks;
+};
+
+/** Consecutive chunks sharing a detected language, for per-segment annotations. */
+export const getChunkLanguageRuns = (
+  chunks: readonly TranslationChunk[],
+): ChunkLanguageRun[] =>
+  chunks.reduce<ChunkLanguageRun[]>((runs, { sourceLanguage }, index) => {
+    if (!sourceLanguage) return runs;
+    const previous = runs[runs.length - 1];
+    if (previous?.language === sourceLanguage && previous.lastChunk === index - 1) {
+      previous.lastChunk = index;
+    } else {
+      runs.push({ firstChunk: index, lastChunk: index, language: sourceLanguage });
+    }
+    return runs;
+  }, []);
+
 export const reassembleTranslationChunks = (
   chunks: readonly TranslationChunk[],
   translatedParts: readonly string[],
@@ -476,7 +812,220 @@ export const reassembleTranslationChunks = (
     .join("");
 };
 
-const takePrefixWithinTokenBudget = (text: string, maxSourceTokens: number): string => {
+export interface ChunkReuse {
+  chunks: TranslationChunk[];
+  /** Previous translations for reused chunks; undefined where a chunk changed. */
+  parts: (string | undefined)[];
+}
+
+const isReusableMatch = (text: string, index: number, span: string, cursor: number) =>
+  (index === cursor || text[index - 1] === "\n") &&
+  (index + span.length === text.length || /\s$/u.test(span));
+
+/**
+ * Align an edited document with the chunks of its previous translation. Previous
+ * chunks that still occur verbatim, in order and on a paragraph boundary, keep
+ * their boundaries and translations; only the text between them is split again.
+ * Returns null when nothing can be reused.
+ */
+export const reuseTranslatedChunks = (
+  text: string,
+  previousChunks: readonly TranslationChunk[],
+  previousParts: readonly string[],
+  splitRegion: (region: string) => TranslationChunk[],
+  maxChunks: number = TRANSLATION_CONFIG.CHUNKING.MAX_CHUNKS,
+  canReuse: (chunk: TranslationChunk, part: string) => boolean = () => true,
+): ChunkReuse | null => {
+  const { leading, content } = splitOuterWhitespace(text);
+  if (!content) return null;
+
+  const chunks: TranslationChunk[] = [];
+  const parts: (string | undefined)[] = [];
+  let leadingSeparator = leading;
+  let cursor = leading.length;
+  let reused = 0;
+
+  const attachSeparator = (separator: string): void => {
+    const previous = chunks[chunks.length - 1];
+    if (previous) previous.trailingSeparator += separator;
+    else leadingSeparator += separator;
+  };
+  const pushRegion = (region: string): void => {
+    if (!region) return;
+    const regionChunks = region.trim() ? splitRegion(region) : [];
+    if (!regionChunks.length) {
+      attachSeparator(region);
+      return;
+    }
+    regionChunks.forEach((chunk, index) => {
+      if (index === 0) attachSeparator(chunk.leadingSeparator);
+      chunks.push({ ...chunk, leadingSeparator: "" });
+      parts.push(undefined);
+    });
+  };
+
+  previousChunks.forEach((chunk, index) => {
+    const part = previousParts[index];
+    if (part === undefined || !canReuse(chunk, part)) return;
+    const span = chunk.text + chunk.trailingSeparator;
+    let match = text.indexOf(span, cursor);
+    while (match >= 0 && !isReusableMatch(text, match, span, cursor)) {
+      match = text.indexOf(span, match + 1);
+    }
+    if (match < 0) return;
+    pushRegion(text.slice(cursor, match));
+    chunks.push({ ...chunk, leadingSeparator: "" });
+    parts.push(part);
+    cursor = match + span.length;
+    reused += 1;
+  });
+  if (!reused) return null;
+  pushRegion(text.slice(cursor));
+
+  assertChunkCount(chunks, maxChunks);
+  const [firstChunk] = chunks;
+  if (firstChunk) firstChunk.leadingSeparator = leadingSeparator;
+  return { chunks, parts };
+};
+
+const hasUnprotectedContent = (
+  text: string,
+  start: number,
+  end: number,
+  ranges: readonly ProtectedRange[],
+): boolean => {
+  for (let index = start; index < end; index += 1) {
+    if (/\S/u.test(text.charAt(index)) && !isProtectedIndex(index, ranges)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * A chunk divided at its paragraph breaks, one chunk per paragraph, so memory
+ * can be kept per paragraph however paragraphs were packed. Breaks inside
+ * protected ranges or code fences stay, and a paragraph of protected markup
+ * only joins a neighbouring paragraph. Returns the chunk alone when it holds
+ * a single paragraph.
+ */
+export const splitChunkParagraphs = (chunk: TranslationChunk): TranslationChunk[] => {
+  const { text, protectedRanges = [] } = chunk;
+  const unsplittable = chunk.protectedRanges ?? findProtectedRanges(text);
+  const breaks: Array<{ start: number; end: number }> = [];
+  for (const match of text.matchAll(PARAGRAPH_SEPARATOR)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const previousEnd = breaks[breaks.length - 1]?.end ?? 0;
+    if (
+      unsplittable.some((range) => range.start < end && range.end > start) ||
+      !hasUnprotectedContent(text, previousEnd, start, protectedRanges)
+    ) {
+      continue;
+    }
+    breaks.push({ start, end });
+  }
+  // The last paragraph joins the one before it when it has no prose.
+  const lastBreak = breaks[breaks.length - 1];
+  if (
+    lastBreak &&
+    !hasUnprotectedContent(text, lastBreak.end, text.length, protectedRanges)
+  ) {
+    breaks.pop();
+  }
+  if (!breaks.length) return [chunk];
+
+  let start = 0;
+  return [...breaks, { start: text.length, end: text.length }].map(
+    (paragraphBreak, index): TranslationChunk => {
+      const paragraphStart = start;
+      const paragraphText = text.slice(paragraphStart, paragraphBreak.start);
+      start = paragraphBreak.end;
+      return {
+        ...chunk,
+        text: paragraphText,
+        leadingSeparator: index === 0 ? chunk.leadingSeparator : "",
+        trailingSeparator:
+          index === breaks.length
+            ? chunk.trailingSeparator
+            : text.slice(paragraphBreak.start, paragraphBreak.end),
+        estimatedSourceTokens: estimateTokenCount(paragraphText),
+        ...(chunk.protectedRanges
+          ? {
+              protectedRanges: chunk.protectedRanges
+                .filter(
+                  (range) =>
+                    range.start >= paragraphStart && range.end <= paragraphBreak.start,
+                )
+                .map((range) => ({
+                  start: range.start - paragraphStart,
+                  end: range.end - paragraphStart,
+                })),
+            }
+          : {}),
+      };
+    },
+  );
+};
+
+/** Consecutive paragraphs from `splitChunkParagraphs` as one chunk again. */
+export const joinChunkParagraphs = (
+  paragraphs: readonly TranslationChunk[],
+): TranslationChunk => {
+  const [first] = paragraphs;
+  const last = paragraphs[paragraphs.length - 1];
+  if (!first || !last) {
+    throw new TranslationChunkingError("There are no paragraphs to join.");
+  }
+  if (paragraphs.length === 1) return first;
+
+  let text = "";
+  const protectedRanges: ProtectedRange[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    for (const range of paragraph.protectedRanges ?? []) {
+      protectedRanges.push({
+        start: range.start + text.length,
+        end: range.end + text.length,
+      });
+    }
+    text += paragraph.text;
+    if (index < paragraphs.length - 1) text += paragraph.trailingSeparator;
+  });
+  return {
+    ...first,
+    text,
+    trailingSeparator: last.trailingSeparator,
+    estimatedSourceTokens: paragraphs.reduce(
+      (total, paragraph) => total + paragraph.estimatedSourceTokens,
+      0,
+    ),
+    ...(first.protectedRanges ? { protectedRanges } : {}),
+  };
+};
+
+/**
+ * The paragraphs of a chunk paired with those of its translation, or nothing
+ * when the chunk is one paragraph or the translation breaks differently.
+ */
+export const pairChunkParagraphs = (
+  chunk: TranslationChunk,
+  translation: string,
+): Array<[TranslationChunk, string]> => {
+  const paragraphs = splitChunkParagraphs(chunk);
+  if (paragraphs.length < 2) return [];
+  const translatedParagraphs = translation.trim().split(PARAGRAPH_SEPARATOR);
+  if (translatedParagraphs.length !== paragraphs.length) return [];
+  return paragraphs.map((paragraph, index) => [
+    paragraph,
+    translatedParagraphs[index] as string,
+  ]);
+};
+
+const takePrefixWithinTokenBudget = (
+  text: string,
+  maxSourceTokens: number,
+  countTokens: TokenCounter,
+): string => {
   const graphemes = getGraphemes(text);
   let low = 0;
   let high = graphemes.length;
@@ -484,14 +1033,18 @@ const takePrefixWithinTokenBudget = (text: string, maxSourceTokens: number): str
   while (low < high) {
     const middle = Math.ceil((low + high) / 2);
     const candidate = graphemes.slice(0, middle).join("");
-    if (estimateTokenCount(candidate) <= maxSourceTokens) low = middle;
+    if (countTokens(candidate) <= maxSourceTokens) low = middle;
     else high = middle - 1;
   }
 
   return graphemes.slice(0, low).join("");
 };
 
-const takeSuffixWithinTokenBudget = (text: string, maxSourceTokens: number): string => {
+const takeSuffixWithinTokenBudget = (
+  text: string,
+  maxSourceTokens: number,
+  countTokens: TokenCounter,
+): string => {
   const graphemes = getGraphemes(text);
   let low = 0;
   let high = graphemes.length;
@@ -499,16 +1052,45 @@ const takeSuffixWithinTokenBudget = (text: string, maxSourceTokens: number): str
   while (low < high) {
     const middle = Math.ceil((low + high) / 2);
     const candidate = graphemes.slice(-middle).join("");
-    if (estimateTokenCount(candidate) <= maxSourceTokens) low = middle;
+    if (countTokens(candidate) <= maxSourceTokens) low = middle;
     else high = middle - 1;
   }
 
-  return graphemes.slice(-low).join("");
+  // `slice(-0)` would return every grapheme.
+  return low === 0 ? "" : graphemes.slice(-low).join("");
+};
+
+/**
+ * Carry-over context is read by the model in both languages, so every source
+ * token it repeats displaces one token of new source from the chunk budget.
+ */
+export const getCarryOverTokenBudget = (
+  maxSourceTokens: number,
+  carryOverTokens: number = TRANSLATION_CONFIG.CHUNKING.CARRY_OVER_SOURCE_TOKENS,
+): number =>
+  Math.max(0, Math.min(Math.floor(carryOverTokens), Math.floor(maxSourceTokens / 4)));
+
+/** The end of a passage within a token budget, starting on a whole word. */
+export const getCarryOverTail = (
+  text: string,
+  maxTokens: number,
+  countTokens: TokenCounter = estimateTokenCount,
+): string => {
+  const source = text.trim();
+  if (!source || maxTokens < 1) return "";
+  if (countTokens(source) <= maxTokens) return source;
+
+  // Bound the grapheme search; no tokenizer packs more than 16 characters a token.
+  const window = source.slice(-maxTokens * 16);
+  const tail = takeSuffixWithinTokenBudget(window, maxTokens, countTokens);
+  const wordStart = tail.search(/\s\S/u);
+  return wordStart < 0 ? tail.trim() : tail.slice(wordStart).trim();
 };
 
 export const getLanguageDetectionSample = (
   text: string,
-  maxSourceTokens = TRANSLATION_CONFIG.CHUNKING.DETECTION_SOURCE_TOKENS,
+  maxSourceTokens: number = TRANSLATION_CONFIG.CHUNKING.DETECTION_SOURCE_TOKENS,
+  countTokens: TokenCounter = estimateTokenCount,
 ): string => {
   if (!Number.isFinite(maxSourceTokens) || maxSourceTokens < 3) {
     throw new TranslationChunkingError(
@@ -527,17 +1109,18 @@ export const getLanguageDetectionSample = (
     const tailBudget = maxSourceTokens - 2 - partBudget * 2;
     if (tailBudget < 1) break;
     const parts = [
-      takePrefixWithinTokenBudget(source.slice(0, windowSize), partBudget),
+      takePrefixWithinTokenBudget(source.slice(0, windowSize), partBudget, countTokens),
       takePrefixWithinTokenBudget(
         source.slice(middleStart, middleStart + windowSize),
         partBudget,
+        countTokens,
       ),
-      takeSuffixWithinTokenBudget(source.slice(tailStart), tailBudget),
+      takeSuffixWithinTokenBudget(source.slice(tailStart), tailBudget, countTokens),
     ].filter(Boolean);
     const sample = parts.join("\n");
-    if (estimateTokenCount(sample) <= maxSourceTokens) return sample;
+    if (countTokens(sample) <= maxSourceTokens) return sample;
     partBudget -= 1;
   }
 
-  return takePrefixWithinTokenBudget(source, maxSourceTokens);
+  return takePrefixWithinTokenBudget(source, maxSourceTokens, countTokens);
 };
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "bun:test";
+import type { TranslationChunk } from "./translationChunking";
+import { composeTranslationPreview, runTranslationJob } from "./translationJob";
+
+const createChunks = (texts: readonly string[]): TranslationChunk[] =>
+  texts.map((text, index) => ({
+    text,
+    leadingSeparator: index === 0 ? "\n" : "",
+    trailingSeparator: index === texts.length - 1 ? "" : "\n\n",
+    estimatedSourceTokens: 1,
+  }));
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+      },
+      { once: true },
+    );
+  });
+
+describe("runTranslationJob", () => {
+  it("keeps source order while bounding in-flight chunks", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const completionOrder: number[] = [];
+    const parts = await runTranslationJob({
+      chunks: createChunks(["a", "b", "c", "d", "e"]),
+      concurrency: 2,
+      signal: new AbortController().signal,
+      translateChunk: async (chunk, index) => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        await delay(index % 2 === 0 ? 8 : 1);
+        active -= 1;
+        return chunk.text.toUpperCase();
+      },
+      onChunkComplete: (index) => completionOrder.push(index),
+    });
+
+    expect(parts).toEqual(["A", "B", "C", "D", "E"]);
+    expect(maxActive).toBe(2);
+    expect(completionOrder).not.toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("aborts sibling requests and stops dispatching after the first failure", async () => {
+    const started: number[] = [];
+    const aborted: number[] = [];
+    const job = runTranslationJob({
+      chunks: createChunks(["a", "b", "c", "d"]),
+      concurrency: 2,
+      signal: new AbortController().signal,
+      translateChunk: async (chunk, index, signal) => {
+        started.push(index);
+        if (index === 1) {
+          await delay(1);
+          throw new Error("model unavailable");
+        }
+        try {
+          await delay(50, signal);
+        } catch (error) {
+          aborted.push(index);
+          throw error;
+        }
+        return chunk.text;
+      },
+    });
+
+    await expect(job).rejects.toThrow("model unavailable");
+    expect(started).toEqual([0, 1]);
+    expect(aborted).toEqual([0]);
+  });
+
+  it("propagates cancellation from the caller", async () => {
+    const controller = new AbortController();
+    const job = runTranslationJob({
+      chunks: createChunks(["a", "b"]),
+      concurrency: 2,
+      signal: controller.signal,
+      translateChunk: async (chunk, _index, signal) => {
+        await delay(50, signal);
+        return chunk.text;
+      },
+    });
+    controller.abort();
+
+    await expect(job).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("composeTranslationPreview", () => {
+  it("shows completed chunks up to the first unfinished one", () => {
+    const chunks = createChunks(["a", "b", "c"]);
+
+    expect(composeTranslationPreview(chunks, [], ["", "B…", ""])).toBe("\n");
+    expect(composeTranslationPreview(chunks, ["A"], ["", "B…", "C…"])).toBe(
+      "\nA\n\nB…",
+    );
+    expect(
+      composeTranslationPreview(chunks, ["A", undefined, "C"], ["", "B…", ""]),
+    ).toBe("\nA\n\nB…");
+    expect(composeTranslationPreview(chunks, ["A", "B", "C"], [])).toBe(
+      "\nA\n\nB\n\nC",
+    );
+  });
+});
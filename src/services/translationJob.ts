@@ -0,0 +1,85 @@
+import { mapWithConcurrency } from "../utils/concurrency";
+import type { TranslationChunk } from "./translationChunking";
+
+export interface TranslationJobOptions<T> {
+  chunks: readonly TranslationChunk[];
+  concurrency: number;
+  signal: AbortSignal;
+  translateChunk: (
+    chunk: TranslationChunk,
+    index: number,
+    signal: AbortSignal,
+  ) => Promise<T>;
+  /** Results kept from an earlier run; chunks that already have one are not re-sent. */
+  completedParts?: readonly (T | undefined)[];
+  onChunkStart?: (index: number) => void;
+  onChunkComplete?: (index: number, result: T) => void;
+}
+
+const createAbortError = (): DOMException =>
+  new DOMException("The operation was aborted.", "AbortError");
+
+/**
+ * Translate chunks with at most `concurrency` requests in flight. Results keep
+ * source order regardless of completion order, and the first failure aborts the
+ * sibling requests so the job settles with that failure.
+ */
+export const runTranslationJob = async <T>({
+  chunks,
+  concurrency,
+  signal,
+  translateChunk,
+  completedParts = [],
+  onChunkStart,
+  onChunkComplete,
+}: TranslationJobOptions<T>): Promise<T[]> => {
+  const results = chunks.map((_, index) => completedParts[index]);
+  const pendingIndexes = results.flatMap((result, index) =>
+    result === undefined ? [index] : [],
+  );
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  if (signal.aborted) abort();
+  else signal.addEventListener("abort", abort, { once: true });
+
+  try {
+    await mapWithConcurrency(pendingIndexes, concurrency, async (index) => {
+      if (controller.signal.aborted) throw createAbortError();
+      onChunkStart?.(index);
+      try {
+        const result = await translateChunk(
+          chunks[index] as TranslationChunk,
+          index,
+          controller.signal,
+        );
+        if (controller.signal.aborted) throw createAbortError();
+        results[index] = result;
+        onChunkComplete?.(index, result);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+    });
+    return results as T[];
+  } finally {
+    signal.removeEventListener("abort", abort);
+  }
+};
+
+/**
+ * Compose the visible output while chunks finish out of order: completed chunks
+ * are shown up to the first unfinished one, followed by its streaming preview.
+ */
+export const composeTranslationPreview = (
+  chunks: readonly TranslationChunk[],
+  completedParts: readonly (string | undefined)[],
+  partialPreviews: readonly string[],
+): string => {
+  let preview = chunks[0]?.leadingSeparator ?? "";
+  for (let index = 0; index < chunks.length; index += 1) {
+    const part = completedParts[index];
+    if (part === undefined) return preview + (partialPreviews[index] ?? "");
+    preview += part + (chunks[index]?.trailingSeparator ?? "");
+  }
+  return preview;
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createInMemoryTranslationMemoryStore,
+  createTranslationMemory,
+  getSegmentSimilarity,
+  normalizeSegmentText,
+  type TranslationMemoryScope,
+  type TranslationMemoryStore,
+} from "./translationMemory";
+
+const scope: TranslationMemoryScope = {
+  model: "ollama:translategemma:4b",
+  sourceLanguage: "es",
+  targetLanguage: "en",
+  mode: "translate",
+};
+
+describe("translation memory", () => {
+  it("normalizes segments without merging lines", () => {
+    expect(normalizeSegmentText("  Hola  mundo \r\n  adiós\t ")).toBe(
+      "Hola mundo\nadiós",
+    );
+    expect(normalizeSegmentText("Café")).toBe("Café");
+  });
+
+  it("scores token-level similarity", () => {
+    expect(getSegmentSimilarity("El gato duerme.", "el gato duerme.")).toBe(1);
+    expect(getSegmentSimilarity("El gato duerme.", "El perro duerme.")).toBe(0.75);
+    expect(getSegmentSimilarity("猫が寝る", "猫が走る")).toBe(0.75);
+  });
+
+  it("returns exact hits for the same scope and normalized text", async () => {
+    const memory = createTranslationMemory(createInMemoryTranslationMemoryStore());
+    await memory.remember(scope, "El gato  duerme.", "The cat sleeps.", [
+      "Cat asleep.",
+    ]);
+
+    expect((await memory.lookup(scope, " El gato duerme. ")).exact).toEqual({
+      source: "El gato duerme.",
+      translation: "The cat sleeps.",
+      alternatives: ["Cat asleep."],
+      similarity: 1,
+    });
+    expect(
+      (await memory.lookup({ ...scope, model: "other" }, "El gato duerme.")).exact,
+    ).toBeNull();
+    expect(
+      (await memory.lookup({ ...scope, mode: "correct" }, "El gato duerme.")).exact,
+    ).toBeNull();
+    expect(
+      (await memory.lookup({ ...scope, context: "Context: menu" }, "El gato duerme."))
+        .exact,
+    ).toBeNull();
+    expect(
+      (await memory.lookup({ ...scope, format: "json" }, "El gato duerme.")).exact,
+    ).toBeNull();
+    expect(
+      (await memory.lookup({ ...scope, format: "text" }, "El gato duerme.")).exact
+        ?.translation,
+    ).toBe("The cat sleeps.");
+  });
+
+  it("suggests similar segments above the threshold, best first", async () => {
+    const memory = createTranslationMemory(createInMemoryTranslationMemoryStore(), {
+      fuzzyThreshold: 0.6,
+    });
+    await memory.remember(
+      scope,
+      "El gato negro duerme en casa.",
+      "The black cat sleeps at home.",
+    );
+    await memory.remember(scope, "El gato duerme en casa.", "The cat sleeps at home.");
+    await memory.remember(scope, "Mañana lloverá.", "It will rain tomorrow.");
+
+    const lookup = await memory.lookup(scope, "El gato blanco duerme en casa.");
+
+    expect(lookup.exact).toBeNull();
+    expect(lookup.suggestions.map(({ translation }) => translation)).toEqual([
+      "The black cat sleeps at home.",
+      "The cat sleeps at home.",
+    ]);
+    expect(lookup.suggestions[0]?.similarity).toBeCloseTo(6 / 7);
+  });
+
+  it("evicts the least recently used segment", async () => {
+    let time = 0;
+    const memory = createTranslationMemory(createInMemoryTranslationMemoryStore(2), {
+      now: () => ++time,
+    });
+    await memory.remember(scope, "uno", "one");
+    await memory.remember(scope, "dos", "two");
+    await memory.lookup(scope, "uno");
+    await memory.remember(scope, "tres", "three");
+
+    expect((await memory.lookup(scope, "uno")).exact?.translation).toBe("one");
+    expect((await memory.lookup(scope, "dos")).exact).toBeNull();
+  });
+
+  it("treats store failures as misses", async () => {
+    const failingStore: TranslationMemoryStore = {
+      get: async () => {
+        throw new Error("blocked");
+      },
+      listScope: async () => [],
+      put: async () => {
+        throw new Error("quota");
+      },
+    };
+    const memory = createTranslationMemory(failingStore);
+
+    await expect(memory.remember(scope, "uno", "one")).resolves.toBeUndefined();
+    expect(await memory.lookup(scope, "uno")).toEqual({ exact: null, suggestions: [] });
+  });
+});
@@ -0,0 +1,311 @@
+import { STORAGE_KEYS, TRANSLATION_CONFIG } from "../config/constants";
+import type { DocumentFormat, ProcessingMode, TranslationSuggestion } from "../types";
+import { hashText } from "../utils/transforms";
+
+const { ENABLED, MAX_ENTRIES, FUZZY_THRESHOLD, FUZZY_MAX_TOKENS, MAX_SUGGESTIONS } =
+  TRANSLATION_CONFIG.MEMORY;
+const STORE_NAME = "segments";
+// Han and kana are compared per character; other scripts per word.
+const SEGMENT_TOKEN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+export interface TranslationMemoryScope {
+  model: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  mode: ProcessingMode;
+  /** Separates translations of the same text used in different places. */
+  context?: string;
+  /** Translations of structured formats hold that format's escapes and markup. */
+  format?: DocumentFormat;
+}
+
+export interface TranslationMemoryRecord {
+  id: string;
+  scope: string;
+  source: string;
+  translation: string;
+  alternatives: string[];
+  updatedAt: number;
+}
+
+export interface TranslationMemoryStore {
+  get: (id: string) => Promise<TranslationMemoryRecord | undefined>;
+  listScope: (scope: string) => Promise<TranslationMemoryRecord[]>;
+  put: (record: TranslationMemoryRecord) => Promise<void>;
+}
+
+export type TranslationMemoryMatch = Omit<TranslationSuggestion, "chunk"> & {
+  alternatives: string[];
+};
+
+export interface TranslationMemoryLookup {
+  exact: TranslationMemoryMatch | null;
+  /** Similar segments above the fuzzy threshold, best first. */
+  suggestions: TranslationMemoryMatch[];
+}
+
+export interface TranslationMemory {
+  lookup: (
+    scope: TranslationMemoryScope,
+    text: string,
+  ) => Promise<TranslationMemoryLookup>;
+  remember: (
+    scope: TranslationMemoryScope,
+    text: string,
+    translation: string,
+    alternatives?: readonly string[],
+  ) => Promise<void>;
+}
+
+export interface TranslationMemoryOptions {
+  fuzzyThreshold?: number;
+  fuzzyMaxTokens?: number;
+  maxSuggestions?: number;
+  now?: () => number;
+}
+
+const EMPTY_LOOKUP: TranslationMemoryLookup = { exact: null, suggestions: [] };
+
+export const disabledTranslationMemory: TranslationMemory = {
+  lookup: async () => EMPTY_LOOKUP,
+  remember: async () => undefined,
+};
+
+/** Segment text as it is compared: NFC, LF line endings, collapsed inline spaces. */
+export const normalizeSegmentText = (text: string): string =>
+  text
+    .normalize("NFC")
+    .replace(/\r\n?/gu, "\n")
+    .replace(/[^\S\n]+/gu, " ")
+    .replace(/ ?\n ?/gu, "\n")
+    .trim();
+
+const createScopeKey = ({
+  model,
+  sourceLanguage,
+  targetLanguage,
+  mode,
+  context,
+  format = "text",
+}: TranslationMemoryScope): string =>
+  [
+    model,
+    mode,
+    `${sourceLanguage}>${targetLanguage}`,
+    ...(context ? [hashText(context)] : []),
+    ...(format === "text" ? [] : [format]),
+  ].join("|");
+
+const tokenizeSegment = (text: string): string[] =>
+  text.toLowerCase().match(SEGMENT_TOKEN) ?? [];
+
+/** Token-level edit similarity in [0, 1], where 1 means identical token sequences. */
+export const getSegmentSimilarity = (left: string, right: string): number => {
+  const leftTokens = tokenizeSegment(left);
+  const rightTokens = tokenizeSegment(right);
+  const longest = Math.max(leftTokens.length, rightTokens.length);
+  if (!longest) return 1;
+
+  let previous = Array.from({ length: rightTokens.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= leftTokens.length; row += 1) {
+    const next = [row];
+    for (let column = 1; column <= rightTokens.length; column += 1) {
+      const substitution = leftTokens[row - 1] === rightTokens[column - 1] ? 0 : 1;
+      next[column] = Math.min(
+        (previous[column] ?? 0) + 1,
+        (next[column - 1] ?? 0) + 1,
+        (previous[column - 1] ?? 0) + substitution,
+      );
+    }
+    previous = next;
+  }
+  return 1 - (previous[rightTokens.length] ?? longest) / longest;
+};
+
+/**
+ * Exact reuse keyed by model, mode, language pair, and normalized segment,
+ * plus fuzzy suggestions from the same scope. Store failures degrade to a miss
+ * so the memory can never fail a translation.
+ */
+export const createTranslationMemory = (
+  store: TranslationMemoryStore,
+  {
+    fuzzyThreshold = FUZZY_THRESHOLD,
+    fuzzyMaxTokens = FUZZY_MAX_TOKENS,
+    maxSuggestions = MAX_SUGGESTIONS,
+    now = Date.now,
+  }: TranslationMemoryOptions = {},
+): TranslationMemory => {
+  const findSuggestions = async (
+    scope: string,
+    source: string,
+  ): Promise<TranslationMemoryMatch[]> => {
+    const sourceTokenCount = tokenizeSegment(source).length;
+    if (!maxSuggestions || sourceTokenCount > fuzzyMaxTokens) return [];
+    const suggestions: TranslationMemoryMatch[] = [];
+    for (const record of await store.listScope(scope)) {
+      const recordTokenCount = tokenizeSegment(record.source).length;
+      const lengthBound =
+        Math.min(sourceTokenCount, recordTokenCount) /
+        Math.max(sourceTokenCount, recordTokenCount, 1);
+      if (recordTokenCount > fuzzyMaxTokens || lengthBound < fuzzyThreshold) continue;
+      const similarity = getSegmentSimilarity(source, record.source);
+      if (similarity < fuzzyThreshold || similarity === 1) continue;
+      suggestions.push({
+        source: record.source,
+        translation: record.translation,
+        alternatives: record.alternatives,
+        similarity,
+      });
+    }
+    return suggestions
+      .sort((left, right) => right.similarity - left.similarity)
+      .slice(0, maxSuggestions);
+  };
+
+  return {
+    lookup: async (scope, text) => {
+      const source = normalizeSegmentText(text);
+      if (!source) return EMPTY_LOOKUP;
+      const scopeKey = createScopeKey(scope);
+      try {
+        const record = await store.get(`${scopeKey}|${hashText(source)}`);
+        if (record?.source === source) {
+          void store.put({ ...record, updatedAt: now() }).catch(() => undefined);
+          return {
+            exact: {
+              source,
+              translation: record.translation,
+              alternatives: record.alternatives,
+              similarity: 1,
+            },
+            suggestions: [],
+          };
+        }
+        return { exact: null, suggestions: await findSuggestions(scopeKey, source) };
+      } catch {
+        return EMPTY_LOOKUP;
+      }
+    },
+    remember: async (scope, text, translation, alternatives = []) => {
+      const source = normalizeSegmentText(text);
+      if (!source || !translation.trim()) return;
+      const scopeKey = createScopeKey(scope);
+      try {
+        await store.put({
+          id: `${scopeKey}|${hashText(source)}`,
+          scope: scopeKey,
+          source,
+          translation,
+          alternatives: [...alternatives],
+          updatedAt: now(),
+        });
+      } catch {
+        // A full or unavailable store only costs future reuse.
+      }
+    },
+  };
+};
+
+/** Session-only store, used where IndexedDB is unavailable. */
+export const createInMemoryTranslationMemoryStore = (
+  maxEntries: number = MAX_ENTRIES,
+): TranslationMemoryStore => {
+  const records = new Map<string, TranslationMemoryRecord>();
+  return {
+    get: async (id) => records.get(id),
+    listScope: async (scope) =>
+      [...records.values()].filter((record) => record.scope === scope),
+    put: async (record) => {
+      records.delete(record.id);
+      records.set(record.id, record);
+      if (records.size <= maxEntries) return;
+      const oldestId = records.keys().next().value;
+      if (oldestId !== undefined) records.delete(oldestId);
+    },
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const createIndexedDbTranslationMemoryStore = (
+  factory: IDBFactory,
+  maxEntries: number = MAX_ENTRIES,
+): TranslationMemoryStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (database) return database;
+    const request = factory.open(STORAGE_KEYS.TRANSLATION_MEMORY, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      store.createIndex("scope", "scope");
+      store.createIndex("updatedAt", "updatedAt");
+    };
+    database = requestToPromise(request);
+    // Allow a later call to retry after a blocked or failed open.
+    database.catch(() => {
+      database = null;
+    });
+    return database;
+  };
+
+  const evictOldest = async (db: IDBDatabase): Promise<void> => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    let excess = (await requestToPromise(store.count())) - maxEntries;
+    if (excess > 0) {
+      const cursorRequest = store.index("updatedAt").openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess -= 1;
+        cursor.continue();
+      };
+    }
+    await transactionToPromise(transaction);
+  };
+
+  return {
+    get: async (id) => {
+      const db = await openDatabase();
+      const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+      return requestToPromise<TranslationMemoryRecord | undefined>(store.get(id));
+    },
+    listScope: async (scope) => {
+      const db = await openDatabase();
+      const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+      return requestToPromise<TranslationMemoryRecord[]>(
+        store.index("scope").getAll(scope),
+      );
+    },
+    put: async (record) => {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(record);
+      await transactionToPromise(transaction);
+      await evictOldest(db);
+    },
+  };
+};
+
+export const createBrowserTranslationMemory = (): TranslationMemory => {
+  if (!ENABLED) return disabledTranslationMemory;
+  return createTranslationMemory(
+    typeof indexedDB === "undefined"
+      ? createInMemoryTranslationMemoryStore()
+      : createIndexedDbTranslationMemoryStore(indexedDB),
+  );
+};
@@ -28,10 +28,24 @@ const isEchoedAlternativesInstruction = (line: string): boolean => {
 };
 
 export const isLikelyInstructionEcho = (text: string): boolean =>
-  /^(?:for short expressions|you are a professional|return only the|translate faithfully|treat the text|<\/?source_text>)/iu.test(
+  /^(?:for short expressions|you are a professional|return only the|translate faithfully|treat the text|the <preceding_context>|use the .+ terms in the <glossary>|markers such as ⟦|<\/?(?:source_text|preceding_context|context_source|context_translation|glossary)>)/iu.test(
     text.trim(),
   );
 
+/**
+ * Drop a leading repetition of the carry-over translation, which some models
+ * echo before translating the new source despite the read-only instruction.
+ */
+export const stripEchoedCarryOver = (response: string, carryOver?: string): string => {
+  const echoed = carryOver?.trim();
+  if (!echoed) return response;
+  const leadingWhitespace = response.match(/^\s*/u)?.[0] ?? "";
+  const body = response.slice(leadingWhitespace.length);
+  if (!body.startsWith(echoed)) return response;
+  const remainder = body.slice(echoed.length).replace(/^\s+/u, "");
+  return remainder ? remainder : response;
+};
+
 export const normalizeTranslationResponse = (
   raw: string,
   maxAlternatives: number,
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "bun:test";
+import {
+  detectDocumentFormat,
+  escapeTranslation,
+  splitIntoDocumentChunks,
+} from "./documentFormats";
+import { maskPlaceholders, restorePlaceholders } from "./placeholderMasking";
+import { reassembleTranslationChunks } from "./translationChunking";
+import { getXliffTranslationParts, isXliffDocument } from "./xliffDocument";
+
+const XLIFF_1 = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  '  <file source-language="en" target-language="es" datatype="plaintext" original="app">',
+  "    <body>",
+  '      <trans-unit id="greeting">',
+  '        <source>Hello, <g id="1">dear</g> <x id="2"/>user &amp; friends!</source>',
+  '        <note from="developer">Shown on the home page.</note>',
+  "      </trans-unit>",
+  '      <trans-unit id="save">',
+  '        <source>Press <ph id="1">&lt;b&gt;</ph>Save<ph id="2">&lt;/b&gt;</ph>.</source>',
+  '        <target state="needs-translation">Save</target>',
+  "      </trans-unit>",
+  '      <trans-unit id="done">',
+  "        <source>Done</source>",
+  '        <target state="translated">Listo</target>',
+  "      </trans-unit>",
+  '      <trans-unit id="brand" translate="no">',
+  "        <source>Interlingua</source>",
+  "      </trans-unit>",
+  '      <trans-unit id="empty">',
+  "        <source>Close</source>",
+  '        <target state="new"/>',
+  "      </trans-unit>",
+  "    </body>",
+  "  </file>",
+  "</xliff>",
+  "",
+].join("\n");
+
+const XLIFF_2 = [
+  '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">',
+  '  <file id="f1">',
+  '    <unit id="u1">',
+  "      <notes><note>Button label</note></notes>",
+  '      <segment id="s1" state="initial">',
+  '        <source>Open the <pc id="1">file</pc>.</source>',
+  "      </segment>",
+  '      <segment id="s2" state="final">',
+  "        <source>Close</source>",
+  "        <target>Schließen</target>",
+  "      </segment>",
+  "    </unit>",
+  "  </file>",
+  "</xliff>",
+].join("\n");
+
+const XLIFF_2_STATES = [
+  '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">',
+  '  <file id="f1">',
+  '    <unit id="u1">',
+  '      <segment id="s1" state="initial">',
+  "        <source>Open</source>",
+  "        <target>Open</target>",
+  "      </segment>",
+  '      <segment id="s2">',
+  "        <source>Save</source>",
+  "        <target/>",
+  "      </segment>",
+  '      <segment id="s3" state="translated">',
+  "        <source>Close</source>",
+  "        <target>Schließen</target>",
+  "      </segment>",
+  "    </unit>",
+  "  </file>",
+  "</xliff>",
+].join("\n");
+
+const translate = (
+  text: string,
+  translateMasked: (masked: string) => string,
+): { masked: string[]; notes: (string | undefined)[]; output: string } => {
+  const chunks = splitIntoDocumentChunks(text, "xliff", 1000);
+  const masked = chunks.map(({ text: source, protectedRanges }) =>
+    maskPlaceholders(source, protectedRanges),
+  );
+  return {
+    masked: masked.map(({ text: source }) => source),
+    notes: chunks.map(({ note }) => note),
+    output: reassembleTranslationChunks(
+      chunks,
+      masked.map(({ text: source, placeholders }) =>
+        restorePlaceholders(
+          escapeTranslation("xliff", translateMasked(source)),
+          placeholders,
+        ),
+      ),
+    ),
+  };
+};
+
+describe("XLIFF documents", () => {
+  it("recognizes XLIFF 1.2 and 2.0 files", () => {
+    expect(isXliffDocument(XLIFF_1)).toBe(true);
+    expect(detectDocumentFormat(XLIFF_1)).toBe("xliff");
+    expect(detectDocumentFormat(XLIFF_2)).toBe("xliff");
+    expect(isXliffDocument("<p>An <b>xliff</b> file.</p>")).toBe(false);
+  });
+
+  it("sends untranslated 1.2 units with their inline elements protected", () => {
+    const { masked, notes } = translate(XLIFF_1, (source) => source);
+
+    expect(masked).toEqual([
+      "Hello, ⟦1⟧dear⟦2⟧ ⟦3⟧user & friends!",
+      "Press ⟦1⟧Save⟦2⟧.",
+      "Close",
+    ]);
+    expect(notes).toEqual(["Note: Shown on the home page.", undefined, undefined]);
+  });
+
+  it("writes 1.2 targets for review and keeps everything else", () => {
+    const { output } = translate(XLIFF_1, (source) =>
+      source
+        .replace("Hello", "Hola")
+        .replace("user & friends", "usuario y <amigos>")
+        .replace("Press", "Pulsa")
+        .replace("Save", "Guardar")
+        .replace("Close", "Cerrar"),
+    );
+
+    expect(output).toBe(
+      XLIFF_1.replace(
+        "friends!</source>\n",
+        'friends!</source>\n        <target state="needs-review-translation">Hola, <g id="1">dear</g> <x id="2"/>usuario y &lt;amigos&gt;!</target>\n',
+      )
+        .replace(
+          '<target state="needs-translation">Save</target>',
+          '<target state="needs-review-translation">Pulsa <ph id="1">&lt;b&gt;</ph>Guardar<ph id="2">&lt;/b&gt;</ph>.</target>',
+        )
+        .replace(
+          '<target state="new"/>',
+          '<target state="needs-review-translation">Cerrar</target>',
+        ),
+    );
+  });
+
+  it("marks translated 2.0 segments and adds their targets", () => {
+    const { masked, notes, output } = translate(XLIFF_2, (source) =>
+      source.replace("Open the", "Öffne die").replace("file", "Datei"),
+    );
+
+    expect(masked).toEqual(["Open the ⟦1⟧file⟦2⟧."]);
+    expect(notes).toEqual(["Note: Button label"]);
+    expect(output).toBe(
+      XLIFF_2.replace(
+        'state="initial"',
+        'state="translated" subState="interlingua:needs-review"',
+      ).replace(
+        "</pc>.</source>\n",
+        '</pc>.</source>\n        <target>Öffne die <pc id="1">Datei</pc>.</target>\n',
+      ),
+    );
+  });
+
+  it("translates 2.0 segments by their state rather than a target state", () => {
+    const { masked, output } = translate(XLIFF_2_STATES, (source) =>
+      source === "Open" ? "Öffnen" : "Speichern",
+    );
+
+    expect(masked).toEqual(["Open", "Save"]);
+    expect(output).toBe(
+      XLIFF_2_STATES.replace(
+        '<segment id="s1" state="initial">',
+        '<segment id="s1" state="translated" subState="interlingua:needs-review">',
+      )
+        .replace("<target>Open</target>", "<target>Öffnen</target>")
+        .replace(
+          '<segment id="s2">',
+          '<segment id="s2" state="translated" subState="interlingua:needs-review">',
+        )
+        .replace("<target/>", "<target>Speichern</target>"),
+    );
+  });
+
+  it("has nothing to translate when every target is filled", () => {
+    const translated = XLIFF_2.replace('state="initial"', 'state="translated"').replace(
+      '<pc id="1">file</pc>.</source>',
+      '<pc id="1">file</pc>.</source><target>Öffne die Datei.</target>',
+    );
+    expect(getXliffTranslationParts(translated)).toEqual([translated]);
+  });
+});
@@ -0,0 +1,171 @@
+import type { TranslationSlot } from "./translationChunking";
+import {
+  decodeXmlText,
+  findXmlElements,
+  getXmlAttribute,
+  hasProse,
+  readXmlText,
+  setXmlAttribute,
+  type XmlElement,
+} from "./xmlText";
+
+const XLIFF_START = /<xliff[\s>]/u;
+const XLIFF_UNIT = /<(?:trans-unit|unit)[\s>]/u;
+const XLIFF_VERSION = /\sversion\s*=\s*["'](\d+)/u;
+// XLIFF 1.2 inline elements whose content is native code, not text.
+const NATIVE_CODE_ELEMENTS = new Set(["ph", "bpt", "ept", "it"]);
+const XLIFF_1_TARGET_STATE = "needs-review-translation";
+// XLIFF 2 has no review state below `reviewed`, so a sub-state says so instead.
+const XLIFF_2_SEGMENT_STATE = "translated";
+const XLIFF_2_SEGMENT_SUB_STATE = "interlingua:needs-review";
+
+/**
+ * The text of a source element as the model sees it: inline elements, native
+ * code, and entities other than `&amp;`, `&quot;`, and `&apos;` are protected.
+ */
+const readInlineContent = (content: string) =>
+  readXmlText(content, { opaqueElements: NATIVE_CODE_ELEMENTS });
+
+const isTranslateNo = (element: XmlElement): boolean =>
+  getXmlAttribute(element.tag, "translate") === "no";
+
+const createNote = (text: string, notes: XmlElement[]): string | undefined => {
+  const lines = notes
+    .map((note) => decodeXmlText(text.slice(note.contentStart, note.contentEnd)).trim())
+    .filter(Boolean)
+    .map((note) => `Note: ${note}`);
+  return lines.length ? lines.join("\n") : undefined;
+};
+
+/** Whether `text` is an XLIFF 1.2 or 2.x file with translation units. */
+export const isXliffDocument = (text: string): boolean =>
+  XLIFF_START.test(text) && XLIFF_UNIT.test(text);
+
+/**
+ * The file as literal text and translation slots. A segment is translated when
+ * its target is missing or empty, or still untranslated by its state: a 1.2
+ * target marked `state="needs-translation"` or a 2.0 segment marked
+ * `state="initial"`. Its target is written with the source's inline elements
+ * and marked for review, on the target in XLIFF 1.2 and on the segment in
+ * XLIFF 2. Units marked `translate="no"` and everything else, including IDs
+ * and notes, are kept.
+ */
+export const getXliffTranslationParts = (
+  text: string,
+): (string | TranslationSlot)[] => {
+  const [root] = findXmlElements(text, "xliff");
+  const isVersion1 = (XLIFF_VERSION.exec(root?.tag ?? "")?.[1] ?? "1") === "1";
+  const parts: (string | TranslationSlot)[] = [];
+  let cursor = 0;
+  const copyTo = (offset: number): void => {
+    parts.push(text.slice(cursor, offset));
+    cursor = offset;
+  };
+
+  const writeTarget = (
+    source: XmlElement,
+    target: XmlElement | undefined,
+    note: string | undefined,
+  ): void => {
+    const slot: TranslationSlot = {
+      ...readInlineContent(text.slice(source.contentStart, source.contentEnd)),
+      note,
+    };
+    const state = (tag: string) =>
+      isVersion1 ? setXmlAttribute(tag, "state", XLIFF_1_TARGET_STATE) : tag;
+    if (target) {
+      copyTo(target.start);
+      parts.push(state(target.tag.replace(/\s*\/>$/u, ">")), slot, "</target>");
+      cursor = target.end;
+      return;
+    }
+    // A new target goes on its own line after the source, at the same indent.
+    const lineStart = text.lastIndexOf("\n", source.start) + 1;
+    const indent = text.slice(lineStart, source.start);
+    copyTo(source.end);
+    parts.push(
+      /^[ \t]*$/u.test(indent) && lineStart > 0
+        ? `${text[lineStart - 2] === "\r" ? "\r\n" : "\n"}${indent}`
+        : "",
+      state("<target>"),
+      slot,
+      "</target>",
+    );
+  };
+
+  const needsTranslation = (
+    source: XmlElement,
+    target: XmlElement | undefined,
+    isUntranslatedState: boolean,
+  ): boolean =>
+    hasProse(readInlineContent(text.slice(source.contentStart, source.contentEnd))) &&
+    (!target ||
+      !text.slice(target.contentStart, target.contentEnd).trim() ||
+      isUntranslatedState);
+
+  if (isVersion1) {
+    for (const unit of findXmlElements(text, "trans-unit")) {
+      if (isTranslateNo(unit)) continue;
+      const [source] = findXmlElements(
+        text,
+        "source",
+        unit.contentStart,
+        unit.contentEnd,
+      );
+      if (!source) continue;
+      // Suggestions in alt-trans have targets of their own.
+      const alternative = text.indexOf("<alt-trans", source.end);
+      const [target] = findXmlElements(
+        text,
+        "target",
+        source.end,
+        alternative < 0 ? unit.contentEnd : Math.min(alternative, unit.contentEnd),
+      );
+      const targetState = target && getXmlAttribute(target.tag, "state");
+      if (!needsTranslation(source, target, targetState === "needs-translation")) {
+        continue;
+      }
+      const notes = findXmlElements(text, "note", unit.contentStart, unit.contentEnd);
+      writeTarget(source, target, createNote(text, notes));
+    }
+  } else {
+    for (const unit of findXmlElements(text, "unit")) {
+      if (isTranslateNo(unit)) continue;
+      const notes = findXmlElements(text, "note", unit.contentStart, unit.contentEnd);
+      for (const segment of findXmlElements(
+        text,
+        "segment",
+        unit.contentStart,
+        unit.contentEnd,
+      )) {
+        const [source] = findXmlElements(
+          text,
+          "source",
+          segment.contentStart,
+          segment.contentEnd,
+        );
+        if (!source) continue;
+        const [target] = findXmlElements(
+          text,
+          "target",
+          source.end,
+          segment.contentEnd,
+        );
+        const segmentState = getXmlAttribute(segment.tag, "state");
+        if (!needsTranslation(source, target, segmentState === "initial")) continue;
+        copyTo(segment.start);
+        parts.push(
+          setXmlAttribute(
+            setXmlAttribute(segment.tag, "state", XLIFF_2_SEGMENT_STATE),
+            "subState",
+            XLIFF_2_SEGMENT_SUB_STATE,
+          ),
+        );
+        cursor = segment.contentStart;
+        writeTarget(source, target, createNote(text, notes));
+      }
+    }
+  }
+  parts.push(text.slice(cursor));
+  return parts.filter((part) => part !== "");
+};
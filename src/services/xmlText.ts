@@ -0,0 +1,167 @@
+import type { ProtectedRange, TranslationSlot } from "./translationChunking";
+
+export interface XmlElement {
+  /** The start tag, such as `<target state="new">`. */
+  tag: string;
+  start: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+  selfClosing: boolean;
+}
+
+export interface XmlTextOptions {
+  /**
+   * Escapes read from text between tags. Those in `decoded` are shown to the
+   * model as the characters they stand for; the rest stay protected.
+   */
+  tokens?: RegExp;
+  decoded?: Readonly<Record<string, string>>;
+  /** Inline elements kept whole, content included. */
+  opaqueElements?: ReadonlySet<string>;
+  /** Translate the content of CDATA sections instead of protecting them. */
+  readCdata?: boolean;
+}
+
+export const XML_ENTITY = /&(?:#\d+|#x[\da-fA-F]+|[A-Za-z][\w.-]*);/gu;
+export const XML_DECODED_ENTITIES: Readonly<Record<string, string>> = {
+  "&amp;": "&",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+// Tags, comments, and CDATA sections inside an element.
+const INLINE_MARKUP =
+  /<!\[CDATA\[[\s\S]*?\]\]>|<!--[\s\S]*?-->|<\/?([A-Za-z][\w:.-]*)[^<>]*>/gu;
+const INLINE_MARKUP_WITH_CDATA_TEXT =
+  /<!\[CDATA\[|\]\]>|<!--[\s\S]*?-->|<\/?([A-Za-z][\w:.-]*)[^<>]*>/gu;
+const LETTER = /\p{L}/u;
+
+/** Elements named `name` between `from` and `to`, without nesting. */
+export const findXmlElements = (
+  text: string,
+  name: string,
+  from = 0,
+  to = text.length,
+): XmlElement[] => {
+  const elements: XmlElement[] = [];
+  const startTag = new RegExp(`<${name}(?=[\\s/>])[^>]*>`, "gu");
+  startTag.lastIndex = from;
+  for (let match = startTag.exec(text); match; match = startTag.exec(text)) {
+    if (match.index >= to) break;
+    const [tag] = match;
+    const contentStart = match.index + tag.length;
+    const selfClosing = tag.endsWith("/>");
+    const close = selfClosing ? contentStart : text.indexOf(`</${name}>`, contentStart);
+    if (close < 0 || close > to) break;
+    const end = selfClosing ? contentStart : close + name.length + 3;
+    elements.push({
+      tag,
+      start: match.index,
+      contentStart,
+      contentEnd: close,
+      end,
+      selfClosing,
+    });
+    startTag.lastIndex = end;
+  }
+  return elements;
+};
+
+export const getXmlAttribute = (tag: string, name: string): string | undefined => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "u").exec(tag);
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+export const setXmlAttribute = (tag: string, name: string, value: string): string => {
+  const attribute = new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*')`, "u");
+  if (attribute.test(tag)) return tag.replace(attribute, `$1"${value}"`);
+  return tag.replace(/\s*\/?>$/u, (end) => ` ${name}="${value}"${end}`);
+};
+
+/**
+ * Where the line holding `offset` starts, from the line break before it, and
+ * that break with the indent after it; an element added or removed there takes
+ * its line with it. When other text precedes `offset` on its line, `offset`
+ * itself and no break.
+ */
+export const findXmlLineStart = (
+  text: string,
+  offset: number,
+): { start: number; lineBreak: string } => {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  const indent = text.slice(lineStart, offset);
+  if (!lineStart || !/^[ \t]*$/u.test(indent)) return { start: offset, lineBreak: "" };
+  const start = text[lineStart - 2] === "\r" ? lineStart - 2 : lineStart - 1;
+  return { start, lineBreak: text.slice(start, offset) };
+};
+
+/** Text content with `&amp;`, `&quot;`, and `&apos;` decoded, for notes. */
+export const decodeXmlText = (text: string): string =>
+  text.replace(XML_ENTITY, (entity) => XML_DECODED_ENTITIES[entity] ?? entity);
+
+/** Escape text for the content of an XML element. Sentinels are unaffected. */
+export const escapeXmlText = (text: string): string =>
+  text.replace(/&/gu, "&amp;").replace(/</gu, "&lt;").replace(/>/gu, "&gt;");
+
+/**
+ * The content of an element as the model sees it: tags and escapes are
+ * protected, except the escapes in `decoded`, which are shown decoded.
+ */
+export const readXmlText = (
+  content: string,
+  {
+    tokens = XML_ENTITY,
+    decoded = XML_DECODED_ENTITIES,
+    opaqueElements = new Set(),
+    readCdata = false,
+  }: XmlTextOptions = {},
+): Required<Pick<TranslationSlot, "source" | "protectedRanges">> => {
+  let source = "";
+  const protectedRanges: ProtectedRange[] = [];
+  const keep = (markup: string): void => {
+    protectedRanges.push({ start: source.length, end: source.length + markup.length });
+    source += markup;
+  };
+  const addText = (text: string): void => {
+    let cursor = 0;
+    for (const match of text.matchAll(new RegExp(tokens))) {
+      source += text.slice(cursor, match.index);
+      const value = decoded[match[0]];
+      if (value === undefined) keep(match[0]);
+      else source += value;
+      cursor = match.index + match[0].length;
+    }
+    source += text.slice(cursor);
+  };
+
+  const markup = new RegExp(readCdata ? INLINE_MARKUP_WITH_CDATA_TEXT : INLINE_MARKUP);
+  let cursor = 0;
+  for (let match = markup.exec(content); match; match = markup.exec(content)) {
+    addText(content.slice(cursor, match.index));
+    const [tag, name = ""] = match;
+    let end = match.index + tag.length;
+    if (opaqueElements.has(name) && !tag.startsWith("</") && !tag.endsWith("/>")) {
+      const close = content.indexOf(`</${name}>`, end);
+      if (close >= 0) end = close + name.length + 3;
+    }
+    keep(content.slice(match.index, end));
+    cursor = end;
+    markup.lastIndex = end;
+  }
+  addText(content.slice(cursor));
+  return { source, protectedRanges };
+};
+
+/** Whether a slot has letters outside its protected ranges. */
+export const hasProse = ({
+  source,
+  protectedRanges = [],
+}: Pick<TranslationSlot, "source" | "protectedRanges">): boolean => {
+  let cursor = 0;
+  const text = protectedRanges.map(({ start, end }) => {
+    const gap = source.slice(cursor, start);
+    cursor = end;
+    return gap;
+  });
+  return LETTER.test(text.join("") + source.slice(cursor));
+};
@@ -1,31 +1,145 @@
-// Language codes as a union type for better type safety
-export type LanguageCode =
-  | "auto"
-  | "en"
-  | "es"
-  | "ca"
-  | "fr"
-  | "de"
-  | "it"
-  | "pt"
-  | "ru"
-  | "ja"
-  | "ko"
-  | "zh"
-  | "ar"
-  | "hi";
+import type { LANGUAGES } from "../data/languages";
+
+export type LanguageCode = "auto" | (typeof LANGUAGES)[number]["code"];
+
+/** ISO 15924 code of the script a language is usually written in. */
+export type LanguageScript =
+  | "Arab"
+  | "Beng"
+  | "Cyrl"
+  | "Deva"
+  | "Grek"
+  | "Gujr"
+  | "Guru"
+  | "Hans"
+  | "Hant"
+  | "Hebr"
+  | "Jpan"
+  | "Knda"
+  | "Kore"
+  | "Latn"
+  | "Mlym"
+  | "Taml"
+  | "Telu"
+  | "Thai";
+
+export type WritingDirection = "ltr" | "rtl";
+
+export interface LanguageDefinition {
+  code: string;
+  /** English name, used in labels and, without `promptName`, in prompts. */
+  name: string;
+  /** How prompts name the language when `name` is ambiguous for the model. */
+  promptName?: string;
+  /** Extra instruction for translations into this variant. */
+  promptHint?: string;
+  nativeName: string;
+  script: LanguageScript;
+  direction: WritingDirection;
+  /** Deprecated, regional, or alternative tags that resolve to this code. */
+  aliases?: readonly string[];
+}
 
 export type ProcessingMode = "translate" | "correct";
-export type InferenceProvider = "ollama" | "llamacpp";
+// Provider ids are resolved through the adapter registry in services/inferenceProviders.
+export type InferenceProvider = string;
+
+export interface ProviderEndpoint {
+  id: string;
+  provider: InferenceProvider;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
 
 export interface TranslationProgress {
   completedChunks: number;
   totalChunks: number;
+  /** Zero-based indexes of chunks whose requests are in flight. */
+  activeChunks?: readonly number[];
+  retry?: TranslationRetry;
+}
+
+export interface TranslationRetry {
+  /** Zero-based index of the chunk waiting to be re-sent. */
+  chunk: number;
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+/** Glossary entries keyed by `source>target` language pair. */
+export type Glossary = Record<string, GlossaryEntry[]>;
+
+export interface GlossaryWarning {
+  /** Zero-based index of the chunk whose translation lacks required terms. */
+  chunk: number;
+  totalChunks: number;
+  missingTerms: string[];
+}
+
+export interface SubtitleLineWarning {
+  /** Zero-based index of the translated cue. */
+  cue: number;
+  /** Length of its longest line in characters, without styling tags. */
+  longestLine: number;
+}
+
+export interface TranslationFailure {
+  /** Zero-based index of the chunk whose request failed. */
+  failedChunk: number;
+  completedChunks: number;
+  totalChunks: number;
+}
+
+/** A similar segment from the translation memory offered for one chunk. */
+export interface TranslationSuggestion {
+  /** Zero-based index of the chunk the suggestion applies to. */
+  chunk: number;
+  source: string;
+  translation: string;
+  /** Token-level similarity between the chunk and the stored source, 0–1. */
+  similarity: number;
 }
 
+export interface DetectedLanguageSegment {
+  /** Zero-based indexes of the first and last chunk written in `language`. */
+  firstChunk: number;
+  lastChunk: number;
+  language: string;
+  /** Whether the segment was already in the target language and kept as written. */
+  passedThrough: boolean;
+}
+
+/** How a document's structure is kept out of the translation. */
+export type DocumentFormat =
+  | "text"
+  | "markdown"
+  | "html"
+  | "subtitles"
+  | "po"
+  | "json"
+  | "xliff"
+  | "android"
+  | "strings"
+  | "stringsdict";
+
 export interface DropdownOption {
   value: string;
   label: string;
+  group?: string;
+  /** Secondary text shown next to the label. */
+  description?: string;
+  /** Extra terms a searchable dropdown matches. */
+  keywords?: readonly string[];
 }
 
 export interface LanguageOption extends DropdownOption {
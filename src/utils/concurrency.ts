@@ -0,0 +1,31 @@
+/**
+ * Map items through a bounded async worker pool while preserving result order.
+ * After the first rejection no further items are started; the returned promise
+ * rejects with that failure once the items already in flight have settled.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+  const failures: unknown[] = [];
+
+  const worker = async (): Promise<void> => {
+    while (!failures.length && nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      try {
+        results[index] = await mapper(items[index] as T, index);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  if (failures.length) throw failures[0];
+  return results;
+};
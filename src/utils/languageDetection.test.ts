@@ -2,6 +2,8 @@ import { describe, expect, it } from "bun:test";
 import {
   detectMixedLanguageSignal,
   detectStrongLanguageSignal,
+  getStrongLanguageSignal,
+  normalizeDetectedLanguageCode,
 } from "./languageDetection";
 
 describe("strong language signals", () => {
@@ -17,6 +19,31 @@ describe("strong language signals", () => {
     expect(detectStrongLanguageSignal("The date is not final.")).toBe("en");
   });
 
+  it("decides non-Latin scripts without word clues and reports the evidence", () => {
+    expect(getStrongLanguageSignal("Вы говорите по-русски?")).toEqual({
+      language: "ru",
+      confidence: "high",
+      basis: "script",
+      score: 18,
+      margin: 18,
+      evidence: ["Cyrl 100%", "ы"],
+    });
+    expect(getStrongLanguageSignal("El gat dorm al sofà.")?.basis).toBe("clues");
+  });
+
+  it("decides longer Latin-script text from trigram profiles before word clues", () => {
+    expect(
+      getStrongLanguageSignal(
+        "De vergadering is verplaatst naar maandag omdat twee leden van het team ontbreken.",
+      ),
+    ).toMatchObject({ language: "nl", basis: "trigrams" });
+    expect(
+      detectStrongLanguageSignal(
+        "Perdí las llaves de casa y tuve que llamar a mi hermano, que vino enseguida.",
+      ),
+    ).toBe("es");
+  });
+
   it("abstains when the text has no strong language evidence", () => {
     expect(detectStrongLanguageSignal("12345")).toBeNull();
     expect(detectStrongLanguageSignal("Hola")).toBeNull();
@@ -26,4 +53,36 @@ describe("strong language signals", () => {
     expect(detectMixedLanguageSignal("El gato is on the sofa.")).toBe(true);
     expect(detectMixedLanguageSignal("El gato duerme en el sofá.")).toBe(false);
   });
+
+  it("flags sentences profiled as different languages as mixed", () => {
+    expect(
+      detectMixedLanguageSignal(
+        "Das Treffen wurde auf Montag verschoben, weil zwei Mitglieder fehlen. The meeting has been moved to Monday because two members are away.",
+      ),
+    ).toBe(true);
+    expect(
+      detectMixedLanguageSignal(
+        "Das Treffen wurde auf Montag verschoben, weil zwei Mitglieder fehlen. Ich habe meinen Schlüssel verloren und musste meinen Bruder anrufen.",
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("detected language codes", () => {
+  it("maps regional tags, legacy aliases, and names onto registry codes", () => {
+    expect(normalizeDetectedLanguageCode("pt-BR")).toBe("pt-BR");
+    expect(normalizeDetectedLanguageCode("zh_TW")).toBe("zh-Hant");
+    expect(normalizeDetectedLanguageCode("pt-AO")).toBe("pt");
+    expect(normalizeDetectedLanguageCode("Brazilian Portuguese")).toBe("pt-BR");
+    expect(normalizeDetectedLanguageCode("iw")).toBe("he");
+    expect(normalizeDetectedLanguageCode("tl")).toBe("fil");
+    expect(normalizeDetectedLanguageCode("nb_NO")).toBe("no");
+    expect(normalizeDetectedLanguageCode("Ukrainian")).toBe("uk");
+    expect(normalizeDetectedLanguageCode("Nederlands")).toBe("nl");
+  });
+
+  it("rejects codes outside the registry", () => {
+    expect(normalizeDetectedLanguageCode("unknown")).toBeNull();
+    expect(normalizeDetectedLanguageCode("xx")).toBeNull();
+  });
 });
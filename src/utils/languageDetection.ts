@@ -1,4 +1,11 @@
-import { languageOptions } from "../data/constants";
+import {
+  LANGUAGES,
+  resolveLanguageCode,
+  SUPPORTED_LANGUAGE_CODES,
+} from "../data/languages";
+import type { LanguageDefinition } from "../types";
+import { detectScriptLanguage, type ScriptConfidence } from "./scriptAnalysis";
+import { detectTrigramLanguage } from "./trigramClassifier";
 
 type LanguageClues = {
   tokens: readonly string[];
@@ -8,7 +15,9 @@ type LanguageClues = {
 
 export type StrongLanguageSignal = {
   language: string;
-  confidence: "high";
+  confidence: ScriptConfidence;
+  /** Whether the writing system, Latin-script word clues, or trigram profiles decided. */
+  basis: "script" | "clues" | "trigrams";
   score: number;
   margin: number;
   evidence: string[];
@@ -50,11 +59,13 @@ const STRONG_LANGUAGE_CLUES: Record<string, LanguageClues> = {
   },
 };
 
-export const SUPPORTED_LANGUAGE_CODES = languageOptions
-  .map((option) => option.value)
-  .filter((code) => code !== "auto");
+export { SUPPORTED_LANGUAGE_CODES };
+
+// Sentences checked for code-switching; enough to catch it without classifying
+// every sentence of a long document.
+const MAX_MIXED_SENTENCES = 20;
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+|\n+/;
 
-const SUPPORTED_LANGUAGE_CODE_SET = new Set(SUPPORTED_LANGUAGE_CODES);
 const normalizeLanguageLabel = (value: string): string =>
   value
     .toLowerCase()
@@ -62,9 +73,11 @@ const normalizeLanguageLabel = (value: string): string =>
     .trim();
 
 const LANGUAGE_CODE_BY_LABEL = new Map(
-  languageOptions
-    .filter(({ value }) => value !== "auto")
-    .map(({ value, label }) => [normalizeLanguageLabel(label), value]),
+  LANGUAGES.flatMap(({ code, name, nativeName, promptName }: LanguageDefinition) =>
+    [name, nativeName, promptName ?? ""]
+      .map((label): [string, string] => [normalizeLanguageLabel(label), code])
+      .filter(([label]) => label),
+  ),
 );
 
 const normalizeForClues = (text: string): string =>
@@ -91,6 +104,32 @@ const scoreLanguageClues = (text: string) => {
 };
 
 export const getStrongLanguageSignal = (text: string): StrongLanguageSignal | null => {
+  const scriptSignal = detectScriptLanguage(text);
+  if (scriptSignal) {
+    return {
+      language: scriptSignal.language,
+      confidence: scriptSignal.confidence,
+      basis: "script",
+      score: scriptSignal.letters,
+      margin: scriptSignal.margin,
+      evidence: scriptSignal.evidence,
+    };
+  }
+
+  // Profiles see every word of longer text, so they outrank the clue words;
+  // short text falls through to the clues.
+  const trigramSignal = detectTrigramLanguage(text);
+  if (trigramSignal) {
+    return {
+      language: trigramSignal.language,
+      confidence: trigramSignal.confidence,
+      basis: "trigrams",
+      score: trigramSignal.trigrams,
+      margin: trigramSignal.margin,
+      evidence: trigramSignal.evidence,
+    };
+  }
+
   const scores = scoreLanguageClues(text);
 
   scores.sort((left, right) => right.score - left.score);
@@ -100,21 +139,35 @@ export const getStrongLanguageSignal = (text: string): StrongLanguageSignal | nu
   return {
     language: best.language,
     confidence: "high",
+    basis: "clues",
     score: best.score,
     margin: best.score - (runnerUp?.score ?? 0),
     evidence: best.evidence,
   };
 };
 
+// Two sentences confidently profiled as different languages mean the text
+// switches language, even when no single clue word gives it away.
+const hasSentencesInDifferentLanguages = (text: string): boolean => {
+  const languages = new Set<string>();
+  for (const sentence of text.split(SENTENCE_BOUNDARY).slice(0, MAX_MIXED_SENTENCES)) {
+    const signal = detectTrigramLanguage(sentence);
+    if (signal?.confidence === "high") languages.add(signal.language);
+    if (languages.size > 1) return true;
+  }
+  return false;
+};
+
 export const detectMixedLanguageSignal = (text: string): boolean => {
   const scores = scoreLanguageClues(text)
     .filter(({ score }) => score > 0)
     .sort((left, right) => right.score - left.score);
   const [best, runnerUp] = scores;
 
-  return Boolean(
-    best && runnerUp && runnerUp.score > 0 && best.score - runnerUp.score <= 1,
-  );
+  if (best && runnerUp && runnerUp.score > 0 && best.score - runnerUp.score <= 1) {
+    return true;
+  }
+  return hasSentencesInDifferentLanguages(text);
 };
 
 export const detectStrongLanguageSignal = (text: string): string | null =>
@@ -127,8 +180,9 @@ export const normalizeDetectedLanguageCode = (raw: string): string | null => {
   const candidate = cleaned.split(/\s+/)[0].replace(/[^a-z_-]/g, "");
   if (!candidate) return null;
 
-  const base = candidate.split(/[-_]/)[0];
-  if (SUPPORTED_LANGUAGE_CODE_SET.has(base)) return base;
+  // Regional tags outside the registry fall back to their base language.
+  const code = resolveLanguageCode(candidate);
+  if (code) return code;
 
   const normalizedLabel = normalizeLanguageLabel(cleaned);
   return (
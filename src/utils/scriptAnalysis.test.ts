@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import { analyzeScripts, detectScriptLanguage } from "./scriptAnalysis";
+
+const language = (text: string) => detectScriptLanguage(text)?.language ?? null;
+
+describe("script analysis", () => {
+  it("reports the share of letters in each script, most frequent first", () => {
+    const { letters, scripts } = analyzeScripts("Привет, mir!");
+
+    expect(letters).toBe(9);
+    expect(scripts.map(({ script, letters: count }) => [script, count])).toEqual([
+      ["Cyrl", 6],
+      ["Latn", 3],
+    ]);
+  });
+
+  it("decides scripts written by a single language", () => {
+    expect(language("안녕하세요. 오늘 날씨가 좋네요.")).toBe("ko");
+    expect(language("今日は東京で会議があります。")).toBe("ja");
+    expect(language("Καλημέρα, τι κάνεις;")).toBe("el");
+    expect(language("שלום, מה שלומך?")).toBe("he");
+    expect(language("สวัสดีครับ")).toBe("th");
+    expect(language("আমি ভাত খাই।")).toBe("bn");
+    expect(language("வணக்கம்")).toBe("ta");
+    expect(detectScriptLanguage("안녕하세요")).toMatchObject({
+      confidence: "high",
+      evidence: ["Hang 100%"],
+    });
+  });
+
+  it("splits shared scripts by distinctive letters and words", () => {
+    expect(language("Привіт, як справи? Їжак.")).toBe("uk");
+    expect(language("Здраво, како си? Љубав.")).toBe("sr");
+    expect(language("Здравей, къде си?")).toBe("bg");
+    expect(language("Вы говорите по-русски?")).toBe("ru");
+    expect(language("مرحبا، كيف حالك؟")).toBe("ar");
+    expect(language("سلام، حال شما چطور است؟")).toBe("fa");
+    expect(language("آپ کیسے ہیں؟ میں ٹھیک ہوں۔")).toBe("ur");
+    expect(language("मैं घर जा रहा हूँ और वह यहाँ है।")).toBe("hi");
+    expect(language("मी घरी जात आहे आणि तो इथे आहे.")).toBe("mr");
+    expect(language("我们今天去学校。")).toBe("zh");
+    expect(language("我們今天去學校。")).toBe("zh-Hant");
+  });
+
+  it("falls back with medium confidence when nothing separates the candidates", () => {
+    expect(detectScriptLanguage("Привет, как дела?")).toMatchObject({
+      language: "ru",
+      confidence: "medium",
+    });
+    expect(detectScriptLanguage("天气很好")).toMatchObject({
+      language: "zh",
+      confidence: "medium",
+    });
+  });
+
+  it("abstains on Latin text, short Han text, and mixed scripts", () => {
+    expect(detectScriptLanguage("The cat is sleeping.")).toBeNull();
+    expect(detectScriptLanguage("東京")).toBeNull();
+    expect(detectScriptLanguage("Hello there, Привет")).toBeNull();
+    expect(detectScriptLanguage("12345")).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { LANGUAGES } from "../data/languages";
+import type { LanguageDefinition } from "../types";
+
+export type ScriptConfidence = "high" | "medium";
+
+export interface ScriptShare {
+  /** ISO 15924 code; `Kana` covers Hiragana and Katakana, `Hani` Han ideographs. */
+  script: string;
+  letters: number;
+  share: number;
+}
+
+export interface ScriptDistribution {
+  letters: number;
+  /** Scripts present in the text, most frequent first. */
+  scripts: ScriptShare[];
+}
+
+export interface ScriptLanguageSignal {
+  language: string;
+  confidence: ScriptConfidence;
+  script: string;
+  letters: number;
+  /** Letters of the dominant script minus those of the runner-up. */
+  margin: number;
+  evidence: string[];
+}
+
+type MarkerRule = {
+  language: string;
+  pattern: RegExp;
+};
+
+// Letters and marks only, so vowel signs count and script punctuation does not.
+const scriptLetters = (scripts: string): RegExp =>
+  new RegExp(String.raw`(?=[\p{L}\p{M}])[${scripts}]`, "gu");
+
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  Arab: scriptLetters(String.raw`\p{Script_Extensions=Arabic}`),
+  Beng: scriptLetters(String.raw`\p{Script_Extensions=Bengali}`),
+  Cyrl: scriptLetters(String.raw`\p{Script_Extensions=Cyrillic}`),
+  Deva: scriptLetters(String.raw`\p{Script_Extensions=Devanagari}`),
+  Grek: scriptLetters(String.raw`\p{Script_Extensions=Greek}`),
+  Gujr: scriptLetters(String.raw`\p{Script_Extensions=Gujarati}`),
+  Guru: scriptLetters(String.raw`\p{Script_Extensions=Gurmukhi}`),
+  Hani: scriptLetters(String.raw`\p{Script=Han}`),
+  Hebr: scriptLetters(String.raw`\p{Script_Extensions=Hebrew}`),
+  Hang: scriptLetters(String.raw`\p{Script=Hangul}`),
+  Kana: scriptLetters(
+    String.raw`\p{Script_Extensions=Hiragana}\p{Script_Extensions=Katakana}`,
+  ),
+  Knda: scriptLetters(String.raw`\p{Script_Extensions=Kannada}`),
+  Latn: scriptLetters(String.raw`\p{Script=Latin}`),
+  Mlym: scriptLetters(String.raw`\p{Script_Extensions=Malayalam}`),
+  Taml: scriptLetters(String.raw`\p{Script_Extensions=Tamil}`),
+  Telu: scriptLetters(String.raw`\p{Script_Extensions=Telugu}`),
+  Thai: scriptLetters(String.raw`\p{Script_Extensions=Thai}`),
+};
+const LETTER = /[\p{L}\p{M}]/gu;
+
+// The dominant script must cover this share of letters; otherwise the text is
+// treated as mixed and left to the word clues or the model.
+export const DOMINANT_SHARE = 0.6;
+// Japanese can be written in kanji alone, so short Han-only text stays unclaimed.
+const MIN_HAN_ONLY_LETTERS = 4;
+
+// Letters and words that separate languages sharing a script. The first rule
+// with a match wins; without any match the fallback gets medium confidence.
+const SCRIPT_MARKERS: Record<string, { rules: MarkerRule[]; fallback: string }> = {
+  Arab: {
+    rules: [
+      { language: "ur", pattern: /[ٹڈڑںےۓ]/gu },
+      { language: "fa", pattern: /[پچژگکی]/gu },
+      { language: "ar", pattern: /[ةىيك]/gu },
+    ],
+    fallback: "ar",
+  },
+  Cyrl: {
+    rules: [
+      { language: "uk", pattern: /[іїєґІЇЄҐ]/gu },
+      { language: "sr", pattern: /[ђјљњћџЂЈЉЊЋЏ]/gu },
+      { language: "ru", pattern: /[ыэёЫЭЁ]/gu },
+      { language: "bg", pattern: /[ъЪ]/gu },
+    ],
+    fallback: "ru",
+  },
+  Deva: {
+    rules: [
+      { language: "mr", pattern: /ळ|(?<!\p{L})(?:आहे|आहेत|आणि|नाही)(?!\p{L})/gu },
+      { language: "hi", pattern: /(?<!\p{L})(?:है|हैं|और|नहीं|में)(?!\p{L})/gu },
+    ],
+    fallback: "hi",
+  },
+  Hani: {
+    rules: [
+      {
+        language: "zh-Hant",
+        pattern: /[們這個來說會國學時後為對開關與麼體點經過還讓書電話車]/gu,
+      },
+      {
+        language: "zh",
+        pattern: /[们这个来说会国学时后为对开关与么体点经过还让书电话车]/gu,
+      },
+    ],
+    fallback: "zh",
+  },
+};
+
+// Scripts written by exactly one registry language decide it on their own,
+// including Kore (Hangul with any Han) and Jpan (kana with any Han).
+const SINGLE_LANGUAGE_SCRIPTS = new Map<string, string>(
+  Object.entries(
+    LANGUAGES.reduce<Record<string, string[]>>(
+      (byScript, { code, script }: LanguageDefinition) => {
+        byScript[script] = [...(byScript[script] ?? []), code];
+        return byScript;
+      },
+      {},
+    ),
+  )
+    .filter(([, codes]) => codes.length === 1)
+    .map(([script, [code]]) => [script, code]),
+);
+
+export const analyzeScripts = (text: string): ScriptDistribution => {
+  const letters = text.match(LETTER)?.length ?? 0;
+  const scripts = Object.entries(SCRIPT_PATTERNS)
+    .map(([script, pattern]) => {
+      const count = text.match(pattern)?.length ?? 0;
+      return { script, letters: count, share: letters ? count / letters : 0 };
+    })
+    .filter(({ letters: count }) => count > 0)
+    .sort((left, right) => right.letters - left.letters);
+  return { letters, scripts };
+};
+
+const formatShare = ({ script, share }: ScriptShare): string =>
+  `${script} ${Math.round(share * 100)}%`;
+
+const resolveByMarkers = (
+  text: string,
+  script: string,
+): { language: string; markers: string[] } | null => {
+  const markers = SCRIPT_MARKERS[script];
+  if (!markers) return null;
+  for (const { language, pattern } of markers.rules) {
+    const found = [...new Set(text.match(pattern) ?? [])];
+    if (found.length) return { language, markers: found.slice(0, 5) };
+  }
+  return { language: markers.fallback, markers: [] };
+};
+
+/**
+ * Decide the language from the writing system alone. Hangul means Korean and
+ * kana means Japanese; scripts shared by several languages are split by
+ * distinctive letters or function words, and fall back with medium confidence.
+ * Latin-script text returns null.
+ */
+export const detectScriptLanguage = (text: string): ScriptLanguageSignal | null => {
+  const { letters, scripts } = analyzeScripts(text);
+  if (!letters) return null;
+
+  const count = (script: string): number =>
+    scripts.find((share) => share.script === script)?.letters ?? 0;
+  // Han ideographs count toward Japanese and Korean when kana or Hangul is present.
+  const hangul = count("Hang");
+  const kana = count("Kana");
+  const han = count("Hani");
+  const groups = scripts
+    .filter(({ script }) => !["Hang", "Kana", "Hani"].includes(script))
+    .map(({ script, letters: total }) => ({ script, letters: total }));
+  if (hangul || kana || han) {
+    const script = hangul >= kana && hangul ? "Kore" : kana ? "Jpan" : "Hani";
+    groups.push({ script, letters: hangul + kana + han });
+  }
+  groups.sort((left, right) => right.letters - left.letters);
+
+  const [dominant, runnerUp] = groups;
+  if (!dominant || dominant.script === "Latn") return null;
+  if (dominant.letters / letters < DOMINANT_SHARE) return null;
+
+  const signal = {
+    script: dominant.script,
+    letters: dominant.letters,
+    margin: dominant.letters - (runnerUp?.letters ?? 0),
+  };
+  const distribution = scripts.map(formatShare).slice(0, 3);
+
+  const single = SINGLE_LANGUAGE_SCRIPTS.get(dominant.script);
+  if (single) {
+    return { ...signal, language: single, confidence: "high", evidence: distribution };
+  }
+
+  if (dominant.script === "Hani" && han < MIN_HAN_ONLY_LETTERS) return null;
+  const resolved = resolveByMarkers(text, dominant.script);
+  if (!resolved) return null;
+  return {
+    ...signal,
+    language: resolved.language,
+    confidence: resolved.markers.length ? "high" : "medium",
+    evidence: [...distribution, ...resolved.markers],
+  };
+};
@@ -2,9 +2,13 @@ import { describe, expect, it } from "bun:test";
 import {
   countWords,
   filterOutputLanguages,
+  formatHeaderLines,
+  getFallbackLanguage,
   isAbortError,
+  isSameTargetLanguage,
   isSourceLanguageMismatch,
-  parseModelReference,
+  normalizeBaseUrl,
+  parseHeaderLines,
   selectInitialModel,
   shouldScheduleAutoTranslation,
   withInactivityTimeout,
@@ -108,22 +112,48 @@ describe("model and text transforms", () => {
     ]);
   });
 
+  it("falls back to English, then to the first target language", () => {
+    const options = [
+      { value: "ar", label: "Arabic" },
+      { value: "en", label: "English" },
+    ];
+
+    expect(getFallbackLanguage(options)?.value).toBe("en");
+    expect(getFallbackLanguage(options.slice(0, 1))?.value).toBe("ar");
+    expect(getFallbackLanguage([])).toBeUndefined();
+  });
+
   it("rejects detected text that conflicts with a manual source language", () => {
     expect(isSourceLanguageMismatch("es", "en")).toBe(true);
     expect(isSourceLanguageMismatch("es", "es")).toBe(false);
     expect(isSourceLanguageMismatch("auto", "en")).toBe(false);
     expect(isSourceLanguageMismatch("es", null)).toBe(false);
+    expect(isSourceLanguageMismatch("pt-BR", "pt")).toBe(false);
+    expect(isSourceLanguageMismatch("pt-BR", "pt-PT")).toBe(false);
+    expect(isSourceLanguageMismatch("pt-BR", "es")).toBe(true);
   });
 
-  it("preserves provider namespaces and model names", () => {
-    expect(parseModelReference("ollama:translategemma:4b")).toEqual({
-      provider: "ollama",
-      model: "translategemma:4b",
-    });
-    expect(parseModelReference("llamacpp:local.gguf")).toEqual({
-      provider: "llamacpp",
-      model: "local.gguf",
-    });
+  it("treats a variant into its base language as the same language", () => {
+    expect(isSameTargetLanguage("pt-BR", "pt-BR")).toBe(true);
+    expect(isSameTargetLanguage("pt-BR", "pt")).toBe(true);
+    expect(isSameTargetLanguage("pt", "pt-BR")).toBe(false);
+    expect(isSameTargetLanguage("pt-BR", "pt-PT")).toBe(false);
+  });
+
+  it("accepts only http(s) provider base URLs", () => {
+    expect(normalizeBaseUrl(" http://192.168.1.20:11434/api/ ")).toBe(
+      "http://192.168.1.20:11434/api",
+    );
+    expect(normalizeBaseUrl("ftp://example.com")).toBeNull();
+    expect(normalizeBaseUrl("not a url")).toBeNull();
+  });
+
+  it("round-trips custom header lines and skips malformed ones", () => {
+    const headers = parseHeaderLines(
+      "X-Api-Version: 2024-01\nmalformed line\nBad Name: value\r\nX-Empty:",
+    );
+    expect(headers).toEqual({ "X-Api-Version": "2024-01", "X-Empty": "" });
+    expect(formatHeaderLines(headers)).toBe("X-Api-Version: 2024-01\nX-Empty: ");
   });
 
   it("selects the current model, then favorite, then first available", () => {
@@ -1,49 +1,41 @@
-import type {
-  DropdownOption,
-  InferenceProvider,
-  LlamaCppModelsResponse,
-  OllamaTagsResponse,
-} from "../types";
-
-const MODEL_REFERENCE_SEPARATOR = ":";
-
-const isInferenceProvider = (value: string): value is InferenceProvider =>
-  value === "ollama" || value === "llamacpp";
-
-export const createModelReference = (
-  provider: InferenceProvider,
-  model: string,
-): string => `${provider}${MODEL_REFERENCE_SEPARATOR}${model}`;
-
-export const parseModelReference = (
-  reference: string,
-): { provider: InferenceProvider; model: string } => {
-  const separatorIndex = reference.indexOf(MODEL_REFERENCE_SEPARATOR);
-  if (separatorIndex < 0) return { provider: "ollama", model: reference };
-
-  const provider = reference.slice(0, separatorIndex);
-  const model = reference.slice(separatorIndex + 1);
-  if (!isInferenceProvider(provider)) {
-    return { provider: "ollama", model: reference };
+import { getBaseLanguageCode } from "../data/languages";
+import type { DropdownOption, InferenceProvider } from "../types";
+
+export const normalizeBaseUrl = (value: string): string | null => {
+  const trimmed = value.trim().replace(/\/+$/u, "");
+  if (!trimmed) return null;
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "http:" || url.protocol === "https:" ? trimmed : null;
+  } catch {
+    return null;
   }
-  return { provider, model };
 };
 
-export const mapOllamaModelsToOptions = (
-  response: OllamaTagsResponse,
-): DropdownOption[] =>
-  response.models.map((model) => ({
-    value: createModelReference("ollama", model.name),
-    label: `${model.name} · Ollama`,
-  }));
+export const hashText = (text: string): string => {
+  let hash = 2166136261;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return `${text.length}:${hash >>> 0}`;
+};
 
-export const mapLlamaCppModelsToOptions = (
-  response: LlamaCppModelsResponse,
-): DropdownOption[] =>
-  response.data.map((model) => ({
-    value: createModelReference("llamacpp", model.id),
-    label: `${model.id.split("/").pop() || model.id} · llama.cpp`,
-  }));
+export const parseHeaderLines = (value: string): Record<string, string> =>
+  Object.fromEntries(
+    value.split(/\r?\n/u).flatMap((line) => {
+      const separatorIndex = line.indexOf(":");
+      if (separatorIndex <= 0) return [];
+      const name = line.slice(0, separatorIndex).trim();
+      const headerValue = line.slice(separatorIndex + 1).trim();
+      return /^[!#$%&'*+.^`|~\w-]+$/u.test(name) ? [[name, headerValue]] : [];
+    }),
+  );
+
+export const formatHeaderLines = (headers: Record<string, string> = {}): string =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
 
 export const addFavoriteMarker = (
   options: DropdownOption[],
@@ -68,21 +60,44 @@ export const filterOutputLanguages = <T extends { value: string }>(
 ): T[] =>
   options.filter((option) => option.value !== "auto" && option.value !== inputLanguage);
 
+/**
+ * A variant source into its own base language (`pt-BR` into `pt`) is the same
+ * language; the reverse asks for a regional adaptation.
+ */
+export const isSameTargetLanguage = (
+  sourceLanguage: string,
+  targetLanguage: string,
+): boolean =>
+  sourceLanguage === targetLanguage ||
+  getBaseLanguageCode(sourceLanguage) === targetLanguage;
+
+/** Regional variants of the same base language never count as a mismatch. */
 export const isSourceLanguageMismatch = (
   inputLanguage: string,
   detectedLanguage: string | null,
 ): boolean =>
   inputLanguage !== "auto" &&
   detectedLanguage !== null &&
-  detectedLanguage !== inputLanguage;
+  getBaseLanguageCode(detectedLanguage) !== getBaseLanguageCode(inputLanguage);
 
 export const findOptionByValue = <T extends { value: string }>(
   options: T[],
   value: string,
 ): T | undefined => options.find((opt) => opt.value === value);
 
+/** English when it is available, otherwise the first option. */
+export const getFallbackLanguage = <T extends { value: string }>(
+  options: T[],
+): T | undefined => findOptionByValue(options, "en") ?? options[0];
+
 export const generateToastId = (): string => `${Date.now()}-${Math.random()}`;
 
+export const generateEndpointId = (provider: InferenceProvider): string =>
+  `${provider}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const generateGlossaryEntryId = (): string =>
+  `term-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
 export const countWords = (text: string): number =>
   text.trim().match(/\S+/g)?.length ?? 0;
 
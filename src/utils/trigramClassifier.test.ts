@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test";
+import {
+  classifyTrigrams,
+  countTrigrams,
+  detectTrigramLanguage,
+  rankTrigrams,
+} from "./trigramClassifier";
+
+const language = (text: string) => detectTrigramLanguage(text)?.language ?? null;
+
+describe("trigram classifier", () => {
+  it("counts trigrams of lowercased Latin words padded with spaces", () => {
+    const counts = countTrigrams("El gato, ¡EL 42 gato!");
+
+    expect(counts.get(" el")).toBe(2);
+    expect(counts.get("ato")).toBe(2);
+    expect(counts.get("o e")).toBe(1);
+    expect(rankTrigrams(countTrigrams("aaa"))).toEqual([" aa", "aa ", "aaa"]);
+  });
+
+  it("ranks every profile with margins, most similar first", () => {
+    const classification = classifyTrigrams(
+      "Das Treffen wurde auf Montag verschoben, weil zwei Mitglieder des Teams fehlen.",
+    );
+    const similarities = classification?.ranking.map(({ similarity }) => similarity);
+
+    expect(classification?.ranking[0].language).toBe("de");
+    expect(classification?.ranking).toHaveLength(29);
+    expect(similarities).toEqual([...(similarities ?? [])].sort((a, b) => b - a));
+    expect(classification?.margin).toBeGreaterThan(0);
+    expect(classifyTrigrams("Привет 12345")).toBeNull();
+  });
+
+  it("tells close Romance languages apart in a full sentence", () => {
+    expect(
+      language("La reunión se ha aplazado hasta el lunes porque faltan dos."),
+    ).toBe("es");
+    expect(
+      language("La reunió s'ha ajornat fins dilluns perquè falten dos membres."),
+    ).toBe("ca");
+    expect(
+      language("A reunião foi adiada para segunda-feira porque faltam dois."),
+    ).toBe("pt");
+    expect(
+      language("La réunion a été reportée à lundi parce que deux sont absents."),
+    ).toBe("fr");
+    expect(
+      language("La riunione è stata rinviata a lunedì perché mancano due membri."),
+    ).toBe("it");
+  });
+
+  it("abstains on short text and text mostly in another script", () => {
+    expect(detectTrigramLanguage("El gato duerme.")).toBeNull();
+    expect(
+      detectTrigramLanguage("Primero.\n\nSegundo, corregido.\n\nTercero."),
+    ).toBeNull();
+    expect(
+      detectTrigramLanguage("Привет, как дела? Я давно тебя не видел, hello there."),
+    ).toBeNull();
+  });
+
+  it("reports the closest profiles as evidence", () => {
+    const signal = detectTrigramLanguage(
+      "I lost my house keys and had to call my brother, who came over straight away.",
+    );
+
+    expect(signal).toMatchObject({ language: "en", confidence: "high" });
+    expect(signal?.evidence).toHaveLength(3);
+    expect(signal?.evidence[0]).toMatch(/^en 0\.\d{3}$/);
+  });
+});
@@ -0,0 +1,136 @@
+import { TRIGRAM_PROFILES } from "../data/trigramProfiles";
+import {
+  analyzeScripts,
+  DOMINANT_SHARE,
+  type ScriptConfidence,
+} from "./scriptAnalysis";
+
+export interface TrigramScore {
+  language: string;
+  /** 1 when the input ranks its trigrams exactly like the profile, 0 when none match. */
+  similarity: number;
+}
+
+export interface TrigramClassification {
+  /** Distinct trigrams compared against the profiles. */
+  trigrams: number;
+  /** Profiled languages, most similar first. */
+  ranking: TrigramScore[];
+  /** Similarity of the best language minus that of the runner-up. */
+  margin: number;
+}
+
+export interface TrigramLanguageSignal {
+  language: string;
+  confidence: ScriptConfidence;
+  trigrams: number;
+  similarity: number;
+  margin: number;
+  evidence: string[];
+}
+
+// Profiles keep this many trigrams; a trigram missing from a profile costs as
+// much as one ranked at the very end.
+export const PROFILE_SIZE = 400;
+const MAX_INPUT_TRIGRAMS = PROFILE_SIZE;
+// Fewer trigrams than this (roughly six short words) rank too noisily to decide;
+// that text is left to the model.
+const MIN_TRIGRAMS = 30;
+const MIN_MARGIN = 0.025;
+const HIGH_MARGIN = 0.04;
+
+const LATIN_RUN = /[\p{Script=Latin}\p{M}]+/gu;
+
+/**
+ * Count the character trigrams of the Latin-script words in `text`, lowercased
+ * and padded with a space on each side, as the profiles were built.
+ */
+export const countTrigrams = (text: string): Map<string, number> => {
+  const words = text.normalize("NFC").toLowerCase().match(LATIN_RUN) ?? [];
+  const counts = new Map<string, number>();
+  if (!words.length) return counts;
+
+  const padded = ` ${words.join(" ")} `;
+  for (let index = 0; index + 3 <= padded.length; index += 1) {
+    const trigram = padded.slice(index, index + 3);
+    counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/** Trigrams ordered by frequency, then alphabetically so profiles are stable. */
+export const rankTrigrams = (counts: Map<string, number>): string[] =>
+  [...counts.entries()]
+    .sort(([left, leftCount], [right, rightCount]) =>
+      rightCount === leftCount ? left.localeCompare(right) : rightCount - leftCount,
+    )
+    .map(([trigram]) => trigram);
+
+let profileRanks: Map<string, Map<string, number>> | null = null;
+
+const getProfileRanks = (): Map<string, Map<string, number>> => {
+  if (!profileRanks) {
+    profileRanks = new Map(
+      Object.entries(TRIGRAM_PROFILES).map(([language, profile]) => [
+        language,
+        new Map(profile.split("|").map((trigram, rank) => [trigram, rank])),
+      ]),
+    );
+  }
+  return profileRanks;
+};
+
+/**
+ * Rank the profiled languages by the out-of-place distance between their
+ * trigram profile and the input's own trigram ranking. Returns null when the
+ * text has no Latin-script letters.
+ */
+export const classifyTrigrams = (text: string): TrigramClassification | null => {
+  const ranked = rankTrigrams(countTrigrams(text)).slice(0, MAX_INPUT_TRIGRAMS);
+  if (!ranked.length) return null;
+
+  const maxDistance = ranked.length * PROFILE_SIZE;
+  const ranking = [...getProfileRanks()]
+    .map(([language, ranks]) => {
+      const distance = ranked.reduce((sum, trigram, index) => {
+        const rank = ranks.get(trigram);
+        return sum + (rank === undefined ? PROFILE_SIZE : Math.abs(rank - index));
+      }, 0);
+      return { language, similarity: 1 - distance / maxDistance };
+    })
+    .sort((left, right) => right.similarity - left.similarity);
+
+  const [best, runnerUp] = ranking;
+  return {
+    trigrams: ranked.length,
+    ranking,
+    margin: best.similarity - (runnerUp?.similarity ?? 0),
+  };
+};
+
+const formatScore = ({ language, similarity }: TrigramScore): string =>
+  `${language} ${similarity.toFixed(3)}`;
+
+/**
+ * Decide a Latin-script language from its trigram profile alone. Abstains on
+ * short text, text mostly in another script, and when the two closest profiles
+ * are too near to call.
+ */
+export const detectTrigramLanguage = (text: string): TrigramLanguageSignal | null => {
+  const [dominant] = analyzeScripts(text).scripts;
+  if (dominant?.script !== "Latn" || dominant.share < DOMINANT_SHARE) return null;
+
+  const classification = classifyTrigrams(text);
+  if (!classification || classification.trigrams < MIN_TRIGRAMS) return null;
+  if (classification.margin < MIN_MARGIN) return null;
+
+  const [best] = classification.ranking;
+  return {
+    language: best.language,
+    confidence: classification.margin >= HIGH_MARGIN ? "high" : "medium",
+    trigrams: classification.trigrams,
+    similarity: best.similarity,
+    margin: classification.margin,
+    evidence: classification.ranking.slice(0, 3).map(formatScore),
+  };
+};